@@ -39,6 +39,7 @@ import {
 import {
   getWorkflows,
   getWorkflowById,
+  addWorkflow,
   updateWorkflow,
   deleteWorkflow,
   getPlugins,
@@ -313,13 +314,35 @@ workflow();`;
   async updateWorkflow(
     request: UpdateWorkflowRequest
   ): Promise<UpdateWorkflowResponse> {
-    if (!request.workflow || !request.workflow.id) {
-      throw new ConnectError("workflow.id is required", Code.InvalidArgument);
+    if (!request.workflow) {
+      throw new ConnectError("workflow is required", Code.InvalidArgument);
+    }
+
+    // IDが未採番のワークフロー（複製・削除の取り消しなど）は新規作成として扱う
+    const now = Date.now();
+    const isNew = !request.workflow.id;
+    if (isNew) {
+      request.workflow.id = `workflow-${now}`;
+    }
+
+    // IDが未採番のコードリビジョン（新規追加分）と実行結果にIDを割り当てる
+    for (const [i, code] of request.workflow.workflowCode.entries()) {
+      if (!code.id) {
+        code.id = `code-${request.workflow.id}-${now}-${i}`;
+      }
+    }
+    for (const [i, result] of request.workflow.workflowResults.entries()) {
+      if (!result.id) {
+        result.id = `result-${request.workflow.id}-${now}-${i}`;
+      }
     }
 
     const updated = updateWorkflow(request.workflow.id, request.workflow);
     if (!updated) {
-      throw new ConnectError("Workflow not found", Code.NotFound);
+      if (!isNew) {
+        throw new ConnectError("Workflow not found", Code.NotFound);
+      }
+      addWorkflow(request.workflow);
     }
 
     const workflow = getWorkflowById(request.workflow.id);
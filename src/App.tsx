@@ -8,7 +8,9 @@ import {
   WorkflowsPage,
 } from "@/pages/workflows";
 import { PluginsPage } from "@/pages/plugins";
+import { AnalyticsPage } from "@/pages/analytics";
 import { SettingsPage } from "@/pages/settings";
+import { FixPage } from "@/pages/fix";
 
 function App() {
   return (
@@ -21,8 +23,9 @@ function App() {
         <Route path="/workflows/:id" element={<WorkflowRunPage />} />
         <Route path="/workflows-parser-test" element={<WorkflowParserTest />} />
         <Route path="/settings" element={<SettingsPage />} />
-        <Route path="/fix" element={<PageBox title="Fix" />} />
+        <Route path="/fix" element={<FixPage />} />
         <Route path="/run" element={<PageBox title="Run" />} />
+        <Route path="/analytics" element={<AnalyticsPage />} />
         <Route path="/plugins" element={<PluginsPage />} />
         <Route path="/about" element={<PageBox title="About" />} />
       </Routes>
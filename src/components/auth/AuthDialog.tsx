@@ -0,0 +1,187 @@
+/**
+ * @fileoverview 認証ダイアログ
+ *
+ * gRPC 呼び出しが `Unauthenticated` で失敗したときに自動的に開き、
+ * 接続先のアクセストークンを入力してもらいます。保存すると失敗した
+ * リクエストが再送されます。
+ *
+ * @module components/auth/AuthDialog
+ */
+
+import React from "react";
+import {
+  Button,
+  Dialog,
+  HStack,
+  Input,
+  NativeSelect,
+  Stack,
+  Text,
+} from "@chakra-ui/react";
+import { LuKeyRound, LuLockKeyhole } from "react-icons/lu";
+import { Field } from "@/components/ui/field";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  completeAuthentication,
+  getTokenExpiry,
+  onAuthenticationRequired,
+  saveAuthToken,
+} from "@/lib/auth";
+import type { AuthRequest } from "@/lib/auth";
+import { API_CONFIG } from "@/lib/constants";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function lifetimeLabel(
+  ms: number,
+  t: ReturnType<typeof useI18n>["t"]
+): string {
+  if (ms === 0) return t("auth.noExpiry");
+  return ms < 24 * HOUR_MS
+    ? t("auth.lifetimeHours", { count: ms / HOUR_MS })
+    : t("auth.lifetimeDays", { count: ms / (24 * HOUR_MS) });
+}
+
+/**
+ * 認証ダイアログ
+ *
+ * アプリ全体で一つだけ配置します（AppShell）。
+ */
+export function AuthDialog() {
+  const { t, i18n } = useI18n();
+  const [request, setRequest] = React.useState<AuthRequest | null>(null);
+  const [token, setToken] = React.useState("");
+  const [lifetimeMs, setLifetimeMs] = React.useState<number>(
+    API_CONFIG.authTokenLifetime.defaultMs
+  );
+
+  React.useEffect(
+    () =>
+      onAuthenticationRequired((r) => {
+        setRequest(r);
+        setToken("");
+      }),
+    []
+  );
+
+  // JWT の場合はトークン自体の有効期限を使用
+  const tokenExpiry = React.useMemo(
+    () => getTokenExpiry(token.trim()),
+    [token]
+  );
+
+  const close = (authenticated: boolean) => {
+    setRequest(null);
+    setToken("");
+    completeAuthentication(authenticated);
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = token.trim();
+    if (!value || !request) return;
+    const expiresAt = tokenExpiry ??
+      (lifetimeMs > 0 ? Date.now() + lifetimeMs : null);
+    saveAuthToken(value, expiresAt, request.profile.id);
+    close(true);
+  };
+
+  const expired = request?.expired ?? false;
+
+  return (
+    <Dialog.Root
+      open={request !== null}
+      onOpenChange={(e) => !e.open && close(false)}
+      role="alertdialog"
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW={{ base: "100vw", md: "480px" }}>
+          <form onSubmit={onSubmit}>
+            <Dialog.Header>
+              <HStack gap={2} color="floorp.500">
+                {expired ? <LuLockKeyhole /> : <LuKeyRound />}
+                <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                  {expired ? t("auth.unlockTitle") : t("auth.loginTitle")}
+                </Text>
+              </HStack>
+            </Dialog.Header>
+
+            <Dialog.Body>
+              <Stack gap={4}>
+                <Text fontSize="sm">
+                  {expired
+                    ? t("auth.unlockDescription", {
+                      name: request?.profile.name ?? "",
+                    })
+                    : t("auth.loginDescription", {
+                      name: request?.profile.name ?? "",
+                    })}
+                </Text>
+                <Text fontSize="xs" color="fg.muted" fontFamily="mono">
+                  {request?.profile.baseUrl}
+                </Text>
+
+                <Field
+                  label={t("auth.token")}
+                  helperText={tokenExpiry !== null
+                    ? t("auth.tokenExpiresAt", {
+                      date: new Date(tokenExpiry).toLocaleString(
+                        i18n.language,
+                      ),
+                    })
+                    : undefined}
+                >
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    autoFocus
+                    fontFamily="mono"
+                    value={token}
+                    onChange={(e) => setToken(e.currentTarget.value)}
+                  />
+                </Field>
+
+                {tokenExpiry === null && (
+                  <Field label={t("auth.lifetime")}>
+                    <NativeSelect.Root size="sm">
+                      <NativeSelect.Field
+                        value={lifetimeMs}
+                        onChange={(e) =>
+                          setLifetimeMs(Number(e.currentTarget.value))}
+                      >
+                        {API_CONFIG.authTokenLifetime.optionsMs.map((ms) => (
+                          <option key={ms} value={ms}>
+                            {lifetimeLabel(ms, t)}
+                          </option>
+                        ))}
+                      </NativeSelect.Field>
+                      <NativeSelect.Indicator />
+                    </NativeSelect.Root>
+                  </Field>
+                )}
+              </Stack>
+            </Dialog.Body>
+
+            <Dialog.Footer>
+              <HStack gap={2} w="full">
+                <Button variant="outline" onClick={() => close(false)} flex="1">
+                  {t("auth.cancel")}
+                </Button>
+                <Button
+                  type="submit"
+                  colorPalette="floorp"
+                  disabled={!token.trim()}
+                  flex="1"
+                >
+                  {expired ? t("auth.unlock") : t("auth.signIn")}
+                </Button>
+              </HStack>
+            </Dialog.Footer>
+          </form>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
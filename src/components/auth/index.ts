@@ -0,0 +1 @@
+export { AuthDialog } from "./AuthDialog";
@@ -5,6 +5,7 @@ import { toRows } from "./row-utils";
 import { LogRow } from "./LogRow";
 import { SeparatorRow } from "./SeparatorRow";
 import { useI18n } from "@/hooks/useI18n";
+import { WorkflowResultView } from "@/components/workflow/WorkflowResultView";
 
 export interface StreamConsoleProps {
   events: GenerationEvent[];
@@ -75,6 +76,18 @@ export const StreamConsole: React.FC<StreamConsoleProps> = ({
             rows.map((r, i) =>
               r.type === "sep"
                 ? <SeparatorRow key={`s-${i}`} label={r.label} />
+                : r.type === "result"
+                ? (
+                  <Box
+                    key={`r-${i}`}
+                    px={{ base: 1, md: 2 }}
+                    py={{ base: 1, md: 1.5 }}
+                    borderBottomWidth="1px"
+                    borderColor="border"
+                  >
+                    <WorkflowResultView result={r.result} />
+                  </Box>
+                )
                 : <LogRow key={`l-${i}`} e={r.event} index={i} />
             )
           )}
@@ -1,10 +1,24 @@
 import type { GenerationEvent } from "./utils";
 import { stringifyPayload } from "./utils";
 import i18n from "@/i18n/config";
+import { detectResultFormat } from "@/components/workflow/result-format";
+import type { ResultSource } from "@/components/workflow/result-format";
 
 export type Row =
   | { type: "sep"; label: string }
-  | { type: "log"; event: GenerationEvent };
+  | { type: "log"; event: GenerationEvent }
+  | { type: "result"; event: GenerationEvent; result: ResultSource };
+
+/**
+ * 実行がキャンセル・タイムアウトしたことを表すエラーイベントの理由を取得
+ */
+function runStopStatus(e: GenerationEvent): "cancelled" | "timeout" | null {
+  const p = e.payload as unknown;
+  if (e.kind !== "error" || !p || typeof p !== "object") return null;
+  const { stage, status } = p as { stage?: unknown; status?: unknown };
+  if (stage !== "run") return null;
+  return status === "cancelled" || status === "timeout" ? status : null;
+}
 
 export function toRows(events: GenerationEvent[]): Row[] {
   const rows: Row[] = [];
@@ -30,6 +44,19 @@ export function toRows(events: GenerationEvent[]): Row[] {
           "result" in (wr as Record<string, unknown>)
         ) {
           const resultVal = (wr as Record<string, unknown>).result as unknown;
+          const { resultType, exitCode } = wr as Record<string, unknown>;
+          // JSON・CSV・Markdown の結果は分割せずに整形して表示
+          if (typeof resultVal === "string") {
+            const result: ResultSource = {
+              result: resultVal,
+              resultType: typeof resultType === "number" ? resultType : 0,
+              exitCode: typeof exitCode === "number" ? exitCode : 0,
+            };
+            if (detectResultFormat(result) !== "text") {
+              rows.push({ type: "result", event: e, result });
+              continue;
+            }
+          }
           if (typeof resultVal === "string" && /\r?\n/.test(resultVal)) {
             const lines = resultVal.replaceAll("\r\n", "\n").split("\n");
             for (let i = 0; i < lines.length; i++) {
@@ -73,6 +100,14 @@ export function toRows(events: GenerationEvent[]): Row[] {
       if (stage === "generate") {
         rows.push({ type: "sep", label: i18n.t("console.generationComplete") });
       }
+      if (stage === "fix") rows.push({ type: "sep", label: i18n.t("console.fixComplete") });
+    }
+    const stopStatus = runStopStatus(e);
+    if (stopStatus === "cancelled") {
+      rows.push({ type: "sep", label: i18n.t("console.executionCancelled") });
+    }
+    if (stopStatus === "timeout") {
+      rows.push({ type: "sep", label: i18n.t("console.executionTimedOut") });
     }
     rows.push({ type: "log", event: e });
   }
@@ -80,6 +115,14 @@ export function toRows(events: GenerationEvent[]): Row[] {
 }
 
 export function summarize(e: GenerationEvent): string {
+  const stopStatus = runStopStatus(e);
+  if (stopStatus === "cancelled") return i18n.t("console.cancelledByUser");
+  if (stopStatus === "timeout") {
+    const timeoutMs = (e.payload as { timeoutMs?: unknown }).timeoutMs;
+    return typeof timeoutMs === "number"
+      ? i18n.t("console.timedOutAfter", { seconds: Math.round(timeoutMs / 1000) })
+      : i18n.t("console.executionTimedOut");
+  }
   if (e.kind === "error") {
     const err = e.payload as unknown;
     const msg =
@@ -96,6 +139,7 @@ export function summarize(e: GenerationEvent): string {
         : undefined;
     if (stage === "run") return i18n.t("console.executionComplete");
     if (stage === "generate") return i18n.t("console.generationComplete");
+    if (stage === "fix") return i18n.t("console.fixComplete");
     return i18n.t("console.complete");
   }
   // message
@@ -149,6 +193,15 @@ export function summarize(e: GenerationEvent): string {
       (p as { workflowDefinition?: unknown }).workflowDefinition
     )
       return i18n.t("console.workflowDefinitionUpdated");
+    if (
+      "fixedWorkflowDefinition" in p &&
+      (p as { fixedWorkflowDefinition?: unknown }).fixedWorkflowDefinition
+    ) {
+      const summary = (p as { changeSummary?: unknown }).changeSummary;
+      return typeof summary === "string" && summary.trim()
+        ? i18n.t("console.workflowFixUpdatedWithSummary", { summary: summary.trim() })
+        : i18n.t("console.workflowFixUpdated");
+    }
   }
   try {
     const s = stringifyPayload(p);
@@ -0,0 +1,321 @@
+/**
+ * @fileoverview ネットワークインスペクター
+ *
+ * `lib/network-log` に記録された gRPC-Web 通信を一覧表示する開発者向けドロワーです。
+ * サービスやエラーで絞り込み、選択した呼び出しのメッセージやヘッダーを確認できます。
+ * 記録は不具合報告用に HAR 形式に近い JSON としてエクスポートできます。
+ *
+ * @module components/devtools/NetworkInspector
+ */
+
+import React from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Drawer,
+  HStack,
+  IconButton,
+  Input,
+  NativeSelect,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuDownload, LuTrash2, LuX } from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  clearNetworkCalls,
+  exportNetworkLog,
+  getNetworkCalls,
+  onNetworkLogChange,
+} from "@/lib/network-log";
+import type { NetworkCall } from "@/lib/network-log";
+import { downloadFile } from "@/lib/utils";
+
+export interface NetworkInspectorProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const shortService = (service: string) =>
+  service.slice(service.lastIndexOf(".") + 1);
+
+const statusColor = (call: NetworkCall) =>
+  call.status === "error" ? "red" : call.status === "ok" ? "green" : "yellow";
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "…";
+  return ms < 1000 ? `${ms.toFixed(0)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <Box
+      as="pre"
+      fontSize="xs"
+      fontFamily="mono"
+      bg="bg.muted"
+      p={2}
+      rounded="md"
+      overflow="auto"
+      maxH="240px"
+      whiteSpace="pre-wrap"
+      wordBreak="break-all"
+    >
+      {JSON.stringify(value, null, 2)}
+    </Box>
+  );
+}
+
+function CallDetail({ call }: { call: NetworkCall }) {
+  const { t } = useI18n();
+  const streaming = call.methodKind !== "unary";
+
+  return (
+    <VStack align="stretch" gap={3} fontSize="sm">
+      <VStack align="stretch" gap={0.5}>
+        <Text fontWeight="medium" wordBreak="break-all">
+          {call.service}/{call.method}
+        </Text>
+        <Text fontSize="xs" color="fg.muted" fontFamily="mono">
+          {t("network.requestId")}: {call.requestId || "-"}
+        </Text>
+        <Text fontSize="xs" color="fg.muted">
+          {new Date(call.startedAt).toLocaleTimeString()} ·{" "}
+          {formatDuration(call.durationMs)}
+          {streaming &&
+            ` · ${t("network.streamMessages", { count: call.streamMessageCount })}`}
+        </Text>
+        {call.errorMessage && (
+          <Text fontSize="xs" color="red.500">
+            {call.errorMessage}
+          </Text>
+        )}
+      </VStack>
+
+      <Box>
+        <Text fontSize="xs" fontWeight="medium" mb={1}>
+          {t("network.request")}
+        </Text>
+        <JsonBlock value={streaming ? call.requests : call.requests[0]} />
+      </Box>
+      <Box>
+        <Text fontSize="xs" fontWeight="medium" mb={1}>
+          {t("network.response")}
+        </Text>
+        <JsonBlock value={streaming ? call.responses : call.responses[0] ?? null} />
+      </Box>
+      <Box>
+        <Text fontSize="xs" fontWeight="medium" mb={1}>
+          {t("network.headers")}
+        </Text>
+        <JsonBlock
+          value={{
+            request: Object.fromEntries(call.requestHeaders),
+            response: Object.fromEntries(call.responseHeaders),
+          }}
+        />
+      </Box>
+    </VStack>
+  );
+}
+
+/**
+ * ネットワークインスペクター
+ */
+export function NetworkInspector({ open, onClose }: NetworkInspectorProps) {
+  const { t } = useI18n();
+  const calls = React.useSyncExternalStore(onNetworkLogChange, getNetworkCalls);
+  const [service, setService] = React.useState("");
+  const [errorsOnly, setErrorsOnly] = React.useState(false);
+  const [query, setQuery] = React.useState("");
+  const [selectedId, setSelectedId] = React.useState<number | null>(null);
+
+  const services = React.useMemo(
+    () => [...new Set(calls.map((c) => c.service))].sort(),
+    [calls]
+  );
+
+  // 新しい順に表示
+  const filtered = React.useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return calls
+      .filter(
+        (c) =>
+          (!service || c.service === service) &&
+          (!errorsOnly || c.status === "error") &&
+          (!q ||
+            c.method.toLowerCase().includes(q) ||
+            c.requestId.toLowerCase().includes(q))
+      )
+      .reverse();
+  }, [calls, service, errorsOnly, query]);
+
+  const selected = calls.find((c) => c.id === selectedId) ?? null;
+
+  const onExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadFile(
+      JSON.stringify(exportNetworkLog(filtered.slice().reverse()), null, 2),
+      `sapphillon-network-${stamp}.har.json`
+    );
+  };
+
+  return (
+    <Drawer.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      placement="end"
+      size="lg"
+    >
+      <Drawer.Backdrop />
+      <Drawer.Positioner>
+        <Drawer.Content>
+          <Drawer.Header borderBottomWidth="1px">
+            <HStack justify="space-between" w="full" gap={2}>
+              <HStack gap={2}>
+                <Drawer.Title>{t("network.title")}</Drawer.Title>
+                <Badge size="sm">{calls.length}</Badge>
+              </HStack>
+              <HStack gap={1}>
+                <Button
+                  size="xs"
+                  variant="outline"
+                  onClick={onExport}
+                  disabled={filtered.length === 0}
+                >
+                  <LuDownload />
+                  {t("network.export")}
+                </Button>
+                <IconButton
+                  aria-label={t("network.clear")}
+                  title={t("network.clear")}
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => {
+                    clearNetworkCalls();
+                    setSelectedId(null);
+                  }}
+                >
+                  <LuTrash2 />
+                </IconButton>
+                <IconButton
+                  aria-label={t("network.close")}
+                  size="xs"
+                  variant="ghost"
+                  onClick={onClose}
+                >
+                  <LuX />
+                </IconButton>
+              </HStack>
+            </HStack>
+          </Drawer.Header>
+
+          <Drawer.Body p={0} display="flex" flexDirection="column" minH={0}>
+            <HStack p={2} gap={2} borderBottomWidth="1px" flexWrap="wrap">
+              <NativeSelect.Root size="xs" w="auto">
+                <NativeSelect.Field
+                  aria-label={t("network.service")}
+                  value={service}
+                  onChange={(e) => setService(e.currentTarget.value)}
+                >
+                  <option value="">{t("network.allServices")}</option>
+                  {services.map((s) => (
+                    <option key={s} value={s}>
+                      {shortService(s)}
+                    </option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+              <Input
+                size="xs"
+                flex="1"
+                minW="120px"
+                placeholder={t("network.filterPlaceholder")}
+                value={query}
+                onChange={(e) => setQuery(e.currentTarget.value)}
+              />
+              <Checkbox.Root
+                size="sm"
+                checked={errorsOnly}
+                onCheckedChange={(e) => setErrorsOnly(!!e.checked)}
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label>{t("network.errorsOnly")}</Checkbox.Label>
+              </Checkbox.Root>
+            </HStack>
+
+            <Box flex="1" minH={0} overflowY="auto">
+              {filtered.length === 0
+                ? (
+                  <Text p={4} fontSize="sm" color="fg.muted" textAlign="center">
+                    {t("network.empty")}
+                  </Text>
+                )
+                : filtered.map((call) => (
+                  <HStack
+                    key={call.id}
+                    as="button"
+                    w="full"
+                    px={3}
+                    py={1.5}
+                    gap={2}
+                    fontSize="xs"
+                    textAlign="left"
+                    borderBottomWidth="1px"
+                    bg={call.id === selectedId ? "bg.emphasized" : undefined}
+                    _hover={{ bg: "bg.subtle" }}
+                    onClick={() =>
+                      setSelectedId(call.id === selectedId ? null : call.id)}
+                  >
+                    <Box
+                      w="2"
+                      h="2"
+                      rounded="full"
+                      flexShrink={0}
+                      bg={`${statusColor(call)}.500`}
+                    />
+                    <Text fontFamily="mono" fontWeight="medium" truncate>
+                      {call.method}
+                    </Text>
+                    <Text color="fg.muted" truncate>
+                      {shortService(call.service)}
+                    </Text>
+                    <Box flex="1" />
+                    {call.methodKind !== "unary" && (
+                      <Badge size="xs" variant="outline">
+                        {call.streamMessageCount}
+                      </Badge>
+                    )}
+                    {call.code && (
+                      <Badge size="xs" colorPalette={statusColor(call)}>
+                        {call.code}
+                      </Badge>
+                    )}
+                    <Text color="fg.muted" whiteSpace="nowrap" minW="56px" textAlign="right">
+                      {formatDuration(call.durationMs)}
+                    </Text>
+                  </HStack>
+                ))}
+            </Box>
+
+            {selected && (
+              <Box
+                borderTopWidth="1px"
+                p={3}
+                maxH="55%"
+                overflowY="auto"
+                flexShrink={0}
+              >
+                <CallDetail call={selected} />
+              </Box>
+            )}
+          </Drawer.Body>
+        </Drawer.Content>
+      </Drawer.Positioner>
+    </Drawer.Root>
+  );
+}
@@ -0,0 +1,2 @@
+export { NetworkInspector } from "./NetworkInspector";
+export type { NetworkInspectorProps } from "./NetworkInspector";
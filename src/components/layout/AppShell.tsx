@@ -15,9 +15,15 @@ import { StatusBar } from "@/components/status/StatusBar";
 import { OmniBar } from "@/components/omni/OmniBar";
 import { SideNav } from "@/components/nav/SideNav";
 import { KeyboardShortcutsDialog } from "@/components/ui/KeyboardShortcutsDialog";
+import { AuthDialog } from "@/components/auth/AuthDialog";
+import { NetworkInspector } from "@/components/devtools/NetworkInspector";
 import { MemoryRouter, useInRouterContext } from "react-router-dom";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcut";
 import { GLOBAL_SHORTCUTS, createShortcut } from "@/lib/keyboard-shortcuts";
+import { useWorkflowScheduler } from "@/pages/workflows/useWorkflowScheduler";
+import { RunQueueDrawer } from "@/pages/workflows/RunQueueDrawer";
+import { useRunQueue } from "@/pages/workflows/useRunQueue";
+import { workflowRunQueue } from "@/pages/workflows/workflow-run-queue";
 
 /**
  * AppShellコンポーネントのProps
@@ -36,6 +42,10 @@ export interface AppShellProps {
  * - メインコンテンツエリア
  * - ステータスバー
  * - オムニバー（⌘K で起動）
+ * - 認証ダイアログ（Unauthenticated 時に自動で表示）
+ * - ネットワークインスペクター（⌘⇧Y で開閉）
+ * - ワークフローの定期実行（アプリを開いている間）
+ * - 実行キューのドロワー（まとめて実行を開始したときに自動で表示）
  *
  * ## 機能
  * - レスポンシブデザイン
@@ -63,8 +73,23 @@ export function AppShell({ children }: AppShellProps) {
   const [omniOpen, setOmniOpen] = React.useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = React.useState(false);
   const [shortcutsDialogOpen, setShortcutsDialogOpen] = React.useState(false);
+  const [networkOpen, setNetworkOpen] = React.useState(false);
+  const [runQueueOpen, setRunQueueOpen] = React.useState(false);
   const inRouter = useInRouterContext();
   const navigate = useNavigate();
+  useWorkflowScheduler();
+  const { activeCount } = useRunQueue();
+
+  // まとめて実行を開始したらキューを表示
+  React.useEffect(
+    () =>
+      workflowRunQueue.onBatchEvent((event) => {
+        if (event.type === "started" && event.summary.source === "batch") {
+          setRunQueueOpen(true);
+        }
+      }),
+    []
+  );
 
   // グローバルキーボードショートカット
   const shortcuts = React.useMemo(() => {
@@ -76,6 +101,9 @@ export function AppShell({ children }: AppShellProps) {
       createShortcut(GLOBAL_SHORTCUTS.WORKFLOWS, () => navigate("/workflows")),
       createShortcut(GLOBAL_SHORTCUTS.SETTINGS, () => navigate("/settings")),
       createShortcut(GLOBAL_SHORTCUTS.REFRESH, () => window.location.reload()),
+      createShortcut(GLOBAL_SHORTCUTS.NETWORK_INSPECTOR, () =>
+        setNetworkOpen((open) => !open)
+      ),
     ];
   }, [navigate]);
 
@@ -86,6 +114,9 @@ export function AppShell({ children }: AppShellProps) {
       <TopNav
         onOpenOmni={() => setOmniOpen(true)}
         onOpenMenu={() => setMobileMenuOpen(true)}
+        onOpenNetwork={() => setNetworkOpen(true)}
+        onOpenRunQueue={() => setRunQueueOpen(true)}
+        activeRunCount={activeCount}
         showMenuButton={inRouter}
       />
       <Flex as="main" flex="1" minH="0" overflow="hidden">
@@ -163,6 +194,21 @@ export function AppShell({ children }: AppShellProps) {
         onClose={() => setShortcutsDialogOpen(false)}
         shortcuts={shortcuts}
       />
+
+      {/* 認証が必要になったときのログインダイアログ */}
+      <AuthDialog />
+
+      {/* gRPC 通信のネットワークインスペクター */}
+      <NetworkInspector
+        open={networkOpen}
+        onClose={() => setNetworkOpen(false)}
+      />
+
+      {/* ワークフローの実行キュー */}
+      <RunQueueDrawer
+        open={runQueueOpen}
+        onClose={() => setRunQueueOpen(false)}
+      />
     </Flex>
   );
 }
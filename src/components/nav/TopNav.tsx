@@ -1,4 +1,5 @@
 ﻿import {
+  Badge,
   Box,
   HStack,
   IconButton,
@@ -9,17 +10,28 @@
 } from "@chakra-ui/react";
 import { ColorModeButton } from "@/components/ui/color-mode";
 import { useColorMode } from "@/components/ui/use-color-mode";
-import { LuMenu } from "react-icons/lu";
+import { LuActivity, LuListOrdered, LuMenu } from "react-icons/lu";
 import { useI18n } from "@/hooks/useI18n";
 
 export interface TopNavProps {
   onOpenOmni?: () => void;
   onOpenMenu?: () => void;
+  onOpenNetwork?: () => void;
+  onOpenRunQueue?: () => void;
+  /** 実行キューの実行待ち・実行中の件数 */
+  activeRunCount?: number;
   showMenuButton?: boolean;
 }
 
 export function TopNav(
-  { onOpenOmni, onOpenMenu, showMenuButton = false }: TopNavProps,
+  {
+    onOpenOmni,
+    onOpenMenu,
+    onOpenNetwork,
+    onOpenRunQueue,
+    activeRunCount = 0,
+    showMenuButton = false,
+  }: TopNavProps,
 ) {
   const { t } = useI18n();
   const lightLogoUrl = new URL(
@@ -129,6 +141,43 @@ export function TopNav(
       </Box>
       <Spacer />
       <HStack gap={0.5} flexShrink={0} display={{ base: "none", sm: "flex" }}>
+        {onOpenRunQueue && (
+          <Box position="relative">
+            <IconButton
+              aria-label={t("runQueue.open")}
+              title={t("runQueue.open")}
+              size="sm"
+              variant="ghost"
+              onClick={onOpenRunQueue}
+            >
+              <LuListOrdered />
+            </IconButton>
+            {activeRunCount > 0 && (
+              <Badge
+                size="xs"
+                colorPalette="blue"
+                variant="solid"
+                position="absolute"
+                top="-1"
+                right="-1"
+                pointerEvents="none"
+              >
+                {activeRunCount}
+              </Badge>
+            )}
+          </Box>
+        )}
+        {onOpenNetwork && (
+          <IconButton
+            aria-label={t("network.open")}
+            title={t("network.open")}
+            size="sm"
+            variant="ghost"
+            onClick={onOpenNetwork}
+          >
+            <LuActivity />
+          </IconButton>
+        )}
         <ColorModeButton />
       </HStack>
     </HStack>
@@ -14,6 +14,8 @@ import {
 import { useNavigate } from "react-router-dom";
 import { useI18n } from "@/hooks/useI18n";
 import { useWorkflowsList } from "@/pages/workflows/useWorkflowsList";
+import { useWorkflowSearch } from "@/hooks/useWorkflowSearch";
+import { WorkflowSearchSuggestions } from "@/components/workflow/WorkflowSearchSuggestions";
 import { LuPlay } from "react-icons/lu";
 
 interface OmniBarItem {
@@ -38,15 +40,31 @@ const getDefaultItems = (t: (key: string) => string): OmniBarItem[] => [
   },
   { label: t("omniBar.goToFix"), hint: "/fix", to: "/fix", kind: "navigate" },
   { label: t("omniBar.runWorkflow"), hint: "/run", to: "/run", kind: "navigate" },
+  {
+    label: t("omniBar.openAnalytics"),
+    hint: "/analytics",
+    to: "/analytics",
+    kind: "navigate",
+  },
   { label: t("omniBar.openPlugins"), hint: "/plugins", to: "/plugins", kind: "navigate" },
 ];
 
 export function OmniBar({ isOpen, onClose }: OmniBarProps) {
   const { t } = useI18n();
-  const [query, setQuery] = React.useState("");
   const [active, setActive] = React.useState(0);
   const navigate = useNavigate();
   const { workflows, loading: workflowsLoading } = useWorkflowsList();
+  // ワークフローは検索クエリ言語（lib/workflow-search）で絞り込む
+  const {
+    query,
+    setQuery,
+    parsed,
+    results: matchedWorkflows,
+    suggestions,
+    activeSuggestion,
+    applySuggestion,
+    handleKeyDown,
+  } = useWorkflowSearch(workflows);
 
   const items = React.useMemo(() => {
     const defaultItems = getDefaultItems(t);
@@ -55,18 +73,15 @@ export function OmniBar({ isOpen, onClose }: OmniBarProps) {
     // クエリがない場合はデフォルト項目のみ
     if (!q) return defaultItems;
     
-    // デフォルト項目のフィルタリング
-    const filteredDefaults = defaultItems.filter((i) =>
-      i.label.toLowerCase().includes(q) || i.hint?.toLowerCase().includes(q)
-    );
+    // デフォルト項目のフィルタリング（フィールド指定の検索では表示しない）
+    const filteredDefaults = parsed.terms.length > 0
+      ? []
+      : defaultItems.filter((i) =>
+        i.label.toLowerCase().includes(q) || i.hint?.toLowerCase().includes(q)
+      );
     
     // ワークフローの検索
-    const workflowItems: OmniBarItem[] = workflows
-      .filter((w) => {
-        const name = (w.displayName || "").toLowerCase();
-        const desc = (w.description || "").toLowerCase();
-        return name.includes(q) || desc.includes(q);
-      })
+    const workflowItems: OmniBarItem[] = matchedWorkflows
       .slice(0, 5) // 最大5件まで表示
       .map((w) => ({
         label: w.displayName || t("common.untitledWorkflow"),
@@ -89,7 +104,7 @@ export function OmniBar({ isOpen, onClose }: OmniBarProps) {
     }
     
     return allItems;
-  }, [query, t, workflows]);
+  }, [query, parsed, t, matchedWorkflows]);
 
   React.useEffect(() => {
     function onKey(e: KeyboardEvent) {
@@ -166,11 +181,25 @@ export function OmniBar({ isOpen, onClose }: OmniBarProps) {
               autoFocus
               size={{ base: "md", md: "lg" }}
               placeholder={t("omniBar.searchPlaceholder")}
+              value={query}
               onChange={(e) => {
                 setQuery(e.target.value);
                 setActive(0);
               }}
+              onKeyDown={handleKeyDown}
             />
+            {suggestions.length > 0 && (
+              <Box mt={2}>
+                <WorkflowSearchSuggestions
+                  suggestions={suggestions}
+                  activeIndex={activeSuggestion}
+                  onSelect={(suggestion) => {
+                    applySuggestion(suggestion);
+                    setActive(0);
+                  }}
+                />
+              </Box>
+            )}
             <VStack align="stretch" gap={1} mt={3} maxH={{ base: "50vh", md: "60vh" }} overflowY="auto">
               {items.length === 0 && !workflowsLoading
                 ? <Box px={2} py={3} color="fg.muted" fontSize={{ base: "xs", md: "sm" }}>{t("omniBar.noResults")}</Box>
@@ -1,7 +1,9 @@
 import React from "react";
 import { Badge, Box, HStack, Spacer, Text } from "@chakra-ui/react";
 import { useVersionPing } from "@/hooks";
+import { LuServer } from "react-icons/lu";
 import { useI18n } from "@/hooks/useI18n";
+import { useConnectionProfiles } from "@/hooks/useConnectionProfiles";
 
 export function StatusBar() {
   const { t } = useI18n();
@@ -9,6 +11,7 @@ export function StatusBar() {
     "connected" | "connecting" | "disconnected"
   >("connecting");
   const { status, version } = useVersionPing(10000);
+  const { activeProfile } = useConnectionProfiles();
 
   React.useEffect(() => {
     setGrpc(status);
@@ -56,6 +59,25 @@ export function StatusBar() {
         display={{ base: "none", sm: "block" }}
       />
 
+      <HStack
+        gap={1.5}
+        minW={0}
+        title={`${activeProfile.name} (${activeProfile.baseUrl})`}
+      >
+        <LuServer />
+        <Text display={{ base: "none", sm: "block" }} whiteSpace="nowrap">
+          {t("statusBar.profile")}
+        </Text>
+        <Badge
+          colorPalette="gray"
+          fontSize={{ base: "xs", md: "sm" }}
+          maxW="200px"
+          truncate
+        >
+          {activeProfile.name}
+        </Badge>
+      </HStack>
+
       {/* Placeholders like LLM/Queue can be restored when wired */}
 
       <Spacer />
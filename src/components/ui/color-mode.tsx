@@ -4,6 +4,7 @@ import type { IconButtonProps, SpanProps } from "@chakra-ui/react";
 import { ClientOnly, IconButton, Skeleton, Span } from "@chakra-ui/react";
 import * as React from "react";
 import { LuMoon, LuSun } from "react-icons/lu";
+import { useTabSync } from "@/hooks/useTabSync";
 import {
   type ColorMode,
   ColorModeCtx,
@@ -50,6 +51,9 @@ export function ColorModeProvider(
     }
   }, [mode]);
 
+  // 他のタブで切り替えたカラーモードを反映
+  useTabSync("color-mode", mode, setMode);
+
   const value = React.useMemo(
     () => ({
       colorMode: mode,
@@ -17,6 +17,7 @@ import {
   LuFileText,
   LuGitBranch,
   LuMousePointer,
+  LuPlug,
   LuRepeat,
   LuShield,
   LuVariable,
@@ -25,6 +26,9 @@ import React, { useState } from "react";
 import { generateCode, generateReadableCode } from "./utils/code-generator";
 import { ACTION_TYPES, type ActionType, getActionColor } from "./constants";
 import type { WorkflowAction } from "./action-grouper";
+import type { PluginFunctionInfo } from "./plugin-catalog";
+import { describePermission } from "./revision-diff";
+import { useI18n } from "@/hooks/useI18n";
 import type {
   BlockStatement,
   ExpressionStatement,
@@ -136,6 +140,20 @@ export const ActionNode: React.FC<ActionNodeProps> = ({ action }) => {
             </Box>
           </HStack>
 
+          {/* Plugin functions */}
+          {action.pluginFunctions && action.pluginFunctions.length > 0 && (
+            <VStack align="stretch" gap={1.5}>
+              {action.pluginFunctions.map((fn) => (
+                <PluginFunctionDetails
+                  key={fn.functionId}
+                  fn={fn}
+                  expanded={isExpanded}
+                  colorScheme={colorScheme}
+                />
+              ))}
+            </VStack>
+          )}
+
           {/* Variables */}
           {action.variables && action.variables.length > 0 && (
             <HStack gap={1.5} flexWrap="wrap" mt={0.5}>
@@ -278,6 +296,86 @@ export const ActionNode: React.FC<ActionNodeProps> = ({ action }) => {
   );
 };
 
+/**
+ * アクションが呼び出すプラグイン関数の情報を表示するコンポーネント
+ *
+ * 折りたたみ時は関数名とパッケージのみ、展開時は引数と権限も表示します。
+ */
+const PluginFunctionDetails: React.FC<{
+  fn: PluginFunctionInfo;
+  expanded: boolean;
+  colorScheme: string;
+}> = ({ fn, expanded, colorScheme }) => {
+  const { t } = useI18n();
+
+  return (
+    <Box
+      borderWidth="1px"
+      borderColor={{ base: `${colorScheme}.100`, _dark: `${colorScheme}.900` }}
+      rounded="md"
+      px={2.5}
+      py={1.5}
+    >
+      <HStack gap={2} flexWrap="wrap">
+        <Box color={`${colorScheme}.500`} flexShrink={0}>
+          <LuPlug size={14} />
+        </Box>
+        <Text fontSize="xs" fontWeight="medium" fontFamily="mono">
+          {fn.functionId}
+        </Text>
+        {fn.packageName && (
+          <Badge size="xs" variant="subtle" colorPalette="gray">
+            {fn.packageName}
+          </Badge>
+        )}
+      </HStack>
+      {expanded && (
+        <VStack align="stretch" gap={1} mt={1.5} pl={5}>
+          {fn.description && (
+            <Text fontSize="xs" color="fg.muted">
+              {fn.description}
+            </Text>
+          )}
+          {fn.parameters.length > 0 && (
+            <VStack align="stretch" gap={0.5}>
+              <Text fontSize="2xs" fontWeight="semibold" color="fg.muted">
+                {t("workflowActions.parameters")}
+              </Text>
+              {fn.parameters.map((param) => (
+                <HStack key={param.name} gap={1.5} align="baseline">
+                  <Text fontSize="xs" fontFamily="mono">
+                    {param.name}
+                    {param.type && (
+                      <Text as="span" color="fg.muted">: {param.type}</Text>
+                    )}
+                  </Text>
+                  {param.description && (
+                    <Text fontSize="xs" color="fg.muted">
+                      — {param.description}
+                    </Text>
+                  )}
+                </HStack>
+              ))}
+            </VStack>
+          )}
+          {fn.permissions.length > 0 && (
+            <HStack gap={1} flexWrap="wrap">
+              <Box color="fg.muted">
+                <LuShield size={12} />
+              </Box>
+              {fn.permissions.map((permission, idx) => (
+                <Badge key={idx} size="xs" variant="outline">
+                  {describePermission(permission)}
+                </Badge>
+              ))}
+            </HStack>
+          )}
+        </VStack>
+      )}
+    </Box>
+  );
+};
+
 /**
  * ネストされた制御フローをCardとして表示するコンポーネント
  */
@@ -0,0 +1,469 @@
+/**
+ * @fileoverview ワークフローコードの編集用エディタコンポーネント
+ *
+ * テキストエリアの背面に装飾レイヤーを重ね、行番号、括弧の対応表示、
+ * 診断情報（エラー行と該当位置の波線）をインラインで表示します。
+ *
+ * @module components/workflow/CodeEditor
+ */
+
+import { Box, HStack, Text, VStack } from "@chakra-ui/react";
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { LuCircleAlert, LuCircleCheck, LuInfo, LuTriangleAlert } from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import type { CodeDiagnostic, DiagnosticSeverity } from "./diagnostics";
+import { findBracketPairs, findMatchingBracket } from "./utils/bracket-matcher";
+
+/**
+ * CodeEditorコンポーネントのProps
+ */
+export interface CodeEditorProps {
+  /** 編集中のコード */
+  value: string;
+  /** コードが変更されたときのコールバック */
+  onChange: (value: string) => void;
+  /** 表示する診断情報 */
+  diagnostics?: CodeDiagnostic[];
+  /** Ctrl/Cmd+S で呼び出されるコールバック */
+  onSave?: () => void;
+  /** 読み取り専用にするか */
+  readOnly?: boolean;
+  /** テキストエリアのラベル */
+  "aria-label"?: string;
+}
+
+const FONT_SIZE = "13px";
+const LINE_HEIGHT = 20;
+const PADDING = 12;
+const INDENT = "  ";
+
+const SEVERITY_COLORS: Record<DiagnosticSeverity, string> = {
+  error: "red",
+  warning: "orange",
+  info: "blue",
+};
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, React.ReactElement> = {
+  error: <LuCircleAlert size={14} />,
+  warning: <LuTriangleAlert size={14} />,
+  info: <LuInfo size={14} />,
+};
+
+const SEVERITY_ORDER: DiagnosticSeverity[] = ["error", "warning", "info"];
+
+/** 行内で診断の波線を引く範囲（該当列から次の空白まで） */
+function underlineRange(line: string, column: number): [number, number] {
+  const start = Math.min(column, Math.max(0, line.length - 1));
+  const rest = line.slice(start).search(/\s/);
+  const end = rest <= 0 ? line.length : start + rest;
+  return [start, Math.max(end, start + 1)];
+}
+
+/**
+ * コードエディタコンポーネント
+ *
+ * - 行番号とエラー行のマーカー
+ * - カーソル位置の括弧と対応する括弧の強調表示
+ * - Tab でインデント、Enter で直前の行のインデントを維持
+ * - Ctrl/Cmd+S で保存
+ *
+ * @example
+ * ```tsx
+ * <CodeEditor
+ *   value={draft}
+ *   onChange={setDraft}
+ *   diagnostics={getParseDiagnostics(draft)}
+ *   onSave={handleSave}
+ * />
+ * ```
+ */
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  value,
+  onChange,
+  diagnostics = [],
+  onSave,
+  readOnly = false,
+  "aria-label": ariaLabel,
+}) => {
+  const { t } = useI18n();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingSelectionRef = useRef<number | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  const lines = useMemo(() => value.split("\n"), [value]);
+  const lineStarts = useMemo(() => {
+    const starts = [0];
+    for (const line of lines) starts.push(starts[starts.length - 1] + line.length + 1);
+    return starts;
+  }, [lines]);
+
+  const pairs = useMemo(() => findBracketPairs(value), [value]);
+  const match = cursor === null ? null : findMatchingBracket(pairs, cursor);
+
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, CodeDiagnostic[]>();
+    for (const d of diagnostics) {
+      if (d.line === undefined) continue;
+      map.set(d.line, [...(map.get(d.line) ?? []), d]);
+    }
+    return map;
+  }, [diagnostics]);
+
+  const sortedDiagnostics = useMemo(
+    () =>
+      [...diagnostics].sort((a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+        (a.line ?? 0) - (b.line ?? 0)
+      ),
+    [diagnostics],
+  );
+
+  // 入力補助でテキストを書き換えた後にカーソル位置を復元
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    const pos = pendingSelectionRef.current;
+    if (!el || pos === null) return;
+    pendingSelectionRef.current = null;
+    el.setSelectionRange(pos, pos);
+    setCursor(pos);
+  }, [value]);
+
+  const updateCursor = useCallback(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    setCursor(el.selectionStart === el.selectionEnd ? el.selectionStart : null);
+  }, []);
+
+  const replaceSelection = (text: string) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const { selectionStart, selectionEnd } = el;
+    pendingSelectionRef.current = selectionStart + text.length;
+    onChange(value.slice(0, selectionStart) + text + value.slice(selectionEnd));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "s") {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+    if (readOnly) return;
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      replaceSelection(INDENT);
+      return;
+    }
+    if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+      const el = e.currentTarget;
+      const lineStart = value.lastIndexOf("\n", el.selectionStart - 1) + 1;
+      const indent = value.slice(lineStart).match(/^[ \t]*/)?.[0] ?? "";
+      const opensBlock = /[{[(]$/.test(value.slice(lineStart, el.selectionStart));
+      e.preventDefault();
+      replaceSelection(`\n${indent}${opensBlock ? INDENT : ""}`);
+    }
+  };
+
+  const jumpToLine = (line: number, column = 0) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const pos = Math.min(
+      (lineStarts[line - 1] ?? value.length) + column,
+      value.length,
+    );
+    el.focus();
+    el.setSelectionRange(pos, pos);
+    el.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT);
+    setCursor(pos);
+  };
+
+  /** 背面レイヤーに描画する1行分の装飾 */
+  const renderDecoratedLine = (line: string, index: number) => {
+    const lineStart = lineStarts[index];
+    const marks = new Map<number, "bracket" | "underline">();
+    if (match) {
+      for (const pos of match) {
+        if (pos >= lineStart && pos < lineStart + line.length) {
+          marks.set(pos - lineStart, "bracket");
+        }
+      }
+    }
+    const lineDiagnostics = diagnosticsByLine.get(index + 1) ?? [];
+    const located = lineDiagnostics.find((d) => d.column !== undefined);
+    const [underlineStart, underlineEnd] = located
+      ? underlineRange(line, located.column!)
+      : [-1, -1];
+    const underlineColor = located
+      ? `${SEVERITY_COLORS[located.severity]}.500`
+      : undefined;
+
+    const segments: React.ReactNode[] = [];
+    let buffer = "";
+    let bufferUnderlined = false;
+    const flush = (key: number) => {
+      if (!buffer) return;
+      segments.push(
+        bufferUnderlined
+          ? (
+            <Box
+              as="span"
+              key={`u${key}`}
+              textDecoration="underline wavy"
+              textDecorationColor={underlineColor}
+            >
+              {buffer}
+            </Box>
+          )
+          : buffer,
+      );
+      buffer = "";
+    };
+
+    for (let col = 0; col < line.length; col++) {
+      const underlined = col >= underlineStart && col < underlineEnd;
+      if (marks.has(col)) {
+        flush(col);
+        segments.push(
+          <Box
+            as="span"
+            key={`b${col}`}
+            bg="yellow.200"
+            outline="1px solid"
+            outlineColor="yellow.500"
+            borderRadius="1px"
+            _dark={{ bg: "yellow.700/60" }}
+            textDecoration={underlined ? "underline wavy" : undefined}
+            textDecorationColor={underlineColor}
+          >
+            {line[col]}
+          </Box>,
+        );
+        continue;
+      }
+      if (underlined !== bufferUnderlined) {
+        flush(col);
+        bufferUnderlined = underlined;
+      }
+      buffer += line[col];
+    }
+    flush(line.length);
+
+    // 空行でもエラー位置が分かるように印を付ける
+    if (located && line.length === 0) {
+      segments.push(
+        <Box
+          as="span"
+          key="empty"
+          textDecoration="underline wavy"
+          textDecorationColor={underlineColor}
+        >
+          {" "}
+        </Box>,
+      );
+    }
+
+    return segments;
+  };
+
+  const gutterWidth = `${Math.max(2, String(lines.length).length) + 3}ch`;
+  const counts = sortedDiagnostics.length;
+
+  return (
+    <VStack
+      align="stretch"
+      gap={0}
+      h="100%"
+      borderWidth="1px"
+      borderColor="border"
+      rounded="md"
+      overflow="hidden"
+      bg="white"
+      _dark={{ bg: "gray.900" }}
+    >
+      <Box
+        display="flex"
+        flex={1}
+        minH={0}
+        fontFamily="mono"
+        fontSize={FONT_SIZE}
+        lineHeight={`${LINE_HEIGHT}px`}
+      >
+        {/* 行番号 */}
+        <Box
+          w={gutterWidth}
+          flexShrink={0}
+          overflow="hidden"
+          bg="gray.50"
+          borderRightWidth="1px"
+          borderColor="border"
+          color="fg.muted"
+          textAlign="right"
+          userSelect="none"
+          _dark={{ bg: "gray.950" }}
+          aria-hidden
+        >
+          <Box
+            py={`${PADDING}px`}
+            style={{ transform: `translateY(${-scroll.top}px)` }}
+          >
+            {lines.map((_, i) => {
+              const lineDiagnostics = diagnosticsByLine.get(i + 1);
+              const severity = lineDiagnostics?.[0]?.severity;
+              return (
+                <Box
+                  key={i}
+                  h={`${LINE_HEIGHT}px`}
+                  pr={2}
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="flex-end"
+                  gap={1}
+                  color={severity ? `${SEVERITY_COLORS[severity]}.500` : undefined}
+                  fontWeight={severity ? "bold" : undefined}
+                  title={lineDiagnostics?.map((d) => d.message).join("\n")}
+                >
+                  {severity && <Box as="span" fontSize="8px">●</Box>}
+                  {i + 1}
+                </Box>
+              );
+            })}
+          </Box>
+        </Box>
+
+        {/* 編集領域 */}
+        <Box position="relative" flex={1} minW={0}>
+          <Box
+            position="absolute"
+            inset={0}
+            overflow="hidden"
+            pointerEvents="none"
+            aria-hidden
+          >
+            <Box
+              as="pre"
+              m={0}
+              p={`${PADDING}px`}
+              fontFamily="inherit"
+              fontSize="inherit"
+              lineHeight="inherit"
+              whiteSpace="pre"
+              color="transparent"
+              style={{
+                transform: `translate(${-scroll.left}px, ${-scroll.top}px)`,
+              }}
+            >
+              {lines.map((line, i) => {
+                const severity = diagnosticsByLine.get(i + 1)?.[0]?.severity;
+                return (
+                  <Box
+                    key={i}
+                    h={`${LINE_HEIGHT}px`}
+                    bg={severity ? `${SEVERITY_COLORS[severity]}.50` : undefined}
+                    _dark={severity
+                      ? { bg: `${SEVERITY_COLORS[severity]}.900/30` }
+                      : undefined}
+                    mx={`-${PADDING}px`}
+                    px={`${PADDING}px`}
+                  >
+                    {renderDecoratedLine(line, i)}
+                  </Box>
+                );
+              })}
+            </Box>
+          </Box>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            readOnly={readOnly}
+            aria-label={ariaLabel}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoComplete="off"
+            wrap="off"
+            onChange={(e) => {
+              onChange(e.target.value);
+              setCursor(e.target.selectionStart);
+            }}
+            onKeyDown={handleKeyDown}
+            onKeyUp={updateCursor}
+            onClick={updateCursor}
+            onSelect={updateCursor}
+            onBlur={() => setCursor(null)}
+            onScroll={(e) =>
+              setScroll({
+                top: e.currentTarget.scrollTop,
+                left: e.currentTarget.scrollLeft,
+              })}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              margin: 0,
+              padding: `${PADDING}px`,
+              border: "none",
+              outline: "none",
+              resize: "none",
+              background: "transparent",
+              color: "inherit",
+              font: "inherit",
+              lineHeight: "inherit",
+              whiteSpace: "pre",
+              overflow: "auto",
+              tabSize: 2,
+            }}
+          />
+        </Box>
+      </Box>
+
+      {/* 診断 */}
+      <Box
+        borderTopWidth="1px"
+        borderColor="border"
+        bg="bg.subtle"
+        maxH="120px"
+        overflowY="auto"
+        px={3}
+        py={1.5}
+      >
+        {counts === 0
+          ? (
+            <HStack gap={1.5} color="green.600" _dark={{ color: "green.400" }}>
+              <LuCircleCheck size={14} />
+              <Text fontSize="xs">{t("editor.noProblems")}</Text>
+            </HStack>
+          )
+          : (
+            <VStack align="stretch" gap={0.5}>
+              {sortedDiagnostics.map((d, i) => (
+                <HStack
+                  key={i}
+                  as="button"
+                  gap={1.5}
+                  textAlign="left"
+                  fontSize="xs"
+                  color={`${SEVERITY_COLORS[d.severity]}.600`}
+                  _dark={{ color: `${SEVERITY_COLORS[d.severity]}.300` }}
+                  _hover={{ textDecoration: "underline" }}
+                  cursor={d.line !== undefined ? "pointer" : "default"}
+                  onClick={() => d.line !== undefined && jumpToLine(d.line, d.column)}
+                >
+                  <Box flexShrink={0}>{SEVERITY_ICONS[d.severity]}</Box>
+                  {d.line !== undefined && (
+                    <Text fontFamily="mono" flexShrink={0}>
+                      {t("editor.position", {
+                        line: d.line,
+                        column: (d.column ?? 0) + 1,
+                      })}
+                    </Text>
+                  )}
+                  <Text>{d.message}</Text>
+                </HStack>
+              ))}
+            </VStack>
+          )}
+      </Box>
+    </VStack>
+  );
+};
@@ -4,12 +4,28 @@ import React from "react";
 export interface CodeHighlighterProps {
   code: string;
   language?: "javascript" | "typescript";
+  /** 強調表示する行範囲（1 始まり、両端を含む） */
+  highlightLines?: { startLine: number; endLine: number } | null;
 }
 
 // シンプルなシンタックスハイライター
 // キーワード、文字列、数値、コメントなどを色分け
-export const CodeHighlighter: React.FC<CodeHighlighterProps> = ({ code }) => {
+export const CodeHighlighter: React.FC<CodeHighlighterProps> = ({
+  code,
+  highlightLines,
+}) => {
   const lines = code.split("\n");
+  const highlightRef = React.useRef<HTMLDivElement>(null);
+
+  // 強調表示された行が見えるようにスクロール
+  React.useEffect(() => {
+    highlightRef.current?.scrollIntoView?.({ block: "nearest" });
+  }, [highlightLines?.startLine, highlightLines?.endLine]);
+
+  const isHighlighted = (lineNumber: number) =>
+    !!highlightLines &&
+    lineNumber >= highlightLines.startLine &&
+    lineNumber <= highlightLines.endLine;
 
   const highlightLine = (line: string): React.ReactNode => {
     const tokens: React.ReactNode[] = [];
@@ -155,7 +171,15 @@ export const CodeHighlighter: React.FC<CodeHighlighterProps> = ({ code }) => {
       }}
     >
       {lines.map((line, index) => (
-        <Box key={index} as="div" minH="1.5em">
+        <Box
+          key={index}
+          ref={index + 1 === highlightLines?.startLine ? highlightRef : undefined}
+          as="div"
+          minH="1.5em"
+          data-highlighted={isHighlighted(index + 1) || undefined}
+          bg={isHighlighted(index + 1) ? "yellow.100" : undefined}
+          _dark={isHighlighted(index + 1) ? { bg: "yellow.900/40" } : undefined}
+        >
           {highlightLine(line)}
         </Box>
       ))}
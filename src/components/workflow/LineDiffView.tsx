@@ -0,0 +1,145 @@
+/**
+ * @fileoverview 行単位の差分を表示するコンポーネント
+ *
+ * @module components/workflow/LineDiffView
+ */
+
+import React from "react";
+import { Box, HStack, Text } from "@chakra-ui/react";
+import type { LineDiff } from "@/lib/diff";
+import { useI18n } from "@/hooks/useI18n";
+
+/**
+ * LineDiffViewコンポーネントのProps
+ */
+export interface LineDiffViewProps {
+  /** 表示する行差分 */
+  lines: LineDiff[];
+  /** 変更行の前後に表示する未変更行の数（デフォルト: 3） */
+  context?: number;
+  /** 最大高さ */
+  maxH?: string;
+}
+
+type Hunk =
+  | { kind: "lines"; lines: LineDiff[] }
+  | { kind: "skip"; count: number };
+
+/**
+ * 変更のない長い区間を折りたたんだ表示用のブロックに分割
+ */
+function toHunks(lines: LineDiff[], context: number): Hunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((l, i) => {
+    if (l.op === "equal") return;
+    for (
+      let k = Math.max(0, i - context);
+      k <= Math.min(lines.length - 1, i + context);
+      k++
+    ) {
+      keep[k] = true;
+    }
+  });
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (keep[i]) {
+      const chunk: LineDiff[] = [];
+      while (i < lines.length && keep[i]) chunk.push(lines[i++]);
+      hunks.push({ kind: "lines", lines: chunk });
+    } else {
+      let count = 0;
+      while (i < lines.length && !keep[i]) {
+        count++;
+        i++;
+      }
+      hunks.push({ kind: "skip", count });
+    }
+  }
+  return hunks;
+}
+
+const OP_STYLES = {
+  add: { bg: "green.subtle", color: "green.fg", sign: "+" },
+  remove: { bg: "red.subtle", color: "red.fg", sign: "-" },
+  equal: { bg: "transparent", color: "fg", sign: " " },
+} as const;
+
+/**
+ * 行差分ビュー
+ *
+ * unified 形式で行差分を表示します。変更のない区間は折りたたまれます。
+ *
+ * @example
+ * ```tsx
+ * <LineDiffView lines={diffLines(before, after)} />
+ * ```
+ */
+export const LineDiffView: React.FC<LineDiffViewProps> = ({
+  lines,
+  context = 3,
+  maxH = "480px",
+}) => {
+  const { t } = useI18n();
+  const hunks = React.useMemo(() => toHunks(lines, context), [lines, context]);
+  const hasChanges = lines.some((l) => l.op !== "equal");
+
+  if (!hasChanges) {
+    return (
+      <Text fontSize="sm" color="fg.muted">
+        {t("diff.noChanges")}
+      </Text>
+    );
+  }
+
+  return (
+    <Box
+      borderWidth="1px"
+      rounded="md"
+      overflow="auto"
+      maxH={maxH}
+      fontFamily="mono"
+      fontSize="xs"
+    >
+      {hunks.map((hunk, hi) =>
+        hunk.kind === "skip"
+          ? (
+            <Box
+              key={`skip-${hi}`}
+              px={2}
+              py={0.5}
+              bg="bg.muted"
+              color="fg.muted"
+            >
+              {t("diff.unchangedLines", { count: hunk.count })}
+            </Box>
+          )
+          : hunk.lines.map((line, li) => {
+            const style = OP_STYLES[line.op];
+            return (
+              <HStack
+                key={`${hi}-${li}`}
+                gap={0}
+                bg={style.bg}
+                align="stretch"
+              >
+                <Text w="3em" px={1} textAlign="right" color="fg.muted" flexShrink={0}>
+                  {line.oldLine ?? ""}
+                </Text>
+                <Text w="3em" px={1} textAlign="right" color="fg.muted" flexShrink={0}>
+                  {line.newLine ?? ""}
+                </Text>
+                <Text w="1.5em" textAlign="center" color={style.color} flexShrink={0}>
+                  {style.sign}
+                </Text>
+                <Text color={style.color} whiteSpace="pre" flex="1">
+                  {line.text}
+                </Text>
+              </HStack>
+            );
+          })
+      )}
+    </Box>
+  );
+};
@@ -14,7 +14,7 @@ import {
     LuTriangleAlert,
 } from "react-icons/lu";
 
-function PermissionIcon({ type }: { type: PermissionType }) {
+export function PermissionIcon({ type }: { type: PermissionType }) {
     switch (type) {
         case PermissionType.EXECUTE:
             return <LuPlay size={16} />;
@@ -33,7 +33,7 @@ function PermissionIcon({ type }: { type: PermissionType }) {
     }
 }
 
-function PermissionLevelBadge({ level }: { level: PermissionLevel }) {
+export function PermissionLevelBadge({ level }: { level: PermissionLevel }) {
     let color = "gray";
     let text = "Unknown";
 
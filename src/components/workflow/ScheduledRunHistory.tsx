@@ -0,0 +1,120 @@
+/**
+ * @fileoverview スケジュールによる実行の履歴
+ *
+ * 定期実行（lib/workflow-schedules）で実行・見送り・見逃しになった予定を
+ * 新しい順に表示します。実行履歴タブで WorkflowExecutionTimeline の隣に表示します。
+ *
+ * @module components/workflow/ScheduledRunHistory
+ */
+
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuCalendarClock, LuTrash2 } from "react-icons/lu";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useI18n } from "@/hooks/useI18n";
+import type {
+  ScheduledRun,
+  ScheduledRunStatus,
+} from "@/lib/workflow-schedules";
+
+export interface ScheduledRunHistoryProps {
+  runs: ScheduledRun[];
+  /** 履歴を削除する（指定時のみボタンを表示） */
+  onClear?: () => void;
+}
+
+const STATUS_COLORS: Record<ScheduledRunStatus, string> = {
+  running: "blue",
+  success: "green",
+  failed: "red",
+  cancelled: "gray",
+  timeout: "orange",
+  skipped: "yellow",
+  missed: "purple",
+};
+
+function formatDuration(run: ScheduledRun): string | null {
+  if (run.startedAt === null || run.finishedAt === null) return null;
+  const ms = run.finishedAt - run.startedAt;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * スケジュールによる実行の履歴
+ */
+export function ScheduledRunHistory({ runs, onClear }: ScheduledRunHistoryProps) {
+  const { t } = useI18n();
+
+  return (
+    <VStack align="stretch" gap={2}>
+      <HStack justify="space-between">
+        <HStack gap={2}>
+          <LuCalendarClock />
+          <Text fontWeight="medium" fontSize="sm">
+            {t("schedules.historyTitle")}
+          </Text>
+          <Badge size="sm">{runs.length}</Badge>
+        </HStack>
+        {onClear && runs.length > 0 && (
+          <Button size="xs" variant="ghost" onClick={onClear}>
+            <LuTrash2 />
+            {t("schedules.clearHistory")}
+          </Button>
+        )}
+      </HStack>
+
+      {runs.length === 0
+        ? (
+          <EmptyState
+            icon={<LuCalendarClock />}
+            title={t("schedules.historyEmpty")}
+            description={t("schedules.historyEmptyDescription")}
+          />
+        )
+        : runs.map((run) => {
+          const duration = formatDuration(run);
+          return (
+            <Box
+              key={run.id}
+              borderWidth="1px"
+              borderLeftWidth="4px"
+              borderLeftColor={`${STATUS_COLORS[run.status]}.500`}
+              rounded="md"
+              px={3}
+              py={2}
+            >
+              <HStack justify="space-between" gap={2}>
+                <Badge size="sm" colorPalette={STATUS_COLORS[run.status]}>
+                  {t(`schedules.status.${run.status}`)}
+                </Badge>
+                <Text fontSize="xs" color="fg.muted">
+                  {duration}
+                </Text>
+              </HStack>
+              <Text fontSize="xs" color="fg.muted" mt={1}>
+                {t("schedules.scheduledFor", {
+                  time: new Date(run.scheduledFor).toLocaleString(),
+                })}
+              </Text>
+              {run.message && (
+                <Text
+                  fontSize="xs"
+                  mt={1}
+                  color={run.status === "failed" ? "red.500" : "fg.muted"}
+                  wordBreak="break-word"
+                >
+                  {run.message}
+                </Text>
+              )}
+            </Box>
+          );
+        })}
+    </VStack>
+  );
+}
@@ -28,8 +28,8 @@ describe("WorkflowCanvas", () => {
 
         // The toggle 'Code' button should be present
         expect(screen.getByRole("button", { name: /Code/ })).toBeTruthy();
-        // The removed Steps toggle should no longer exist
-        expect(screen.queryByRole("button", { name: /Steps/ })).toBeNull();
+        // The Steps (flowchart) toggle should be available as well
+        expect(screen.getByRole("tab", { name: /Steps/ })).toBeTruthy();
     });
 
     it("renders code view", async () => {
@@ -2,7 +2,7 @@
  * @fileoverview ワークフローをビジュアルに表示するキャンバスコンポーネント
  *
  * JavaScriptコードをBabelで解析し、
- * アクション単位のビューとコードビューを切り替えて表示します。
+ * アクション単位のビュー、フローチャート（ステップ）ビュー、コードビューを切り替えて表示します。
  *
  * @module components/workflow/WorkflowCanvas
  */
@@ -13,8 +13,12 @@ import React, { useMemo, useRef, useState } from "react";
 import { parseWorkflowCode, stripTypeScriptSyntax } from "./ast-utils";
 import { CodeHighlighter } from "./CodeHighlighter";
 import { groupStatementsIntoActions } from "./action-grouper";
+import { buildPluginCatalog } from "./plugin-catalog";
 import { ActionNode } from "./ActionNode";
-import { LuCode, LuList } from "react-icons/lu";
+import { WorkflowStepsView } from "./WorkflowStepsView";
+import { VIEW_MODES } from "./constants";
+import type { ViewMode } from "./constants";
+import { LuCode, LuList, LuWorkflow } from "react-icons/lu";
 
 /**
  * WorkflowCanvasコンポーネントのProps
@@ -31,6 +35,7 @@ export interface WorkflowCanvasProps {
  *
  * ワークフローのJavaScriptコードを解析し、視覚的なアクションビューとして表示します。
  * - **Actions**: 関連するステップをグループ化してアクションとして表示
+ * - **Steps**: 制御フローをノードとエッジのフローチャートとして表示
  * - **Code**: 生のJavaScriptコード（TypeScript構文を除去）
  *
  * @example
@@ -50,11 +55,17 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   workflow,
   withBackground = true,
 }) => {
-  const [viewMode, setViewMode] = useState<"actions" | "code">("actions");
+  const [viewMode, setViewMode] = useState<ViewMode>(VIEW_MODES.ACTIONS);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const latestCode = workflow.workflowCode[workflow.workflowCode.length - 1]
-    ?.code;
+  const latestRevision = workflow.workflowCode[workflow.workflowCode.length - 1];
+  const latestCode = latestRevision?.code;
+
+  // Plugin metadata used to classify plugin function calls
+  const catalog = useMemo(
+    () => buildPluginCatalog(latestRevision),
+    [latestRevision],
+  );
 
   // Memoize AST parsing to avoid re-parsing on every render
   const { workflowBody, parseError } = useMemo(() => {
@@ -65,8 +76,8 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   // Group statements into actions
   const actions = useMemo(() => {
     if (!workflowBody) return [];
-    return groupStatementsIntoActions(workflowBody);
-  }, [workflowBody]);
+    return groupStatementsIntoActions(workflowBody, catalog);
+  }, [workflowBody, catalog]);
 
   // Strip TypeScript syntax and render raw JavaScript for the latest code
   const rawJsCode = useMemo(() => {
@@ -74,6 +85,27 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
     return stripTypeScriptSyntax(latestCode);
   }, [latestCode]);
 
+  const noCodeView = (
+    <Text fontSize={{ base: "sm", md: "md" }} p={{ base: 4, md: 6 }}>
+      No code available to display.
+    </Text>
+  );
+
+  const parseErrorView = parseError && (
+    <Box
+      p={{ base: 2, md: 4 }}
+      color="red.600"
+      whiteSpace="pre-wrap"
+    >
+      <Text fontWeight="bold" fontSize={{ base: "sm", md: "md" }}>
+        Error parsing workflow code:
+      </Text>
+      <Code colorScheme="red" fontSize={{ base: "xs", md: "sm" }}>
+        {parseError.message}
+      </Code>
+    </Box>
+  );
+
   return (
     <Box
       ref={containerRef}
@@ -131,12 +163,12 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
         right={{ base: 1, md: 2 }}
         zIndex={2}
         w={{ base: "auto", md: "auto" }}
-        minW={{ base: "140px", md: "180px" }}
+        minW={{ base: "200px", md: "260px" }}
       >
         <Tabs.Root
           value={viewMode}
           onValueChange={(e) =>
-            setViewMode(e.value as "actions" | "code")
+            setViewMode(e.value as ViewMode)
           }
           size="sm"
         >
@@ -164,6 +196,19 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                 <Text>Actions</Text>
               </HStack>
             </Tabs.Trigger>
+            <Tabs.Trigger
+              value="steps"
+              flex={1}
+              fontSize={{ base: "xs", md: "sm" }}
+              px={{ base: 3, md: 4 }}
+              py={{ base: 1.5, md: 2 }}
+              gap={1.5}
+            >
+              <HStack gap={1.5}>
+                <LuWorkflow size={16} />
+                <Text>Steps</Text>
+              </HStack>
+            </Tabs.Trigger>
             <Tabs.Trigger
               value="code"
               flex={1}
@@ -186,26 +231,9 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
         {viewMode === "actions" && (
           <>
             {!latestCode
-              ? (
-                <Text fontSize={{ base: "sm", md: "md" }} p={{ base: 4, md: 6 }}>
-                  No code available to display.
-                </Text>
-              )
+              ? noCodeView
               : parseError
-              ? (
-                <Box
-                  p={{ base: 2, md: 4 }}
-                  color="red.600"
-                  whiteSpace="pre-wrap"
-                >
-                  <Text fontWeight="bold" fontSize={{ base: "sm", md: "md" }}>
-                    Error parsing workflow code:
-                  </Text>
-                  <Code colorScheme="red" fontSize={{ base: "xs", md: "sm" }}>
-                    {parseError.message}
-                  </Code>
-                </Box>
-              )
+              ? parseErrorView
               : actions.length > 0
               ? (
                 <VStack
@@ -228,6 +256,21 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
           </>
         )}
 
+        {viewMode === "steps" && (
+          <>
+            {!latestCode
+              ? noCodeView
+              : parseError
+              ? parseErrorView
+              : workflowBody && (
+                <WorkflowStepsView
+                  code={latestCode}
+                  workflowBody={workflowBody}
+                />
+              )}
+          </>
+        )}
+
         {viewMode === "code" && (
           <Box
             p={{ base: 2, md: 3 }}
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview ワークフローコードの診断結果パネル
+ *
+ * `lintWorkflowCode` などで得られた診断を重大度ごとの件数とともに一覧表示します。
+ *
+ * @module components/workflow/WorkflowDiagnosticsPanel
+ */
+
+import { Badge, Box, HStack, Text, VStack } from "@chakra-ui/react";
+import type React from "react";
+import {
+  LuCircleAlert,
+  LuCircleCheck,
+  LuInfo,
+  LuTriangleAlert,
+} from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import type { CodeDiagnostic, DiagnosticSeverity } from "./diagnostics";
+import { countDiagnostics } from "./diagnostics";
+
+/**
+ * WorkflowDiagnosticsPanelコンポーネントのProps
+ */
+export interface WorkflowDiagnosticsPanelProps {
+  /** 表示する診断情報 */
+  diagnostics: CodeDiagnostic[];
+  /** 見出しを表示するか */
+  showHeader?: boolean;
+}
+
+const SEVERITY_COLORS: Record<DiagnosticSeverity, string> = {
+  error: "red",
+  warning: "orange",
+  info: "blue",
+};
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, React.ReactElement> = {
+  error: <LuCircleAlert size={14} />,
+  warning: <LuTriangleAlert size={14} />,
+  info: <LuInfo size={14} />,
+};
+
+/**
+ * 診断結果の一覧
+ */
+export const WorkflowDiagnosticsPanel: React.FC<
+  WorkflowDiagnosticsPanelProps
+> = ({ diagnostics, showHeader = true }) => {
+  const { t } = useI18n();
+  const counts = countDiagnostics(diagnostics);
+
+  return (
+    <VStack align="stretch" gap={3}>
+      {showHeader && (
+        <HStack justify="space-between" flexWrap="wrap" gap={2}>
+          <Text fontWeight="medium" fontSize="sm">
+            {t("lint.title")}
+          </Text>
+          <HStack gap={1}>
+            {counts.error > 0 && (
+              <Badge colorPalette="red" size="sm">
+                {t("lint.errors", { count: counts.error })}
+              </Badge>
+            )}
+            {counts.warning > 0 && (
+              <Badge colorPalette="orange" size="sm">
+                {t("lint.warnings", { count: counts.warning })}
+              </Badge>
+            )}
+          </HStack>
+        </HStack>
+      )}
+
+      {diagnostics.length === 0
+        ? (
+          <HStack gap={1.5} color="green.600" _dark={{ color: "green.400" }}>
+            <LuCircleCheck size={14} />
+            <Text fontSize="sm">{t("lint.noProblems")}</Text>
+          </HStack>
+        )
+        : (
+          <VStack align="stretch" gap={2}>
+            {diagnostics.map((d, i) => (
+              <HStack
+                key={i}
+                align="start"
+                gap={2}
+                p={2}
+                rounded="md"
+                borderWidth="1px"
+                borderColor={`${SEVERITY_COLORS[d.severity]}.200`}
+                bg={`${SEVERITY_COLORS[d.severity]}.50`}
+                _dark={{
+                  borderColor: `${SEVERITY_COLORS[d.severity]}.800`,
+                  bg: `${SEVERITY_COLORS[d.severity]}.900/30`,
+                }}
+              >
+                <Box
+                  flexShrink={0}
+                  mt={0.5}
+                  color={`${SEVERITY_COLORS[d.severity]}.500`}
+                >
+                  {SEVERITY_ICONS[d.severity]}
+                </Box>
+                <VStack align="start" gap={0.5} minW={0}>
+                  <Text fontSize="sm" wordBreak="break-word">
+                    {d.message}
+                  </Text>
+                  <HStack gap={2} fontSize="xs" color="fg.muted">
+                    {d.line !== undefined && (
+                      <Text fontFamily="mono">
+                        {t("editor.position", {
+                          line: d.line,
+                          column: (d.column ?? 0) + 1,
+                        })}
+                      </Text>
+                    )}
+                    <Text fontFamily="mono">{d.rule}</Text>
+                  </HStack>
+                </VStack>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+    </VStack>
+  );
+};
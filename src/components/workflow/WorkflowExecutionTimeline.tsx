@@ -4,6 +4,7 @@ import {
   Box,
   Button,
   Card,
+  Checkbox,
   Collapsible,
   HStack,
   IconButton,
@@ -13,21 +14,41 @@ import {
 } from "@chakra-ui/react";
 import {
   LuCalendar,
+  LuChartColumn,
   LuChevronDown,
   LuChevronRight,
   LuClock,
+  LuGitCompare,
+  LuWandSparkles,
 } from "react-icons/lu";
-import type { WorkflowResult } from "@/gen/sapphillon/v1/workflow_pb";
+import type {
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
 import { EmptyState } from "@/components/ui/empty-state";
+import { useI18n } from "@/hooks/useI18n";
+import { getRunMetadata } from "@/lib/run-metadata";
+import { countRuns } from "@/lib/workflow-analytics";
+import { WorkflowResultView } from "./WorkflowResultView";
+import { WorkflowResultCompare } from "./WorkflowResultCompare";
 
 interface WorkflowExecutionTimelineProps {
   results: WorkflowResult[];
+  /** 失敗した実行結果を AI で修正する（指定時のみボタンを表示） */
+  onFix?: (result: WorkflowResult) => void;
+  /** 実行結果の比較で実行したリビジョンの判別に使うコードリビジョン */
+  codes?: WorkflowCode[];
+  /** 実行の集計画面を開く（指定時のみボタンを表示） */
+  onOpenAnalytics?: () => void;
 }
 
+/** 比較できる実行結果の数 */
+const COMPARE_COUNT = 2;
+
 function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
   if (!timestamp) return "-";
   const date = new Date(Number(timestamp.seconds) * 1000);
-  return date.toLocaleString("ja-JP", {
+  return date.toLocaleString(undefined, {
     year: "numeric",
     month: "2-digit",
     day: "2-digit",
@@ -38,25 +59,32 @@ function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
 }
 
 function formatDuration(ms: number): string {
-  if (ms < 1000) return `${ms}ms`;
-  if (ms < 60000) return `${(ms / 1000).toFixed(1)}秒`;
-  const minutes = Math.floor(ms / 60000);
-  const seconds = Math.floor((ms % 60000) / 1000);
-  return `${minutes}分 ${seconds}秒`;
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
 }
 
 function ExecutionResultCard({
   result,
   isLatest,
+  onFix,
+  compareSelected,
+  onCompareChange,
 }: {
   result: WorkflowResult;
   isLatest: boolean;
+  onFix?: (result: WorkflowResult) => void;
+  compareSelected: boolean;
+  onCompareChange?: (selected: boolean) => void;
 }) {
+  const { t } = useI18n();
   const [expanded, setExpanded] = React.useState(isLatest);
 
   const isSuccess = result.resultType === 0;
-  // WorkflowResultにはranAtのみがあり、実行時間の計算はできないのでスキップ
-  const duration = 0;
+  // WorkflowResult には実行時間がないため、このブラウザで計測した値を使う
+  const duration = getRunMetadata(result.id)?.durationMs ?? 0;
 
   return (
     <Card.Root
@@ -74,7 +102,7 @@ function ExecutionResultCard({
                 size="sm"
                 fontWeight="medium"
               >
-                {isSuccess ? "成功" : "失敗"}
+                {isSuccess ? t("common.success") : t("common.failure")}
               </Badge>
               <VStack align="start" gap={0} flex="1">
                 {result.ranAt && (
@@ -86,12 +114,25 @@ function ExecutionResultCard({
               </VStack>
               {isLatest && (
                 <Badge colorPalette="blue" size="sm">
-                  最新
+                  {t("runStats.latest")}
                 </Badge>
               )}
             </HStack>
+            {onCompareChange && (
+              <Checkbox.Root
+                size="sm"
+                checked={compareSelected}
+                onCheckedChange={(e) => onCompareChange(!!e.checked)}
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label fontSize="xs" color="fg.muted">
+                  {t("resultCompare.select")}
+                </Checkbox.Label>
+              </Checkbox.Root>
+            )}
             <IconButton
-              aria-label={expanded ? "折りたたむ" : "展開"}
+              aria-label={expanded ? t("runStats.collapse") : t("runStats.expand")}
               size="sm"
               variant="ghost"
               onClick={() => setExpanded(!expanded)}
@@ -104,7 +145,9 @@ function ExecutionResultCard({
           {duration > 0 && (
             <HStack gap={1} fontSize="xs" color="fg.muted">
               <LuClock size={12} />
-              <Text>実行時間: {formatDuration(duration)}</Text>
+              <Text>
+                {t("runStats.duration", { duration: formatDuration(duration) })}
+              </Text>
             </HStack>
           )}
 
@@ -116,67 +159,17 @@ function ExecutionResultCard({
 
                 {/* Result Details */}
                 {result.result && (
-                  <Box>
-                    <Text fontSize="xs" fontWeight="medium" mb={1}>
-                      実行結果:
-                    </Text>
-                    <Box
-                      p={2}
-                      bg="bg.subtle"
-                      rounded="md"
-                      fontSize="xs"
-                      fontFamily="mono"
-                      maxH="200px"
-                      overflowY="auto"
-                      css={{
-                        whiteSpace: "pre-wrap",
-                        wordBreak: "break-word",
-                      }}
-                    >
-                      {result.result}
-                    </Box>
-                  </Box>
-                )}
-
-                {/* Error Details */}
-                {!isSuccess && result.result && (
-                  <Box>
-                    <Text
-                      fontSize="xs"
-                      fontWeight="medium"
-                      mb={1}
-                      color="red.500"
-                    >
-                      エラー詳細:
-                    </Text>
-                    <Box
-                      p={2}
-                      bg="red.50"
-                      borderWidth="1px"
-                      borderColor="red.200"
-                      rounded="md"
-                      fontSize="xs"
-                      fontFamily="mono"
-                      maxH="200px"
-                      overflowY="auto"
-                      css={{
-                        whiteSpace: "pre-wrap",
-                        wordBreak: "break-word",
-                        _dark: {
-                          bg: "red.900/20",
-                          borderColor: "red.800",
-                        },
-                      }}
-                    >
-                      {result.result}
-                    </Box>
-                  </Box>
+                  <WorkflowResultView
+                    result={result}
+                    fileName={`workflow-result-${result.id || "latest"}`}
+                    maxH="200px"
+                  />
                 )}
 
                 {/* Timestamps */}
                 <Box>
                   <Text fontSize="xs" fontWeight="medium" mb={1}>
-                    タイムスタンプ:
+                    {t("runStats.timestamps")}
                   </Text>
                   <VStack
                     align="stretch"
@@ -186,7 +179,7 @@ function ExecutionResultCard({
                   >
                     {result.ranAt && (
                       <HStack justify="space-between">
-                        <Text>実行:</Text>
+                        <Text>{t("runStats.ranAt")}</Text>
                         <Text>{formatDate(result.ranAt)}</Text>
                       </HStack>
                     )}
@@ -202,7 +195,7 @@ function ExecutionResultCard({
                       // TODO: View full logs
                     }}
                   >
-                    ログを表示
+                    {t("runStats.viewLogs")}
                   </Button>
                   {!isSuccess && (
                     <Button
@@ -213,7 +206,18 @@ function ExecutionResultCard({
                         // TODO: Retry execution
                       }}
                     >
-                      再実行
+                      {t("runStats.retry")}
+                    </Button>
+                  )}
+                  {!isSuccess && onFix && (
+                    <Button
+                      size="xs"
+                      variant="outline"
+                      colorPalette="purple"
+                      onClick={() => onFix(result)}
+                    >
+                      <LuWandSparkles />
+                      {t("fix.fixWithAi")}
                     </Button>
                   )}
                 </HStack>
@@ -228,7 +232,14 @@ function ExecutionResultCard({
 
 export function WorkflowExecutionTimeline({
   results,
+  onFix,
+  codes,
+  onOpenAnalytics,
 }: WorkflowExecutionTimelineProps) {
+  const { t } = useI18n();
+  const [compareIds, setCompareIds] = React.useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = React.useState(false);
+
   // Sort by timestamp (newest first)
   const sortedResults = React.useMemo(() => {
     return [...results].sort((a, b) => {
@@ -244,7 +255,7 @@ export function WorkflowExecutionTimeline({
     sortedResults.forEach((result) => {
       if (!result.ranAt) return;
       const date = new Date(Number(result.ranAt.seconds) * 1000);
-      const dateKey = date.toLocaleDateString("ja-JP", {
+      const dateKey = date.toLocaleDateString(undefined, {
         year: "numeric",
         month: "long",
         day: "numeric",
@@ -258,22 +269,26 @@ export function WorkflowExecutionTimeline({
   }, [sortedResults]);
 
   // Statistics
-  const stats = React.useMemo(() => {
-    const total = results.length;
-    const successful = results.filter((r) => r.resultType === 0).length;
-    const failed = total - successful;
-    const successRate = total > 0
-      ? ((successful / total) * 100).toFixed(1)
-      : "0";
-    return { total, successful, failed, successRate };
-  }, [results]);
+  const stats = React.useMemo(() => countRuns(results), [results]);
+
+  // 比較する 2 件（古い順）。3 件目を選んだときは最初に選んだものを外す
+  const toggleCompare = React.useCallback((id: string, selected: boolean) => {
+    setCompareIds((prev) =>
+      selected
+        ? [...prev.filter((p) => p !== id), id].slice(-COMPARE_COUNT)
+        : prev.filter((p) => p !== id)
+    );
+  }, []);
+  const compared = sortedResults
+    .filter((r) => compareIds.includes(r.id))
+    .reverse();
 
   if (results.length === 0) {
     return (
       <EmptyState
         icon={<LuCalendar />}
-        title="実行履歴がありません"
-        description="このワークフローはまだ実行されていません"
+        title={t("runStats.empty")}
+        description={t("runStats.emptyDescription")}
       />
     );
   }
@@ -289,7 +304,7 @@ export function WorkflowExecutionTimeline({
                 {stats.total}
               </Text>
               <Text fontSize="xs" color="fg.muted">
-                総実行回数
+                {t("runStats.total")}
               </Text>
             </VStack>
             <VStack gap={0}>
@@ -297,7 +312,7 @@ export function WorkflowExecutionTimeline({
                 {stats.successful}
               </Text>
               <Text fontSize="xs" color="fg.muted">
-                成功
+                {t("runStats.successful")}
               </Text>
             </VStack>
             <VStack gap={0}>
@@ -305,21 +320,71 @@ export function WorkflowExecutionTimeline({
                 {stats.failed}
               </Text>
               <Text fontSize="xs" color="fg.muted">
-                失敗
+                {t("runStats.failed")}
               </Text>
             </VStack>
             <VStack gap={0}>
               <Text fontSize="2xl" fontWeight="bold" color="blue.500">
-                {stats.successRate}%
+                {stats.successRate.toFixed(1)}%
               </Text>
               <Text fontSize="xs" color="fg.muted">
-                成功率
+                {t("runStats.successRate")}
               </Text>
             </VStack>
           </HStack>
+          {onOpenAnalytics && (
+            <HStack justify="end" mt={2}>
+              <Button size="xs" variant="ghost" onClick={onOpenAnalytics}>
+                <LuChartColumn />
+                {t("runStats.openAnalytics")}
+              </Button>
+            </HStack>
+          )}
         </Card.Body>
       </Card.Root>
 
+      {/* Compare */}
+      {compareIds.length > 0 && (
+        <HStack
+          justify="space-between"
+          borderWidth="1px"
+          rounded="md"
+          px={3}
+          py={2}
+          gap={2}
+          flexWrap="wrap"
+        >
+          <Text fontSize="sm" color="fg.muted">
+            {compared.length < COMPARE_COUNT
+              ? t("resultCompare.selectAnother")
+              : t("resultCompare.ready")}
+          </Text>
+          <HStack gap={2}>
+            <Button size="xs" variant="ghost" onClick={() => setCompareIds([])}>
+              {t("resultCompare.clear")}
+            </Button>
+            <Button
+              size="xs"
+              colorPalette="blue"
+              disabled={compared.length < COMPARE_COUNT}
+              onClick={() => setCompareOpen(true)}
+            >
+              <LuGitCompare />
+              {t("resultCompare.compare")}
+            </Button>
+          </HStack>
+        </HStack>
+      )}
+      {compared.length === COMPARE_COUNT && (
+        <WorkflowResultCompare
+          open={compareOpen}
+          onClose={() => setCompareOpen(false)}
+          before={compared[0]}
+          after={compared[1]}
+          codes={codes}
+        />
+      )}
+
       {/* Timeline */}
       <VStack align="stretch" gap={4}>
         {Object.entries(groupedResults).map((
@@ -334,7 +399,7 @@ export function WorkflowExecutionTimeline({
                 {dateKey}
               </Text>
               <Badge size="sm" colorPalette="gray">
-                {dateResults.length}件
+                {t("runStats.count", { count: dateResults.length })}
               </Badge>
             </HStack>
 
@@ -355,6 +420,11 @@ export function WorkflowExecutionTimeline({
                   key={result.id || idx}
                   result={result}
                   isLatest={groupIdx === 0 && idx === 0}
+                  onFix={onFix}
+                  compareSelected={compareIds.includes(result.id)}
+                  onCompareChange={result.id
+                    ? (selected) => toggleCompare(result.id, selected)
+                    : undefined}
                 />
               ))}
             </VStack>
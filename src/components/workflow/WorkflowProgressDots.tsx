@@ -9,6 +9,7 @@ import React, { useMemo } from "react";
 import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
 import { parseWorkflowCode } from "./ast-utils";
 import { groupStatementsIntoActions } from "./action-grouper";
+import { buildPluginCatalog } from "./plugin-catalog";
 import { ACTION_TYPES, getActionColor } from "./constants";
 import {
     LuArrowRight,
@@ -64,16 +65,21 @@ export const WorkflowProgressDots: React.FC<WorkflowProgressDotsProps> = ({
     onStepClick,
     minimal = false,
 }) => {
-    const latestCode = workflow.workflowCode[workflow.workflowCode.length - 1]
-        ?.code;
+    const latestRevision =
+        workflow.workflowCode[workflow.workflowCode.length - 1];
 
     // AST解析とアクショングループ化
     const actions = useMemo(() => {
-        if (!latestCode) return [];
-        const { workflowBody, parseError } = parseWorkflowCode(latestCode);
+        if (!latestRevision?.code) return [];
+        const { workflowBody, parseError } = parseWorkflowCode(
+            latestRevision.code,
+        );
         if (parseError || !workflowBody) return [];
-        return groupStatementsIntoActions(workflowBody);
-    }, [latestCode]);
+        return groupStatementsIntoActions(
+            workflowBody,
+            buildPluginCatalog(latestRevision),
+        );
+    }, [latestRevision]);
 
     if (actions.length === 0) {
         return (
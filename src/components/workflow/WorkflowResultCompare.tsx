@@ -0,0 +1,272 @@
+/**
+ * @fileoverview 2 つのワークフロー実行結果の比較ダイアログ
+ *
+ * 実行時刻・結果種別・終了コード・実行時間・コードリビジョンの違いと、
+ * 出力の差分（JSON の場合は値の変更、それ以外は行差分）を表示します。
+ *
+ * @module components/workflow/WorkflowResultCompare
+ */
+
+import React from "react";
+import {
+  Badge,
+  Box,
+  Dialog,
+  HStack,
+  IconButton,
+  Table,
+  Tabs,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuGitCompare, LuX } from "react-icons/lu";
+import type {
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { useI18n } from "@/hooks/useI18n";
+import { countDiff } from "@/lib/diff";
+import { LineDiffView } from "./LineDiffView";
+import { diffResultOutput, getResultRunInfo } from "./result-diff";
+import type { JsonChange } from "./result-diff";
+import { formatCell } from "./result-format";
+
+export interface WorkflowResultCompareProps {
+  open: boolean;
+  onClose: () => void;
+  /** 比較元（古い実行） */
+  before: WorkflowResult;
+  /** 比較先（新しい実行） */
+  after: WorkflowResult;
+  /** 実行したリビジョンの判別に使うコードリビジョン */
+  codes?: WorkflowCode[];
+}
+
+const CHANGE_COLORS: Record<JsonChange["op"], string> = {
+  add: "green",
+  remove: "red",
+  change: "orange",
+};
+
+function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
+  if (!timestamp) return "-";
+  return new Date(Number(timestamp.seconds) * 1000).toLocaleString();
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function JsonChangeList({ changes }: { changes: JsonChange[] }) {
+  const { t } = useI18n();
+  return (
+    <VStack align="stretch" gap={1} fontSize="xs" fontFamily="mono">
+      {changes.map((change, i) => (
+        <HStack
+          key={i}
+          align="start"
+          gap={2}
+          borderWidth="1px"
+          rounded="md"
+          px={2}
+          py={1}
+        >
+          <Badge size="sm" colorPalette={CHANGE_COLORS[change.op]} flexShrink={0}>
+            {t(`resultCompare.ops.${change.op}`)}
+          </Badge>
+          <VStack align="stretch" gap={0.5} minW={0} flex="1">
+            <Text fontWeight="medium" wordBreak="break-all">
+              {change.path || t("resultCompare.root")}
+            </Text>
+            {change.op !== "add" && (
+              <Text color="red.fg" wordBreak="break-all">
+                - {formatCell(change.before)}
+              </Text>
+            )}
+            {change.op !== "remove" && (
+              <Text color="green.fg" wordBreak="break-all">
+                + {formatCell(change.after)}
+              </Text>
+            )}
+          </VStack>
+        </HStack>
+      ))}
+    </VStack>
+  );
+}
+
+/**
+ * 実行結果の比較ダイアログ
+ */
+export function WorkflowResultCompare({
+  open,
+  onClose,
+  before,
+  after,
+  codes = [],
+}: WorkflowResultCompareProps) {
+  const { t } = useI18n();
+  const diff = React.useMemo(
+    () => diffResultOutput(before.result, after.result),
+    [before.result, after.result]
+  );
+  const beforeInfo = getResultRunInfo(before, codes);
+  const afterInfo = getResultRunInfo(after, codes);
+  const { added, removed } = countDiff(diff.lines);
+
+  const revisionLabel = (info: typeof beforeInfo) =>
+    info.codeRevision === null
+      ? "-"
+      : info.revisionInferred
+      ? t("resultCompare.revisionInferred", { revision: info.codeRevision })
+      : t("revisions.revisionLabel", { revision: info.codeRevision });
+
+  const rows: { key: string; label: string; values: [string, string] }[] = [
+    {
+      key: "ranAt",
+      label: t("resultCompare.fields.ranAt"),
+      values: [formatDate(before.ranAt), formatDate(after.ranAt)],
+    },
+    {
+      key: "resultType",
+      label: t("resultCompare.fields.resultType"),
+      values: [before, after].map((r) =>
+        r.resultType === 0 ? t("common.success") : t("common.failure")
+      ) as [string, string],
+    },
+    {
+      key: "exitCode",
+      label: t("resultCompare.fields.exitCode"),
+      values: [String(before.exitCode), String(after.exitCode)],
+    },
+    {
+      key: "duration",
+      label: t("resultCompare.fields.duration"),
+      values: [
+        formatDuration(beforeInfo.durationMs),
+        formatDuration(afterInfo.durationMs),
+      ],
+    },
+    {
+      key: "revision",
+      label: t("resultCompare.fields.revision"),
+      values: [revisionLabel(beforeInfo), revisionLabel(afterInfo)],
+    },
+  ];
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      size={{ base: "full", md: "xl" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxH={{ base: "100vh", md: "85vh" }}>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <HStack gap={2}>
+                <LuGitCompare />
+                <Dialog.Title>{t("resultCompare.title")}</Dialog.Title>
+              </HStack>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("resultCompare.close")}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body overflowY="auto">
+            <VStack align="stretch" gap={4}>
+              <Box overflowX="auto">
+                <Table.Root size="sm" variant="outline">
+                  <Table.Header>
+                    <Table.Row>
+                      <Table.ColumnHeader />
+                      <Table.ColumnHeader>
+                        {t("resultCompare.before")}
+                      </Table.ColumnHeader>
+                      <Table.ColumnHeader>
+                        {t("resultCompare.after")}
+                      </Table.ColumnHeader>
+                    </Table.Row>
+                  </Table.Header>
+                  <Table.Body>
+                    {rows.map((row) => {
+                      const changed = row.key !== "ranAt" &&
+                        row.values[0] !== row.values[1];
+                      return (
+                        <Table.Row
+                          key={row.key}
+                          bg={changed ? "orange.subtle" : undefined}
+                        >
+                          <Table.Cell fontWeight="medium">
+                            {row.label}
+                          </Table.Cell>
+                          <Table.Cell>{row.values[0]}</Table.Cell>
+                          <Table.Cell>{row.values[1]}</Table.Cell>
+                        </Table.Row>
+                      );
+                    })}
+                  </Table.Body>
+                </Table.Root>
+              </Box>
+
+              <VStack align="stretch" gap={2}>
+                <HStack gap={2}>
+                  <Text fontWeight="medium" fontSize="sm">
+                    {t("resultCompare.output")}
+                  </Text>
+                  {diff.identical
+                    ? (
+                      <Badge size="sm">{t("resultCompare.identical")}</Badge>
+                    )
+                    : diff.json
+                    ? (
+                      <Badge size="sm" colorPalette="orange">
+                        {t("resultCompare.changes", {
+                          count: diff.changes.length,
+                        })}
+                      </Badge>
+                    )
+                    : (
+                      <Badge size="sm" colorPalette="orange">
+                        +{added} -{removed}
+                      </Badge>
+                    )}
+                </HStack>
+
+                {diff.json && !diff.identical
+                  ? (
+                    <Tabs.Root defaultValue="changes" size="sm" variant="line">
+                      <Tabs.List>
+                        <Tabs.Trigger value="changes">
+                          {t("resultCompare.jsonChanges")}
+                        </Tabs.Trigger>
+                        <Tabs.Trigger value="text">
+                          {t("resultCompare.textDiff")}
+                        </Tabs.Trigger>
+                      </Tabs.List>
+                      <Tabs.Content value="changes">
+                        <JsonChangeList changes={diff.changes} />
+                      </Tabs.Content>
+                      <Tabs.Content value="text">
+                        <LineDiffView lines={diff.lines} maxH="360px" />
+                      </Tabs.Content>
+                    </Tabs.Root>
+                  )
+                  : <LineDiffView lines={diff.lines} maxH="360px" />}
+              </VStack>
+            </VStack>
+          </Dialog.Body>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
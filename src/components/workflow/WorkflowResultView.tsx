@@ -0,0 +1,504 @@
+/**
+ * @fileoverview ワークフロー実行結果の表示
+ *
+ * `WorkflowResult.result` を内容に応じて表示します。JSON は折りたためるツリー
+ * （オブジェクトの配列は並べ替えできる表）、CSV は表、Markdown は整形して
+ * 表示し、テキスト中の URL とファイルパスを認識します。失敗した実行の結果は
+ * エラー出力として表示します。元のテキストのコピーとダウンロードができます。
+ *
+ * @module components/workflow/WorkflowResultView
+ */
+
+import React from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Link,
+  Table,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import {
+  LuArrowDown,
+  LuArrowUp,
+  LuChevronDown,
+  LuChevronRight,
+  LuClipboard,
+  LuDownload,
+} from "react-icons/lu";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useI18n } from "@/hooks/useI18n";
+import { downloadFile } from "@/lib/utils";
+import {
+  detectResultFormat,
+  formatCell,
+  getResultFileType,
+  isErrorResult,
+  parseCsvResult,
+  parseJsonResult,
+  parseMarkdown,
+  parseMarkdownInline,
+  sortResultRows,
+  splitLinks,
+  toResultTable,
+} from "./result-format";
+import type {
+  MarkdownBlock,
+  ResultSource,
+  ResultTable,
+} from "./result-format";
+
+export interface WorkflowResultViewProps {
+  result: ResultSource;
+  /** ダウンロード時のファイル名（拡張子なし） */
+  fileName?: string;
+  /** 表示部分の最大の高さ */
+  maxH?: string;
+}
+
+type ResultView = "table" | "tree" | "rendered" | "raw";
+
+/** ツリーを最初から展開しておく深さ */
+const TREE_EXPANDED_DEPTH = 1;
+
+async function copyText(text: string, message: string) {
+  if (typeof navigator === "undefined" || !navigator.clipboard?.writeText) {
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText(text);
+    toaster.create({ title: message, type: "success", duration: 1500 });
+  } catch {
+    // コピーできない環境では何もしない
+  }
+}
+
+/**
+ * URL をリンクに、ファイルパスをクリックでコピーできる表示にしたテキスト
+ */
+function LinkifiedText({ text }: { text: string }) {
+  const { t } = useI18n();
+  return (
+    <>
+      {splitLinks(text).map((segment, i) =>
+        segment.kind === "url"
+          ? (
+            <Link
+              key={i}
+              href={segment.value}
+              target="_blank"
+              rel="noopener noreferrer"
+              color="blue.fg"
+              textDecoration="underline"
+            >
+              {segment.value}
+            </Link>
+          )
+          : segment.kind === "path"
+          ? (
+            <Box
+              as="span"
+              key={i}
+              role="button"
+              tabIndex={0}
+              title={t("result.copyPath")}
+              color="purple.fg"
+              textDecoration="underline dotted"
+              cursor="pointer"
+              onClick={() => copyText(segment.value, t("result.pathCopied"))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  copyText(segment.value, t("result.pathCopied"));
+                }
+              }}
+            >
+              {segment.value}
+            </Box>
+          )
+          : <React.Fragment key={i}>{segment.value}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (typeof value === "string") {
+    return (
+      <Text as="span" color="green.fg">
+        "<LinkifiedText text={value} />"
+      </Text>
+    );
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return <Text as="span" color="blue.fg">{String(value)}</Text>;
+  }
+  return <Text as="span" color="fg.muted">null</Text>;
+}
+
+function JsonNode({
+  name,
+  value,
+  depth,
+}: {
+  name?: string;
+  value: unknown;
+  depth: number;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = React.useState(depth < TREE_EXPANDED_DEPTH);
+  const label = name !== undefined && (
+    <Text as="span" color="fg.muted">
+      {name}:{" "}
+    </Text>
+  );
+
+  if (value === null || typeof value !== "object") {
+    return (
+      <Box pl={5}>
+        {label}
+        <JsonValue value={value} />
+      </Box>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((v, i) => [String(i), v] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = Array.isArray(value)
+    ? t("result.items", { count: entries.length })
+    : t("result.keys", { count: entries.length });
+
+  return (
+    <Box>
+      <HStack
+        gap={1}
+        cursor="pointer"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <Box as="span" color="fg.muted" flexShrink={0}>
+          {open ? <LuChevronDown size={14} /> : <LuChevronRight size={14} />}
+        </Box>
+        <Text as="span">
+          {label}
+          {Array.isArray(value) ? "[ ]" : "{ }"}
+        </Text>
+        <Text as="span" color="fg.muted">
+          {summary}
+        </Text>
+      </HStack>
+      {open && (
+        <Box pl={4} borderLeftWidth="1px" ml={1.5}>
+          {entries.map(([key, v]) => (
+            <JsonNode key={key} name={key} value={v} depth={depth + 1} />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+function ResultTableView({ table }: { table: ResultTable }) {
+  const { t } = useI18n();
+  const [sort, setSort] = React.useState<
+    { column: number; direction: "asc" | "desc" } | null
+  >(null);
+  const rows = sort
+    ? sortResultRows(table, sort.column, sort.direction)
+    : table.rows;
+
+  const toggleSort = (column: number) => {
+    setSort((prev) =>
+      prev?.column === column
+        ? prev.direction === "asc"
+          ? { column, direction: "desc" }
+          : null
+        : { column, direction: "asc" }
+    );
+  };
+
+  return (
+    <VStack align="stretch" gap={1}>
+      <Box overflowX="auto">
+        <Table.Root size="sm" variant="outline">
+          <Table.Header>
+            <Table.Row>
+              {table.columns.map((column, i) => (
+                <Table.ColumnHeader
+                  key={i}
+                  cursor="pointer"
+                  whiteSpace="nowrap"
+                  onClick={() => toggleSort(i)}
+                  _hover={{ bg: "bg.subtle" }}
+                  aria-sort={sort?.column === i
+                    ? sort.direction === "asc" ? "ascending" : "descending"
+                    : undefined}
+                >
+                  <HStack gap={1}>
+                    <Text>{column}</Text>
+                    {sort?.column === i &&
+                      (sort.direction === "asc"
+                        ? <LuArrowUp size={12} />
+                        : <LuArrowDown size={12} />)}
+                  </HStack>
+                </Table.ColumnHeader>
+              ))}
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {rows.map((row, r) => (
+              <Table.Row key={r}>
+                {table.columns.map((_, c) => (
+                  <Table.Cell key={c} verticalAlign="top">
+                    <LinkifiedText text={formatCell(row[c])} />
+                  </Table.Cell>
+                ))}
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table.Root>
+      </Box>
+      <Text fontSize="2xs" color="fg.muted">
+        {t("result.rows", { count: table.rows.length })}
+      </Text>
+    </VStack>
+  );
+}
+
+function MarkdownText({ text }: { text: string }) {
+  return (
+    <>
+      {parseMarkdownInline(text).map((token, i) => {
+        switch (token.type) {
+          case "code":
+            return (
+              <Box
+                as="code"
+                key={i}
+                fontFamily="mono"
+                bg="bg.muted"
+                px={1}
+                rounded="sm"
+              >
+                {token.text}
+              </Box>
+            );
+          case "strong":
+            return <strong key={i}>{token.text}</strong>;
+          case "em":
+            return <em key={i}>{token.text}</em>;
+          case "link":
+            return /^(https?:|mailto:)/.test(token.href)
+              ? (
+                <Link
+                  key={i}
+                  href={token.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  color="blue.fg"
+                  textDecoration="underline"
+                >
+                  {token.text}
+                </Link>
+              )
+              : <React.Fragment key={i}>{token.text}</React.Fragment>;
+          default:
+            return <LinkifiedText key={i} text={token.text} />;
+        }
+      })}
+    </>
+  );
+}
+
+const HEADING_SIZES = ["lg", "md", "sm", "sm", "xs", "xs"] as const;
+
+function MarkdownBlockView({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "heading":
+      return (
+        <Text
+          fontWeight="semibold"
+          fontSize={HEADING_SIZES[block.level - 1]}
+          mt={1}
+        >
+          <MarkdownText text={block.text} />
+        </Text>
+      );
+    case "list":
+      return (
+        <Box
+          as={block.ordered ? "ol" : "ul"}
+          pl={5}
+          listStyleType={block.ordered ? "decimal" : "disc"}
+        >
+          {block.items.map((item, i) => (
+            <li key={i}>
+              <MarkdownText text={item} />
+            </li>
+          ))}
+        </Box>
+      );
+    case "code":
+      return (
+        <Box
+          as="pre"
+          fontFamily="mono"
+          bg="bg.muted"
+          p={2}
+          rounded="md"
+          overflowX="auto"
+        >
+          {block.code}
+        </Box>
+      );
+    case "quote":
+      return (
+        <Box borderLeftWidth="3px" pl={3} color="fg.muted">
+          <MarkdownText text={block.text} />
+        </Box>
+      );
+    case "table":
+      return (
+        <ResultTableView table={{ columns: block.header, rows: block.rows }} />
+      );
+    case "rule":
+      return <Box borderTopWidth="1px" my={1} />;
+    default:
+      return (
+        <Text>
+          <MarkdownText text={block.text} />
+        </Text>
+      );
+  }
+}
+
+/**
+ * ワークフロー実行結果の表示
+ */
+export function WorkflowResultView({
+  result,
+  fileName = "workflow-result",
+  maxH = "320px",
+}: WorkflowResultViewProps) {
+  const { t } = useI18n();
+  const isError = isErrorResult(result);
+  const format = React.useMemo(() => detectResultFormat(result), [result]);
+  const parsed = React.useMemo(() => {
+    if (format === "json") {
+      const value = parseJsonResult(result.result);
+      return { value, table: toResultTable(value) };
+    }
+    if (format === "csv") {
+      return { value: undefined, table: parseCsvResult(result.result) };
+    }
+    return { value: undefined, table: null };
+  }, [format, result.result]);
+
+  const views: ResultView[] = format === "json"
+    ? parsed.table ? ["table", "tree", "raw"] : ["tree", "raw"]
+    : format === "csv"
+    ? ["table", "raw"]
+    : format === "markdown"
+    ? ["rendered", "raw"]
+    : ["raw"];
+  const [selected, setSelected] = React.useState<ResultView | null>(null);
+  const view = selected && views.includes(selected) ? selected : views[0];
+
+  const handleDownload = () => {
+    const { extension, mimeType } = getResultFileType(format);
+    downloadFile(result.result, `${fileName}.${extension}`, mimeType);
+  };
+
+  return (
+    <VStack align="stretch" gap={1}>
+      <HStack justify="space-between" gap={2} flexWrap="wrap">
+        <HStack gap={1}>
+          {isError
+            ? (
+              <Badge size="sm" colorPalette="red">
+                {t("result.errorOutput")}
+              </Badge>
+            )
+            : (
+              <Badge size="sm" variant="outline">
+                {t(`result.formats.${format}`)}
+              </Badge>
+            )}
+          {result.exitCode !== 0 && (
+            <Badge size="sm" colorPalette="red" variant="outline">
+              {t("result.exitCode", { code: result.exitCode })}
+            </Badge>
+          )}
+          {views.length > 1 &&
+            views.map((v) => (
+              <Button
+                key={v}
+                size="2xs"
+                variant={v === view ? "subtle" : "ghost"}
+                onClick={() => setSelected(v)}
+                aria-pressed={v === view}
+              >
+                {t(`result.views.${v}`)}
+              </Button>
+            ))}
+        </HStack>
+        <HStack gap={0.5}>
+          <IconButton
+            aria-label={t("common.copy")}
+            title={t("common.copy")}
+            size="2xs"
+            variant="ghost"
+            onClick={() => copyText(result.result, t("common.copied"))}
+          >
+            <LuClipboard />
+          </IconButton>
+          <IconButton
+            aria-label={t("result.download")}
+            title={t("result.download")}
+            size="2xs"
+            variant="ghost"
+            onClick={handleDownload}
+          >
+            <LuDownload />
+          </IconButton>
+        </HStack>
+      </HStack>
+
+      <Box
+        p={2}
+        rounded="md"
+        fontSize="xs"
+        maxH={maxH}
+        overflow="auto"
+        bg={isError ? "red.50" : "bg.subtle"}
+        borderWidth={isError ? "1px" : undefined}
+        borderColor={isError ? "red.200" : undefined}
+        fontFamily={view === "raw" || view === "tree" ? "mono" : undefined}
+        css={{
+          whiteSpace: view === "raw" ? "pre-wrap" : undefined,
+          wordBreak: "break-word",
+          _dark: isError
+            ? { bg: "red.900/20", borderColor: "red.800" }
+            : undefined,
+        }}
+      >
+        {view === "table" && parsed.table
+          ? <ResultTableView table={parsed.table} />
+          : view === "tree"
+          ? <JsonNode value={parsed.value} depth={0} />
+          : view === "rendered"
+          ? (
+            <VStack align="stretch" gap={2}>
+              {parseMarkdown(result.result).map((block, i) => (
+                <MarkdownBlockView key={i} block={block} />
+              ))}
+            </VStack>
+          )
+          : <LinkifiedText text={result.result} />}
+      </Box>
+    </VStack>
+  );
+}
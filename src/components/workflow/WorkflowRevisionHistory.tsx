@@ -0,0 +1,432 @@
+/**
+ * @fileoverview ワークフローのコードリビジョン履歴パネル
+ *
+ * すべての WorkflowCode リビジョンを一覧表示し、任意の 2 リビジョン間の
+ * 行差分・アクション差分・プラグイン関数/権限の変更を表示します。
+ * 古いリビジョンの実行や復元もここから行えます。
+ *
+ * @module components/workflow/WorkflowRevisionHistory
+ */
+
+import React from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  Flex,
+  HStack,
+  NativeSelect,
+  Tabs,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuGitBranch, LuPlay, LuRotateCcw } from "react-icons/lu";
+import type { Workflow, WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useI18n } from "@/hooks/useI18n";
+import { diffRevisions } from "./revision-diff";
+import type { ActionDiffEntry, RevisionDiff } from "./revision-diff";
+import { LineDiffView } from "./LineDiffView";
+
+/**
+ * WorkflowRevisionHistoryコンポーネントのProps
+ */
+export interface WorkflowRevisionHistoryProps {
+  /** 対象のワークフロー */
+  workflow: Workflow;
+  /** 指定リビジョンを実行（指定時のみボタンを表示） */
+  onRun?: (code: WorkflowCode) => void;
+  /** 指定リビジョンを新しいリビジョンとして復元（指定時のみボタンを表示） */
+  onRestore?: (code: WorkflowCode) => void;
+  /** 実行中かどうか */
+  running?: boolean;
+  /** 復元中かどうか */
+  restoring?: boolean;
+}
+
+function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
+  if (!timestamp) return "-";
+  return new Date(Number(timestamp.seconds) * 1000).toLocaleString();
+}
+
+/** リビジョンの識別キー（ID が未採番の場合はリビジョン番号を使う） */
+function revisionKey(code: WorkflowCode, index: number): string {
+  return code.id || `rev-${code.codeRevision}-${index}`;
+}
+
+const ACTION_OP_COLORS: Record<ActionDiffEntry["op"], string> = {
+  equal: "gray",
+  add: "green",
+  remove: "red",
+  modify: "orange",
+};
+
+function ActionDiffView({ entries }: { entries: ActionDiffEntry[] }) {
+  const { t } = useI18n();
+  if (!entries.some((e) => e.op !== "equal")) {
+    return (
+      <Text fontSize="sm" color="fg.muted">
+        {t("diff.noChanges")}
+      </Text>
+    );
+  }
+
+  return (
+    <VStack align="stretch" gap={2}>
+      {entries.map((entry, i) => (
+        <Box
+          key={i}
+          p={2}
+          borderWidth="1px"
+          borderLeftWidth="4px"
+          borderLeftColor={`${ACTION_OP_COLORS[entry.op]}.500`}
+          rounded="md"
+          opacity={entry.op === "equal" ? 0.6 : 1}
+        >
+          <HStack gap={2} mb={1}>
+            <Badge size="sm" colorPalette={ACTION_OP_COLORS[entry.op]}>
+              {t(`revisions.actionOp.${entry.op}`)}
+            </Badge>
+            <Text fontSize="sm" fontWeight="medium">
+              {entry.action.title}
+            </Text>
+          </HStack>
+          {entry.op === "modify" && entry.previous
+            ? (
+              <VStack align="stretch" gap={0.5} fontSize="xs">
+                <Text color="red.fg" textDecoration="line-through">
+                  {entry.previous.humanReadable}
+                </Text>
+                <Text color="green.fg">{entry.action.humanReadable}</Text>
+              </VStack>
+            )
+            : (
+              <Text fontSize="xs" color="fg.muted">
+                {entry.action.humanReadable}
+              </Text>
+            )}
+        </Box>
+      ))}
+    </VStack>
+  );
+}
+
+function PluginDiffView({ diff }: { diff: RevisionDiff }) {
+  const { t } = useI18n();
+  const { added, removed } = diff.pluginFunctions;
+
+  if (added.length === 0 && removed.length === 0 && diff.permissions.length === 0) {
+    return (
+      <Text fontSize="sm" color="fg.muted">
+        {t("revisions.noPluginChanges")}
+      </Text>
+    );
+  }
+
+  return (
+    <VStack align="stretch" gap={4}>
+      {(added.length > 0 || removed.length > 0) && (
+        <Box>
+          <Text fontSize="sm" fontWeight="medium" mb={2}>
+            {t("revisions.pluginFunctions")}
+          </Text>
+          <Flex gap={1} wrap="wrap">
+            {added.map((id) => (
+              <Badge key={`+${id}`} colorPalette="green" size="sm">
+                + {id}
+              </Badge>
+            ))}
+            {removed.map((id) => (
+              <Badge key={`-${id}`} colorPalette="red" size="sm">
+                - {id}
+              </Badge>
+            ))}
+          </Flex>
+        </Box>
+      )}
+      {diff.permissions.length > 0 && (
+        <Box>
+          <Text fontSize="sm" fontWeight="medium" mb={2}>
+            {t("revisions.permissions")}
+          </Text>
+          <VStack align="stretch" gap={2}>
+            {diff.permissions.map((change) => (
+              <Box
+                key={change.pluginFunctionId}
+                p={2}
+                borderWidth="1px"
+                rounded="md"
+              >
+                <Text fontSize="xs" fontFamily="mono" mb={1}>
+                  {change.pluginFunctionId}
+                </Text>
+                <Flex gap={1} wrap="wrap">
+                  {change.added.map((p) => (
+                    <Badge key={`+${p}`} colorPalette="green" size="sm">
+                      + {p}
+                    </Badge>
+                  ))}
+                  {change.removed.map((p) => (
+                    <Badge key={`-${p}`} colorPalette="red" size="sm">
+                      - {p}
+                    </Badge>
+                  ))}
+                </Flex>
+              </Box>
+            ))}
+          </VStack>
+        </Box>
+      )}
+    </VStack>
+  );
+}
+
+function RevisionSelect({
+  label,
+  value,
+  revisions,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  revisions: WorkflowCode[];
+  onChange: (index: number) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <HStack gap={2}>
+      <Text fontSize="xs" color="fg.muted" flexShrink={0}>
+        {label}
+      </Text>
+      <NativeSelect.Root size="xs" w="auto">
+        <NativeSelect.Field
+          value={String(value)}
+          onChange={(e) => onChange(Number(e.currentTarget.value))}
+          aria-label={label}
+        >
+          {revisions.map((code, i) => (
+            <option key={revisionKey(code, i)} value={i}>
+              {t("revisions.revisionLabel", { revision: code.codeRevision })}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+    </HStack>
+  );
+}
+
+/**
+ * リビジョン履歴パネル
+ *
+ * @example
+ * ```tsx
+ * <WorkflowRevisionHistory
+ *   workflow={workflow}
+ *   onRun={(code) => runById(workflow.id, code.id, workflow)}
+ *   onRestore={(code) => saveRevision(workflow, code)}
+ * />
+ * ```
+ */
+export const WorkflowRevisionHistory: React.FC<WorkflowRevisionHistoryProps> = ({
+  workflow,
+  onRun,
+  onRestore,
+  running = false,
+  restoring = false,
+}) => {
+  const { t } = useI18n();
+  const revisions = React.useMemo(
+    () => workflow.workflowCode || [],
+    [workflow.workflowCode]
+  );
+  const latestIndex = revisions.length - 1;
+
+  // 比較対象（インデックス）。デフォルトは「1つ前 → 最新」
+  const [baseIndex, setBaseIndex] = React.useState(Math.max(0, latestIndex - 1));
+  const [targetIndex, setTargetIndex] = React.useState(Math.max(0, latestIndex));
+
+  // リビジョンが増減したら最新との比較に戻す
+  React.useEffect(() => {
+    setBaseIndex(Math.max(0, latestIndex - 1));
+    setTargetIndex(Math.max(0, latestIndex));
+  }, [latestIndex]);
+
+  const diff = React.useMemo(() => {
+    const base = revisions[baseIndex];
+    const target = revisions[targetIndex];
+    if (!base || !target || baseIndex === targetIndex) return null;
+    return diffRevisions(base, target);
+  }, [revisions, baseIndex, targetIndex]);
+
+  if (revisions.length === 0) {
+    return (
+      <EmptyState
+        icon={<LuGitBranch />}
+        title={t("revisions.emptyTitle")}
+        description={t("revisions.emptyDescription")}
+      />
+    );
+  }
+
+  const ordered = revisions
+    .map((code, index) => ({ code, index }))
+    .reverse();
+
+  return (
+    <Flex gap={4} direction={{ base: "column", lg: "row" }} align="stretch">
+      {/* Revision list */}
+      <VStack
+        align="stretch"
+        gap={2}
+        w={{ base: "full", lg: "320px" }}
+        flexShrink={0}
+      >
+        {ordered.map(({ code, index }) => {
+          const isLatest = index === latestIndex;
+          const selected = index === targetIndex;
+          return (
+            <Card.Root
+              key={revisionKey(code, index)}
+              variant="outline"
+              borderColor={selected ? "colorPalette.500" : undefined}
+              colorPalette="blue"
+              cursor="pointer"
+              onClick={() => {
+                setTargetIndex(index);
+                if (index === baseIndex) {
+                  setBaseIndex(index > 0 ? index - 1 : Math.min(1, latestIndex));
+                }
+              }}
+            >
+              <Card.Body p={3}>
+                <VStack align="stretch" gap={1}>
+                  <HStack justify="space-between">
+                    <HStack gap={2}>
+                      <Text fontWeight="medium" fontSize="sm">
+                        {t("revisions.revisionLabel", {
+                          revision: code.codeRevision,
+                        })}
+                      </Text>
+                      {isLatest && (
+                        <Badge size="sm" colorPalette="blue">
+                          {t("revisions.latest")}
+                        </Badge>
+                      )}
+                    </HStack>
+                    <Text fontSize="xs" color="fg.muted">
+                      {formatDate(code.createdAt)}
+                    </Text>
+                  </HStack>
+                  <Text fontSize="xs" color="fg.muted">
+                    {t("revisions.summary", {
+                      lines: code.code ? code.code.split("\n").length : 0,
+                      functions: code.pluginFunctionIds.length,
+                      runs: code.result.length,
+                    })}
+                  </Text>
+                  {(onRun || onRestore) && (
+                    <HStack gap={2} mt={1}>
+                      {onRun && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          disabled={running || !code.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRun(code);
+                          }}
+                        >
+                          <LuPlay />
+                          {t("revisions.run")}
+                        </Button>
+                      )}
+                      {onRestore && !isLatest && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          loading={restoring}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRestore(code);
+                          }}
+                        >
+                          <LuRotateCcw />
+                          {t("revisions.restore")}
+                        </Button>
+                      )}
+                    </HStack>
+                  )}
+                </VStack>
+              </Card.Body>
+            </Card.Root>
+          );
+        })}
+      </VStack>
+
+      {/* Diff */}
+      <Box flex="1" minW={0}>
+        <HStack gap={4} mb={3} flexWrap="wrap">
+          <RevisionSelect
+            label={t("revisions.base")}
+            value={baseIndex}
+            revisions={revisions}
+            onChange={setBaseIndex}
+          />
+          <RevisionSelect
+            label={t("revisions.compare")}
+            value={targetIndex}
+            revisions={revisions}
+            onChange={setTargetIndex}
+          />
+          {diff && (
+            <HStack gap={1} fontSize="xs">
+              <Text color="green.fg">+{diff.lineStats.added}</Text>
+              <Text color="red.fg">-{diff.lineStats.removed}</Text>
+            </HStack>
+          )}
+        </HStack>
+
+        {!diff
+          ? (
+            <Text fontSize="sm" color="fg.muted">
+              {revisions.length < 2
+                ? t("revisions.singleRevision")
+                : t("revisions.selectDifferent")}
+            </Text>
+          )
+          : (
+            <Tabs.Root defaultValue="lines" size="sm" variant="line">
+              <Tabs.List>
+                <Tabs.Trigger value="lines">{t("revisions.tabs.lines")}</Tabs.Trigger>
+                <Tabs.Trigger value="actions">
+                  {t("revisions.tabs.actions")}
+                </Tabs.Trigger>
+                <Tabs.Trigger value="plugins">
+                  {t("revisions.tabs.plugins")}
+                </Tabs.Trigger>
+              </Tabs.List>
+              <Tabs.Content value="lines">
+                <LineDiffView lines={diff.lines} />
+              </Tabs.Content>
+              <Tabs.Content value="actions">
+                {diff.actions
+                  ? <ActionDiffView entries={diff.actions} />
+                  : (
+                    <Text fontSize="sm" color="red.500">
+                      {t("revisions.parseError", {
+                        message: diff.parseError?.message ?? "",
+                      })}
+                    </Text>
+                  )}
+              </Tabs.Content>
+              <Tabs.Content value="plugins">
+                <PluginDiffView diff={diff} />
+              </Tabs.Content>
+            </Tabs.Root>
+          )}
+      </Box>
+    </Flex>
+  );
+};
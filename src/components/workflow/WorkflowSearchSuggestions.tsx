@@ -0,0 +1,77 @@
+/**
+ * @fileoverview ワークフロー検索の補完候補
+ *
+ * 検索ボックスの下にフィールド名・値の候補を表示します。候補は
+ * useWorkflowSearch が lib/workflow-search から作成し、↓ キーで選んだ候補を
+ * Tab・Enter で補完します。
+ *
+ * @module components/workflow/WorkflowSearchSuggestions
+ */
+
+import { Badge, HStack, Kbd, Text } from "@chakra-ui/react";
+import { useI18n } from "@/hooks/useI18n";
+import type { SearchSuggestion } from "@/lib/workflow-search";
+
+export interface WorkflowSearchSuggestionsProps {
+  suggestions: SearchSuggestion[];
+  /** キーボードで選んでいる候補の位置（選んでいない場合は -1） */
+  activeIndex?: number;
+  onSelect: (suggestion: SearchSuggestion) => void;
+}
+
+export function WorkflowSearchSuggestions({
+  suggestions,
+  activeIndex = -1,
+  onSelect,
+}: WorkflowSearchSuggestionsProps) {
+  const { t } = useI18n();
+  if (suggestions.length === 0) return null;
+
+  return (
+    <HStack
+      gap={1}
+      flexWrap="wrap"
+      fontSize="xs"
+      role="listbox"
+      aria-label={t("search.suggestions")}
+    >
+      {suggestions.map((suggestion, i) => (
+        <Badge
+          key={suggestion.insert}
+          as="button"
+          role="option"
+          aria-selected={i === activeIndex}
+          size="sm"
+          variant={i === activeIndex ? "solid" : "outline"}
+          colorPalette={suggestion.kind === "field" ? "floorp" : "gray"}
+          fontFamily="mono"
+          cursor="pointer"
+          title={suggestion.kind === "field"
+            ? t(`search.fields.${suggestion.field}`)
+            : undefined}
+          // 検索ボックスのフォーカスを保つ
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+        >
+          {suggestion.label}
+        </Badge>
+      ))}
+      <HStack gap={1} color="fg.muted">
+        {activeIndex < 0
+          ? (
+            <>
+              <Kbd size="sm">↓</Kbd>
+              <Text>{t("search.choose")}</Text>
+            </>
+          )
+          : (
+            <>
+              <Kbd size="sm">Tab</Kbd>
+              <Kbd size="sm">Enter</Kbd>
+              <Text>{t("search.complete")}</Text>
+            </>
+          )}
+      </HStack>
+    </HStack>
+  );
+}
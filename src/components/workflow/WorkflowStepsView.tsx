@@ -0,0 +1,548 @@
+/**
+ * @fileoverview ワークフローをフローチャートとして表示するステップビュー
+ *
+ * `workflow()` 本体をノードとエッジのグラフとして描画し、
+ * パン/ズーム、ミニマップ、ノードに対応するソース行の強調表示をサポートします。
+ *
+ * @module components/workflow/WorkflowStepsView
+ */
+
+import type { Statement } from "@babel/types";
+import { Box, HStack, IconButton, Text } from "@chakra-ui/react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  LuCode,
+  LuCornerDownLeft,
+  LuFlag,
+  LuLogOut,
+  LuMaximize,
+  LuPlay,
+  LuRedo2,
+  LuRepeat,
+  LuShield,
+  LuShieldAlert,
+  LuShieldCheck,
+  LuSplit,
+  LuTriangleAlert,
+  LuVariable,
+  LuX,
+  LuZap,
+  LuZoomIn,
+  LuZoomOut,
+} from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import { CodeHighlighter } from "./CodeHighlighter";
+import { FLOW_LAYOUT, getNodeColor } from "./constants";
+import { buildFlowGraph } from "./flow-graph";
+import type { FlowEdge, FlowGraph, FlowNode, FlowNodeKind } from "./flow-graph";
+import { NodeContainer } from "./NodeContainer";
+import type { NodeContainerProps } from "./types";
+
+/**
+ * WorkflowStepsViewコンポーネントのProps
+ */
+export interface WorkflowStepsViewProps {
+  /** 解析元のソースコード（行番号の基準） */
+  code: string;
+  /** `workflow()` 関数の本体 */
+  workflowBody: Statement[];
+}
+
+interface Transform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/** ノード種別ごとのアイコン */
+const KIND_ICONS: Record<FlowNodeKind, React.ReactElement> = {
+  start: <LuPlay size={14} />,
+  end: <LuFlag size={14} />,
+  variable: <LuVariable size={14} />,
+  call: <LuZap size={14} />,
+  expression: <LuCode size={14} />,
+  condition: <LuSplit size={14} />,
+  switch: <LuSplit size={14} />,
+  loop: <LuRepeat size={14} />,
+  try: <LuShield size={14} />,
+  catch: <LuShieldAlert size={14} />,
+  finally: <LuShieldCheck size={14} />,
+  return: <LuCornerDownLeft size={14} />,
+  throw: <LuTriangleAlert size={14} />,
+  break: <LuLogOut size={14} />,
+  continue: <LuRedo2 size={14} />,
+};
+
+/** ノード種別を NODE_COLORS のキーに対応付ける */
+const KIND_COLOR_KEYS: Partial<Record<FlowNodeKind, string>> = {
+  variable: "variable",
+  call: "call",
+  expression: "expression",
+  condition: "condition",
+  switch: "condition",
+  loop: "loop",
+  catch: "error",
+  throw: "error",
+  return: "return",
+};
+
+/** エッジ種別ごとの線の色と破線 */
+const EDGE_STYLES: Record<FlowEdge["kind"], { color: string; dashed?: boolean }> = {
+  next: { color: "gray" },
+  true: { color: "green" },
+  false: { color: "red" },
+  case: { color: "amber" },
+  body: { color: "blue" },
+  "loop-back": { color: "blue", dashed: true },
+  exit: { color: "gray" },
+  catch: { color: "red", dashed: true },
+  return: { color: "pink", dashed: true },
+};
+
+const { nodeWidth, nodeHeight, gapX, gapY, padding } = FLOW_LAYOUT;
+
+const nodeX = (node: FlowNode) => padding + node.col * (nodeWidth + gapX);
+const nodeY = (node: FlowNode) => padding + node.row * (nodeHeight + gapY);
+
+const clampScale = (scale: number) =>
+  Math.min(FLOW_LAYOUT.maxScale, Math.max(FLOW_LAYOUT.minScale, scale));
+
+const paletteOf = (kind: FlowNodeKind) =>
+  getNodeColor(KIND_COLOR_KEYS[kind] ?? "default") as NonNullable<
+    NodeContainerProps["palette"]
+  >;
+
+/**
+ * エッジの SVG パスを計算
+ *
+ * 下方向の接続はノード下端から上端へ、ループの戻りなど上方向の接続は
+ * ノードの左側を回り込む曲線で描画します。
+ */
+function edgePath(from: FlowNode, to: FlowNode): string {
+  if (to.row > from.row) {
+    const x1 = nodeX(from) + nodeWidth / 2;
+    const y1 = nodeY(from) + nodeHeight;
+    const x2 = nodeX(to) + nodeWidth / 2;
+    const y2 = nodeY(to);
+    const dy = (y2 - y1) / 2;
+    return `M ${x1} ${y1} C ${x1} ${y1 + dy}, ${x2} ${y2 - dy}, ${x2} ${y2}`;
+  }
+  const x1 = nodeX(from);
+  const y1 = nodeY(from) + nodeHeight / 2;
+  const x2 = nodeX(to);
+  const y2 = nodeY(to) + nodeHeight / 2;
+  const bend = gapX * 0.8;
+  return `M ${x1} ${y1} C ${x1 - bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+/**
+ * ワークフローステップビューコンポーネント
+ *
+ * - ドラッグでパン、ホイールでズーム
+ * - 右下のミニマップで表示範囲を確認・移動
+ * - ノードをクリックすると対応するソース行を強調表示
+ *
+ * @example
+ * ```tsx
+ * const { workflowBody } = parseWorkflowCode(code);
+ * <WorkflowStepsView code={code} workflowBody={workflowBody ?? []} />
+ * ```
+ */
+export const WorkflowStepsView: React.FC<WorkflowStepsViewProps> = ({
+  code,
+  workflowBody,
+}) => {
+  const { t } = useI18n();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const fittedGraphRef = useRef<FlowGraph | null>(null);
+  const [transform, setTransform] = useState<Transform>({
+    x: 0,
+    y: 0,
+    scale: 1,
+  });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const graph = useMemo(() => buildFlowGraph(workflowBody), [workflowBody]);
+  const nodesById = useMemo(
+    () => new Map(graph.nodes.map((n) => [n.id, n])),
+    [graph],
+  );
+  const graphWidth = padding * 2 + graph.cols * nodeWidth +
+    (graph.cols - 1) * gapX;
+  const graphHeight = padding * 2 + graph.rows * nodeHeight +
+    (graph.rows - 1) * gapY;
+
+  const selected = selectedId ? nodesById.get(selectedId) ?? null : null;
+  const sourceOpen = selected !== null;
+
+  // 表示領域のサイズを追跡
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const update = () =>
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    update();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [sourceOpen]);
+
+  const fitToView = useCallback(() => {
+    const { width, height } = viewport;
+    if (!width || !height) return;
+    const scale = clampScale(
+      Math.min(1, width / graphWidth, height / graphHeight),
+    );
+    setTransform({
+      x: (width - graphWidth * scale) / 2,
+      y: Math.max(0, (height - graphHeight * scale) / 2),
+      scale,
+    });
+  }, [viewport, graphWidth, graphHeight]);
+
+  // グラフが変わったら全体が収まるように表示
+  // （表示領域のサイズ変更ごとには再調整しない）
+  useEffect(() => {
+    if (fittedGraphRef.current === graph || !viewport.width) return;
+    fittedGraphRef.current = graph;
+    fitToView();
+  }, [graph, viewport.width, fitToView]);
+
+  useEffect(() => {
+    setSelectedId(null);
+  }, [graph]);
+
+  const zoomAt = useCallback((factor: number, px: number, py: number) => {
+    setTransform((prev) => {
+      const scale = clampScale(prev.scale * factor);
+      const ratio = scale / prev.scale;
+      return {
+        x: px - (px - prev.x) * ratio,
+        y: py - (py - prev.y) * ratio,
+        scale,
+      };
+    });
+  }, []);
+
+  // React の onWheel は passive のため、ページのスクロールを止めるには
+  // ネイティブのリスナーを登録する必要がある
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      zoomAt(
+        Math.exp(-e.deltaY * 0.0015),
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+      );
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setTransform((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+  };
+
+  /** ミニマップ上の位置を表示領域の中心に移動 */
+  const minimapScale = Math.min(
+    FLOW_LAYOUT.minimapWidth / graphWidth,
+    FLOW_LAYOUT.minimapHeight / graphHeight,
+  );
+  const handleMinimapPointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.type === "pointermove" && e.buttons !== 1) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const gx = (e.clientX - rect.left) / minimapScale;
+    const gy = (e.clientY - rect.top) / minimapScale;
+    setTransform((prev) => ({
+      ...prev,
+      x: viewport.width / 2 - gx * prev.scale,
+      y: viewport.height / 2 - gy * prev.scale,
+    }));
+  };
+
+  const selectNode = (node: FlowNode) =>
+    setSelectedId((prev) => (prev === node.id ? null : node.id));
+
+  const edgeLabel = (edge: FlowEdge) => {
+    if (edge.label) return edge.label;
+    if (edge.kind === "true" || edge.kind === "false" || edge.kind === "catch") {
+      return t(`steps.edges.${edge.kind}`);
+    }
+    return null;
+  };
+
+  return (
+    <Box display="flex" flexDirection={{ base: "column", md: "row" }} h="100%">
+      {/* グラフ */}
+      <Box
+        ref={viewportRef}
+        position="relative"
+        flex={1}
+        minH={0}
+        overflow="hidden"
+        cursor="grab"
+        _active={{ cursor: "grabbing" }}
+        touchAction="none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        data-testid="workflow-steps-viewport"
+      >
+        <Box
+          position="absolute"
+          top={0}
+          left={0}
+          w={`${graphWidth}px`}
+          h={`${graphHeight}px`}
+          transformOrigin="0 0"
+          style={{
+            transform:
+              `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          }}
+        >
+          <svg
+            width={graphWidth}
+            height={graphHeight}
+            style={{ position: "absolute", inset: 0, overflow: "visible" }}
+          >
+            <defs>
+              {Object.entries(EDGE_STYLES).map(([kind, style]) => (
+                <marker
+                  key={kind}
+                  id={`flow-arrow-${kind}`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    fill={`var(--chakra-colors-${style.color}-500)`}
+                  />
+                </marker>
+              ))}
+            </defs>
+            {graph.edges.map((edge) => {
+              const from = nodesById.get(edge.from);
+              const to = nodesById.get(edge.to);
+              if (!from || !to) return null;
+              const style = EDGE_STYLES[edge.kind];
+              const label = edgeLabel(edge);
+              return (
+                <g key={edge.id} data-edge-kind={edge.kind}>
+                  <path
+                    d={edgePath(from, to)}
+                    fill="none"
+                    stroke={`var(--chakra-colors-${style.color}-500)`}
+                    strokeOpacity={0.8}
+                    strokeWidth={1.5}
+                    strokeDasharray={style.dashed ? "5 4" : undefined}
+                    markerEnd={`url(#flow-arrow-${edge.kind})`}
+                  />
+                  {label && (
+                    <text
+                      x={to.row > from.row
+                        ? (nodeX(from) + nodeX(to)) / 2 + nodeWidth / 2 + 6
+                        : nodeX(from) - gapX / 2}
+                      y={nodeY(from) + nodeHeight + gapY / 2}
+                      fontSize={11}
+                      fill={`var(--chakra-colors-${style.color}-600)`}
+                    >
+                      {label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {graph.nodes.map((node) => (
+            <Box
+              key={node.id}
+              role="button"
+              tabIndex={0}
+              aria-pressed={node.id === selectedId}
+              aria-label={`${t(`steps.kinds.${node.kind}`)} ${node.summary}`}
+              position="absolute"
+              left={`${nodeX(node)}px`}
+              top={`${nodeY(node)}px`}
+              w={`${nodeWidth}px`}
+              cursor="pointer"
+              borderRadius="md"
+              outline={node.id === selectedId ? "2px solid" : undefined}
+              outlineColor="yellow.400"
+              outlineOffset="2px"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => selectNode(node)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  selectNode(node);
+                }
+              }}
+            >
+              <NodeContainer
+                title={t(`steps.kinds.${node.kind}`)}
+                summary={node.summary || undefined}
+                icon={KIND_ICONS[node.kind]}
+                palette={paletteOf(node.kind)}
+              />
+            </Box>
+          ))}
+        </Box>
+
+        {/* ズーム操作 */}
+        <HStack
+          position="absolute"
+          left={2}
+          bottom={2}
+          gap={1}
+          bg="bg"
+          borderWidth="1px"
+          borderRadius="md"
+          p={1}
+          boxShadow="sm"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <IconButton
+            aria-label={t("steps.zoomIn")}
+            size="xs"
+            variant="ghost"
+            onClick={() =>
+              zoomAt(1.2, viewport.width / 2, viewport.height / 2)}
+          >
+            <LuZoomIn />
+          </IconButton>
+          <IconButton
+            aria-label={t("steps.zoomOut")}
+            size="xs"
+            variant="ghost"
+            onClick={() =>
+              zoomAt(1 / 1.2, viewport.width / 2, viewport.height / 2)}
+          >
+            <LuZoomOut />
+          </IconButton>
+          <IconButton
+            aria-label={t("steps.fit")}
+            size="xs"
+            variant="ghost"
+            onClick={fitToView}
+          >
+            <LuMaximize />
+          </IconButton>
+          <Text fontSize="xs" color="fg.muted" px={1} minW="3em">
+            {Math.round(transform.scale * 100)}%
+          </Text>
+        </HStack>
+
+        {/* ミニマップ */}
+        <Box
+          position="absolute"
+          right={2}
+          bottom={2}
+          bg="bg"
+          borderWidth="1px"
+          borderRadius="md"
+          boxShadow="sm"
+          p={1}
+          display={{ base: "none", md: "block" }}
+          aria-label={t("steps.minimap")}
+        >
+          <svg
+            width={graphWidth * minimapScale}
+            height={graphHeight * minimapScale}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+            style={{ cursor: "pointer", display: "block" }}
+          >
+            {graph.nodes.map((node) => (
+              <rect
+                key={node.id}
+                x={nodeX(node) * minimapScale}
+                y={nodeY(node) * minimapScale}
+                width={nodeWidth * minimapScale}
+                height={nodeHeight * minimapScale}
+                rx={2}
+                fill={`var(--chakra-colors-${paletteOf(node.kind)}-400)`}
+                fillOpacity={node.id === selectedId ? 1 : 0.6}
+              />
+            ))}
+            <rect
+              x={(-transform.x / transform.scale) * minimapScale}
+              y={(-transform.y / transform.scale) * minimapScale}
+              width={(viewport.width / transform.scale) * minimapScale}
+              height={(viewport.height / transform.scale) * minimapScale}
+              fill="none"
+              stroke="var(--chakra-colors-blue-500)"
+              strokeWidth={1.5}
+            />
+          </svg>
+        </Box>
+      </Box>
+
+      {/* 選択中ノードのソース */}
+      {selected && (
+        <Box
+          w={{ base: "100%", md: "40%" }}
+          h={{ base: "45%", md: "100%" }}
+          borderLeftWidth={{ base: 0, md: "1px" }}
+          borderTopWidth={{ base: "1px", md: 0 }}
+          bg="gray.50"
+          _dark={{ bg: "gray.950" }}
+          display="flex"
+          flexDirection="column"
+          pt={{ base: 2, md: 14 }}
+        >
+          <HStack justify="space-between" px={3} pb={2}>
+            <Text fontSize="sm" fontWeight="medium">
+              {selected.range
+                ? t("steps.lines", {
+                  count: selected.range.endLine - selected.range.startLine + 1,
+                  start: selected.range.startLine,
+                  end: selected.range.endLine,
+                })
+                : t(`steps.kinds.${selected.kind}`)}
+            </Text>
+            <IconButton
+              aria-label={t("steps.closeSource")}
+              size="xs"
+              variant="ghost"
+              onClick={() => setSelectedId(null)}
+            >
+              <LuX />
+            </IconButton>
+          </HStack>
+          <Box flex={1} minH={0} overflow="auto" px={2} pb={2}>
+            <CodeHighlighter code={code} highlightLines={selected.range} />
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -10,6 +10,11 @@ import type {
 } from "@babel/types";
 import generate from "@babel/generator";
 import i18n from "@/i18n/config";
+import {
+  classifyByPermissions,
+  findPluginCalls,
+} from "./plugin-catalog";
+import type { PluginCatalog, PluginFunctionInfo } from "./plugin-catalog";
 
 export interface WorkflowAction {
   type:
@@ -27,6 +32,7 @@ export interface WorkflowAction {
   variables?: string[];
   icon?: string;
   details?: string[]; // ステップごとの自然言語説明
+  pluginFunctions?: PluginFunctionInfo[]; // 呼び出しているプラグイン関数
 }
 
 const generateCode = (node: Statement | Expression) => {
@@ -381,8 +387,68 @@ const generateHumanReadableDescription = (
   return { readable, details };
 };
 
+/**
+ * プラグイン関数の呼び出しを含むステートメントをアクションに変換
+ *
+ * アクションタイプは関数の権限から判定し、判定できない場合のみ
+ * キーワードによる推測を使用する
+ */
+const buildPluginAction = (
+  statement: Statement,
+  functions: PluginFunctionInfo[],
+  varName: string | null
+): WorkflowAction => {
+  const code = generateCode(statement);
+  const classified = classifyByPermissions(functions) ?? {
+    type: isNavigationAction(code)
+      ? ("navigation" as const)
+      : isInteractionAction(code)
+      ? ("interaction" as const)
+      : isDataExtractionAction(code)
+      ? ("data-extraction" as const)
+      : ("computation" as const),
+    importance: "medium" as const,
+  };
+  const [first] = functions;
+  const { readable, details } = generateHumanReadableDescription([statement]);
+
+  return {
+    type: classified.type,
+    title:
+      functions.length === 1
+        ? first.functionName
+        : i18n.t("workflowActions.pluginCalls", {
+            name: first.functionName,
+            count: functions.length - 1,
+          }),
+    description:
+      functions.length === 1 && first.description
+        ? first.description
+        : i18n.t("workflowActions.pluginCallDescription", {
+            functions: functions.map((f) => f.functionId).join(", "),
+          }),
+    humanReadable: readable,
+    statements: [statement],
+    importance: classified.importance,
+    variables: varName ? [varName] : undefined,
+    icon: "plugin",
+    details,
+    pluginFunctions: functions,
+  };
+};
+
+/**
+ * ステートメントを意味のあるアクション単位にグループ化
+ *
+ * `catalog` を渡すと、プラグイン関数の呼び出しはその定義と権限に基づいて
+ * 分類されます。カタログにない呼び出しはキーワードによる推測で分類します。
+ *
+ * @param statements - `workflow()` 関数の本体
+ * @param catalog - ワークフローが使用するプラグイン関数のカタログ
+ */
 export function groupStatementsIntoActions(
-  statements: Statement[]
+  statements: Statement[],
+  catalog?: PluginCatalog
 ): WorkflowAction[] {
   const actions: WorkflowAction[] = [];
   let i = 0;
@@ -459,6 +525,10 @@ export function groupStatementsIntoActions(
         description = i18n.t("workflowActions.forOfDescription");
       }
 
+      const pluginFunctions = catalog
+        ? findPluginCalls(statement, catalog).map((c) => c.info)
+        : [];
+
       actions.push({
         type: "control-flow",
         title,
@@ -475,11 +545,29 @@ export function groupStatementsIntoActions(
                 i18n.t("workflowActions.checkCondition"),
                 i18n.t("workflowActions.executeAction"),
               ],
+        pluginFunctions:
+          pluginFunctions.length > 0 ? pluginFunctions : undefined,
       });
       i++;
       continue;
     }
 
+    // Plugin function calls (classified by plugin metadata)
+    if (catalog) {
+      const calls = findPluginCalls(statement, catalog);
+      if (calls.length > 0) {
+        actions.push(
+          buildPluginAction(
+            statement,
+            calls.map((c) => c.info),
+            varName
+          )
+        );
+        i++;
+        continue;
+      }
+    }
+
     // Check if this is a variable declaration that will be used for navigation/interaction
     if (varName) {
       const relatedStatements: Statement[] = [statement];
@@ -490,6 +578,11 @@ export function groupStatementsIntoActions(
         const nextStatement = statements[j];
         const nextCode = generateCode(nextStatement);
 
+        // プラグイン関数の呼び出しは独立したアクションとして扱う
+        if (catalog && findPluginCalls(nextStatement, catalog).length > 0) {
+          break;
+        }
+
         // If the next statement uses this variable, group them
         if (nextCode.includes(varName)) {
           relatedStatements.push(nextStatement);
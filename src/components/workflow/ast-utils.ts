@@ -9,6 +9,9 @@ export interface ParseResult {
   parseError: Error | null;
 }
 
+// `workflow()` 関数が見つからない場合の parseError のメッセージ
+export const WORKFLOW_NOT_FOUND_MESSAGE = "`workflow()` function not found.";
+
 export function parseWorkflowCode(code: string): ParseResult {
   if (!code) return { workflowBody: null, parseError: null };
   
@@ -55,7 +58,7 @@ export function parseWorkflowCode(code: string): ParseResult {
     if (!workflowFunction) {
       return {
         workflowBody: null,
-        parseError: new Error("`workflow()` function not found."),
+        parseError: new Error(WORKFLOW_NOT_FOUND_MESSAGE),
       };
     }
     
@@ -166,6 +166,29 @@ export const VIEW_MODES = {
 
 export type ViewMode = (typeof VIEW_MODES)[keyof typeof VIEW_MODES];
 
+/**
+ * ステップ（フローチャート）ビューのレイアウト設定
+ */
+export const FLOW_LAYOUT = {
+  /** ノードの幅（px） */
+  nodeWidth: 240,
+  /** ノードの高さ（px） */
+  nodeHeight: 44,
+  /** 列の間隔（px） */
+  gapX: 48,
+  /** 行の間隔（px） */
+  gapY: 40,
+  /** グラフ外周の余白（px） */
+  padding: 48,
+  /** ズーム倍率の下限 */
+  minScale: 0.2,
+  /** ズーム倍率の上限 */
+  maxScale: 2,
+  /** ミニマップの最大サイズ（px） */
+  minimapWidth: 160,
+  minimapHeight: 120,
+} as const;
+
 /**
  * コード表示の最大行数
  */
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import i18n from "@/i18n/config";
+import { countDiagnostics, getParseDiagnostics } from "./diagnostics";
+
+describe("getParseDiagnostics", () => {
+  it("returns no diagnostics for valid workflow code", () => {
+    expect(getParseDiagnostics("function workflow() {\n  return 1;\n}\n"))
+      .toEqual([]);
+  });
+
+  it("reports a missing workflow() function without a position", () => {
+    const [d] = getParseDiagnostics("const x = 1;");
+    expect(d.severity).toBe("error");
+    expect(d.message).toBe(i18n.t("lint.workflowNotFound"));
+    expect(d.line).toBeUndefined();
+    expect(getParseDiagnostics("  ")[0].message).toBe(d.message);
+  });
+
+  it("locates syntax errors and strips the position suffix", () => {
+    const [d] = getParseDiagnostics("function workflow() {\n  const = 1;\n}\n");
+    expect(d.line).toBe(2);
+    expect(d.column).toBeTypeOf("number");
+    expect(d.message).not.toMatch(/\(\d+:\d+\)$/);
+  });
+});
+
+describe("countDiagnostics", () => {
+  it("counts diagnostics per severity", () => {
+    expect(
+      countDiagnostics([
+        { rule: "a", severity: "error", message: "" },
+        { rule: "b", severity: "warning", message: "" },
+        { rule: "c", severity: "error", message: "" },
+      ]),
+    ).toEqual({ error: 2, warning: 1, info: 0 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview ワークフローコードの診断情報
+ *
+ * エディタやパネルに表示するための、行・列付きの診断メッセージを生成します。
+ *
+ * @module components/workflow/diagnostics
+ */
+
+import i18n from "@/i18n/config";
+import { parseWorkflowCode, WORKFLOW_NOT_FOUND_MESSAGE } from "./ast-utils";
+
+/**
+ * 診断の重大度
+ */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * コードの診断情報
+ */
+export interface CodeDiagnostic {
+  /** 診断の種類を表す識別子 */
+  rule: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 該当行（1 始まり、コード全体に対する指摘では undefined） */
+  line?: number;
+  /** 該当列（0 始まり） */
+  column?: number;
+}
+
+/** Babel の構文エラーが持つ位置情報 */
+interface BabelSyntaxError extends Error {
+  loc?: { line: number; column: number };
+}
+
+/**
+ * `parseWorkflowCode` の結果を診断情報に変換
+ *
+ * 構文エラーは位置付きで、`workflow()` 関数が見つからない場合は
+ * コード全体に対する診断として返します。
+ *
+ * @param code - 診断するソースコード
+ * @returns 診断情報の配列（問題がなければ空）
+ */
+export function getParseDiagnostics(code: string): CodeDiagnostic[] {
+  const { parseError } = code.trim()
+    ? parseWorkflowCode(code)
+    : { parseError: new Error(WORKFLOW_NOT_FOUND_MESSAGE) };
+  if (!parseError) return [];
+  if (parseError.message === WORKFLOW_NOT_FOUND_MESSAGE) {
+    return [{
+      rule: "parse",
+      severity: "error",
+      message: i18n.t("lint.workflowNotFound"),
+    }];
+  }
+
+  const loc = (parseError as BabelSyntaxError).loc;
+  return [{
+    rule: "parse",
+    severity: "error",
+    // Babel はメッセージ末尾に "(行:列)" を付けるため、位置情報と重複しないよう除去
+    message: loc
+      ? parseError.message.replace(/\s*\(\d+:\d+\)$/, "")
+      : parseError.message,
+    line: loc?.line,
+    column: loc?.column,
+  }];
+}
+
+/**
+ * 重大度ごとの件数を集計
+ */
+export function countDiagnostics(
+  diagnostics: CodeDiagnostic[],
+): Record<DiagnosticSeverity, number> {
+  const counts = { error: 0, warning: 0, info: 0 };
+  for (const d of diagnostics) counts[d.severity]++;
+  return counts;
+}
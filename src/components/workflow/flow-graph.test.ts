@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseWorkflowCode } from "./ast-utils";
+import { buildFlowGraph } from "./flow-graph";
+import type { FlowGraph } from "./flow-graph";
+
+const graphOf = (body: string): FlowGraph => {
+  const { workflowBody, parseError } = parseWorkflowCode(
+    `function workflow() {\n${body}\n}\n`,
+  );
+  if (parseError || !workflowBody) throw parseError;
+  return buildFlowGraph(workflowBody);
+};
+
+const edgesOf = (graph: FlowGraph) =>
+  graph.edges.map((e) => {
+    const from = graph.nodes.find((n) => n.id === e.from)!;
+    const to = graph.nodes.find((n) => n.id === e.to)!;
+    return `${from.kind}-${e.kind}->${to.kind}`;
+  });
+
+describe("buildFlowGraph", () => {
+  it("chains sequential statements between start and end", () => {
+    const graph = graphOf(`const x = 1;\nlog(x);\nreturn x;`);
+    expect(graph.nodes.map((n) => n.kind)).toEqual([
+      "start",
+      "variable",
+      "call",
+      "return",
+      "end",
+    ]);
+    expect(edgesOf(graph)).toEqual([
+      "variable-next->call",
+      "call-next->return",
+      "start-next->variable",
+      "return-return->end",
+    ]);
+  });
+
+  it("records source line ranges for each statement", () => {
+    const graph = graphOf(`const x = 1;\nif (x) {\n  log(x);\n}`);
+    const condition = graph.nodes.find((n) => n.kind === "condition");
+    // 1 行目は `function workflow() {`
+    expect(condition?.range).toEqual({ startLine: 3, endLine: 5 });
+  });
+
+  it("branches if/else into separate columns", () => {
+    const graph = graphOf(`if (a) {\n  one();\n} else {\n  two();\n}\ndone();`);
+    const calls = graph.nodes.filter((n) => n.kind === "call");
+    expect(calls.map((n) => n.col)).toEqual([0, 1, 0]);
+    expect(graph.cols).toBe(2);
+    expect(edgesOf(graph)).toContain("condition-true->call");
+    expect(edgesOf(graph)).toContain("condition-false->call");
+    // 両方の分岐が done() に合流する
+    const done = calls[2];
+    expect(graph.edges.filter((e) => e.to === done.id)).toHaveLength(2);
+  });
+
+  it("lets a missing else branch flow straight to the next statement", () => {
+    const graph = graphOf(`if (a) {\n  one();\n}\ndone();`);
+    expect(edgesOf(graph)).toEqual(
+      expect.arrayContaining(["condition-true->call", "condition-false->call"]),
+    );
+  });
+
+  it("adds loop-back and exit edges for loops", () => {
+    const graph = graphOf(
+      `for (const item of items) {\n  if (item.skip) continue;\n  if (item.stop) break;\n  handle(item);\n}\ndone();`,
+    );
+    const edges = edgesOf(graph);
+    expect(edges).toContain("call-loop-back->loop");
+    expect(edges).toContain("continue-loop-back->loop");
+    expect(edges).toContain("loop-exit->call");
+    expect(edges).toContain("break-exit->call");
+  });
+
+  it("routes try blocks to catch and finally", () => {
+    const graph = graphOf(
+      `try {\n  risky();\n} catch (e) {\n  report(e);\n} finally {\n  cleanup();\n}`,
+    );
+    const edges = edgesOf(graph);
+    expect(edges).toContain("try-catch->catch");
+    expect(edges.filter((e) => e.endsWith("->finally"))).toHaveLength(2);
+    const catchNode = graph.nodes.find((n) => n.kind === "catch");
+    expect(catchNode?.col).toBe(1);
+  });
+
+  it("leaves statements after return unconnected", () => {
+    const graph = graphOf(`return 1;\nunreachable();`);
+    const call = graph.nodes.find((n) => n.kind === "call")!;
+    expect(graph.edges.some((e) => e.to === call.id)).toBe(false);
+  });
+});
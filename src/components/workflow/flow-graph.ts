@@ -0,0 +1,482 @@
+/**
+ * @fileoverview `workflow()` 本体からフローチャート用のグラフを構築するユーティリティ
+ *
+ * ステートメントをノード、制御の流れをエッジとして表現し、
+ * if の分岐、ループの戻り、try/catch の例外経路を含むグラフを生成します。
+ * レイアウトは構造化された制御フローをそのまま格子状に配置します。
+ *
+ * @module components/workflow/flow-graph
+ */
+
+import type { Node, Statement } from "@babel/types";
+import { generateCompactCode } from "./utils/code-generator";
+import { oneLine } from "./utils/text-utils";
+
+/**
+ * フローノードの種類
+ */
+export type FlowNodeKind =
+  | "start"
+  | "end"
+  | "variable"
+  | "call"
+  | "expression"
+  | "condition"
+  | "switch"
+  | "loop"
+  | "try"
+  | "catch"
+  | "finally"
+  | "return"
+  | "throw"
+  | "break"
+  | "continue";
+
+/**
+ * フローエッジの種類
+ */
+export type FlowEdgeKind =
+  | "next"
+  | "true"
+  | "false"
+  | "case"
+  | "body"
+  | "loop-back"
+  | "exit"
+  | "catch"
+  | "return";
+
+/**
+ * ソースコード上の行範囲（1 始まり）
+ */
+export interface SourceRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * フローチャートのノード
+ */
+export interface FlowNode {
+  id: string;
+  kind: FlowNodeKind;
+  /** ノードに表示するコードの要約 */
+  summary: string;
+  /** 対応するソースの行範囲（開始・終了ノードは null） */
+  range: SourceRange | null;
+  /** 格子上の列 */
+  col: number;
+  /** 格子上の行 */
+  row: number;
+}
+
+/**
+ * フローチャートのエッジ
+ */
+export interface FlowEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: FlowEdgeKind;
+  /** case ラベルなどの補足 */
+  label?: string;
+}
+
+/**
+ * フローチャート全体
+ */
+export interface FlowGraph {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  /** 使用している列数 */
+  cols: number;
+  /** 使用している行数 */
+  rows: number;
+}
+
+/** 後続ノードへ接続待ちのエッジ */
+interface PendingEdge {
+  from: string;
+  kind: FlowEdgeKind;
+  label?: string;
+}
+
+/** ステートメント列をグラフ化した断片 */
+interface Fragment {
+  /** 断片の入口ノード（空の場合は null） */
+  entry: string | null;
+  /** 断片の出口 */
+  exits: PendingEdge[];
+  width: number;
+  height: number;
+}
+
+/** break / continue の解決先 */
+interface JumpTarget {
+  /** continue の戻り先（switch では null） */
+  continueTo: string | null;
+  breaks: PendingEdge[];
+}
+
+const SUMMARY_MAX_LENGTH = 48;
+
+function rangeOf(node: Node): SourceRange | null {
+  if (!node.loc) return null;
+  return { startLine: node.loc.start.line, endLine: node.loc.end.line };
+}
+
+function summarize(node: Node | null | undefined): string {
+  return oneLine(generateCompactCode(node), SUMMARY_MAX_LENGTH);
+}
+
+function blockBody(statement: Statement): Statement[] {
+  return statement.type === "BlockStatement" ? statement.body : [statement];
+}
+
+function classifySimple(statement: Statement): FlowNodeKind {
+  if (statement.type === "VariableDeclaration") return "variable";
+  if (statement.type === "ExpressionStatement") {
+    const expr = statement.expression.type === "AwaitExpression"
+      ? statement.expression.argument
+      : statement.expression;
+    if (expr.type === "CallExpression") return "call";
+  }
+  return "expression";
+}
+
+/**
+ * ワークフロー本体のステートメントからフローチャートを構築
+ *
+ * 開始ノードと終了ノードを含み、return は終了ノードへ接続されます。
+ * return / throw / break の後に続く到達不能なステートメントも
+ * ノードとして配置されますが、入力エッジは持ちません。
+ *
+ * @param body - `workflow()` 関数の本体
+ * @returns ノードとエッジ、格子サイズ
+ *
+ * @example
+ * ```typescript
+ * const { workflowBody } = parseWorkflowCode(code);
+ * const graph = buildFlowGraph(workflowBody ?? []);
+ * ```
+ */
+export function buildFlowGraph(body: Statement[]): FlowGraph {
+  const nodes: FlowNode[] = [];
+  const edges: FlowEdge[] = [];
+  const returns: PendingEdge[] = [];
+  const jumpTargets: JumpTarget[] = [];
+
+  const addNode = (
+    kind: FlowNodeKind,
+    summary: string,
+    range: SourceRange | null,
+    col: number,
+    row: number,
+  ): string => {
+    const id = `n${nodes.length}`;
+    nodes.push({ id, kind, summary, range, col, row });
+    return id;
+  };
+
+  const connect = (pending: PendingEdge[], to: string) => {
+    for (const p of pending) {
+      edges.push({
+        id: `e${edges.length}`,
+        from: p.from,
+        to,
+        kind: p.kind,
+        label: p.label,
+      });
+    }
+  };
+
+  const buildSequence = (
+    statements: Statement[],
+    col: number,
+    row: number,
+  ): Fragment => {
+    let entry: string | null = null;
+    let exits: PendingEdge[] = [];
+    let width = 1;
+    let height = 0;
+
+    for (const statement of statements) {
+      if (statement.type === "EmptyStatement") continue;
+      const fragment = buildStatement(statement, col, row + height);
+      if (fragment.entry) {
+        if (entry === null) entry = fragment.entry;
+        // 直前が return などで出口を持たない場合は接続されない（到達不能）
+        connect(exits, fragment.entry);
+        exits = fragment.exits;
+      }
+      width = Math.max(width, fragment.width);
+      height += fragment.height;
+    }
+
+    return { entry, exits, width, height };
+  };
+
+  /** 空の断片は入口を持たないため、分岐元から直接後続へ流す */
+  const enter = (
+    from: string,
+    fragment: Fragment,
+    kind: FlowEdgeKind,
+    label?: string,
+  ): PendingEdge[] => {
+    if (fragment.entry === null) return [{ from, kind, label }];
+    connect([{ from, kind, label }], fragment.entry);
+    return fragment.exits;
+  };
+
+  const buildStatement = (
+    statement: Statement,
+    col: number,
+    row: number,
+  ): Fragment => {
+    const range = rangeOf(statement);
+
+    switch (statement.type) {
+      case "BlockStatement":
+        return buildSequence(statement.body, col, row);
+
+      case "IfStatement": {
+        const id = addNode(
+          "condition",
+          summarize(statement.test),
+          range,
+          col,
+          row,
+        );
+        const consequent = buildSequence(
+          blockBody(statement.consequent),
+          col,
+          row + 1,
+        );
+        const exits = enter(id, consequent, "true");
+        let width = consequent.width;
+        let height = consequent.height;
+        if (statement.alternate) {
+          const alternate = buildStatement(
+            statement.alternate,
+            col + consequent.width,
+            row + 1,
+          );
+          exits.push(...enter(id, alternate, "false"));
+          width += alternate.width;
+          height = Math.max(height, alternate.height);
+        } else {
+          exits.push({ from: id, kind: "false" });
+        }
+        return { entry: id, exits, width, height: height + 1 };
+      }
+
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement":
+      case "WhileStatement":
+      case "DoWhileStatement": {
+        const head = statement.type === "ForStatement"
+          ? `for (${summarize(statement.init)}; ${summarize(statement.test)}; ${
+            summarize(statement.update)
+          })`
+          : statement.type === "ForInStatement" ||
+              statement.type === "ForOfStatement"
+          ? `for (${summarize(statement.left)} ${
+            statement.type === "ForInStatement" ? "in" : "of"
+          } ${summarize(statement.right)})`
+          : statement.type === "WhileStatement"
+          ? `while (${summarize(statement.test)})`
+          : `do … while (${summarize(statement.test)})`;
+        const id = addNode(
+          "loop",
+          oneLine(head, SUMMARY_MAX_LENGTH),
+          range,
+          col,
+          row,
+        );
+        const target: JumpTarget = { continueTo: id, breaks: [] };
+        jumpTargets.push(target);
+        const loopBody = buildSequence(
+          blockBody(statement.body),
+          col,
+          row + 1,
+        );
+        jumpTargets.pop();
+        const bodyExits = enter(id, loopBody, "body");
+        connect(
+          bodyExits.map((e) => ({ ...e, kind: "loop-back" as const })),
+          id,
+        );
+        return {
+          entry: id,
+          exits: [{ from: id, kind: "exit" }, ...target.breaks],
+          width: loopBody.width,
+          height: loopBody.height + 1,
+        };
+      }
+
+      case "SwitchStatement": {
+        const id = addNode(
+          "switch",
+          summarize(statement.discriminant),
+          range,
+          col,
+          row,
+        );
+        const target: JumpTarget = { continueTo: null, breaks: [] };
+        jumpTargets.push(target);
+        const exits: PendingEdge[] = [];
+        let width = 0;
+        let height = 0;
+        let fallthrough: PendingEdge[] = [];
+        for (const c of statement.cases) {
+          const label = c.test ? summarize(c.test) : "default";
+          const fragment = buildSequence(c.consequent, col + width, row + 1);
+          if (fragment.entry) {
+            connect(
+              [{ from: id, kind: "case", label }, ...fallthrough],
+              fragment.entry,
+            );
+            fallthrough = fragment.exits;
+          } else {
+            // 空の case は次の case へフォールスルーする
+            fallthrough.push({ from: id, kind: "case", label });
+          }
+          width += fragment.width;
+          height = Math.max(height, fragment.height);
+        }
+        jumpTargets.pop();
+        exits.push(...fallthrough, ...target.breaks);
+        if (!statement.cases.some((c) => c.test === null)) {
+          exits.push({ from: id, kind: "false", label: "default" });
+        }
+        return {
+          entry: id,
+          exits,
+          width: Math.max(width, 1),
+          height: height + 1,
+        };
+      }
+
+      case "TryStatement": {
+        const id = addNode("try", "", range, col, row);
+        const block = buildSequence(statement.block.body, col, row + 1);
+        const exits = enter(id, block, "next");
+        let width = block.width;
+        let height = block.height;
+        if (statement.handler) {
+          const handlerCol = col + block.width;
+          const catchId = addNode(
+            "catch",
+            statement.handler.param ? summarize(statement.handler.param) : "",
+            rangeOf(statement.handler),
+            handlerCol,
+            row + 1,
+          );
+          connect([{ from: id, kind: "catch" }], catchId);
+          const handler = buildSequence(
+            statement.handler.body.body,
+            handlerCol,
+            row + 2,
+          );
+          exits.push(...enter(catchId, handler, "next"));
+          width += handler.width;
+          height = Math.max(height, handler.height + 1);
+        }
+        if (statement.finalizer) {
+          const finallyRow = row + 1 + height;
+          const finallyId = addNode(
+            "finally",
+            "",
+            rangeOf(statement.finalizer),
+            col,
+            finallyRow,
+          );
+          connect(exits, finallyId);
+          const finalizer = buildSequence(
+            statement.finalizer.body,
+            col,
+            finallyRow + 1,
+          );
+          return {
+            entry: id,
+            exits: enter(finallyId, finalizer, "next"),
+            width: Math.max(width, finalizer.width),
+            height: height + 2 + finalizer.height,
+          };
+        }
+        return { entry: id, exits, width, height: height + 1 };
+      }
+
+      case "ReturnStatement": {
+        const id = addNode(
+          "return",
+          summarize(statement.argument),
+          range,
+          col,
+          row,
+        );
+        returns.push({ from: id, kind: "return" });
+        return { entry: id, exits: [], width: 1, height: 1 };
+      }
+
+      case "ThrowStatement": {
+        const id = addNode(
+          "throw",
+          summarize(statement.argument),
+          range,
+          col,
+          row,
+        );
+        return { entry: id, exits: [], width: 1, height: 1 };
+      }
+
+      case "BreakStatement":
+      case "ContinueStatement": {
+        const isBreak = statement.type === "BreakStatement";
+        const id = addNode(
+          isBreak ? "break" : "continue",
+          statement.label?.name ?? "",
+          range,
+          col,
+          row,
+        );
+        // ラベル付きジャンプは最も内側の対象として扱う
+        const target = isBreak
+          ? jumpTargets[jumpTargets.length - 1]
+          : [...jumpTargets].reverse().find((t) => t.continueTo !== null);
+        if (isBreak) {
+          target?.breaks.push({ from: id, kind: "exit" });
+        } else if (target?.continueTo) {
+          connect([{ from: id, kind: "loop-back" }], target.continueTo);
+        }
+        return { entry: id, exits: [], width: 1, height: 1 };
+      }
+
+      default: {
+        const id = addNode(
+          classifySimple(statement),
+          summarize(statement),
+          range,
+          col,
+          row,
+        );
+        return {
+          entry: id,
+          exits: [{ from: id, kind: "next" }],
+          width: 1,
+          height: 1,
+        };
+      }
+    }
+  };
+
+  const startId = addNode("start", "workflow()", null, 0, 0);
+  const main = buildSequence(body, 0, 1);
+  const endRow = main.height + 1;
+  const endId = addNode("end", "", null, 0, endRow);
+  const exits = enter(startId, main, "next");
+  connect([...exits, ...returns], endId);
+
+  return { nodes, edges, cols: main.width, rows: endRow + 1 };
+}
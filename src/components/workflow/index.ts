@@ -4,6 +4,15 @@
  * @module components/workflow
  */
 export { WorkflowExecutionTimeline } from "./WorkflowExecutionTimeline";
+export { WorkflowRevisionHistory } from "./WorkflowRevisionHistory";
+export { LineDiffView } from "./LineDiffView";
+export { WorkflowStepsView } from "./WorkflowStepsView";
+export { CodeEditor } from "./CodeEditor";
+export { WorkflowDiagnosticsPanel } from "./WorkflowDiagnosticsPanel";
+export { ScheduledRunHistory } from "./ScheduledRunHistory";
+export { WorkflowResultView } from "./WorkflowResultView";
+export { WorkflowResultCompare } from "./WorkflowResultCompare";
+export { WorkflowSearchSuggestions } from "./WorkflowSearchSuggestions";
 
 // メインコンポーネント
 export { WorkflowCanvas } from "./WorkflowCanvas";
@@ -21,6 +30,26 @@ export {
 export { oneLine, splitLines, escapeCode, joinTexts } from "./utils/text-utils";
 export { parseWorkflowCode, stripTypeScriptSyntax } from "./ast-utils";
 export { groupStatementsIntoActions } from "./action-grouper";
+export { buildFlowGraph } from "./flow-graph";
+export { getParseDiagnostics, countDiagnostics } from "./diagnostics";
+export {
+  buildPluginCatalog,
+  findPluginCalls,
+  classifyByPermissions,
+} from "./plugin-catalog";
+export { lintWorkflowCode } from "./workflow-linter";
+export { detectResultFormat, splitLinks } from "./result-format";
+export { diffJson, diffResultOutput, getResultRunInfo } from "./result-diff";
+export {
+  findBracketPairs,
+  findMatchingBracket,
+} from "./utils/bracket-matcher";
+export {
+  diffRevisions,
+  diffActions,
+  diffPermissions,
+  describePermission,
+} from "./revision-diff";
 
 // 定数
 export {
@@ -33,6 +62,7 @@ export {
   ANIMATIONS,
   IMPORTANT_FUNCTIONS,
   VIEW_MODES,
+  FLOW_LAYOUT,
   MAX_CODE_LINES,
   MAX_NEST_DEPTH,
   getActionColor,
@@ -53,6 +83,32 @@ export type {
   ViewState,
 } from "./types";
 
+export type {
+  RevisionDiff,
+  ActionDiffEntry,
+  PermissionChange,
+} from "./revision-diff";
+
+export type {
+  FlowGraph,
+  FlowNode,
+  FlowEdge,
+  FlowNodeKind,
+  FlowEdgeKind,
+  SourceRange,
+} from "./flow-graph";
+
+export type { CodeDiagnostic, DiagnosticSeverity } from "./diagnostics";
+
+export type { ResultFormat, ResultSource } from "./result-format";
+export type { JsonChange, ResultOutputDiff, ResultRunInfo } from "./result-diff";
+
+export type {
+  PluginCatalog,
+  PluginFunctionInfo,
+  PluginCall,
+} from "./plugin-catalog";
+
 export type {
   NodeType,
   ActionType,
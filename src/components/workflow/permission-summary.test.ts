@@ -0,0 +1,91 @@
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import { describe, expect, it } from "vitest";
+import { WorkflowCodeSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  PermissionLevel,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import {
+  permissionFingerprint,
+  summarizePermissions,
+} from "./permission-summary";
+
+const init: MessageInitShape<typeof WorkflowCodeSchema> = {
+  code: "function workflow() {}",
+  pluginFunctionIds: ["read_file", "run"],
+  pluginPackages: [{
+    packageId: "com.sapphillon.filesystem",
+    functions: [{
+      functionId: "read_file",
+      functionName: "Read file",
+      permissions: [{
+        permissionType: PermissionType.FILESYSTEM_READ,
+        permissionLevel: PermissionLevel.MEDIUM,
+      }],
+    }, {
+      functionId: "unused",
+      permissions: [{ permissionType: PermissionType.NET_ACCESS }],
+    }],
+  }],
+  allowedPermissions: [{
+    pluginFunctionId: "read_file",
+    permissions: [{
+      permissionType: PermissionType.FILESYSTEM_READ,
+      permissionLevel: PermissionLevel.HIGH,
+      resource: ["/var/log"],
+    }],
+  }, {
+    pluginFunctionId: "run",
+    permissions: [{
+      permissionType: PermissionType.EXECUTE,
+      resource: ["/usr/bin/git"],
+    }],
+  }],
+};
+const revision = create(WorkflowCodeSchema, init);
+
+describe("summarizePermissions", () => {
+  it("groups permissions of used functions by type", () => {
+    const groups = summarizePermissions(revision);
+    expect(groups.map((g) => g.type)).toEqual([
+      PermissionType.EXECUTE,
+      PermissionType.FILESYSTEM_READ,
+    ]);
+    const read = groups[1];
+    expect(read.level).toBe(PermissionLevel.HIGH);
+    expect(read.resources).toEqual(["/var/log"]);
+    expect(read.functions).toEqual(["Read file"]);
+    expect(read.permissions).toHaveLength(2);
+  });
+
+  it("marks EXECUTE, ALLOW_ALL and CRITICAL as high risk", () => {
+    const [execute, read] = summarizePermissions(revision);
+    expect(execute.highRisk).toBe(true);
+    expect(read.highRisk).toBe(false);
+  });
+
+  it("returns nothing when no permissions are requested", () => {
+    expect(
+      summarizePermissions(create(WorkflowCodeSchema, { code: "" })),
+    ).toEqual([]);
+  });
+});
+
+describe("permissionFingerprint", () => {
+  it("changes when resources change", () => {
+    const before = permissionFingerprint(summarizePermissions(revision));
+    const changed = create(WorkflowCodeSchema, {
+      ...init,
+      allowedPermissions: [{
+        pluginFunctionId: "run",
+        permissions: [{
+          permissionType: PermissionType.EXECUTE,
+          resource: ["/bin/sh"],
+        }],
+      }],
+    });
+    expect(permissionFingerprint(summarizePermissions(changed))).not.toBe(
+      before,
+    );
+  });
+});
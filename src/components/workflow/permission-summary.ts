@@ -0,0 +1,136 @@
+/**
+ * @fileoverview ワークフローが要求する権限の集計
+ *
+ * リビジョンで使用するプラグイン関数の権限を `allowedPermissions` と
+ * `pluginPackages` から集め、`PermissionType` ごとにまとめます。
+ * 実行前の権限確認ダイアログで使用します。
+ *
+ * @module components/workflow/permission-summary
+ */
+
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Permission } from "@/gen/sapphillon/v1/permission_pb";
+import {
+  PermissionLevel,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import { buildPluginCatalog } from "./plugin-catalog";
+import type { PluginFunctionInfo } from "./plugin-catalog";
+
+/**
+ * 同じ種類の権限のまとまり
+ */
+export interface PermissionGroup {
+  type: PermissionType;
+  /** グループ内で最も高い権限レベル */
+  level: PermissionLevel;
+  /** 特に注意が必要な権限を含むか */
+  highRisk: boolean;
+  /** 対象となるパスやホスト（重複なし） */
+  resources: string[];
+  /** この権限を要求するプラグイン関数名 */
+  functions: string[];
+  /** グループに含まれる権限（重複なし） */
+  permissions: Permission[];
+}
+
+/**
+ * 特に注意が必要な権限か
+ *
+ * `CRITICAL` レベルの権限と、`ALLOW_ALL` / `EXECUTE` を対象とします。
+ */
+export function isHighRiskPermission(p: Permission): boolean {
+  return (
+    p.permissionLevel === PermissionLevel.CRITICAL ||
+    p.permissionType === PermissionType.ALLOW_ALL ||
+    p.permissionType === PermissionType.EXECUTE
+  );
+}
+
+/**
+ * リビジョンで使用するプラグイン関数
+ *
+ * `pluginFunctionIds` と `allowedPermissions` に現れる関数を対象とします。
+ */
+function usedFunctions(code: WorkflowCode): PluginFunctionInfo[] {
+  const catalog = buildPluginCatalog(code);
+  const ids = [
+    ...(code.pluginFunctionIds ?? []),
+    ...(code.allowedPermissions ?? []).map((a) => a.pluginFunctionId),
+  ];
+  const functions = new Map<string, PluginFunctionInfo>();
+  for (const id of ids) {
+    const info = catalog.resolve(id);
+    if (info) functions.set(info.functionId, info);
+  }
+  return [...functions.values()];
+}
+
+const permissionKey = (p: Permission) =>
+  [p.permissionType, p.permissionLevel, p.displayName, ...p.resource].join(
+    "\u0000",
+  );
+
+/**
+ * リビジョンが要求する権限を種類ごとに集計
+ *
+ * 注意が必要なグループ、権限レベルの高いグループの順に並べます。
+ *
+ * @param code - 対象のコードリビジョン
+ * @returns 権限グループの配列（権限がなければ空）
+ */
+export function summarizePermissions(code: WorkflowCode): PermissionGroup[] {
+  const groups = new Map<PermissionType, PermissionGroup>();
+  const seen = new Set<string>();
+
+  for (const fn of usedFunctions(code)) {
+    for (const p of fn.permissions) {
+      if (p.permissionType === PermissionType.UNSPECIFIED) continue;
+      const group = groups.get(p.permissionType) ?? {
+        type: p.permissionType,
+        level: PermissionLevel.UNSPECIFIED,
+        highRisk: false,
+        resources: [],
+        functions: [],
+        permissions: [],
+      };
+      groups.set(p.permissionType, group);
+
+      group.level = Math.max(group.level, p.permissionLevel);
+      group.highRisk ||= isHighRiskPermission(p);
+      for (const r of p.resource) {
+        if (!group.resources.includes(r)) group.resources.push(r);
+      }
+      if (!group.functions.includes(fn.functionName)) {
+        group.functions.push(fn.functionName);
+      }
+      const key = permissionKey(p);
+      if (!seen.has(key)) {
+        seen.add(key);
+        group.permissions.push(p);
+      }
+    }
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      Number(b.highRisk) - Number(a.highRisk) ||
+      b.level - a.level ||
+      a.type - b.type,
+  );
+}
+
+/**
+ * 権限の内容を表す文字列
+ *
+ * 承認済みの権限から変わっていないかの比較に使用します。
+ */
+export function permissionFingerprint(groups: PermissionGroup[]): string {
+  return groups
+    .map((g) =>
+      [g.type, g.level, [...g.resources].sort().join(","),
+        [...g.functions].sort().join(",")].join(":")
+    )
+    .sort()
+    .join("|");
+}
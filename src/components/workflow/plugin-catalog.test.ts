@@ -0,0 +1,123 @@
+import { create } from "@bufbuild/protobuf";
+import { describe, expect, it } from "vitest";
+import { WorkflowCodeSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  PermissionLevel,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import { groupStatementsIntoActions } from "./action-grouper";
+import { parseWorkflowCode } from "./ast-utils";
+import { buildPluginCatalog, findPluginCalls } from "./plugin-catalog";
+
+const revision = create(WorkflowCodeSchema, {
+  pluginFunctionIds: ["fetch", "write_file", "legacy.open_thing"],
+  pluginPackages: [
+    {
+      packageId: "com.sapphillon.http",
+      packageName: "HTTP",
+      functions: [{
+        functionId: "fetch",
+        functionName: "HTTP request",
+        description: "Send an HTTP request",
+        functionDefine: {
+          parameters: [{ name: "url", type: "string", description: "URL" }],
+        },
+        permissions: [{
+          permissionType: PermissionType.NET_ACCESS,
+          permissionLevel: PermissionLevel.MEDIUM,
+        }],
+      }],
+    },
+    {
+      packageId: "com.sapphillon.filesystem",
+      packageName: "Filesystem",
+      functions: [{
+        functionId: "write_file",
+        functionName: "Write file",
+        description: "Write a file",
+      }],
+    },
+  ],
+  allowedPermissions: [{
+    pluginFunctionId: "write_file",
+    permissions: [{
+      permissionType: PermissionType.FILESYSTEM_WRITE,
+      permissionLevel: PermissionLevel.HIGH,
+      resource: ["/tmp"],
+    }],
+  }],
+});
+
+const actionsOf = (body: string) => {
+  const { workflowBody } = parseWorkflowCode(
+    `function workflow() {\n${body}\n}\n`,
+  );
+  return groupStatementsIntoActions(
+    workflowBody ?? [],
+    buildPluginCatalog(revision),
+  );
+};
+
+describe("buildPluginCatalog", () => {
+  it("resolves functions by id, package-qualified name and last segment", () => {
+    const catalog = buildPluginCatalog(revision);
+    expect(catalog.resolve("fetch")?.packageName).toBe("HTTP");
+    expect(catalog.resolve("com.sapphillon.http.fetch")?.functionId).toBe(
+      "fetch",
+    );
+    expect(catalog.resolve("fs.write_file")?.functionId).toBe("write_file");
+    expect(catalog.resolve("unknown")).toBeNull();
+  });
+
+  it("merges allowed permissions and keeps id-only functions", () => {
+    const catalog = buildPluginCatalog(revision);
+    expect(catalog.resolve("write_file")?.permissions[0].resource).toEqual([
+      "/tmp",
+    ]);
+    expect(catalog.resolve("open_thing")?.functionName).toBe("open_thing");
+  });
+});
+
+describe("findPluginCalls", () => {
+  it("finds nested calls once per function", () => {
+    const { workflowBody } = parseWorkflowCode(
+      `async function workflow() { const r = await fetch({ url: fetch("x") }); }`,
+    );
+    const calls = findPluginCalls(
+      workflowBody![0],
+      buildPluginCatalog(revision),
+    );
+    expect(calls.map((c) => c.info.functionId)).toEqual(["fetch"]);
+  });
+});
+
+describe("groupStatementsIntoActions with plugin metadata", () => {
+  it("classifies plugin calls by permission type instead of keywords", () => {
+    // "type" を含むが、権限からナビゲーション（ネットワークアクセス）と判定される
+    const [action] = actionsOf(`const res = fetch({ url: "x", type: "json" });`);
+    expect(action.type).toBe("navigation");
+    expect(action.title).toBe("HTTP request");
+    expect(action.description).toBe("Send an HTTP request");
+    expect(action.pluginFunctions?.[0].parameters[0].name).toBe("url");
+  });
+
+  it("uses the highest permission level for importance", () => {
+    const [action] = actionsOf(`write_file({ path: "/tmp/a" });`);
+    expect(action.type).toBe("interaction");
+    expect(action.importance).toBe("high");
+  });
+
+  it("falls back to keyword heuristics when permissions are unknown", () => {
+    const [action] = actionsOf(`open_thing("https://example.com");`);
+    expect(action.type).toBe("navigation");
+    expect(action.pluginFunctions?.[0].functionId).toBe("legacy.open_thing");
+  });
+
+  it("keeps plugin calls out of variable groups", () => {
+    const actions = actionsOf(
+      `const url = "https://example.com";\nconst res = fetch({ url });`,
+    );
+    expect(actions).toHaveLength(2);
+    expect(actions[1].pluginFunctions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview ワークフローが使用するプラグイン関数のカタログ
+ *
+ * `WorkflowCode` の `pluginPackages` / `pluginFunctionIds` / `allowedPermissions`
+ * から関数の定義を引けるようにし、ステートメント内の呼び出しを
+ * 対応するプラグイン関数に解決します。
+ *
+ * @module components/workflow/plugin-catalog
+ */
+
+import { VISITOR_KEYS } from "@babel/types";
+import type { Expression, Node, V8IntrinsicIdentifier } from "@babel/types";
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import type { FunctionParameter } from "@/gen/sapphillon/v1/plugin_pb";
+import type { Permission } from "@/gen/sapphillon/v1/permission_pb";
+import {
+  PermissionLevel,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import type { ActionType, ImportanceLevel } from "./constants";
+
+/**
+ * プラグイン関数の情報
+ */
+export interface PluginFunctionInfo {
+  functionId: string;
+  functionName: string;
+  description: string;
+  packageId: string;
+  packageName: string;
+  /** 関数の引数定義 */
+  parameters: FunctionParameter[];
+  /** 関数が要求する権限（ワークフローで許可された権限を含む） */
+  permissions: Permission[];
+}
+
+/**
+ * ステートメント内で見つかったプラグイン関数の呼び出し
+ */
+export interface PluginCall {
+  /** コード上の呼び出し名（例: `fetch`, `http.fetch`） */
+  callee: string;
+  info: PluginFunctionInfo;
+}
+
+/**
+ * プラグイン関数のカタログ
+ */
+export interface PluginCatalog {
+  /** カタログに含まれる関数 */
+  functions: PluginFunctionInfo[];
+  /** 呼び出し名から関数を解決（見つからなければ null） */
+  resolve: (callee: string) => PluginFunctionInfo | null;
+}
+
+/** 関数 ID の末尾（`com.sapphillon.http.fetch` → `fetch`） */
+const lastSegment = (id: string) => id.split(".").pop() ?? id;
+
+/**
+ * ワークフローのコードリビジョンからカタログを構築
+ *
+ * `pluginPackages` に定義された関数を対象とし、`allowedPermissions` で
+ * 関数ごとに許可された権限も関数の権限としてまとめます。
+ * パッケージ情報がなく `pluginFunctionIds` だけがある関数も、
+ * 名前だけの情報としてカタログに含めます。
+ *
+ * @param code - 対象のコードリビジョン
+ * @returns プラグイン関数カタログ
+ */
+export function buildPluginCatalog(
+  code: WorkflowCode | null | undefined,
+): PluginCatalog {
+  const allowed = new Map<string, Permission[]>();
+  for (const a of code?.allowedPermissions ?? []) {
+    allowed.set(a.pluginFunctionId, [
+      ...(allowed.get(a.pluginFunctionId) ?? []),
+      ...a.permissions,
+    ]);
+  }
+
+  const functions: PluginFunctionInfo[] = [];
+  for (const pkg of code?.pluginPackages ?? []) {
+    for (const fn of pkg.functions) {
+      functions.push({
+        functionId: fn.functionId,
+        functionName: fn.functionName || lastSegment(fn.functionId),
+        description: fn.description,
+        packageId: pkg.packageId,
+        packageName: pkg.packageName,
+        parameters: fn.functionDefine?.parameters ?? [],
+        permissions: [...fn.permissions, ...(allowed.get(fn.functionId) ?? [])],
+      });
+    }
+  }
+  const known = new Set(functions.map((f) => f.functionId));
+  for (const functionId of code?.pluginFunctionIds ?? []) {
+    if (known.has(functionId)) continue;
+    known.add(functionId);
+    functions.push({
+      functionId,
+      functionName: lastSegment(functionId),
+      description: "",
+      packageId: "",
+      packageName: "",
+      parameters: [],
+      permissions: allowed.get(functionId) ?? [],
+    });
+  }
+
+  // 完全な ID、パッケージ ID 付きの名前、末尾の名前の順に引けるようにする
+  const index = new Map<string, PluginFunctionInfo>();
+  for (const fn of functions) {
+    const short = lastSegment(fn.functionId);
+    for (const key of [fn.functionId, `${fn.packageId}.${short}`, short]) {
+      if (!index.has(key)) index.set(key, fn);
+    }
+  }
+
+  return {
+    functions,
+    resolve: (callee) =>
+      index.get(callee) ?? index.get(lastSegment(callee)) ?? null,
+  };
+}
+
+/**
+ * 呼び出し式の callee を `a.b.c` 形式の名前に変換
+ *
+ * @returns 名前（計算プロパティなど名前にできない場合は null）
+ */
+export function getCalleeName(
+  callee: Expression | V8IntrinsicIdentifier,
+): string | null {
+  if (callee.type === "Identifier") return callee.name;
+  if (
+    (callee.type === "MemberExpression" ||
+      callee.type === "OptionalMemberExpression") &&
+    !callee.computed &&
+    callee.property.type === "Identifier"
+  ) {
+    const object = callee.object.type === "ThisExpression"
+      ? null
+      : getCalleeName(callee.object);
+    return object ? `${object}.${callee.property.name}` : callee.property.name;
+  }
+  return null;
+}
+
+/**
+ * AST ノード内のプラグイン関数呼び出しを出現順に列挙
+ *
+ * 同じ関数の複数回の呼び出しは 1 つにまとめます。
+ *
+ * @param node - 探索するノード（ステートメントなど）
+ * @param catalog - プラグイン関数カタログ
+ */
+export function findPluginCalls(
+  node: Node,
+  catalog: PluginCatalog,
+): PluginCall[] {
+  if (catalog.functions.length === 0) return [];
+
+  const calls: PluginCall[] = [];
+  const seen = new Set<string>();
+  const visit = (n: Node | null | undefined) => {
+    if (!n) return;
+    if (n.type === "CallExpression" || n.type === "OptionalCallExpression") {
+      const callee = getCalleeName(n.callee);
+      const info = callee ? catalog.resolve(callee) : null;
+      if (callee && info && !seen.has(info.functionId)) {
+        seen.add(info.functionId);
+        calls.push({ callee, info });
+      }
+    }
+    for (const key of VISITOR_KEYS[n.type] ?? []) {
+      const child = (n as unknown as Record<string, unknown>)[key];
+      if (Array.isArray(child)) {
+        child.forEach((c) => visit(c as Node | null));
+      } else if (child && typeof child === "object") {
+        visit(child as Node);
+      }
+    }
+  };
+  visit(node);
+  return calls;
+}
+
+/**
+ * 権限の種類から判断するアクションタイプの優先順位
+ *
+ * 外部に副作用を及ぼす権限ほど優先します。
+ */
+const PERMISSION_ACTION_TYPES: [PermissionType, ActionType][] = [
+  [PermissionType.ALLOW_ALL, "interaction"],
+  [PermissionType.EXECUTE, "interaction"],
+  [PermissionType.FILESYSTEM_WRITE, "interaction"],
+  [PermissionType.ALLOW_MCP, "interaction"],
+  [PermissionType.NET_ACCESS, "navigation"],
+  [PermissionType.FILESYSTEM_READ, "data-extraction"],
+];
+
+/**
+ * プラグイン関数の権限からアクションタイプと重要度を判定
+ *
+ * @param functions - ステートメントで呼び出されるプラグイン関数
+ * @returns 判定結果（権限情報から判断できなければ null）
+ */
+export function classifyByPermissions(
+  functions: PluginFunctionInfo[],
+): { type: ActionType; importance: ImportanceLevel } | null {
+  const permissions = functions.flatMap((f) => f.permissions);
+  const types = new Set(permissions.map((p) => p.permissionType));
+  const match = PERMISSION_ACTION_TYPES.find(([type]) => types.has(type));
+  if (!match) return null;
+
+  const maxLevel = Math.max(
+    PermissionLevel.UNSPECIFIED,
+    ...permissions.map((p) => p.permissionLevel),
+  );
+  return {
+    type: match[1],
+    importance: maxLevel >= PermissionLevel.HIGH ? "high" : "medium",
+  };
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { timestampFromMs } from "@bufbuild/protobuf/wkt";
+import {
+  WorkflowCodeSchema,
+  WorkflowResultSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { recordRunMetadata } from "@/lib/run-metadata";
+import { diffJson, diffResultOutput, getResultRunInfo } from "./result-diff";
+
+const codes = [
+  create(WorkflowCodeSchema, {
+    id: "code-1",
+    codeRevision: 1,
+    createdAt: timestampFromMs(1_000),
+  }),
+  create(WorkflowCodeSchema, {
+    id: "code-2",
+    codeRevision: 2,
+    createdAt: timestampFromMs(5_000),
+  }),
+];
+
+describe("diffJson", () => {
+  it("reports added, removed and changed values by path", () => {
+    expect(
+      diffJson(
+        { a: 1, b: { c: [1, 2] }, "d-e": true },
+        { a: 2, b: { c: [1] }, f: "x", "d-e": true }
+      )
+    ).toEqual([
+      { path: "a", op: "change", before: 1, after: 2 },
+      { path: "b.c[1]", op: "remove", before: 2 },
+      { path: "f", op: "add", after: "x" },
+    ]);
+  });
+
+  it("treats a type change as a single change", () => {
+    expect(diffJson({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { path: "a", op: "change", before: [1], after: { 0: 1 } },
+    ]);
+  });
+});
+
+describe("diffResultOutput", () => {
+  it("compares JSON structurally and ignores formatting", () => {
+    const diff = diffResultOutput('{"a":1}', '{\n  "a": 1\n}');
+    expect(diff.json).toBe(true);
+    expect(diff.identical).toBe(true);
+  });
+
+  it("falls back to a line diff for text", () => {
+    const diff = diffResultOutput("one\ntwo", "one\nthree");
+    expect(diff.json).toBe(false);
+    expect(diff.identical).toBe(false);
+    expect(diff.lines.map((l) => l.op)).toContain("add");
+  });
+});
+
+describe("getResultRunInfo", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("uses the recorded duration and code revision", () => {
+    recordRunMetadata("result-1", { durationMs: 1200, workflowCodeId: "code-1" });
+    const result = create(WorkflowResultSchema, {
+      id: "result-1",
+      ranAt: timestampFromMs(9_000),
+    });
+    expect(getResultRunInfo(result, codes)).toEqual({
+      durationMs: 1200,
+      codeRevision: 1,
+      revisionInferred: false,
+    });
+  });
+
+  it("infers the revision from the run time when nothing is recorded", () => {
+    const result = create(WorkflowResultSchema, {
+      id: "result-2",
+      ranAt: timestampFromMs(3_000),
+    });
+    expect(getResultRunInfo(result, codes)).toEqual({
+      durationMs: null,
+      codeRevision: 1,
+      revisionInferred: true,
+    });
+  });
+});
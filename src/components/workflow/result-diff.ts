@@ -0,0 +1,162 @@
+/**
+ * @fileoverview ワークフロー実行結果の比較
+ *
+ * 2 つの `WorkflowResult` の出力を比較します。両方が JSON の場合は値のパスごとの
+ * 変更を、それ以外は行差分を求めます。終了コード・結果種別に加えて、
+ * lib/run-metadata に記録した実行時間と実行したコードリビジョンも比較します。
+ *
+ * @module components/workflow/result-diff
+ */
+
+import type {
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { diffLines } from "@/lib/diff";
+import type { LineDiff } from "@/lib/diff";
+import { findRunCode, getRunMetadata } from "@/lib/run-metadata";
+import { parseJsonResult } from "./result-format";
+
+/**
+ * JSON の値の変更
+ */
+export interface JsonChange {
+  /** 値の位置（例: `items[0].name`、ルートは空文字） */
+  path: string;
+  op: "add" | "remove" | "change";
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 出力の差分
+ */
+export interface ResultOutputDiff {
+  /** 両方が JSON として比較できたか */
+  json: boolean;
+  /** JSON の変更（JSON でない場合は空） */
+  changes: JsonChange[];
+  /** 行差分（JSON の場合は整形したテキストの差分） */
+  lines: LineDiff[];
+  /** 出力が同じか */
+  identical: boolean;
+}
+
+/**
+ * 実行結果の付加情報
+ */
+export interface ResultRunInfo {
+  /** 実行時間（記録がない場合は null） */
+  durationMs: number | null;
+  /** 実行したコードリビジョン（判別できない場合は null） */
+  codeRevision: number | null;
+  /** リビジョンを実行時刻から推定したか */
+  revisionInferred: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? path ? `${path}.${key}` : key
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * 2 つの JSON の値を比較
+ *
+ * オブジェクトはキーごと、配列は位置ごとに比較します。
+ *
+ * @param before - 比較元
+ * @param after - 比較先
+ * @param path - 比較する値の位置
+ * @returns 変更の一覧（出現順）
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  path = ""
+): JsonChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => {
+      const child = joinPath(path, key);
+      if (!(key in after)) {
+        return [{ path: child, op: "remove" as const, before: before[key] }];
+      }
+      if (!(key in before)) {
+        return [{ path: child, op: "add" as const, after: after[key] }];
+      }
+      return diffJson(before[key], after[key], child);
+    });
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const child = joinPath(path, i);
+      if (i >= after.length) {
+        changes.push({ path: child, op: "remove", before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: child, op: "add", after: after[i] });
+      } else {
+        changes.push(...diffJson(before[i], after[i], child));
+      }
+    }
+    return changes;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path, op: "change", before, after }];
+}
+
+/**
+ * 2 つの実行結果の出力を比較
+ *
+ * @param before - 比較元の出力
+ * @param after - 比較先の出力
+ */
+export function diffResultOutput(
+  before: string,
+  after: string
+): ResultOutputDiff {
+  const a = parseJsonResult(before);
+  const b = parseJsonResult(after);
+  if (a !== undefined && b !== undefined) {
+    const changes = diffJson(a, b);
+    return {
+      json: true,
+      changes,
+      lines: diffLines(
+        JSON.stringify(a, null, 2),
+        JSON.stringify(b, null, 2)
+      ),
+      identical: changes.length === 0,
+    };
+  }
+  return {
+    json: false,
+    changes: [],
+    lines: diffLines(before, after),
+    identical: before === after,
+  };
+}
+
+/**
+ * 実行結果の実行時間と実行したコードリビジョンを取得
+ *
+ * @param result - 実行結果
+ * @param codes - ワークフローのコードリビジョン
+ */
+export function getResultRunInfo(
+  result: WorkflowResult,
+  codes: readonly WorkflowCode[]
+): ResultRunInfo {
+  const runCode = findRunCode(result, codes);
+  return {
+    durationMs: getRunMetadata(result.id)?.durationMs ?? null,
+    codeRevision: runCode?.code.codeRevision ?? null,
+    revisionInferred: runCode?.inferred ?? false,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectResultFormat,
+  parseCsvResult,
+  parseMarkdown,
+  parseMarkdownInline,
+  sortResultRows,
+  splitLinks,
+  toResultTable,
+} from "./result-format";
+
+const success = (result: string) => ({ result, resultType: 0, exitCode: 0 });
+
+describe("result-format", () => {
+  it("detects the format of successful results", () => {
+    expect(detectResultFormat(success('{"ok": true}'))).toBe("json");
+    expect(detectResultFormat(success("name,count\na,1\nb,2"))).toBe("csv");
+    expect(detectResultFormat(success("# Report\n\n- item"))).toBe("markdown");
+    expect(detectResultFormat(success("done"))).toBe("text");
+    expect(detectResultFormat(success("{not json"))).toBe("text");
+  });
+
+  it("treats failed runs as plain error output", () => {
+    expect(
+      detectResultFormat({ result: '{"error": 1}', resultType: 1, exitCode: 0 })
+    ).toBe("text");
+    expect(
+      detectResultFormat({ result: '{"error": 1}', resultType: 0, exitCode: 2 })
+    ).toBe("text");
+  });
+
+  it("parses quoted CSV cells and rejects ragged rows", () => {
+    expect(parseCsvResult('name,note\n"Doe, J","said ""hi"""')).toEqual({
+      columns: ["name", "note"],
+      rows: [["Doe, J", 'said "hi"']],
+    });
+    expect(parseCsvResult("a,b\nc")).toBeNull();
+  });
+
+  it("builds a sortable table from an array of objects", () => {
+    const table = toResultTable([
+      { name: "b", size: 10 },
+      { name: "a", size: 9, extra: true },
+    ]);
+    expect(table?.columns).toEqual(["name", "size", "extra"]);
+    expect(toResultTable([1, 2])).toBeNull();
+
+    // 数値は数値として比較する
+    expect(sortResultRows(table!, 1, "asc").map((r) => r[0])).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(sortResultRows(table!, 0, "desc").map((r) => r[0])).toEqual([
+      "b",
+      "a",
+    ]);
+  });
+
+  it("finds URLs and file paths in text", () => {
+    expect(
+      splitLinks("Saved /tmp/out/report.csv. See https://example.com/x.")
+    ).toEqual([
+      { kind: "text", value: "Saved " },
+      { kind: "path", value: "/tmp/out/report.csv" },
+      { kind: "text", value: ". See " },
+      { kind: "url", value: "https://example.com/x" },
+      { kind: "text", value: "." },
+    ]);
+    // 日付や「and/or」はパスとみなさない
+    expect(splitLinks("2026/10/19 and/or")).toEqual([
+      { kind: "text", value: "2026/10/19 and/or" },
+    ]);
+    expect(splitLinks("at C:\\Users\\me\\a.txt")[1]).toEqual({
+      kind: "path",
+      value: "C:\\Users\\me\\a.txt",
+    });
+  });
+
+  it("parses Markdown blocks and inline elements", () => {
+    const blocks = parseMarkdown(
+      "# Title\n\nSome **bold** text\n\n1. one\n2. two\n\n```js\nx()\n```\n\n| a | b |\n|---|---|\n| 1 | 2 |"
+    );
+    expect(blocks.map((b) => b.type)).toEqual([
+      "heading",
+      "paragraph",
+      "list",
+      "code",
+      "table",
+    ]);
+    expect(blocks[4]).toEqual({ type: "table", header: ["a", "b"], rows: [["1", "2"]] });
+
+    expect(parseMarkdownInline("see [docs](https://x.dev) and `code`")).toEqual([
+      { type: "text", text: "see " },
+      { type: "link", text: "docs", href: "https://x.dev" },
+      { type: "text", text: " and " },
+      { type: "code", text: "code" },
+    ]);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * @fileoverview ワークフロー実行結果の形式判定と解析
+ *
+ * `WorkflowResult.result` の文字列から JSON・CSV・Markdown を判定し、
+ * 表示用に解析します。失敗した実行（resultType・exitCode で判定）の結果は
+ * エラー出力として扱い、構造の判定は行いません。
+ *
+ * @module components/workflow/result-format
+ */
+
+import { isResultSuccess } from "@/lib/workflow-analytics";
+
+/**
+ * 実行結果の表示形式
+ */
+export type ResultFormat = "json" | "csv" | "markdown" | "text";
+
+/**
+ * 実行結果の判定に使う値（WorkflowResult の一部）
+ */
+export interface ResultSource {
+  result: string;
+  /** 0: 成功、1: 失敗 */
+  resultType: number;
+  exitCode: number;
+}
+
+/**
+ * 表形式のデータ
+ */
+export interface ResultTable {
+  columns: string[];
+  rows: unknown[][];
+}
+
+/**
+ * テキスト中のリンク・パスの区切り
+ */
+export interface TextSegment {
+  kind: "text" | "url" | "path";
+  value: string;
+}
+
+/**
+ * Markdown のブロック
+ */
+export type MarkdownBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; language: string; code: string }
+  | { type: "quote"; text: string }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "rule" };
+
+/**
+ * Markdown のインライン要素
+ */
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; text: string }
+  | { type: "em"; text: string }
+  | { type: "link"; text: string; href: string };
+
+const MARKDOWN_PATTERNS = [
+  /^#{1,6}\s+\S/m,
+  /^```/m,
+  /^\s*[-*+]\s+\S/m,
+  /^\s*\d+\.\s+\S/m,
+  /^>\s?\S/m,
+  /^\|.+\|\s*$/m,
+  /\*\*[^*\n]+\*\*/,
+  /\[[^\]\n]+\]\([^)\s]+\)/,
+];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`)\]]+/g;
+// Unix の絶対パス・ホームからのパス、Windows のドライブから始まるパス
+const PATH_PATTERN =
+  /(?:~|\.{1,2})?\/(?:[\w.-]+\/)*[\w.-]+|[A-Za-z]:\\(?:[\w.-]+\\)*[\w.-]+/g;
+
+/**
+ * 失敗した実行の結果か判定（lib/workflow-analytics の isResultSuccess の否定）
+ */
+export function isErrorResult(
+  source: Pick<ResultSource, "resultType" | "exitCode">
+): boolean {
+  return !isResultSuccess(source);
+}
+
+/**
+ * JSON として解析（オブジェクト・配列のみ）
+ *
+ * @returns 解析した値（JSON でない場合は undefined）
+ */
+export function parseJsonResult(text: string): unknown {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function detectDelimiter(lines: string[]): string | null {
+  for (const delimiter of [",", "\t", ";"]) {
+    const counts = lines.map((line) => parseCsvLine(line, delimiter).length);
+    if (counts[0] > 1 && counts.every((c) => c === counts[0])) {
+      return delimiter;
+    }
+  }
+  return null;
+}
+
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function toLines(text: string): string[] {
+  return text
+    .replaceAll("\r\n", "\n")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+/**
+ * CSV（カンマ・タブ・セミコロン区切り）として解析
+ *
+ * 1 行目を見出しとし、すべての行の列数が揃っている場合のみ表として返します。
+ *
+ * @returns 表（CSV でない場合は null）
+ */
+export function parseCsvResult(text: string): ResultTable | null {
+  const lines = toLines(text);
+  if (lines.length < 2) return null;
+  const delimiter = detectDelimiter(lines);
+  if (!delimiter) return null;
+  const [columns, ...rows] = lines.map((line) => parseCsvLine(line, delimiter));
+  return { columns, rows };
+}
+
+/**
+ * オブジェクトの配列を表に変換
+ *
+ * @returns 表（オブジェクトの配列でない場合は null）
+ */
+export function toResultTable(value: unknown): ResultTable | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (
+    !value.every(
+      (item) => item !== null && typeof item === "object" && !Array.isArray(item)
+    )
+  ) {
+    return null;
+  }
+  const columns: string[] = [];
+  for (const item of value as Record<string, unknown>[]) {
+    for (const key of Object.keys(item)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return {
+    columns,
+    rows: (value as Record<string, unknown>[]).map((item) =>
+      columns.map((c) => item[c])
+    ),
+  };
+}
+
+/**
+ * 表の並べ替え
+ *
+ * 数値同士は数値として、それ以外は文字列として比較します。
+ *
+ * @param table - 対象の表
+ * @param column - 並べ替える列の位置
+ * @param direction - 昇順・降順
+ */
+export function sortResultRows(
+  table: ResultTable,
+  column: number,
+  direction: "asc" | "desc"
+): unknown[][] {
+  const sign = direction === "asc" ? 1 : -1;
+  const toNumber = (v: unknown) =>
+    typeof v === "number"
+      ? v
+      : typeof v === "string" && v.trim() !== ""
+      ? Number(v)
+      : NaN;
+  return [...table.rows].sort((a, b) => {
+    const x = a[column];
+    const y = b[column];
+    if (x === y) return 0;
+    if (x === undefined || x === null) return 1;
+    if (y === undefined || y === null) return -1;
+    const nx = toNumber(x);
+    const ny = toNumber(y);
+    if (!Number.isNaN(nx) && !Number.isNaN(ny)) return (nx - ny) * sign;
+    return formatCell(x).localeCompare(formatCell(y)) * sign;
+  });
+}
+
+/**
+ * 表のセルの表示用文字列
+ */
+export function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * 実行結果の表示形式を判定
+ */
+export function detectResultFormat(source: ResultSource): ResultFormat {
+  const text = source.result;
+  if (isErrorResult(source) || !text.trim()) return "text";
+  if (parseJsonResult(text) !== undefined) return "json";
+  if (MARKDOWN_PATTERNS.some((p) => p.test(text))) return "markdown";
+  if (parseCsvResult(text)) return "csv";
+  return "text";
+}
+
+/**
+ * ダウンロード時のファイルの拡張子と MIME タイプ
+ */
+export function getResultFileType(format: ResultFormat): {
+  extension: string;
+  mimeType: string;
+} {
+  switch (format) {
+    case "json":
+      return { extension: "json", mimeType: "application/json" };
+    case "csv":
+      return { extension: "csv", mimeType: "text/csv" };
+    case "markdown":
+      return { extension: "md", mimeType: "text/markdown" };
+    default:
+      return { extension: "txt", mimeType: "text/plain" };
+  }
+}
+
+/**
+ * テキストを URL・ファイルパスとそれ以外に分割
+ */
+export function splitLinks(text: string): TextSegment[] {
+  const matches: { index: number; value: string; kind: "url" | "path" }[] = [];
+  for (const m of text.matchAll(URL_PATTERN)) {
+    matches.push({
+      index: m.index,
+      // 文末の句読点はリンクに含めない
+      value: m[0].replace(/[.,;:!?]+$/, ""),
+      kind: "url",
+    });
+  }
+  for (const m of text.matchAll(PATH_PATTERN)) {
+    const value = m[0].replace(/\.+$/, "");
+    const overlaps = matches.some(
+      (u) => m.index < u.index + u.value.length && u.index < m.index + value.length
+    );
+    // 「and/or」「2026/10/19」のような単語の途中から始まるものはパスとみなさない
+    const prev = text[m.index - 1];
+    if (overlaps || (prev !== undefined && /[\w/:]/.test(prev))) continue;
+    if (value.split(/[/\\]/).filter(Boolean).length < 2) continue;
+    matches.push({ index: m.index, value, kind: "path" });
+  }
+  matches.sort((a, b) => a.index - b.index);
+
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const m of matches) {
+    if (m.index > last) {
+      segments.push({ kind: "text", value: text.slice(last, m.index) });
+    }
+    segments.push({ kind: m.kind, value: m.value });
+    last = m.index + m.value.length;
+  }
+  if (last < text.length) {
+    segments.push({ kind: "text", value: text.slice(last) });
+  }
+  return segments;
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Markdown をブロックに分割
+ *
+ * 見出し・段落・箇条書き・コードブロック・引用・表・区切り線に対応した
+ * 簡易的な解析です（HTML は扱いません）。
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replaceAll("\r\n", "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^```\s*([\w-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[1], code: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2].trim(),
+      });
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (
+      /^\|.+\|\s*$/.test(line) &&
+      /^\|?\s*:?-{3,}/.test(lines[i + 1] ?? "")
+    ) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && /^\|.+\|\s*$/.test(lines[i])) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    const listItem = /^\s*(?:[-*+]|(\d+)\.)\s+(.*)$/;
+    const item = line.match(listItem);
+    if (item) {
+      const ordered = item[1] !== undefined;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const m = lines[i].match(listItem);
+        if (!m || (m[1] !== undefined) !== ordered) break;
+        items.push(m[2]);
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quote.push(lines[i].replace(/^>\s?/, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", text: quote.join(" ") });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !/^(#{1,6}\s|```|>|\s*(?:[-*+]|\d+\.)\s)/.test(lines[i])
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    if (paragraph.length === 0) {
+      paragraph.push(line.trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+  }
+  return blocks;
+}
+
+/**
+ * Markdown のインライン要素（コード・強調・リンク）を分割
+ */
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const pattern =
+    /`([^`]+)`|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+  const tokens: MarkdownInline[] = [];
+  let last = 0;
+  for (const m of text.matchAll(pattern)) {
+    if (m.index > last) {
+      tokens.push({ type: "text", text: text.slice(last, m.index) });
+    }
+    if (m[1] !== undefined) tokens.push({ type: "code", text: m[1] });
+    else if (m[2] !== undefined || m[3] !== undefined) {
+      tokens.push({ type: "strong", text: m[2] ?? m[3] });
+    } else if (m[4] !== undefined) tokens.push({ type: "em", text: m[4] });
+    else tokens.push({ type: "link", text: m[5], href: m[6] });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) tokens.push({ type: "text", text: text.slice(last) });
+  return tokens;
+}
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview WorkflowCode リビジョン間の差分計算
+ *
+ * 行単位の差分に加えて、`parseWorkflowCode` / `groupStatementsIntoActions`
+ * で得られるアクション単位の差分、プラグイン関数 ID と権限の変更を計算します。
+ *
+ * @module components/workflow/revision-diff
+ */
+
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import type { AllowedPermission } from "@/gen/sapphillon/v1/permission_pb";
+import { countDiff, diffLines, diffSequences, diffSets } from "@/lib/diff";
+import type { LineDiff } from "@/lib/diff";
+import { parseWorkflowCode } from "./ast-utils";
+import { groupStatementsIntoActions } from "./action-grouper";
+import { buildPluginCatalog } from "./plugin-catalog";
+import type { WorkflowAction } from "./action-grouper";
+import { generateCompactCode } from "./utils/code-generator";
+
+/**
+ * アクション単位の差分
+ *
+ * `modify` は同じ位置で同じ種別のアクションの中身が変わったことを表します。
+ */
+export interface ActionDiffEntry {
+  op: "equal" | "add" | "remove" | "modify";
+  /** 比較先のアクション（remove の場合は比較元） */
+  action: WorkflowAction;
+  /** modify の場合の比較元アクション */
+  previous?: WorkflowAction;
+}
+
+/**
+ * プラグイン関数ごとの権限変更
+ */
+export interface PermissionChange {
+  pluginFunctionId: string;
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * 2 つのリビジョン間の差分
+ */
+export interface RevisionDiff {
+  /** 行単位の差分 */
+  lines: LineDiff[];
+  /** 行の追加・削除件数 */
+  lineStats: { added: number; removed: number };
+  /** アクション単位の差分（いずれかの解析に失敗した場合は null） */
+  actions: ActionDiffEntry[] | null;
+  /** 解析エラー */
+  parseError: Error | null;
+  /** プラグイン関数 ID の変更 */
+  pluginFunctions: { added: string[]; removed: string[] };
+  /** 権限の変更（変更のあるプラグイン関数のみ） */
+  permissions: PermissionChange[];
+}
+
+/**
+ * アクションの同一性判定に使うシグネチャ
+ */
+function actionSignature(action: WorkflowAction): string {
+  return `${action.type}|${action.statements
+    .map((s) => generateCompactCode(s))
+    .join(";")}`;
+}
+
+function parseActions(revision: WorkflowCode): {
+  actions: WorkflowAction[] | null;
+  error: Error | null;
+} {
+  const { workflowBody, parseError } = parseWorkflowCode(revision.code);
+  if (parseError) return { actions: null, error: parseError };
+  return {
+    actions: workflowBody
+      ? groupStatementsIntoActions(workflowBody, buildPluginCatalog(revision))
+      : [],
+    error: null,
+  };
+}
+
+/**
+ * アクション列の差分を計算
+ *
+ * 連続する削除と追加のうち、同じ種別のものを `modify` としてまとめます。
+ */
+export function diffActions(
+  before: WorkflowAction[],
+  after: WorkflowAction[]
+): ActionDiffEntry[] {
+  const beforeSigs = before.map(actionSignature);
+  const afterSigs = after.map(actionSignature);
+  const raw = diffSequences(
+    before.map((_, i) => i),
+    after.map((_, i) => i),
+    // 値は各配列のインデックスなので、比較元/比較先を区別して照合する
+    (x, y) => beforeSigs[x] === afterSigs[y]
+  );
+
+  const result: ActionDiffEntry[] = [];
+  let k = 0;
+  while (k < raw.length) {
+    const e = raw[k];
+    if (e.op === "equal") {
+      result.push({ op: "equal", action: after[e.newIndex!] });
+      k++;
+      continue;
+    }
+
+    // 連続する remove / add をまとめて処理
+    const removed: WorkflowAction[] = [];
+    const added: WorkflowAction[] = [];
+    while (k < raw.length && raw[k].op !== "equal") {
+      const r = raw[k];
+      if (r.op === "remove") removed.push(before[r.oldIndex!]);
+      else added.push(after[r.newIndex!]);
+      k++;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let p = 0; p < paired; p++) {
+      if (removed[p].type === added[p].type) {
+        result.push({ op: "modify", action: added[p], previous: removed[p] });
+      } else {
+        result.push({ op: "remove", action: removed[p] });
+        result.push({ op: "add", action: added[p] });
+      }
+    }
+    for (const a of removed.slice(paired)) {
+      result.push({ op: "remove", action: a });
+    }
+    for (const a of added.slice(paired)) {
+      result.push({ op: "add", action: a });
+    }
+  }
+  return result;
+}
+
+/**
+ * 権限を比較用の文字列に変換
+ *
+ * @example "FILESYSTEM_READ (/tmp, /var/log)"
+ */
+export function describePermission(p: {
+  permissionType: PermissionType;
+  resource: string[];
+}): string {
+  const type = PermissionType[p.permissionType] ?? String(p.permissionType);
+  return p.resource.length > 0 ? `${type} (${p.resource.join(", ")})` : type;
+}
+
+function permissionMap(allowed: AllowedPermission[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const ap of allowed) {
+    const list = map.get(ap.pluginFunctionId) ?? [];
+    list.push(...ap.permissions.map(describePermission));
+    map.set(ap.pluginFunctionId, list);
+  }
+  return map;
+}
+
+/**
+ * プラグイン関数ごとの権限変更を計算
+ */
+export function diffPermissions(
+  before: AllowedPermission[],
+  after: AllowedPermission[]
+): PermissionChange[] {
+  const a = permissionMap(before);
+  const b = permissionMap(after);
+  const ids = [...new Set([...a.keys(), ...b.keys()])];
+  return ids
+    .map((pluginFunctionId) => ({
+      pluginFunctionId,
+      ...diffSets(a.get(pluginFunctionId) ?? [], b.get(pluginFunctionId) ?? []),
+    }))
+    .filter((c) => c.added.length > 0 || c.removed.length > 0);
+}
+
+/**
+ * 2 つのリビジョン間の差分を計算
+ *
+ * @param base - 比較元のリビジョン
+ * @param target - 比較先のリビジョン
+ * @returns 差分
+ *
+ * @example
+ * ```typescript
+ * const diff = diffRevisions(workflow.workflowCode[0], workflow.workflowCode[1]);
+ * console.log(diff.lineStats, diff.pluginFunctions.added);
+ * ```
+ */
+export function diffRevisions(
+  base: WorkflowCode,
+  target: WorkflowCode
+): RevisionDiff {
+  const lines = diffLines(base.code, target.code);
+  const before = parseActions(base);
+  const after = parseActions(target);
+
+  return {
+    lines,
+    lineStats: countDiff(lines),
+    actions:
+      before.actions && after.actions
+        ? diffActions(before.actions, after.actions)
+        : null,
+    parseError: before.error ?? after.error,
+    pluginFunctions: diffSets(base.pluginFunctionIds, target.pluginFunctionIds),
+    permissions: diffPermissions(
+      base.allowedPermissions,
+      target.allowedPermissions
+    ),
+  };
+}
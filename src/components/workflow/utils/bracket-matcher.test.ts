@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { findBracketPairs, findMatchingBracket } from "./bracket-matcher";
+
+describe("findBracketPairs", () => {
+  it("pairs nested brackets in both directions", () => {
+    const pairs = findBracketPairs("f(a[0], { b: 1 })");
+    expect(pairs.get(1)).toBe(16);
+    expect(pairs.get(16)).toBe(1);
+    expect(pairs.get(3)).toBe(5);
+    expect(pairs.get(8)).toBe(15);
+  });
+
+  it("ignores brackets inside strings and comments", () => {
+    const code = `f(") ]", '(', \`}\`) // )\n/* ( */ g()`;
+    const pairs = findBracketPairs(code);
+    expect(pairs.get(1)).toBe(code.indexOf(") //"));
+    expect(pairs.get(code.lastIndexOf("("))).toBe(code.length - 1);
+    expect(pairs.size).toBe(4);
+  });
+
+  it("leaves mismatched brackets unpaired", () => {
+    const pairs = findBracketPairs("(]");
+    expect(pairs.size).toBe(0);
+  });
+});
+
+describe("findMatchingBracket", () => {
+  const pairs = findBracketPairs("a(b)c");
+
+  it("prefers the bracket after the cursor", () => {
+    expect(findMatchingBracket(pairs, 1)).toEqual([1, 3]);
+  });
+
+  it("falls back to the bracket before the cursor", () => {
+    expect(findMatchingBracket(pairs, 4)).toEqual([3, 1]);
+  });
+
+  it("returns null away from brackets", () => {
+    expect(findMatchingBracket(pairs, 0)).toBeNull();
+  });
+});
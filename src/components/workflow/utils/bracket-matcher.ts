@@ -0,0 +1,91 @@
+/**
+ * @fileoverview 括弧の対応を求めるユーティリティ
+ *
+ * 文字列リテラルとコメントの中の括弧は無視します。
+ *
+ * @module components/workflow/utils/bracket-matcher
+ */
+
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSERS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+/**
+ * コード中の対応する括弧の位置を求める
+ *
+ * @param code - 対象のコード
+ * @returns 括弧の位置から対応する括弧の位置へのマップ（双方向）
+ *
+ * @example
+ * ```typescript
+ * const pairs = findBracketPairs("f(a[0])");
+ * pairs.get(1); // 6
+ * ```
+ */
+export function findBracketPairs(code: string): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const stack: number[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+
+    // コメント
+    if (ch === "/" && next === "/") {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+      continue;
+    }
+
+    // 文字列・テンプレートリテラル
+    if (ch === '"' || ch === "'" || ch === "`") {
+      let j = i + 1;
+      while (j < code.length && code[j] !== ch) {
+        if (code[j] === "\\") j++;
+        else if (code[j] === "\n" && ch !== "`") break;
+        j++;
+      }
+      i = j + 1;
+      continue;
+    }
+
+    if (OPENERS[ch]) {
+      stack.push(i);
+    } else if (CLOSERS[ch]) {
+      const open = stack[stack.length - 1];
+      if (open !== undefined && code[open] === CLOSERS[ch]) {
+        stack.pop();
+        pairs.set(open, i);
+        pairs.set(i, open);
+      }
+    }
+    i++;
+  }
+
+  return pairs;
+}
+
+/**
+ * カーソル位置に隣接する括弧と、それに対応する括弧の位置を求める
+ *
+ * カーソルの直後の文字を優先し、なければ直前の文字を調べます。
+ *
+ * @param pairs - `findBracketPairs` の結果
+ * @param cursor - カーソル位置（文字オフセット）
+ * @returns `[括弧の位置, 対応する括弧の位置]`、なければ null
+ */
+export function findMatchingBracket(
+  pairs: Map<number, number>,
+  cursor: number,
+): [number, number] | null {
+  for (const pos of [cursor, cursor - 1]) {
+    const match = pairs.get(pos);
+    if (match !== undefined) return [pos, match];
+  }
+  return null;
+}
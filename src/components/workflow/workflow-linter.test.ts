@@ -0,0 +1,121 @@
+import { create, type MessageInitShape } from "@bufbuild/protobuf";
+import { describe, expect, it } from "vitest";
+import { WorkflowCodeSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import { lintWorkflowCode } from "./workflow-linter";
+
+const httpPackage = {
+  packageId: "com.sapphillon.http",
+  packageName: "HTTP",
+  functions: [{
+    functionId: "fetch",
+    functionName: "fetch",
+    permissions: [{ permissionType: PermissionType.NET_ACCESS }],
+  }, {
+    functionId: "post",
+    functionName: "post",
+  }],
+};
+
+const lint = (
+  body: string,
+  fields: MessageInitShape<typeof WorkflowCodeSchema> = {},
+) =>
+  lintWorkflowCode(
+    create(WorkflowCodeSchema, {
+      code: `function workflow() {\n${body}\n}\n`,
+      ...fields,
+    }),
+  );
+
+const rules = (diagnostics: ReturnType<typeof lintWorkflowCode>) =>
+  diagnostics.map((d) => d.rule);
+
+describe("lintWorkflowCode", () => {
+  it("returns only parse errors for invalid code", () => {
+    const diagnostics = lint("const = ;");
+    expect(rules(diagnostics)).toEqual(["parse"]);
+  });
+
+  it("accepts a clean workflow", () => {
+    expect(lint(`const x = 1;\nconsole.log(JSON.stringify(x));\nreturn x;`))
+      .toEqual([]);
+  });
+
+  it("reports plugin functions missing from pluginFunctionIds", () => {
+    const diagnostics = lint(`post({});\npost({});`, {
+      pluginPackages: [httpPackage],
+      pluginFunctionIds: ["fetch"],
+    });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      rule: "unknown-plugin-function",
+      severity: "error",
+      line: 2,
+    });
+  });
+
+  it("treats imports from packages as plugin functions", () => {
+    const diagnostics = lintWorkflowCode(
+      create(WorkflowCodeSchema, {
+        code:
+          `import { send } from "com.sapphillon.mail";\nfunction workflow() { send(); }`,
+      }),
+    );
+    expect(rules(diagnostics)).toEqual(["unknown-plugin-function"]);
+  });
+
+  it("reports required permissions that are not allowed", () => {
+    const fields = {
+      pluginPackages: [httpPackage],
+      pluginFunctionIds: ["fetch"],
+    };
+    expect(rules(lint(`fetch({ url: "x" });`, fields))).toEqual([
+      "missing-permission",
+    ]);
+    expect(
+      lint(`fetch({ url: "x" });`, {
+        ...fields,
+        allowedPermissions: [{
+          pluginFunctionId: "fetch",
+          permissions: [{ permissionType: PermissionType.NET_ACCESS }],
+        }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("notes undeclared variables once per name", () => {
+    const diagnostics = lint(
+      `const a: Foo = missing;\nmissing.run();\nif (typeof other === "undefined") {}`,
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      rule: "undeclared-variable",
+      severity: "info",
+      line: 2,
+    });
+  });
+
+  it("warns about code after return", () => {
+    const diagnostics = lint(`return 1;\nconsole.log("never");`);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      rule: "unreachable-code",
+      line: 3,
+    });
+  });
+
+  it("reports endless loops without a way out", () => {
+    expect(rules(lint(`while (true) {\n  for (;;) { break; }\n}`))).toEqual([
+      "infinite-loop",
+    ]);
+    expect(lint(`while (true) {\n  if (Math.random() > 0.5) break;\n}`))
+      .toEqual([]);
+    expect(
+      lint(`outer: while (true) {\n  for (const x of []) { break outer; }\n}`),
+    ).toEqual([]);
+    expect(
+      rules(lint(`while (true) {\n  const f = () => { return 1; };\n}`)),
+    ).toEqual(["infinite-loop"]);
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * @fileoverview 実行前のワークフローコードの静的チェック
+ *
+ * 最新リビジョンの `code` を解析し、実行時に失敗・停止しうる箇所を
+ * 診断情報として返します。対象は次のとおりです。
+ *
+ * - `pluginFunctionIds` に含まれないプラグイン関数の呼び出し
+ * - `allowedPermissions` で許可されていない権限を要求するプラグイン関数
+ * - 宣言されていない変数の参照（実行環境が提供しうるため情報のみ）
+ * - `return` などの後にある到達しないコード
+ * - `break` のない `while (true)` などの無限ループ
+ *
+ * @module components/workflow/workflow-linter
+ */
+
+import * as parser from "@babel/parser";
+import traverse from "@babel/traverse";
+import type { NodePath } from "@babel/traverse";
+import type { Node, Statement } from "@babel/types";
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Permission } from "@/gen/sapphillon/v1/permission_pb";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import i18n from "@/i18n/config";
+import type { CodeDiagnostic } from "./diagnostics";
+import { getParseDiagnostics } from "./diagnostics";
+import { getCalleeName } from "./plugin-catalog";
+import { describePermission } from "./revision-diff";
+
+/**
+ * ワークフローの実行環境で宣言なしに使用できるグローバル
+ *
+ * JavaScript 組み込みのグローバル（`JSON`, `Math` など）は Babel の
+ * スコープ解析で既知として扱われるため、ここには含めません。
+ */
+const RUNTIME_GLOBALS = new Set([
+  "console",
+  "fetch",
+  "setTimeout",
+  "clearTimeout",
+  "setInterval",
+  "clearInterval",
+  "queueMicrotask",
+  "structuredClone",
+  "atob",
+  "btoa",
+  "URL",
+  "URLSearchParams",
+  "TextEncoder",
+  "TextDecoder",
+  "crypto",
+  "globalThis",
+]);
+
+/** 関数 ID の末尾（`com.sapphillon.http.fetch` → `fetch`） */
+const lastSegment = (id: string) => id.split(".").pop() ?? id;
+
+/**
+ * 解析対象のプラグイン関数の定義
+ */
+interface PluginDefinition {
+  functionId: string;
+  /** 関数の定義上必要な権限 */
+  permissions: Permission[];
+}
+
+function location(node: Node): Pick<CodeDiagnostic, "line" | "column"> {
+  return { line: node.loc?.start.line, column: node.loc?.start.column };
+}
+
+/**
+ * プラグイン関数の呼び出しを検査
+ *
+ * `pluginPackages` に定義された関数と、パッケージから import された関数を
+ * プラグイン関数とみなし、`pluginFunctionIds` と `allowedPermissions`
+ * に照らし合わせます。同じ関数の指摘は最初の呼び出しに対してのみ行います。
+ */
+function checkPluginCalls(
+  ast: Node,
+  revision: WorkflowCode,
+): CodeDiagnostic[] {
+  const definitions = new Map<string, PluginDefinition>();
+  for (const pkg of revision.pluginPackages ?? []) {
+    for (const fn of pkg.functions) {
+      const definition = {
+        functionId: fn.functionId,
+        permissions: fn.permissions,
+      };
+      const short = lastSegment(fn.functionId);
+      for (const key of [fn.functionId, `${pkg.packageId}.${short}`, short]) {
+        if (!definitions.has(key)) definitions.set(key, definition);
+      }
+    }
+  }
+
+  const declared = new Set<string>();
+  for (const id of revision.pluginFunctionIds ?? []) {
+    declared.add(id);
+    declared.add(lastSegment(id));
+  }
+  const isDeclared = (functionId: string) =>
+    declared.has(functionId) || declared.has(lastSegment(functionId));
+
+  const allowedFor = (functionId: string) =>
+    (revision.allowedPermissions ?? [])
+      .filter((a) =>
+        a.pluginFunctionId === functionId ||
+        lastSegment(a.pluginFunctionId) === lastSegment(functionId)
+      )
+      .flatMap((a) => a.permissions);
+
+  const diagnostics: CodeDiagnostic[] = [];
+  const reported = new Set<string>();
+
+  traverse(ast, {
+    CallExpression(path) {
+      const callee = getCalleeName(path.node.callee);
+      if (!callee) return;
+      const [head] = callee.split(".");
+      const binding = path.scope.getBinding(head);
+
+      // パッケージからの import はプラグイン関数として扱う
+      let functionId: string | null = null;
+      if (
+        binding?.kind === "module" &&
+        binding.path.isImportSpecifier() &&
+        binding.path.parentPath.isImportDeclaration()
+      ) {
+        const source = binding.path.parentPath.node.source.value;
+        const imported = binding.path.node.imported;
+        if (!source.startsWith(".")) {
+          const name = imported.type === "Identifier"
+            ? imported.name
+            : imported.value;
+          functionId = `${source}.${name}`;
+        }
+      } else if (!binding) {
+        // ローカルで宣言された同名の変数はプラグイン関数ではない
+        functionId = definitions.get(callee)?.functionId ?? null;
+      }
+      if (!functionId || reported.has(functionId)) return;
+      reported.add(functionId);
+
+      const name = lastSegment(functionId);
+      if (!isDeclared(functionId)) {
+        diagnostics.push({
+          rule: "unknown-plugin-function",
+          severity: "error",
+          message: i18n.t("lint.unknownPluginFunction", { name }),
+          ...location(path.node),
+        });
+        return;
+      }
+
+      const required = (definitions.get(functionId) ??
+        definitions.get(name))?.permissions ?? [];
+      const allowed = allowedFor(functionId);
+      if (allowed.some((p) => p.permissionType === PermissionType.ALLOW_ALL)) {
+        return;
+      }
+      const missing = required.filter((p) =>
+        p.permissionType !== PermissionType.UNSPECIFIED &&
+        !allowed.some((a) => a.permissionType === p.permissionType)
+      );
+      if (missing.length > 0) {
+        diagnostics.push({
+          rule: "missing-permission",
+          severity: "error",
+          message: i18n.t("lint.missingPermission", {
+            name,
+            permissions: missing.map(describePermission).join(", "),
+          }),
+          ...location(path.node),
+        });
+      }
+    },
+  });
+
+  return diagnostics;
+}
+
+/**
+ * 型注釈など、値として評価されない位置にある識別子か
+ */
+function isInTypePosition(path: NodePath): boolean {
+  return !!path.findParent((p) =>
+    p.isTSType() ||
+    p.isTSTypeAnnotation() ||
+    p.isTSTypeParameterInstantiation() ||
+    p.isTSInterfaceDeclaration() ||
+    p.isTSTypeAliasDeclaration()
+  );
+}
+
+/**
+ * 宣言されていない変数の参照を検査
+ *
+ * プラグイン関数は実行環境から提供されるため、`pluginFunctionIds` と
+ * `pluginPackages` に含まれる名前（名前空間付きの場合は先頭部分）は除外します。
+ * 実行環境はこれ以外のヘルパーも提供しうるため、指摘は `info` とし、
+ * 実行前の確認の対象にはしません。
+ */
+function checkUndeclaredVariables(
+  ast: Node,
+  revision: WorkflowCode,
+): CodeDiagnostic[] {
+  const provided = new Set(RUNTIME_GLOBALS);
+  const functionIds = [
+    ...(revision.pluginFunctionIds ?? []),
+    ...(revision.pluginPackages ?? []).flatMap((pkg) =>
+      pkg.functions.map((fn) => fn.functionId)
+    ),
+  ];
+  for (const id of functionIds) {
+    provided.add(lastSegment(id));
+    provided.add(id.split(".")[0]);
+  }
+
+  const diagnostics: CodeDiagnostic[] = [];
+  const reported = new Set<string>();
+
+  traverse(ast, {
+    ReferencedIdentifier(path) {
+      if (path.node.type !== "Identifier") return;
+      const { name } = path.node;
+      if (
+        reported.has(name) ||
+        provided.has(name) ||
+        path.scope.hasBinding(name) ||
+        isInTypePosition(path) ||
+        // typeof による存在確認は許可する
+        path.parentPath.isUnaryExpression({ operator: "typeof" })
+      ) {
+        return;
+      }
+      reported.add(name);
+      diagnostics.push({
+        rule: "undeclared-variable",
+        severity: "info",
+        message: i18n.t("lint.undeclaredVariable", { name }),
+        ...location(path.node),
+      });
+    },
+  });
+
+  return diagnostics;
+}
+
+/**
+ * 後続の処理に制御が移らないステートメントか
+ */
+function isTerminator(statement: Statement): boolean {
+  return (
+    statement.type === "ReturnStatement" ||
+    statement.type === "ThrowStatement" ||
+    statement.type === "BreakStatement" ||
+    statement.type === "ContinueStatement"
+  );
+}
+
+/**
+ * 巻き上げや型宣言など、実行順序に関係しないステートメントか
+ */
+function isHoisted(statement: Statement): boolean {
+  return (
+    statement.type === "FunctionDeclaration" ||
+    statement.type === "EmptyStatement" ||
+    statement.type.startsWith("TS")
+  );
+}
+
+/**
+ * `return` などの後にある到達しないコードを検査
+ *
+ * ブロックごとに、最初の到達しないステートメントに対して 1 つ報告します。
+ */
+function checkUnreachableCode(ast: Node): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+
+  const checkStatements = (statements: Statement[]) => {
+    const index = statements.findIndex(isTerminator);
+    if (index < 0) return;
+    const unreachable = statements.slice(index + 1).find((s) => !isHoisted(s));
+    if (!unreachable) return;
+    diagnostics.push({
+      rule: "unreachable-code",
+      severity: "warning",
+      message: i18n.t("lint.unreachableCode", {
+        statement: statements[index].type
+          .replace(/Statement$/, "")
+          .toLowerCase(),
+      }),
+      ...location(unreachable),
+    });
+  };
+
+  traverse(ast, {
+    BlockStatement(path) {
+      checkStatements(path.node.body);
+    },
+    SwitchCase(path) {
+      checkStatements(path.node.consequent);
+    },
+  });
+
+  return diagnostics;
+}
+
+/**
+ * 条件が常に真のループか（`while (true)`, `do {} while (true)`, `for (;;)`）
+ */
+function isEndlessLoop(path: NodePath): boolean {
+  if (path.isWhileStatement() || path.isDoWhileStatement()) {
+    const { test } = path.node;
+    return test.type === "BooleanLiteral" && test.value;
+  }
+  return path.isForStatement() && !path.node.test;
+}
+
+/**
+ * ループから抜け出す `break` / `return` / `throw` があるか
+ *
+ * 入れ子の関数内の `return` や、内側のループ・`switch` に対する `break` は
+ * このループを抜けないため数えません。
+ */
+function hasLoopExit(loop: NodePath): boolean {
+  const labels = new Set<string>();
+  for (let p = loop.parentPath; p?.isLabeledStatement(); p = p.parentPath) {
+    labels.add(p.node.label.name);
+  }
+
+  let found = false;
+  loop.traverse({
+    Function(path) {
+      path.skip();
+    },
+    ReturnStatement(path) {
+      found = true;
+      path.stop();
+    },
+    ThrowStatement(path) {
+      found = true;
+      path.stop();
+    },
+    BreakStatement(path) {
+      const label = path.node.label?.name;
+      const target = label
+        ? null
+        : path.findParent((p) => p.isLoop() || p.isSwitchStatement());
+      if ((label && labels.has(label)) || target?.node === loop.node) {
+        found = true;
+        path.stop();
+      }
+    },
+  });
+  return found;
+}
+
+/**
+ * 抜け出す手段のない無限ループを検査
+ */
+function checkInfiniteLoops(ast: Node): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+
+  traverse(ast, {
+    Loop(path) {
+      if (!isEndlessLoop(path) || hasLoopExit(path)) return;
+      diagnostics.push({
+        rule: "infinite-loop",
+        severity: "error",
+        message: i18n.t("lint.infiniteLoop"),
+        ...location(path.node),
+      });
+    },
+  });
+
+  return diagnostics;
+}
+
+/**
+ * ワークフローのコードリビジョンを静的にチェック
+ *
+ * 構文エラーがある場合はそれ以外のチェックを行わず、構文エラーのみを返します。
+ * 結果は行番号順に並べ替えて返します。
+ *
+ * @param revision - チェックするコードリビジョン
+ * @returns 診断情報の配列（問題がなければ空）
+ */
+export function lintWorkflowCode(revision: WorkflowCode): CodeDiagnostic[] {
+  const parseDiagnostics = getParseDiagnostics(revision.code);
+  if (parseDiagnostics.length > 0) return parseDiagnostics;
+
+  const ast = parser.parse(revision.code, {
+    sourceType: "module",
+    plugins: ["typescript"],
+  });
+
+  return [
+    ...checkPluginCalls(ast, revision),
+    ...checkUndeclaredVariables(ast, revision),
+    ...checkUnreachableCode(ast),
+    ...checkInfiniteLoops(ast),
+  ].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
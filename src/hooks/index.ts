@@ -1,7 +1,14 @@
 export * from "./useVersionPing";
 export * from "./usePromptHistory";
 export * from "./useWorkflowClone";
+export * from "./useWorkflowImport";
+export * from "./useWorkflowDelete";
 export * from "./useOnboarding";
 export * from "./useKeyboardShortcut";
 export * from "./useI18n";
+export * from "./useUnsavedChangesGuard";
 
+export * from "./useConnectionProfiles";
+export * from "./useQuery";
+export * from "./useTabSync";
+export * from "./useWorkflowSearch";
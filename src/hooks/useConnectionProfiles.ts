@@ -0,0 +1,89 @@
+/**
+ * @fileoverview バックエンド接続プロファイルの管理
+ *
+ * @module hooks/useConnectionProfiles
+ */
+
+import React from "react";
+import { DEFAULT_CONNECTION_PROFILE } from "@/lib/grpc-clients";
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  loadConnectionProfiles,
+  onConnectionProfilesChange,
+  saveConnectionProfiles,
+} from "@/lib/connection-profiles";
+import type {
+  ConnectionProfile,
+  ConnectionProfilesState,
+} from "@/lib/connection-profiles";
+
+/**
+ * 接続プロファイルの一覧と有効なプロファイルを管理するフック
+ *
+ * 変更は localStorage に保存され、有効なプロファイルの変更は
+ * ただちに `clients` の接続先に反映されます。
+ * 他のコンポーネントで行われた変更も購読して反映します。
+ *
+ * @example
+ * ```tsx
+ * const { profiles, activeProfile, activateProfile } = useConnectionProfiles();
+ * ```
+ */
+export function useConnectionProfiles() {
+  const [state, setState] = React.useState<ConnectionProfilesState>(() =>
+    loadConnectionProfiles(DEFAULT_CONNECTION_PROFILE)
+  );
+
+  React.useEffect(() => onConnectionProfilesChange(setState), []);
+
+  const update = React.useCallback(
+    (fn: (prev: ConnectionProfilesState) => ConnectionProfilesState) => {
+      saveConnectionProfiles(
+        fn(loadConnectionProfiles(DEFAULT_CONNECTION_PROFILE))
+      );
+    },
+    []
+  );
+
+  /** プロファイルを追加または更新（同じ ID があれば置き換え） */
+  const saveProfile = React.useCallback(
+    (profile: ConnectionProfile) => {
+      update((prev) => ({
+        ...prev,
+        profiles: prev.profiles.some((p) => p.id === profile.id)
+          ? prev.profiles.map((p) => (p.id === profile.id ? profile : p))
+          : [...prev.profiles, profile],
+      }));
+    },
+    [update]
+  );
+
+  /** プロファイルを削除（既定プロファイルは削除できません） */
+  const removeProfile = React.useCallback(
+    (id: string) => {
+      if (id === DEFAULT_PROFILE_ID) return;
+      update((prev) => ({
+        profiles: prev.profiles.filter((p) => p.id !== id),
+        activeId: prev.activeId === id ? DEFAULT_PROFILE_ID : prev.activeId,
+      }));
+    },
+    [update]
+  );
+
+  /** プロファイルを有効にして接続先を切り替え */
+  const activateProfile = React.useCallback(
+    (id: string) => {
+      update((prev) => ({ ...prev, activeId: id }));
+    },
+    [update]
+  );
+
+  return {
+    profiles: state.profiles,
+    activeProfile: getActiveProfile(state),
+    saveProfile,
+    removeProfile,
+    activateProfile,
+  } as const;
+}
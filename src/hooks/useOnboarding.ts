@@ -1,4 +1,5 @@
 import React from "react";
+import { useTabSync } from "./useTabSync";
 
 export interface OnboardingStep {
   id: string;
@@ -53,6 +54,27 @@ export function useOnboarding() {
     }
   }, [state]);
 
+  // 完了・スキップしたツアーを他のタブと同期（表示中のツアーはタブごと）
+  const finishedTours = React.useMemo(
+    () => ({
+      completedTours: state.completedTours,
+      skippedTours: state.skippedTours,
+    }),
+    [state.completedTours, state.skippedTours]
+  );
+  useTabSync("onboarding", finishedTours, (remote) =>
+    setState((prev) => ({
+      ...prev,
+      ...remote,
+      // 他のタブで終えたツアーは閉じる
+      ...(prev.currentTour &&
+          (remote.completedTours.includes(prev.currentTour) ||
+            remote.skippedTours.includes(prev.currentTour))
+        ? { currentTour: null, currentStep: 0 }
+        : {}),
+    }))
+  );
+
   const startTour = React.useCallback((tourId: string) => {
     setState((prev) => ({
       ...prev,
@@ -1,4 +1,5 @@
 import React from "react";
+import { useTabSync } from "./useTabSync";
 
 export interface PromptHistoryItem {
   id: string;
@@ -29,6 +30,9 @@ export function usePromptHistory() {
     }
   }, [history]);
 
+  // 他のタブで追加・削除された履歴を反映
+  useTabSync("prompt-history", history, setHistory);
+
   // 新しいプロンプトを追加
   const addToHistory = React.useCallback((prompt: string) => {
     if (!prompt.trim()) return;
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview 共有キャッシュを使ったデータ取得
+ *
+ * @module hooks/useQuery
+ */
+
+import React from "react";
+import {
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  subscribeQuery,
+} from "@/lib/query-cache";
+import type { QueryKey } from "@/lib/query-cache";
+
+/**
+ * useQuery のオプション
+ */
+export interface UseQueryOptions {
+  /** false の場合は取得しない（デフォルト: true） */
+  enabled?: boolean;
+  /** キャッシュを新しいとみなす時間（ミリ秒） */
+  staleTime?: number;
+}
+
+/**
+ * 共有キャッシュ（lib/query-cache）からデータを取得するフック
+ *
+ * 同じキーを使う全てのコンポーネントでデータと取得処理を共有します。
+ * キャッシュがあればすぐに表示し、古ければ裏で再取得します。
+ * `invalidateQueries` で無効化されると自動的に再取得します。
+ *
+ * @param key - キャッシュのキー（`QK` のヘルパーで作成）
+ * @param fetcher - データを取得する関数
+ * @param options - 取得オプション
+ *
+ * @example
+ * ```tsx
+ * const { data, loading, error, refetch } = useQuery(
+ *   QK.plugin.list({ pageSize: 100 }),
+ *   () => clients.plugin.listPlugins({ pageSize: 100 }),
+ * );
+ * ```
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+) {
+  const { enabled = true, staleTime } = options;
+  const hash = hashQueryKey(key);
+
+  // キーは内容（hash）で比較し、呼び出しごとに新しい配列でも再購読しない
+  const stableKey = React.useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = React.useRef(fetcher);
+  React.useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const state = React.useSyncExternalStore(
+    React.useCallback(
+      (onChange: () => void) => subscribeQuery(stableKey, onChange),
+      [stableKey]
+    ),
+    () => getQueryState<T>(stableKey)
+  );
+
+  const run = React.useCallback(
+    (force: boolean) =>
+      fetchQuery(stableKey, () => fetcherRef.current(), { staleTime, force }),
+    [stableKey, staleTime]
+  );
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    run(false).catch(() => {
+      // エラーは state.error で参照する
+    });
+  }, [enabled, run]);
+
+  const refetch = React.useCallback(() => run(true), [run]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    /** まだデータがなく取得中 */
+    loading: enabled && state.data === undefined && state.error === undefined,
+    /** 取得中（裏での再取得を含む） */
+    fetching: state.fetching,
+    updatedAt: state.updatedAt,
+    refetch,
+  } as const;
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview 状態を他のタブと同期するフック
+ *
+ * @module hooks/useTabSync
+ */
+
+import React from "react";
+import { onSyncMessage, publishSync } from "@/lib/tab-sync";
+import type { SyncTopic, SyncTopics } from "@/lib/tab-sync";
+
+/**
+ * 状態を他のタブと同期する
+ *
+ * `value` が変わると他のタブに送信し、他のタブから届いた値は `onRemote` で
+ * 受け取ります。受け取った値をそのまま状態に反映しても送り返しません。
+ *
+ * @param topic - 同期するトピック
+ * @param value - このタブの現在の値
+ * @param onRemote - 他のタブの値を反映するコールバック
+ *
+ * @example
+ * ```tsx
+ * const [mode, setMode] = React.useState<ColorMode>("light");
+ * useTabSync("color-mode", mode, setMode);
+ * ```
+ */
+export function useTabSync<K extends SyncTopic>(
+  topic: K,
+  value: SyncTopics[K],
+  onRemote: (value: SyncTopics[K]) => void
+): void {
+  // 最後に送信・受信した値（同じ内容は送らない）
+  const lastRef = React.useRef(JSON.stringify(value));
+  const onRemoteRef = React.useRef(onRemote);
+  React.useEffect(() => {
+    onRemoteRef.current = onRemote;
+  });
+
+  React.useEffect(
+    () =>
+      onSyncMessage(topic, (payload) => {
+        lastRef.current = JSON.stringify(payload);
+        onRemoteRef.current(payload);
+      }),
+    [topic]
+  );
+
+  React.useEffect(() => {
+    const json = JSON.stringify(value);
+    if (json === lastRef.current) return;
+    lastRef.current = json;
+    publishSync(topic, value);
+  }, [topic, value]);
+}
@@ -0,0 +1,61 @@
+import React from "react";
+import { useBlocker } from "react-router-dom";
+
+/**
+ * 未保存の変更がある間、画面遷移とページの再読み込み・クローズを確認する
+ *
+ * アプリ内の遷移はブロックして `blocked` を true にするため、
+ * 呼び出し側で確認ダイアログを表示し `proceed` / `cancel` を呼び出す。
+ * ブラウザのタブを閉じる・再読み込みする場合はブラウザ標準の確認を表示する。
+ *
+ * @param when - 未保存の変更があるか
+ */
+export function useUnsavedChangesGuard(when: boolean) {
+  const blocker = useBlocker(
+    React.useCallback(
+      ({
+        currentLocation,
+        nextLocation,
+      }: {
+        currentLocation: { pathname: string; search: string };
+        nextLocation: { pathname: string; search: string };
+      }) =>
+        when &&
+        (currentLocation.pathname !== nextLocation.pathname ||
+          currentLocation.search !== nextLocation.search),
+      [when]
+    )
+  );
+
+  React.useEffect(() => {
+    if (!when) return;
+    const handler = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      // 一部のブラウザは returnValue の設定が必要
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handler);
+    return () => window.removeEventListener("beforeunload", handler);
+  }, [when]);
+
+  // 変更が保存・破棄されたらブロック中の遷移を解除
+  React.useEffect(() => {
+    if (!when && blocker.state === "blocked") {
+      blocker.reset();
+    }
+  }, [when, blocker]);
+
+  const proceed = React.useCallback(() => {
+    blocker.proceed?.();
+  }, [blocker]);
+
+  const cancel = React.useCallback(() => {
+    blocker.reset?.();
+  }, [blocker]);
+
+  return {
+    blocked: blocker.state === "blocked",
+    proceed,
+    cancel,
+  } as const;
+}
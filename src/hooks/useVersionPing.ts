@@ -6,6 +6,7 @@
 
 import React from "react";
 import { clients } from "@/lib/grpc-clients";
+import { onActiveConnectionChange } from "@/lib/connection-profiles";
 
 /**
  * gRPC接続のステータス
@@ -32,6 +33,7 @@ export interface UseVersionPingReturn {
  * バックエンドのバージョン情報を定期的に取得するフック
  *
  * 定期的にバックエンドにpingを送り、バージョン情報と接続状態を監視します。
+ * 接続プロファイルが変更された場合はただちに再取得します。
  * ヘルスチェックやステータス表示に使用します。
  *
  * @param intervalMs - ping間隔（ミリ秒）。デフォルトは10秒
@@ -102,5 +104,15 @@ export function useVersionPing(intervalMs = 10000): UseVersionPingReturn {
     };
   }, [intervalMs, refetch]);
 
+  // 接続プロファイルが切り替わったらすぐに新しい接続先を確認
+  React.useEffect(
+    () =>
+      onActiveConnectionChange(() => {
+        setVersion("");
+        refetch();
+      }),
+    [refetch]
+  );
+
   return { status, version, error, lastUpdated, refetch } as const;
 }
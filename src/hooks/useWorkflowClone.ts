@@ -1,9 +1,44 @@
 import React from "react";
-import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import type {
+  Workflow,
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
 import { create } from "@bufbuild/protobuf";
-import { WorkflowSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  WorkflowCodeSchema,
+  WorkflowResultSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import { useI18n } from "./useI18n";
+
+/**
+ * 実行結果から ID を取り除いたコピーを作成
+ */
+function stripResult(result: WorkflowResult): WorkflowResult {
+  return create(WorkflowResultSchema, { ...result, id: "" });
+}
+
+/**
+ * コードリビジョンから ID を取り除いたコピーを作成
+ */
+function stripCode(
+  code: WorkflowCode,
+  codeRevision: number,
+  includeResults: boolean
+): WorkflowCode {
+  return create(WorkflowCodeSchema, {
+    ...code,
+    id: "",
+    codeRevision,
+    result: includeResults ? code.result.map(stripResult) : [],
+  });
+}
 
 export function useWorkflowClone() {
+  const { t } = useI18n();
   const [cloning, setCloning] = React.useState(false);
   const [error, setError] = React.useState<Error | null>(null);
 
@@ -12,32 +47,69 @@ export function useWorkflowClone() {
       sourceWorkflow: Workflow,
       options?: {
         newName?: string;
+        newDescription?: string;
         includeResults?: boolean;
+        /** 複製するコードリビジョンの ID（省略時はすべてのリビジョン） */
+        workflowCodeId?: string;
       }
     ): Promise<Workflow | null> => {
       setCloning(true);
       setError(null);
 
       try {
-        // 新しいワークフローオブジェクトを作成（IDを除外）
+        const includeResults = options?.includeResults ?? false;
+        const sourceCodes = options?.workflowCodeId
+          ? sourceWorkflow.workflowCode.filter(
+              (c) => c.id === options.workflowCodeId
+            )
+          : sourceWorkflow.workflowCode;
+        if (options?.workflowCodeId && sourceCodes.length === 0) {
+          throw new Error(
+            `Code revision not found: ${options.workflowCodeId}`
+          );
+        }
+
+        // 新しいワークフローオブジェクトを作成（ID はサーバー側で採番）
         const clonedWorkflow = create(WorkflowSchema, {
           displayName:
-            options?.newName || `${sourceWorkflow.displayName} (コピー)`,
-          description: sourceWorkflow.description
-            ? `${sourceWorkflow.description} (複製)`
-            : "複製されたワークフロー",
-          workflowCode: sourceWorkflow.workflowCode,
+            options?.newName ||
+            t("clone.nameSuffix", {
+              name: sourceWorkflow.displayName || t("common.untitledWorkflow"),
+            }),
+          description:
+            options?.newDescription ??
+            (sourceWorkflow.description
+              ? t("clone.descriptionSuffix", {
+                  description: sourceWorkflow.description,
+                })
+              : t("clone.defaultDescription")),
+          workflowLanguage: sourceWorkflow.workflowLanguage,
+          workflowCode: sourceCodes.map((code, i) =>
+            // 単一リビジョンのみ複製する場合はリビジョン 1 から振り直す
+            stripCode(
+              code,
+              options?.workflowCodeId ? i + 1 : code.codeRevision,
+              includeResults
+            )
+          ),
           // 結果は通常複製しない
-          workflowResults: options?.includeResults
-            ? sourceWorkflow.workflowResults
+          workflowResults: includeResults
+            ? sourceWorkflow.workflowResults.map(stripResult)
             : [],
         });
 
-        // TODO: バックエンドAPIに複製リクエストを送信
-        // 現在は createWorkflow APIがないため、ローカルで返すのみ
-        // const result = await clients.workflow.createWorkflow(clonedWorkflow);
+        const res = await clients.workflow.updateWorkflow({
+          workflow: clonedWorkflow,
+        });
+        if (res.status?.code !== 0 && res.status?.code !== undefined) {
+          throw new Error(res.status.message || "Failed to clone workflow");
+        }
+        if (!res.workflow?.id) {
+          throw new Error("Failed to clone workflow: no ID returned");
+        }
 
-        return clonedWorkflow;
+        emitWorkflowChange({ type: "created", workflowId: res.workflow.id });
+        return res.workflow;
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
         setError(err);
@@ -46,7 +118,7 @@ export function useWorkflowClone() {
         setCloning(false);
       }
     },
-    []
+    [t]
   );
 
   return {
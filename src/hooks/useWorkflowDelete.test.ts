@@ -0,0 +1,40 @@
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { WorkflowSchema } from "@/gen/sapphillon/v1/workflow_pb";
+
+const updateWorkflow = vi.fn();
+vi.mock("@/lib/grpc-clients", () => ({
+  clients: {
+    workflow: {
+      updateWorkflow: (...args: unknown[]) => updateWorkflow(...args),
+    },
+  },
+}));
+
+import { onWorkflowChange } from "@/lib/workflow-events";
+import { useWorkflowDelete } from "./useWorkflowDelete";
+
+describe("useWorkflowDelete", () => {
+  it("restores a deleted workflow as a new workflow", async () => {
+    updateWorkflow.mockImplementation(async (req) => ({
+      workflow: create(WorkflowSchema, { ...req.workflow, id: "wf-new" }),
+    }));
+    const changes: unknown[] = [];
+    const unsubscribe = onWorkflowChange((change) => changes.push(change));
+    const { result } = renderHook(() => useWorkflowDelete());
+
+    let restored = null;
+    await act(async () => {
+      restored = await result.current.restoreWorkflow(
+        create(WorkflowSchema, { id: "wf-old", displayName: "Report" })
+      );
+    });
+    unsubscribe();
+
+    const [req] = updateWorkflow.mock.calls[0];
+    expect(req.workflow).toMatchObject({ id: "", displayName: "Report" });
+    expect(restored).toMatchObject({ id: "wf-new" });
+    expect(changes).toEqual([{ type: "restored", workflowId: "wf-new" }]);
+  });
+});
@@ -0,0 +1,87 @@
+import React from "react";
+import { clone, create } from "@bufbuild/protobuf";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { WorkflowSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import { DeleteWorkflowRequestSchema } from "@/gen/sapphillon/v1/workflow_service_pb";
+import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+
+export function useWorkflowDelete() {
+  const [deleting, setDeleting] = React.useState(false);
+  const [restoring, setRestoring] = React.useState(false);
+  const [error, setError] = React.useState<Error | null>(null);
+
+  /**
+   * ワークフローを削除
+   *
+   * 削除前にワークフローのコピーを保持し、成功時に返します。
+   * 返されたコピーを restoreWorkflow に渡すと削除を取り消せます。
+   */
+  const deleteWorkflow = React.useCallback(
+    async (workflow: Workflow): Promise<Workflow | null> => {
+      setDeleting(true);
+      setError(null);
+
+      try {
+        const snapshot = clone(WorkflowSchema, workflow);
+        await clients.workflow.deleteWorkflow(
+          create(DeleteWorkflowRequestSchema, { workflowId: workflow.id })
+        );
+        emitWorkflowChange({ type: "deleted", workflowId: workflow.id });
+        return snapshot;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        console.error("Failed to delete workflow:", e);
+        return null;
+      } finally {
+        setDeleting(false);
+      }
+    },
+    []
+  );
+
+  /**
+   * 削除したワークフローをコピーから復元
+   *
+   * 削除済みの ID は更新できないため、ID を空にしたコピーを UpdateWorkflow で
+   * 新規作成として書き戻します（複製と同じ経路）。復元したワークフローには
+   * 新しい ID が割り当てられます。
+   */
+  const restoreWorkflow = React.useCallback(
+    async (snapshot: Workflow): Promise<Workflow | null> => {
+      setRestoring(true);
+      setError(null);
+
+      try {
+        const res = await clients.workflow.updateWorkflow({
+          workflow: create(WorkflowSchema, { ...snapshot, id: "" }),
+        });
+        if (res.status?.code !== 0 && res.status?.code !== undefined) {
+          throw new Error(res.status.message || "Failed to restore workflow");
+        }
+        if (!res.workflow?.id) {
+          throw new Error("Failed to restore workflow: no ID returned");
+        }
+        emitWorkflowChange({ type: "restored", workflowId: res.workflow.id });
+        return res.workflow;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        console.error("Failed to restore workflow:", e);
+        return null;
+      } finally {
+        setRestoring(false);
+      }
+    },
+    []
+  );
+
+  return {
+    deleteWorkflow,
+    restoreWorkflow,
+    deleting,
+    restoring,
+    error,
+  } as const;
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import { toImportedWorkflow } from "@/lib/workflow-bundle";
+
+export function useWorkflowImport() {
+  const [importing, setImporting] = React.useState(false);
+  const [error, setError] = React.useState<Error | null>(null);
+
+  const importWorkflow = React.useCallback(
+    async (
+      workflow: Workflow,
+      options: { displayName: string }
+    ): Promise<Workflow | null> => {
+      setImporting(true);
+      setError(null);
+
+      try {
+        // ID はサーバー側で採番
+        const res = await clients.workflow.updateWorkflow({
+          workflow: toImportedWorkflow(workflow, options.displayName),
+        });
+        if (res.status?.code !== 0 && res.status?.code !== undefined) {
+          throw new Error(res.status.message || "Failed to import workflow");
+        }
+        if (!res.workflow?.id) {
+          throw new Error("Failed to import workflow: no ID returned");
+        }
+
+        emitWorkflowChange({ type: "created", workflowId: res.workflow.id });
+        return res.workflow;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        return null;
+      } finally {
+        setImporting(false);
+      }
+    },
+    []
+  );
+
+  const reset = React.useCallback(() => setError(null), []);
+
+  return {
+    importWorkflow,
+    importing,
+    error,
+    reset,
+  } as const;
+}
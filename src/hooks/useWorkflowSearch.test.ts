@@ -0,0 +1,62 @@
+import type React from "react";
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useWorkflowSearch } from "./useWorkflowSearch";
+
+function key(name: string) {
+  return {
+    key: name,
+    shiftKey: false,
+    preventDefault: vi.fn(),
+    stopPropagation: vi.fn(),
+  };
+}
+
+function press(
+  handleKeyDown: (e: React.KeyboardEvent) => void,
+  name: string
+) {
+  const e = key(name);
+  act(() => handleKeyDown(e as unknown as React.KeyboardEvent));
+  return e;
+}
+
+describe("useWorkflowSearch", () => {
+  it("lets Tab move focus until a suggestion is chosen with the arrow keys", () => {
+    const { result } = renderHook(() => useWorkflowSearch([], "s"));
+    expect(result.current.suggestions.map((s) => s.label)).toEqual([
+      "status:",
+    ]);
+
+    const tab = press(result.current.handleKeyDown, "Tab");
+    expect(tab.preventDefault).not.toHaveBeenCalled();
+    expect(result.current.query).toBe("s");
+
+    press(result.current.handleKeyDown, "ArrowDown");
+    expect(result.current.activeSuggestion).toBe(0);
+
+    const enter = press(result.current.handleKeyDown, "Enter");
+    expect(enter.preventDefault).toHaveBeenCalled();
+    expect(result.current.query).toBe("status:");
+    expect(result.current.activeSuggestion).toBe(-1);
+  });
+
+  it("leaves the suggestions with ArrowUp, Escape or by typing", () => {
+    const { result } = renderHook(() => useWorkflowSearch([], "status:"));
+
+    press(result.current.handleKeyDown, "ArrowDown");
+    press(result.current.handleKeyDown, "ArrowDown");
+    expect(result.current.activeSuggestion).toBe(1);
+    press(result.current.handleKeyDown, "ArrowUp");
+    press(result.current.handleKeyDown, "ArrowUp");
+    expect(result.current.activeSuggestion).toBe(-1);
+
+    press(result.current.handleKeyDown, "ArrowDown");
+    press(result.current.handleKeyDown, "Escape");
+    expect(result.current.activeSuggestion).toBe(-1);
+
+    press(result.current.handleKeyDown, "ArrowDown");
+    act(() => result.current.setQuery("status:f"));
+    expect(result.current.activeSuggestion).toBe(-1);
+  });
+});
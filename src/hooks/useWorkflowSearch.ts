@@ -0,0 +1,120 @@
+import React from "react";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  isEmptySearchQuery,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from "@/lib/workflow-search";
+import type { SearchSuggestion } from "@/lib/workflow-search";
+
+/**
+ * 検索クエリ言語（lib/workflow-search）でワークフローを絞り込む
+ *
+ * 検索ボックスの入力・補完候補・キーボードでの補完をまとめて扱います。
+ * ↓ キーで候補に移動した後だけ Tab・Enter で補完し、それ以外の Tab は
+ * 通常どおりフォーカスの移動に使われます。
+ *
+ * @param workflows - 絞り込むワークフロー（`plugin:` の補完候補にも使います）
+ * @param initialQuery - 検索クエリの初期値
+ */
+export function useWorkflowSearch<T extends Workflow>(
+  workflows: readonly T[],
+  initialQuery = ""
+) {
+  const [query, setQuery] = React.useState(initialQuery);
+  const parsed = React.useMemo(() => parseSearchQuery(query), [query]);
+
+  const results = React.useMemo(
+    () =>
+      isEmptySearchQuery(parsed)
+        ? workflows
+        : workflows.filter((w) => matchesSearchQuery(w, parsed)),
+    [workflows, parsed]
+  );
+
+  const suggestions = React.useMemo(
+    () => getSearchSuggestions(query, workflows),
+    [query, workflows]
+  );
+
+  // 矢印キーで選んでいる候補（入力が変わると選択を解除）
+  const [cursor, setCursor] = React.useState<{
+    query: string;
+    index: number;
+  } | null>(null);
+  const activeSuggestion =
+    cursor?.query === query && cursor.index < suggestions.length
+      ? cursor.index
+      : -1;
+
+  const applySuggestion = React.useCallback(
+    (suggestion: SearchSuggestion) => {
+      setCursor(null);
+      setQuery((prev) => applySearchSuggestion(prev, suggestion));
+    },
+    []
+  );
+
+  const handleKeyDown = React.useCallback(
+    (e: React.KeyboardEvent) => {
+      if (suggestions.length === 0) return;
+      // 候補の操作に使ったキーは画面側（OmniBar の項目の選択など）に渡さない
+      const take = () => {
+        e.preventDefault();
+        e.stopPropagation();
+      };
+
+      if (activeSuggestion < 0) {
+        if (e.key === "ArrowDown") {
+          take();
+          setCursor({ query, index: 0 });
+        }
+        return;
+      }
+
+      switch (e.key) {
+        case "ArrowDown":
+          // 末尾の候補からは候補を抜け、画面側の操作に任せる
+          if (activeSuggestion === suggestions.length - 1) {
+            setCursor(null);
+            return;
+          }
+          take();
+          setCursor({ query, index: activeSuggestion + 1 });
+          return;
+        case "ArrowUp":
+          take();
+          setCursor(
+            activeSuggestion > 0 ? { query, index: activeSuggestion - 1 } : null
+          );
+          return;
+        case "Escape":
+          take();
+          setCursor(null);
+          return;
+        case "Tab":
+        case "Enter":
+          if (e.shiftKey) return;
+          take();
+          applySuggestion(suggestions[activeSuggestion]);
+          return;
+      }
+    },
+    [query, suggestions, activeSuggestion, applySuggestion]
+  );
+
+  return {
+    query,
+    setQuery,
+    parsed,
+    isFiltered: !isEmptySearchQuery(parsed),
+    results,
+    suggestions,
+    /** 矢印キーで選んでいる候補の位置（選んでいない場合は -1） */
+    activeSuggestion,
+    applySuggestion,
+    handleKeyDown,
+  } as const;
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Code, ConnectError, createContextValues } from "@connectrpc/connect";
+import type { UnaryRequest, UnaryResponse } from "@connectrpc/connect";
+import type { DescMessage, DescMethodUnary, Message } from "@bufbuild/protobuf";
+import { create } from "@bufbuild/protobuf";
+import {
+  VersionService,
+  GetVersionRequestSchema,
+} from "@/gen/sapphillon/v1/version_pb";
+import {
+  authInterceptor,
+  completeAuthentication,
+  getAuthToken,
+  getTokenExpiry,
+  onAuthenticationRequired,
+  saveAuthToken,
+} from "./auth";
+import type { AuthRequest } from "./auth";
+
+type UReq = UnaryRequest<DescMessage, DescMessage>;
+type URes = UnaryResponse<DescMessage, DescMessage>;
+type NextFn = Parameters<ReturnType<typeof authInterceptor>>[0];
+
+function makeReq(): UReq {
+  return {
+    stream: false,
+    header: new Headers(),
+    requestMethod: "POST",
+    url: "http://localhost:50051/sapphillon.v1.VersionService/GetVersion",
+    signal: new AbortController().signal,
+    contextValues: createContextValues(),
+    service: VersionService,
+    method: VersionService.method.getVersion as unknown as DescMethodUnary<
+      DescMessage,
+      DescMessage
+    >,
+    message: create(GetVersionRequestSchema) as unknown as Message,
+  };
+}
+
+const ok = {} as URes;
+
+describe("auth token store", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("returns tokens until they expire", () => {
+    saveAuthToken("valid", Date.now() + 60_000);
+    expect(getAuthToken()).toBe("valid");
+
+    saveAuthToken("old", Date.now() - 1);
+    expect(getAuthToken()).toBeNull();
+
+    saveAuthToken("forever", null, "staging");
+    expect(getAuthToken("staging")).toBe("forever");
+  });
+
+  it("reads the expiry of JWTs", () => {
+    const payload = btoa(JSON.stringify({ exp: 1_700_000_000 }))
+      .replace(/=+$/, "");
+    expect(getTokenExpiry(`header.${payload}.sig`)).toBe(1_700_000_000_000);
+    expect(getTokenExpiry("opaque-token")).toBeNull();
+  });
+});
+
+describe("authInterceptor", () => {
+  let requests: AuthRequest[];
+  let unsubscribe: (() => void) | null;
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    unsubscribe = null;
+  });
+
+  afterEach(() => {
+    unsubscribe?.();
+  });
+
+  it("sends the stored token as a bearer header", async () => {
+    saveAuthToken("abc", null);
+    const next = vi.fn<NextFn>(async () => ok);
+    await authInterceptor()(next)(makeReq());
+    expect(next.mock.calls[0][0].header.get("authorization")).toBe(
+      "Bearer abc",
+    );
+  });
+
+  it("asks for a new token on Unauthenticated and replays the call", async () => {
+    saveAuthToken("stale", null);
+    unsubscribe = onAuthenticationRequired((r) => {
+      requests.push(r);
+      saveAuthToken("fresh", null, r.profile.id);
+      completeAuthentication(true);
+    });
+    const seen: (string | null)[] = [];
+    const next = vi.fn<NextFn>(async (req) => {
+      seen.push(req.header.get("authorization"));
+      if (seen.length === 1) {
+        throw new ConnectError("login required", Code.Unauthenticated);
+      }
+      return ok;
+    });
+
+    await expect(authInterceptor()(next)(makeReq())).resolves.toBe(ok);
+    expect(seen).toEqual(["Bearer stale", "Bearer fresh"]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].expired).toBe(true);
+  });
+
+  it("shares one login prompt between concurrent failures", async () => {
+    unsubscribe = onAuthenticationRequired((r) => requests.push(r));
+    const next = vi.fn<NextFn>(async (req) => {
+      if (!req.header.has("authorization")) {
+        throw new ConnectError("login required", Code.Unauthenticated);
+      }
+      return ok;
+    });
+
+    const calls = [
+      authInterceptor()(next)(makeReq()),
+      authInterceptor()(next)(makeReq()),
+    ];
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    saveAuthToken("token", null);
+    completeAuthentication(true);
+
+    await expect(Promise.all(calls)).resolves.toEqual([ok, ok]);
+    expect(requests).toHaveLength(1);
+    expect(next).toHaveBeenCalledTimes(4);
+  });
+
+  it("rethrows when the login is cancelled or no dialog is mounted", async () => {
+    const next = vi.fn<NextFn>(async () => {
+      throw new ConnectError("login required", Code.Unauthenticated);
+    });
+
+    await expect(authInterceptor()(next)(makeReq())).rejects.toMatchObject({
+      code: Code.Unauthenticated,
+    });
+
+    unsubscribe = onAuthenticationRequired(() => completeAuthentication(false));
+    await expect(authInterceptor()(next)(makeReq())).rejects.toMatchObject({
+      code: Code.Unauthenticated,
+    });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
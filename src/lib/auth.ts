@@ -0,0 +1,264 @@
+/**
+ * @fileoverview 認証トークンの保存と認証インターセプター
+ *
+ * 接続プロファイルごとにベアラートークンと有効期限を localStorage に保存し、
+ * `authInterceptor` がリクエストに `authorization` ヘッダーとして付与します。
+ * 呼び出しが `Unauthenticated` で失敗した場合は認証ダイアログを開き、
+ * 再認証できれば失敗した unary リクエストをそのまま再送します。
+ *
+ * ## 使用例
+ * ```typescript
+ * // アプリケーション起動時
+ * registerInterceptors(authInterceptor());
+ * ```
+ *
+ * @module lib/auth
+ */
+
+import { Code, ConnectError, createContextKey } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { getActiveConnectionProfile } from "./grpc-clients";
+import type { ConnectionProfile } from "./connection-profiles";
+
+const TOKENS_KEY = "sapphillon-auth-tokens";
+
+/** トークンを付与するヘッダー名 */
+const AUTH_HEADER = "authorization";
+
+/**
+ * `authorization` ヘッダーを `authInterceptor` が設定したか
+ *
+ * 再試行で同じリクエストが再度渡された場合に、接続プロファイルのヘッダーと
+ * 区別してトークンを付け直すために使用します。
+ */
+const authManagedKey = createContextKey(false, {
+  description: "authorization header set by authInterceptor",
+});
+
+/**
+ * 保存される認証トークン
+ */
+export interface AuthToken {
+  token: string;
+  /** 有効期限（Unix ミリ秒、null は無期限） */
+  expiresAt: number | null;
+}
+
+/**
+ * 認証ダイアログへの要求
+ */
+export interface AuthRequest {
+  /** 認証が必要になった接続プロファイル */
+  profile: ConnectionProfile;
+  /** 期限切れ・無効になったトークンがあるか（再ログイン） */
+  expired: boolean;
+}
+
+type AuthTokenStore = Record<string, AuthToken>;
+
+function loadTokens(): AuthTokenStore {
+  try {
+    const stored = localStorage.getItem(TOKENS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveTokens(tokens: AuthTokenStore): void {
+  try {
+    localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+  } catch (e) {
+    console.error("Failed to save auth token:", e);
+  }
+}
+
+const isValid = (t: AuthToken | undefined): t is AuthToken =>
+  !!t && (t.expiresAt === null || t.expiresAt > Date.now());
+
+/**
+ * 有効な認証トークンを取得
+ *
+ * @param profileId - 接続プロファイル ID（デフォルト: 有効なプロファイル）
+ * @returns 期限内のトークン（なければ null）
+ */
+export function getAuthToken(
+  profileId = getActiveConnectionProfile().id
+): string | null {
+  const stored = loadTokens()[profileId];
+  return isValid(stored) ? stored.token : null;
+}
+
+/**
+ * 認証トークンを保存
+ *
+ * @param token - ベアラートークン
+ * @param expiresAt - 有効期限（Unix ミリ秒、null は無期限）
+ * @param profileId - 接続プロファイル ID（デフォルト: 有効なプロファイル）
+ */
+export function saveAuthToken(
+  token: string,
+  expiresAt: number | null,
+  profileId = getActiveConnectionProfile().id
+): void {
+  saveTokens({ ...loadTokens(), [profileId]: { token, expiresAt } });
+}
+
+/**
+ * 認証トークンを削除（サインアウト）
+ *
+ * @param profileId - 接続プロファイル ID（デフォルト: 有効なプロファイル）
+ */
+export function clearAuthToken(
+  profileId = getActiveConnectionProfile().id
+): void {
+  const tokens = loadTokens();
+  delete tokens[profileId];
+  saveTokens(tokens);
+}
+
+/**
+ * サーバーに拒否されたトークンを期限切れにする
+ *
+ * 次回の認証ダイアログを再ログインとして表示するため、記録自体は残します。
+ * 既に別のトークンに置き換わっている場合は何もしません。
+ */
+function expireAuthToken(token: string, profileId: string): void {
+  const tokens = loadTokens();
+  if (tokens[profileId]?.token !== token) return;
+  tokens[profileId] = { token, expiresAt: Date.now() };
+  saveTokens(tokens);
+}
+
+/**
+ * JWT の `exp` クレームから有効期限を取得
+ *
+ * @param token - トークン文字列
+ * @returns 有効期限（Unix ミリ秒）。JWT でない場合や `exp` がない場合は null
+ */
+export function getTokenExpiry(token: string): number | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const json = atob(parts[1].replace(/-/g, "+").replace(/_/g, "/"));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// ----------------------
+// 認証ダイアログとの連携
+// ----------------------
+
+const listeners = new Set<(request: AuthRequest) => void>();
+let pending: Promise<boolean> | null = null;
+let resolvePending: ((authenticated: boolean) => void) | null = null;
+
+/**
+ * 認証を要求
+ *
+ * 購読中の認証ダイアログを開き、`completeAuthentication` が呼ばれるまで待ちます。
+ * 同時に複数の呼び出しが失敗した場合も、ダイアログは一度だけ開きます。
+ * ダイアログが表示されていない場合はただちに false を返します。
+ *
+ * @returns 再認証できたか
+ */
+export function requestAuthentication(): Promise<boolean> {
+  if (pending) return pending;
+  if (listeners.size === 0) return Promise.resolve(false);
+
+  const profile = getActiveConnectionProfile();
+  const request: AuthRequest = {
+    profile,
+    expired: profile.id in loadTokens(),
+  };
+  const promise = new Promise<boolean>((resolve) => {
+    resolvePending = resolve;
+  });
+  pending = promise;
+  listeners.forEach((listener) => listener(request));
+  return promise;
+}
+
+/**
+ * 認証要求を完了
+ *
+ * @param authenticated - トークンを保存した場合は true、取りやめた場合は false
+ */
+export function completeAuthentication(authenticated: boolean): void {
+  const resolve = resolvePending;
+  pending = null;
+  resolvePending = null;
+  resolve?.(authenticated);
+}
+
+/**
+ * 認証要求を購読（認証ダイアログ用）
+ *
+ * @param listener - 認証が必要になったときに呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onAuthenticationRequired(
+  listener: (request: AuthRequest) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 認証インターセプター
+ *
+ * 有効なトークンがあれば `authorization: Bearer <token>` を付与します。
+ * 呼び出しが `Unauthenticated` で失敗した場合はトークンを期限切れにして
+ * `requestAuthentication` で再認証を求め、成功すれば unary リクエストを一度だけ
+ * 再送します。ストリーミングは再送できないため、ダイアログを開いてエラーを返します。
+ * 接続プロファイルのヘッダーで `authorization` が設定されている場合は何もしません。
+ *
+ * @returns Interceptor
+ */
+export function authInterceptor(): Interceptor {
+  return (next) => async (req) => {
+    if (req.header.has(AUTH_HEADER) && !req.contextValues.get(authManagedKey)) {
+      return next(req);
+    }
+
+    const profileId = getActiveConnectionProfile().id;
+    const token = getAuthToken(profileId);
+    req.header.delete(AUTH_HEADER);
+    if (token) {
+      req.header.set(AUTH_HEADER, `Bearer ${token}`);
+      req.contextValues.set(authManagedKey, true);
+    }
+
+    try {
+      return await next(req);
+    } catch (e) {
+      if (
+        ConnectError.from(e).code !== Code.Unauthenticated ||
+        req.signal.aborted
+      ) {
+        throw e;
+      }
+      if (token) expireAuthToken(token, profileId);
+      if (req.stream) {
+        void requestAuthentication();
+        throw e;
+      }
+
+      // 待機中に別の呼び出しで再認証が済んでいればそのトークンを使う
+      const current = getAuthToken(profileId);
+      const authenticated = (current !== null && current !== token) ||
+        (await requestAuthentication());
+      const replayToken = authenticated ? getAuthToken(profileId) : null;
+      if (!replayToken) throw e;
+
+      req.header.set(AUTH_HEADER, `Bearer ${replayToken}`);
+      req.contextValues.set(authManagedKey, true);
+      return next(req);
+    }
+  };
+}
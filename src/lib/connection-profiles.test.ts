@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createDefaultProfile,
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  loadConnectionProfiles,
+  onActiveConnectionChange,
+  onConnectionProfilesChange,
+  saveConnectionProfiles,
+} from "./connection-profiles";
+import type { ConnectionProfile } from "./connection-profiles";
+import {
+  clients,
+  getActiveConnectionProfile,
+  DEFAULT_CONNECTION_PROFILE,
+} from "./grpc-clients";
+
+const defaults = createDefaultProfile("http://localhost:50051", true);
+
+const staging: ConnectionProfile = {
+  id: "staging",
+  name: "Staging",
+  baseUrl: "https://staging.example.com",
+  useBinaryFormat: false,
+  headers: [{ name: "x-tenant", value: "qa" }],
+};
+
+describe("connection-profiles", () => {
+  beforeEach(() => {
+    // 前のテストで切り替えた接続先を既定に戻す
+    saveConnectionProfiles({
+      profiles: [DEFAULT_CONNECTION_PROFILE],
+      activeId: DEFAULT_PROFILE_ID,
+    });
+    localStorage.clear();
+  });
+
+  it("returns only the default profile when nothing is stored", () => {
+    const state = loadConnectionProfiles(defaults);
+    expect(state.profiles).toEqual([defaults]);
+    expect(state.activeId).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it("restores saved profiles and keeps the build-time URL for the default", () => {
+    saveConnectionProfiles({
+      profiles: [
+        {
+          ...defaults,
+          name: "Local",
+          baseUrl: "http://stale:1",
+          headers: [{ name: "x-debug", value: "1" }],
+        },
+        staging,
+      ],
+      activeId: "staging",
+    });
+
+    const state = loadConnectionProfiles(defaults);
+    expect(state.profiles[0]).toEqual({
+      ...defaults,
+      name: "Local",
+      headers: [{ name: "x-debug", value: "1" }],
+    });
+    expect(getActiveProfile(state)).toEqual(staging);
+  });
+
+  it("falls back to the default profile when the active one is missing or broken", () => {
+    localStorage.setItem(
+      "sapphillon-connection-profiles",
+      JSON.stringify({ profiles: [{ id: "broken" }], activeId: "broken" })
+    );
+    const state = loadConnectionProfiles(defaults);
+    expect(state.profiles).toHaveLength(1);
+    expect(getActiveProfile(state).id).toBe(DEFAULT_PROFILE_ID);
+  });
+
+  it("notifies listeners and switches the gRPC clients live", () => {
+    const listener = vi.fn();
+    const unsubscribe = onConnectionProfilesChange(listener);
+    const before = clients.version;
+
+    const state = {
+      profiles: [DEFAULT_CONNECTION_PROFILE, staging],
+      activeId: "staging",
+    };
+    saveConnectionProfiles(state);
+
+    expect(listener).toHaveBeenCalledWith(state);
+    expect(getActiveConnectionProfile()).toEqual(staging);
+    expect(clients.version).not.toBe(before);
+
+    saveConnectionProfiles({ ...state, activeId: DEFAULT_PROFILE_ID });
+    expect(getActiveConnectionProfile().id).toBe(DEFAULT_PROFILE_ID);
+    unsubscribe();
+  });
+
+  it("switches the connection only when the active profile's settings change", () => {
+    const switched = vi.fn();
+    const unsubscribe = onActiveConnectionChange(switched);
+    const before = clients.version;
+
+    // 有効でないプロファイルの保存と、有効なプロファイルの名前の変更
+    saveConnectionProfiles({
+      profiles: [DEFAULT_CONNECTION_PROFILE, staging],
+      activeId: DEFAULT_PROFILE_ID,
+    });
+    saveConnectionProfiles({
+      profiles: [{ ...DEFAULT_CONNECTION_PROFILE, name: "Local" }, staging],
+      activeId: DEFAULT_PROFILE_ID,
+    });
+    expect(clients.version).toBe(before);
+    expect(switched).not.toHaveBeenCalled();
+    expect(getActiveConnectionProfile().name).toBe("Local");
+
+    const withHeader = {
+      ...DEFAULT_CONNECTION_PROFILE,
+      headers: [{ name: "x-debug", value: "1" }],
+    };
+    saveConnectionProfiles({
+      profiles: [withHeader, staging],
+      activeId: DEFAULT_PROFILE_ID,
+    });
+    expect(clients.version).not.toBe(before);
+    expect(switched).toHaveBeenCalledWith(withHeader);
+    unsubscribe();
+  });
+});
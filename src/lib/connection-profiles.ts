@@ -0,0 +1,230 @@
+/**
+ * @fileoverview バックエンド接続プロファイルの保存
+ *
+ * 接続先（URL・バイナリ/JSON 形式・追加ヘッダー）を名前付きのプロファイルとして
+ * localStorage に保存します。有効なプロファイルの接続設定が変わると
+ * `grpc-clients` はトランスポートを作り直して接続先を切り替え、
+ * `onActiveConnectionChange` の購読者に通知します。
+ *
+ * @module lib/connection-profiles
+ */
+
+const PROFILES_KEY = "sapphillon-connection-profiles";
+
+/** イベント名 */
+const PROFILES_CHANGED_EVENT = "sapphillon:connection-profiles-changed";
+const ACTIVE_CONNECTION_CHANGED_EVENT = "sapphillon:active-connection-changed";
+
+/** ビルド時の設定から作られる既定プロファイルの ID */
+export const DEFAULT_PROFILE_ID = "default";
+
+/**
+ * リクエストに付与するヘッダー
+ */
+export interface ConnectionHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * バックエンド接続プロファイル
+ */
+export interface ConnectionProfile {
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** gRPC-Web サーバーのベース URL */
+  baseUrl: string;
+  /** バイナリ形式を使用するか（false の場合は JSON） */
+  useBinaryFormat: boolean;
+  /** 全てのリクエストに付与するヘッダー */
+  headers: ConnectionHeader[];
+}
+
+/**
+ * 保存されるプロファイルの一覧と有効なプロファイル
+ */
+export interface ConnectionProfilesState {
+  profiles: ConnectionProfile[];
+  activeId: string;
+}
+
+const target: EventTarget = new EventTarget();
+
+/**
+ * ビルド時の設定から既定プロファイルを作成
+ *
+ * @param baseUrl - `VITE_GRPC_BASE_URL` などから決まるベース URL
+ * @param useBinaryFormat - `VITE_GRPC_WEB_USE_BINARY` から決まる形式
+ */
+export function createDefaultProfile(
+  baseUrl: string,
+  useBinaryFormat: boolean
+): ConnectionProfile {
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: "Default",
+    baseUrl,
+    useBinaryFormat,
+    headers: [],
+  };
+}
+
+/**
+ * 新しいプロファイルの ID を生成
+ */
+export function createProfileId(): string {
+  return (
+    globalThis.crypto?.randomUUID?.() || Math.random().toString(36).slice(2)
+  );
+}
+
+function isProfile(value: unknown): value is ConnectionProfile {
+  const p = value as ConnectionProfile;
+  return (
+    !!p &&
+    typeof p.id === "string" &&
+    typeof p.name === "string" &&
+    typeof p.baseUrl === "string" &&
+    typeof p.useBinaryFormat === "boolean" &&
+    Array.isArray(p.headers)
+  );
+}
+
+/**
+ * 保存されたプロファイルを読み込み
+ *
+ * 既定プロファイルは常に先頭に含まれ、URL などはビルド時の設定で上書きされます
+ * （名前とヘッダーは保存された値を使用）。有効なプロファイルが見つからない場合は
+ * 既定プロファイルを有効にします。
+ *
+ * @param defaults - ビルド時の設定から作られた既定プロファイル
+ */
+export function loadConnectionProfiles(
+  defaults: ConnectionProfile
+): ConnectionProfilesState {
+  let stored: Partial<ConnectionProfilesState> = {};
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch (e) {
+    console.error("Failed to load connection profiles:", e);
+  }
+
+  const saved = (Array.isArray(stored.profiles) ? stored.profiles : []).filter(
+    isProfile
+  );
+  const savedDefault = saved.find((p) => p.id === DEFAULT_PROFILE_ID);
+  const profiles = [
+    {
+      ...defaults,
+      name: savedDefault?.name || defaults.name,
+      headers: savedDefault?.headers ?? defaults.headers,
+    },
+    ...saved.filter((p) => p.id !== DEFAULT_PROFILE_ID),
+  ];
+  const activeId = profiles.some((p) => p.id === stored.activeId)
+    ? (stored.activeId as string)
+    : DEFAULT_PROFILE_ID;
+
+  return { profiles, activeId };
+}
+
+/**
+ * プロファイルを保存して変更を通知
+ *
+ * @param state - 保存するプロファイルの一覧と有効なプロファイル
+ */
+export function saveConnectionProfiles(state: ConnectionProfilesState): void {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save connection profiles:", e);
+  }
+  target.dispatchEvent(
+    new CustomEvent<ConnectionProfilesState>(PROFILES_CHANGED_EVENT, {
+      detail: state,
+    })
+  );
+}
+
+/**
+ * 有効なプロファイルを取得
+ *
+ * @param state - プロファイルの一覧と有効なプロファイル
+ */
+export function getActiveProfile(
+  state: ConnectionProfilesState
+): ConnectionProfile {
+  return state.profiles.find((p) => p.id === state.activeId) ??
+    state.profiles[0];
+}
+
+/**
+ * プロファイルの変更を購読
+ *
+ * @param listener - 保存時に呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onConnectionProfilesChange(
+  listener: (state: ConnectionProfilesState) => void
+): () => void {
+  const handler = (e: Event) => {
+    listener((e as CustomEvent<ConnectionProfilesState>).detail);
+  };
+  target.addEventListener(PROFILES_CHANGED_EVENT, handler);
+  return () => target.removeEventListener(PROFILES_CHANGED_EVENT, handler);
+}
+
+/**
+ * 2 つのプロファイルの接続設定（URL・形式・ヘッダー）が同じか
+ *
+ * 名前だけが異なる場合は同じとみなします。
+ */
+export function isSameConnection(
+  a: ConnectionProfile,
+  b: ConnectionProfile
+): boolean {
+  return (
+    a.baseUrl === b.baseUrl &&
+    a.useBinaryFormat === b.useBinaryFormat &&
+    a.headers.length === b.headers.length &&
+    a.headers.every(
+      (h, i) => h.name === b.headers[i].name && h.value === b.headers[i].value
+    )
+  );
+}
+
+/**
+ * 接続先が切り替わったことを通知
+ *
+ * `grpc-clients` がトランスポートを作り直した後に呼び出します。
+ *
+ * @param profile - 新しく有効になった接続プロファイル
+ */
+export function notifyActiveConnectionChange(profile: ConnectionProfile): void {
+  target.dispatchEvent(
+    new CustomEvent<ConnectionProfile>(ACTIVE_CONNECTION_CHANGED_EVENT, {
+      detail: profile,
+    })
+  );
+}
+
+/**
+ * 接続先の切り替えを購読
+ *
+ * 有効でないプロファイルの保存や、名前だけの変更では呼ばれません。
+ *
+ * @param listener - 接続先が切り替わったときに呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onActiveConnectionChange(
+  listener: (profile: ConnectionProfile) => void
+): () => void {
+  const handler = (e: Event) => {
+    listener((e as CustomEvent<ConnectionProfile>).detail);
+  };
+  target.addEventListener(ACTIVE_CONNECTION_CHANGED_EVENT, handler);
+  return () =>
+    target.removeEventListener(ACTIVE_CONNECTION_CHANGED_EVENT, handler);
+}
@@ -17,7 +17,36 @@ export const API_CONFIG = {
     workflow: "/api/v1/workflow",
   },
   timeout: 10000,
+  // 読み取り系の RPC が一時的なエラーで失敗した場合の再試行回数（初回を除く）
   retryAttempts: 3,
+  // 再試行までの待ち時間（指数バックオフ、ジッター付き）
+  retryDelay: {
+    baseMs: 300,
+    maxMs: 5000,
+  },
+  // 共有キャッシュ（lib/query-cache）のデータを新しいとみなす時間
+  queryStaleTime: 30 * 1000,
+  // 使われなくなった共有キャッシュを破棄するまでの時間
+  queryGcTime: 5 * 60 * 1000,
+  // ワークフロー実行の期限（0 は無期限）
+  runTimeout: {
+    defaultMs: 5 * 60 * 1000,
+    optionsMs: [0, 30 * 1000, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 30 * 60 * 1000],
+  },
+  // 実行キュー（lib/run-queue）の同時実行数
+  runQueue: {
+    concurrency: { default: 2, min: 1, max: 8 },
+  },
+  // 実行の集計（pages/analytics）で取得するワークフロー一覧のページサイズと最大ページ数
+  analytics: {
+    pageSize: 100,
+    maxPages: 10,
+  },
+  // 認証トークンの有効期間（トークン自体に期限がない場合。0 は無期限）
+  authTokenLifetime: {
+    defaultMs: 8 * 60 * 60 * 1000,
+    optionsMs: [0, 60 * 60 * 1000, 8 * 60 * 60 * 1000, 24 * 60 * 60 * 1000, 7 * 24 * 60 * 60 * 1000],
+  },
 } as const;
 
 // UI Configuration
@@ -40,6 +69,10 @@ export const UI_CONFIG = {
     search: 300,
     resize: 150,
   },
+  toast: {
+    // 削除などの取り消し可能な操作で「元に戻す」を表示する時間
+    undoDuration: 8000,
+  },
 } as const;
 
 // Status Types
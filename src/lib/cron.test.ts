@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  getNextRun,
+  getRunsBetween,
+  getUpcomingRuns,
+  parseCron,
+  validateCron,
+} from "./cron";
+
+// ローカルタイムで評価するため、期待値もローカルタイムで作る
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) =>
+  new Date(y, mo - 1, d, h, mi).getTime();
+
+describe("parseCron", () => {
+  it("expands ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.dayOr).toBe(true);
+  });
+
+  it("treats 7 as Sunday and accepts aliases", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCron("@daily").hours]).toEqual([0]);
+  });
+
+  it("reports invalid expressions", () => {
+    expect(validateCron("0 9 * *")).toMatch(/5 fields/);
+    expect(validateCron("60 * * * *")).toMatch(/minute/);
+    expect(validateCron("*/0 * * * *")).toMatch(/step/);
+    expect(validateCron("0 9 * * 1-5")).toBeNull();
+  });
+});
+
+describe("getNextRun", () => {
+  it("finds the next weekday morning", () => {
+    // 2026-10-16 は金曜日
+    const schedule = parseCron("0 9 * * 1-5");
+    expect(getNextRun(schedule, at(2026, 10, 16, 9, 0))).toBe(
+      at(2026, 10, 19, 9, 0)
+    );
+    expect(getNextRun(schedule, at(2026, 10, 16, 8, 59))).toBe(
+      at(2026, 10, 16, 9, 0)
+    );
+  });
+
+  it("matches either day of month or weekday when both are set", () => {
+    // 毎月 1 日、または日曜日
+    const schedule = parseCron("0 0 1 * 0");
+    expect(getUpcomingRuns(schedule, at(2026, 10, 19), 3)).toEqual([
+      at(2026, 10, 25),
+      at(2026, 11, 1),
+      at(2026, 11, 8),
+    ]);
+  });
+
+  it("returns null for dates that never occur", () => {
+    expect(getNextRun(parseCron("0 0 31 2 *"), at(2026, 1, 1))).toBeNull();
+  });
+});
+
+describe("getRunsBetween", () => {
+  it("keeps only the most recent runs within the limit", () => {
+    const schedule = parseCron("0 * * * *");
+    expect(
+      getRunsBetween(schedule, at(2026, 10, 19, 0, 30), at(2026, 10, 19, 5), 2)
+    ).toEqual([at(2026, 10, 19, 4), at(2026, 10, 19, 5)]);
+  });
+});
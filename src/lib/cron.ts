@@ -0,0 +1,217 @@
+/**
+ * @fileoverview cron 形式のスケジュール式
+ *
+ * 「分 時 日 月 曜日」の 5 フィールドからなる一般的な cron 式を解析し、
+ * 次の実行時刻を求めます。時刻はブラウザのローカルタイムゾーンで評価します。
+ *
+ * 各フィールドでは `*`、数値、範囲（`1-5`）、間隔（`*\/15`、`0-30/10`）、
+ * カンマ区切りのリストを使用できます。曜日は 0（日曜）〜 7（日曜）です。
+ * `@hourly`・`@daily`・`@weekly`・`@monthly` の省略形も使用できます。
+ *
+ * @module lib/cron
+ */
+
+/**
+ * 解析済みの cron 式
+ */
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  daysOfWeek: ReadonlySet<number>;
+  /** 日・曜日がどちらも `*` 以外か（その場合はどちらかに一致すればよい） */
+  dayOr: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+/** 次の実行時刻を探す範囲（これを超えると実行されない式とみなす） */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseNumber(value: string, field: (typeof FIELDS)[number]): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name}: "${value}"`);
+  }
+  const n = Number(value);
+  if (n < field.min || n > field.max) {
+    throw new Error(
+      `${field.name} must be between ${field.min} and ${field.max}: ${n}`
+    );
+  }
+  return n;
+}
+
+function parseField(
+  source: string,
+  field: (typeof FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${field.name}: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`Invalid range in ${field.name}: "${range}"`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      end = stepSource === undefined ? start : field.max;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * cron 式を解析
+ *
+ * @param expression - cron 式（例: `0 9 * * 1-5`）
+ * @throws 式が不正な場合
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ??
+    expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      `Expected 5 fields (minute hour day month weekday), got ${parts.length}`
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  );
+
+  // 7 は日曜日
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOr: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+/**
+ * cron 式が正しいか検証
+ *
+ * @returns エラーメッセージ（正しい場合は null）
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  return schedule.dayOr ? dom || dow : dom && dow;
+}
+
+/**
+ * 指定時刻より後の最初の実行時刻を取得
+ *
+ * @param schedule - 解析済みの cron 式
+ * @param after - 基準の時刻（Unix ミリ秒、この時刻自体は含まない）
+ * @returns 実行時刻（Unix ミリ秒、見つからない場合は null）
+ */
+export function getNextRun(schedule: CronSchedule, after: number): number | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * 期間内の実行時刻を取得
+ *
+ * @param schedule - 解析済みの cron 式
+ * @param from - 期間の開始（Unix ミリ秒、含まない）
+ * @param to - 期間の終了（Unix ミリ秒、含む）
+ * @param limit - 取得する最大件数（新しいものを優先）
+ */
+export function getRunsBetween(
+  schedule: CronSchedule,
+  from: number,
+  to: number,
+  limit: number
+): number[] {
+  const runs: number[] = [];
+  let next = getNextRun(schedule, from);
+  while (next !== null && next <= to) {
+    runs.push(next);
+    if (runs.length > limit) runs.shift();
+    next = getNextRun(schedule, next);
+  }
+  return runs;
+}
+
+/**
+ * 指定時刻より後の実行時刻を複数取得
+ *
+ * @param schedule - 解析済みの cron 式
+ * @param after - 基準の時刻（Unix ミリ秒）
+ * @param count - 取得する件数
+ */
+export function getUpcomingRuns(
+  schedule: CronSchedule,
+  after: number,
+  count: number
+): number[] {
+  const runs: number[] = [];
+  let next = getNextRun(schedule, after);
+  while (next !== null && runs.length < count) {
+    runs.push(next);
+    next = getNextRun(schedule, next);
+  }
+  return runs;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { countDiff, diffLines, diffSequences, diffSets } from "./diff";
+
+describe("diffSequences", () => {
+  it("marks identical sequences as equal", () => {
+    const res = diffSequences([1, 2, 3], [1, 2, 3]);
+    expect(res.every((e) => e.op === "equal")).toBe(true);
+  });
+
+  it("detects insertions and deletions in the middle", () => {
+    const res = diffSequences(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"]);
+    expect(res.map((e) => `${e.op}:${e.value}`)).toEqual([
+      "equal:a",
+      "remove:b",
+      "add:x",
+      "equal:c",
+      "equal:d",
+      "add:e",
+    ]);
+  });
+
+  it("supports a custom equality", () => {
+    const res = diffSequences(["A"], ["a"], (x, y) =>
+      x.toLowerCase() === y.toLowerCase()
+    );
+    expect(res).toEqual([{ op: "equal", value: "A", oldIndex: 0, newIndex: 0 }]);
+  });
+});
+
+describe("diffLines", () => {
+  it("assigns 1-based line numbers", () => {
+    const res = diffLines("a\nb", "a\nc\nb");
+    expect(res).toEqual([
+      { op: "equal", text: "a", oldLine: 1, newLine: 1 },
+      { op: "add", text: "c", oldLine: undefined, newLine: 2 },
+      { op: "equal", text: "b", oldLine: 2, newLine: 3 },
+    ]);
+    expect(countDiff(res)).toEqual({ added: 1, removed: 0 });
+  });
+
+  it("treats empty text as no lines", () => {
+    expect(diffLines("", "x")).toEqual([
+      { op: "add", text: "x", oldLine: undefined, newLine: 1 },
+    ]);
+  });
+});
+
+describe("diffSets", () => {
+  it("returns added and removed members", () => {
+    expect(diffSets(["a", "b"], ["b", "c"])).toEqual({
+      added: ["c"],
+      removed: ["a"],
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview 汎用差分ユーティリティ
+ *
+ * 行単位のテキスト差分や、任意の配列・集合の差分を計算します。
+ * ワークフローのリビジョン比較や実行結果の比較で使用します。
+ *
+ * @module lib/diff
+ */
+
+/** 差分の操作種別 */
+export type DiffOp = "equal" | "add" | "remove";
+
+/**
+ * 配列差分の 1 要素
+ */
+export interface DiffEntry<T> {
+  /** 操作種別 */
+  op: DiffOp;
+  /** 要素の値 */
+  value: T;
+  /** 比較元での位置（0 始まり、add の場合は undefined） */
+  oldIndex?: number;
+  /** 比較先での位置（0 始まり、remove の場合は undefined） */
+  newIndex?: number;
+}
+
+/**
+ * 行差分の 1 行
+ */
+export interface LineDiff {
+  /** 操作種別 */
+  op: DiffOp;
+  /** 行のテキスト */
+  text: string;
+  /** 比較元での行番号（1 始まり） */
+  oldLine?: number;
+  /** 比較先での行番号（1 始まり） */
+  newLine?: number;
+}
+
+/** LCS テーブルの最大セル数（これを超える場合は簡易差分にフォールバック） */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 2 つの配列の差分を計算（LCS ベース）
+ *
+ * 共通の先頭・末尾を除いた範囲で最長共通部分列を求めます。
+ * 範囲が大きすぎる場合は、残りを「すべて削除してすべて追加」として扱います。
+ *
+ * @param a - 比較元の配列
+ * @param b - 比較先の配列
+ * @param equals - 要素の同値判定（デフォルト: ===）
+ * @returns 差分エントリの配列（出現順）
+ *
+ * @example
+ * ```typescript
+ * diffSequences(["a", "b"], ["a", "c"]);
+ * // [{ op: "equal", value: "a" }, { op: "remove", value: "b" }, { op: "add", value: "c" }]
+ * ```
+ */
+export function diffSequences<T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffEntry<T>[] {
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffEntry<T>[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ op: "equal", value: a[i], oldIndex: i, newIndex: i });
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) {
+      result.push({ op: "remove", value: a[i], oldIndex: i });
+    }
+    for (let j = start; j < endB; j++) {
+      result.push({ op: "add", value: b[j], newIndex: j });
+    }
+  } else {
+    // lcs[i][j] = a[start+i..] と b[start+j..] の LCS 長
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = equals(a[start + i], b[start + j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (equals(a[start + i], b[start + j])) {
+        result.push({
+          op: "equal",
+          value: a[start + i],
+          oldIndex: start + i,
+          newIndex: start + j,
+        });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        result.push({ op: "remove", value: a[start + i], oldIndex: start + i });
+        i++;
+      } else {
+        result.push({ op: "add", value: b[start + j], newIndex: start + j });
+        j++;
+      }
+    }
+    for (; i < n; i++) {
+      result.push({ op: "remove", value: a[start + i], oldIndex: start + i });
+    }
+    for (; j < m; j++) {
+      result.push({ op: "add", value: b[start + j], newIndex: start + j });
+    }
+  }
+
+  for (let k = 0; endA + k < a.length; k++) {
+    result.push({
+      op: "equal",
+      value: a[endA + k],
+      oldIndex: endA + k,
+      newIndex: endB + k,
+    });
+  }
+  return result;
+}
+
+/**
+ * テキストを行単位で比較
+ *
+ * @param oldText - 比較元のテキスト
+ * @param newText - 比較先のテキスト
+ * @returns 行差分の配列
+ */
+export function diffLines(oldText: string, newText: string): LineDiff[] {
+  const split = (s: string) =>
+    s === "" ? [] : s.replaceAll("\r\n", "\n").split("\n");
+  return diffSequences(split(oldText), split(newText)).map((e) => ({
+    op: e.op,
+    text: e.value,
+    oldLine: e.oldIndex !== undefined ? e.oldIndex + 1 : undefined,
+    newLine: e.newIndex !== undefined ? e.newIndex + 1 : undefined,
+  }));
+}
+
+/**
+ * 差分の追加・削除件数を集計
+ *
+ * @param entries - 差分エントリ
+ * @returns 追加件数と削除件数
+ */
+export function countDiff(entries: readonly { op: DiffOp }[]): {
+  added: number;
+  removed: number;
+} {
+  let added = 0;
+  let removed = 0;
+  for (const e of entries) {
+    if (e.op === "add") added++;
+    else if (e.op === "remove") removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * 2 つの集合の差分を計算
+ *
+ * @param before - 比較元
+ * @param after - 比較先
+ * @returns 追加された要素と削除された要素（それぞれ出現順）
+ */
+export function diffSets<T>(
+  before: Iterable<T>,
+  after: Iterable<T>
+): { added: T[]; removed: T[] } {
+  const a = new Set(before);
+  const b = new Set(after);
+  return {
+    added: [...b].filter((v) => !a.has(v)),
+    removed: [...a].filter((v) => !b.has(v)),
+  };
+}
@@ -1,15 +1,18 @@
-import { describe, it, expect, vi } from "vitest";
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
 import {
   requestIdInterceptor,
   metadataInterceptor,
   loggingInterceptor,
   errorNormalizeInterceptor,
+  retryInterceptor,
+  retryAttemptKey,
+  getRetryDelay,
 } from "./grpc-clients";
 import type {
   UnaryRequest,
   UnaryResponse,
 } from "@connectrpc/connect";
-import { ConnectError, createContextValues } from "@connectrpc/connect";
+import { Code, ConnectError, createContextValues } from "@connectrpc/connect";
 import type { DescMessage, DescMethodUnary, Message } from "@bufbuild/protobuf";
 import { create } from "@bufbuild/protobuf";
 import {
@@ -18,6 +21,7 @@ import {
   GetVersionResponseSchema,
   VersionSchema,
 } from "@/gen/sapphillon/v1/version_pb";
+import { WorkflowService } from "@/gen/sapphillon/v1/workflow_service_pb";
 
 type UReq = UnaryRequest<DescMessage, DescMessage>;
 type URes = UnaryResponse<DescMessage, DescMessage>;
@@ -121,3 +125,87 @@ describe("grpc interceptors", () => {
     err.mockRestore();
   });
 });
+
+describe("retryInterceptor", () => {
+  type NextFn = Parameters<ReturnType<typeof retryInterceptor>>[0];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries idempotent reads on retryable errors and records attempts", async () => {
+    const req = makeReq();
+    const attempts: number[] = [];
+    const next = vi.fn<NextFn>(async (r) => {
+      attempts.push(r.contextValues.get(retryAttemptKey)?.attempt ?? 0);
+      if (attempts.length < 3) throw new ConnectError("down", Code.Unavailable);
+      return makeRes();
+    });
+
+    const promise = retryInterceptor(3)(next)(req);
+    await vi.runAllTimersAsync();
+    await expect(promise).resolves.toBeDefined();
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const next = vi.fn<NextFn>(async () => {
+      throw new ConnectError("down", Code.Unavailable);
+    });
+
+    const promise = retryInterceptor(2)(next)(makeReq());
+    const assertion = expect(promise).rejects.toMatchObject({
+      code: Code.Unavailable,
+    });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry mutating methods or non-retryable errors", async () => {
+    const mutating = {
+      ...makeReq(),
+      service: WorkflowService,
+      method: WorkflowService.method.updateWorkflow,
+    } as unknown as UReq;
+    const unavailable = vi.fn<NextFn>(async () => {
+      throw new ConnectError("down", Code.Unavailable);
+    });
+    await expect(retryInterceptor(3)(unavailable)(mutating)).rejects.toThrow();
+    expect(unavailable).toHaveBeenCalledTimes(1);
+
+    const notFound = vi.fn<NextFn>(async () => {
+      throw new ConnectError("missing", Code.NotFound);
+    });
+    await expect(retryInterceptor(3)(notFound)(makeReq())).rejects.toThrow();
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting when the request is aborted", async () => {
+    const ctrl = new AbortController();
+    const req = { ...makeReq(), signal: ctrl.signal };
+    const next = vi.fn<NextFn>(async () => {
+      throw new ConnectError("down", Code.Unavailable);
+    });
+
+    const promise = retryInterceptor(3)(next)(req);
+    const assertion = expect(promise).rejects.toMatchObject({
+      code: Code.Canceled,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    ctrl.abort();
+    await assertion;
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it("grows the delay exponentially with jitter", () => {
+    expect(getRetryDelay(1, 0)).toBe(150);
+    expect(getRetryDelay(1, 0.999)).toBeLessThanOrEqual(300);
+    expect(getRetryDelay(3, 0)).toBe(600);
+    expect(getRetryDelay(10, 1)).toBe(5000);
+  });
+});
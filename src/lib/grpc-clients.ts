@@ -22,6 +22,10 @@
  * - `VITE_GRPC_BASE_URL`: gRPCサーバーのベースURL（デフォルト: http://localhost:50051）
  * - `VITE_GRPC_WEB_USE_BINARY`: バイナリ形式の使用（デフォルト: true）
  *
+ * 環境変数の値は既定の接続プロファイルとして使用されます。設定画面で別の
+ * プロファイルを有効にすると、トランスポートが作り直され `clients` の接続先が
+ * 切り替わります（`lib/connection-profiles` を参照）。
+ *
  * ## 新しいサービスの追加方法
  * 1. `vender/Sapphillon_API/proto/` に .proto ファイルを配置
  * 2. `deno task gen` で型定義を生成
@@ -30,9 +34,25 @@
  * @module grpc-clients
  */
 
-import { createClient, ConnectError, Code } from "@connectrpc/connect";
+import {
+  createClient,
+  createContextKey,
+  ConnectError,
+  Code,
+} from "@connectrpc/connect";
 import { createGrpcWebTransport } from "@connectrpc/connect-web";
 import type { Interceptor } from "@connectrpc/connect";
+import { API_CONFIG } from "./constants";
+import {
+  createDefaultProfile,
+  getActiveProfile,
+  isSameConnection,
+  loadConnectionProfiles,
+  notifyActiveConnectionChange,
+  onConnectionProfilesChange,
+} from "./connection-profiles";
+import type { ConnectionProfile } from "./connection-profiles";
+import { networkLogInterceptor } from "./network-log";
 
 import { VersionService } from "@/gen/sapphillon/v1/version_pb";
 import { WorkflowService } from "@/gen/sapphillon/v1/workflow_service_pb";
@@ -241,6 +261,14 @@ const USE_BINARY = BIN_ENV
   ? !(BIN_ENV === "false" || BIN_ENV === "0" || BIN_ENV === "no")
   : true;
 
+/**
+ * ビルド時の設定から作られる既定の接続プロファイル
+ */
+export const DEFAULT_CONNECTION_PROFILE = createDefaultProfile(
+  BASE_URL,
+  USE_BINARY
+);
+
 // Do not export a raw transport without interceptors to avoid divergent behavior.
 
 // ----------------------
@@ -310,11 +338,21 @@ export function metadataInterceptor(
   };
 }
 
+/**
+ * 再試行の試行回数を保持するコンテキストキー
+ *
+ * `retryInterceptor` が試行ごとに設定し、`loggingInterceptor` が出力に使用します。
+ */
+export const retryAttemptKey = createContextKey<
+  { attempt: number; maxAttempts: number } | null
+>(null, { description: "retry attempt" });
+
 /**
  * ロギングインターセプター
  *
  * 全てのgRPCリクエストの実行時間とステータスをコンソールに出力します。
  * 開発時のデバッグに有用です。
+ * `retryInterceptor` による再試行中は試行回数も出力します。
  *
  * @returns Interceptor
  *
@@ -323,25 +361,126 @@ export function metadataInterceptor(
  * ```
  * [gRPC] [OK] sapphillon.v1.VersionService.GetVersion (23.4 ms)
  * [gRPC] [ERROR] sapphillon.v1.WorkflowService.GenerateWorkflow (156.2 ms) Error: ...
+ * [gRPC] [ERROR] sapphillon.v1.WorkflowService.ListWorkflows (3.1 ms) [attempt 1/4] Error: ...
+ * [gRPC] [OK] sapphillon.v1.WorkflowService.ListWorkflows (12.0 ms) [attempt 2/4]
  * ```
  */
 export function loggingInterceptor(): Interceptor {
   return (next) => async (req) => {
     const start = performance.now();
     const fullName = `${req.service.typeName}.${req.method.name}`;
+    const retry = req.contextValues.get(retryAttemptKey);
+    const attempt = (failed: boolean) =>
+      retry && retry.maxAttempts > 1 && (failed || retry.attempt > 1)
+        ? ` [attempt ${retry.attempt}/${retry.maxAttempts}]`
+        : "";
     try {
       const res = await next(req);
       const ms = (performance.now() - start).toFixed(1);
-      console.debug(`[gRPC] [OK] ${fullName} (${ms} ms)`);
+      console.debug(`[gRPC] [OK] ${fullName} (${ms} ms)${attempt(false)}`);
       return res;
     } catch (e) {
       const ms = (performance.now() - start).toFixed(1);
-      console.error(`[gRPC] [ERROR] ${fullName} (${ms} ms)`, e);
+      console.error(`[gRPC] [ERROR] ${fullName} (${ms} ms)${attempt(true)}`, e);
       throw e;
     }
   };
 }
 
+/**
+ * 再試行してよい（冪等な読み取り系の）unary メソッド
+ *
+ * 作成・更新・削除・実行などの変更を伴うメソッドは含めません。
+ */
+export const RETRYABLE_METHODS: ReadonlySet<string> = new Set([
+  `${VersionService.typeName}.${VersionService.method.getVersion.name}`,
+  `${WorkflowService.typeName}.${WorkflowService.method.getWorkflow.name}`,
+  `${WorkflowService.typeName}.${WorkflowService.method.listWorkflows.name}`,
+  `${PluginService.typeName}.${PluginService.method.listPlugins.name}`,
+  `${ProviderService.typeName}.${ProviderService.method.getProvider.name}`,
+  `${ProviderService.typeName}.${ProviderService.method.listProviders.name}`,
+  `${ModelService.typeName}.${ModelService.method.getModel.name}`,
+  `${ModelService.typeName}.${ModelService.method.listModels.name}`,
+  `${SearchModelService.typeName}.${SearchModelService.method.searchModel.name}`,
+]);
+
+/**
+ * 再試行までの待ち時間を計算
+ *
+ * 指数バックオフの値を上限で切り詰め、その 50〜100% の範囲でジッターを加えます。
+ *
+ * @param attempt - 失敗した試行の番号（1 始まり）
+ * @param random - 0 以上 1 未満の乱数（テスト用）
+ * @returns 待ち時間（ミリ秒）
+ */
+export function getRetryDelay(attempt: number, random = Math.random()): number {
+  const { baseMs, maxMs } = API_CONFIG.retryDelay;
+  const delay = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + (delay / 2) * random);
+}
+
+/**
+ * 指定時間待機（シグナルが中止された場合は ConnectError で中断）
+ */
+function waitForRetry(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(ConnectError.from(signal.reason, Code.Canceled));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 再試行インターセプター
+ *
+ * `RETRYABLE_METHODS` に含まれる unary メソッドが `isRetryableError` に該当する
+ * エラーで失敗した場合、ジッター付きの指数バックオフで再試行します。
+ * ストリーミングや変更を伴うメソッドは再試行しません。
+ * リクエストのシグナルが中止された（キャンセル・タイムアウト）場合は
+ * 待機中であってもただちに中断します。
+ *
+ * @param retries - 初回を除く最大再試行回数（デフォルト: API_CONFIG.retryAttempts）
+ * @returns Interceptor
+ */
+export function retryInterceptor(
+  retries: number = API_CONFIG.retryAttempts
+): Interceptor {
+  return (next) => async (req) => {
+    const fullName = `${req.service.typeName}.${req.method.name}`;
+    if (req.stream || !RETRYABLE_METHODS.has(fullName)) {
+      return next(req);
+    }
+
+    const maxAttempts = retries + 1;
+    for (let attempt = 1; ; attempt++) {
+      req.contextValues.set(retryAttemptKey, { attempt, maxAttempts });
+      try {
+        return await next(req);
+      } catch (e) {
+        const error = ConnectError.from(e);
+        if (
+          attempt >= maxAttempts ||
+          req.signal.aborted ||
+          !isRetryableError(error)
+        ) {
+          throw e;
+        }
+        await waitForRetry(getRetryDelay(attempt), req.signal);
+      }
+    }
+  };
+}
+
 /**
  * エラー正規化インターセプター
  *
@@ -377,11 +516,15 @@ export function errorNormalizeInterceptor(): Interceptor {
  *
  * 順序が重要です：
  * 1. requestIdInterceptor - リクエストIDを付与
- * 2. loggingInterceptor - ログ出力
- * 3. errorNormalizeInterceptor - エラーを正規化
+ * 2. retryInterceptor - 読み取り系のメソッドを再試行（試行ごとに以降を実行）
+ * 3. networkLogInterceptor - ネットワークインスペクター用の記録（試行ごと）
+ * 4. loggingInterceptor - ログ出力（試行ごと）
+ * 5. errorNormalizeInterceptor - エラーを正規化
  */
 const baseInterceptors: Interceptor[] = [
   requestIdInterceptor(),
+  retryInterceptor(),
+  networkLogInterceptor(),
   loggingInterceptor(),
   errorNormalizeInterceptor(),
 ];
@@ -413,10 +556,37 @@ const extraInterceptors: Interceptor[] = [];
  */
 export function registerInterceptors(...i: Interceptor[]) {
   extraInterceptors.push(...i);
+  rebuildClients();
+}
+
+/**
+ * 接続プロファイルのヘッダーを付与するインターセプター
+ */
+function profileHeadersInterceptor(profile: ConnectionProfile): Interceptor {
+  return metadataInterceptor(
+    Object.fromEntries(
+      profile.headers
+        .filter((h) => h.name.trim())
+        .map((h) => [h.name.trim().toLowerCase(), () => h.value])
+    )
+  );
+}
+
+function buildInterceptors(profile: ConnectionProfile, custom?: Interceptor[]) {
+  return [
+    ...baseInterceptors,
+    profileHeadersInterceptor(profile),
+    ...extraInterceptors,
+    ...(custom || []),
+  ];
 }
 
-function buildInterceptors(custom?: Interceptor[]) {
-  return [...baseInterceptors, ...extraInterceptors, ...(custom || [])];
+function createTransport(profile: ConnectionProfile, custom?: Interceptor[]) {
+  return createGrpcWebTransport({
+    baseUrl: profile.baseUrl,
+    useBinaryFormat: profile.useBinaryFormat,
+    interceptors: buildInterceptors(profile, custom),
+  });
 }
 
 /**
@@ -444,11 +614,7 @@ function buildInterceptors(custom?: Interceptor[]) {
  */
 export function withInterceptors(...custom: Interceptor[]) {
   // createGrpcWebTransport を再構築 (interceptors は transport 作成時に設定)
-  const t = createGrpcWebTransport({
-    baseUrl: BASE_URL,
-    useBinaryFormat: USE_BINARY,
-    interceptors: buildInterceptors(custom),
-  });
+  const t = createTransport(activeProfile, custom);
   return {
     version: createClient(VersionService, t),
     workflow: createClient(WorkflowService, t),
@@ -463,16 +629,27 @@ export function withInterceptors(...custom: Interceptor[]) {
 // 既定のgRPCクライアント
 // ----------------------
 
+/**
+ * 有効な接続プロファイル
+ */
+let activeProfile: ConnectionProfile = getActiveProfile(
+  loadConnectionProfiles(DEFAULT_CONNECTION_PROFILE)
+);
+
+/**
+ * 有効な接続プロファイルを取得
+ */
+export function getActiveConnectionProfile(): ConnectionProfile {
+  return activeProfile;
+}
+
 /**
  * デフォルトのgRPCトランスポート
  *
  * 全てのbaseおよびextraインターセプターが適用されています。
+ * 接続プロファイルやインターセプターが変わると作り直されます。
  */
-const defaultTransport = createGrpcWebTransport({
-  baseUrl: BASE_URL,
-  useBinaryFormat: USE_BINARY,
-  interceptors: buildInterceptors(),
-});
+let defaultTransport = createTransport(activeProfile);
 
 /**
  * バージョン管理サービスクライアント
@@ -485,7 +662,7 @@ const defaultTransport = createGrpcWebTransport({
  * console.log(res.version?.version); // "1.0.0"
  * ```
  */
-export const versionClient = createClient(VersionService, defaultTransport);
+export let versionClient = createClient(VersionService, defaultTransport);
 
 /**
  * ワークフロー管理サービスクライアント
@@ -505,7 +682,7 @@ export const versionClient = createClient(VersionService, defaultTransport);
  * });
  * ```
  */
-export const workflowClient = createClient(WorkflowService, defaultTransport);
+export let workflowClient = createClient(WorkflowService, defaultTransport);
 
 /**
  * プラグイン管理サービスクライアント
@@ -518,28 +695,28 @@ export const workflowClient = createClient(WorkflowService, defaultTransport);
  * console.log(res.plugins);
  * ```
  */
-export const pluginClient = createClient(PluginService, defaultTransport);
+export let pluginClient = createClient(PluginService, defaultTransport);
 
 /**
  * AIプロバイダー管理サービスクライアント
  *
  * AIモデルのプロバイダー情報を管理します。
  */
-export const providerClient = createClient(ProviderService, defaultTransport);
+export let providerClient = createClient(ProviderService, defaultTransport);
 
 /**
  * AIモデル管理サービスクライアント
  *
  * 利用可能なAIモデルの情報を管理します。
  */
-export const modelClient = createClient(ModelService, defaultTransport);
+export let modelClient = createClient(ModelService, defaultTransport);
 
 /**
  * AIモデル検索サービスクライアント
  *
  * 条件に応じたAIモデルを検索します。
  */
-export const searchModelClient = createClient(
+export let searchModelClient = createClient(
   SearchModelService,
   defaultTransport
 );
@@ -586,4 +763,55 @@ export default clients;
  * 高度なユースケース（カスタムサービスの追加など）で使用します。
  * 通常のアプリケーション開発では `clients` を使用してください。
  */
-export const transport = defaultTransport;
+export let transport = defaultTransport;
+
+/**
+ * トランスポートとクライアントを作り直す
+ *
+ * `clients` オブジェクト自体は同じものを使い続けるため、
+ * `clients.xxx` 経由の呼び出しは以降のリクエストから新しい接続先を使用します。
+ * 実行中のリクエストは元のトランスポートで完了します。
+ */
+function rebuildClients() {
+  defaultTransport = createTransport(activeProfile);
+  transport = defaultTransport;
+  versionClient = createClient(VersionService, defaultTransport);
+  workflowClient = createClient(WorkflowService, defaultTransport);
+  pluginClient = createClient(PluginService, defaultTransport);
+  providerClient = createClient(ProviderService, defaultTransport);
+  modelClient = createClient(ModelService, defaultTransport);
+  searchModelClient = createClient(SearchModelService, defaultTransport);
+  Object.assign(clients, {
+    version: versionClient,
+    workflow: workflowClient,
+    plugin: pluginClient,
+    provider: providerClient,
+    model: modelClient,
+    searchModel: searchModelClient,
+  });
+}
+
+/**
+ * 接続プロファイルを切り替える
+ *
+ * 通常は `saveConnectionProfiles` による変更通知から、有効なプロファイルの
+ * 接続設定が変わった場合に呼び出されます。
+ *
+ * @param profile - 使用する接続プロファイル
+ */
+export function applyConnectionProfile(profile: ConnectionProfile): void {
+  activeProfile = profile;
+  console.debug("[gRPC] connection profile:", profile.name, profile.baseUrl);
+  rebuildClients();
+  notifyActiveConnectionChange(profile);
+}
+
+onConnectionProfilesChange((state) => {
+  const next = getActiveProfile(state);
+  // 有効でないプロファイルの保存や名前の変更では接続を作り直さない
+  if (isSameConnection(activeProfile, next)) {
+    activeProfile = next;
+    return;
+  }
+  applyConnectionProfile(next);
+});
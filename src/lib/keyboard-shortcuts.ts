@@ -57,6 +57,14 @@ export const GLOBAL_SHORTCUTS = {
     description: "ページを更新",
     category: "アクション",
   },
+  NETWORK_INSPECTOR: {
+    id: "action-network-inspector",
+    key: "y",
+    [modifierKey]: true,
+    shift: true,
+    description: "ネットワークインスペクターを開く",
+    category: "アクション",
+  },
 
   // 生成ページ
   GENERATE_SUBMIT: {
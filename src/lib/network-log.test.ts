@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Code, ConnectError, createContextValues } from "@connectrpc/connect";
+import type {
+  StreamRequest,
+  StreamResponse,
+  UnaryRequest,
+  UnaryResponse,
+} from "@connectrpc/connect";
+import type {
+  DescMessage,
+  DescMethodServerStreaming,
+  DescMethodUnary,
+  Message,
+} from "@bufbuild/protobuf";
+import { create } from "@bufbuild/protobuf";
+import {
+  GetVersionRequestSchema,
+  GetVersionResponseSchema,
+  VersionSchema,
+  VersionService,
+} from "@/gen/sapphillon/v1/version_pb";
+import {
+  GenerateWorkflowRequestSchema,
+  GenerateWorkflowResponseSchema,
+  WorkflowService,
+} from "@/gen/sapphillon/v1/workflow_service_pb";
+import {
+  clearNetworkCalls,
+  exportNetworkLog,
+  getNetworkCalls,
+  MAX_NETWORK_CALLS,
+  networkLogInterceptor,
+} from "./network-log";
+
+type NextFn = Parameters<ReturnType<typeof networkLogInterceptor>>[0];
+
+function makeUnaryReq(): UnaryRequest<DescMessage, DescMessage> {
+  const header = new Headers({
+    "x-request-id": "req-1",
+    authorization: "Bearer secret",
+  });
+  return {
+    stream: false,
+    header,
+    requestMethod: "POST",
+    url: "http://localhost:50051/sapphillon.v1.VersionService/GetVersion",
+    signal: new AbortController().signal,
+    contextValues: createContextValues(),
+    service: VersionService,
+    method: VersionService.method.getVersion as unknown as DescMethodUnary<
+      DescMessage,
+      DescMessage
+    >,
+    message: create(GetVersionRequestSchema) as unknown as Message,
+  };
+}
+
+function makeUnaryRes(): UnaryResponse<DescMessage, DescMessage> {
+  return {
+    stream: false,
+    header: new Headers(),
+    trailer: new Headers(),
+    service: VersionService,
+    method: VersionService.method.getVersion as unknown as DescMethodUnary<
+      DescMessage,
+      DescMessage
+    >,
+    message: create(GetVersionResponseSchema, {
+      version: create(VersionSchema, { version: "v1.2.3" }),
+    }) as unknown as Message,
+  };
+}
+
+async function* messages<T>(items: T[]) {
+  for (const item of items) yield item;
+}
+
+describe("networkLogInterceptor", () => {
+  beforeEach(() => {
+    clearNetworkCalls();
+  });
+
+  it("records unary calls with JSON messages and redacted headers", async () => {
+    const next: NextFn = async () => makeUnaryRes();
+    await networkLogInterceptor()(next)(makeUnaryReq());
+
+    const [call] = getNetworkCalls();
+    expect(call).toMatchObject({
+      requestId: "req-1",
+      service: "sapphillon.v1.VersionService",
+      method: "GetVersion",
+      status: "ok",
+      code: "ok",
+      responses: [{ version: { version: "v1.2.3" } }],
+    });
+    expect(call.durationMs).not.toBeNull();
+    expect(call.requestHeaders).toContainEqual(["authorization", "[redacted]"]);
+  });
+
+  it("records the status code of failed calls", async () => {
+    const next: NextFn = async () => {
+      throw new ConnectError("down", Code.Unavailable);
+    };
+    await expect(
+      networkLogInterceptor()(next)(makeUnaryReq())
+    ).rejects.toBeInstanceOf(ConnectError);
+
+    expect(getNetworkCalls()[0]).toMatchObject({
+      status: "error",
+      code: "unavailable",
+      errorMessage: "down",
+    });
+  });
+
+  it("counts server stream messages as they are consumed", async () => {
+    const method = WorkflowService.method
+      .generateWorkflow as unknown as DescMethodServerStreaming<
+        DescMessage,
+        DescMessage
+      >;
+    const req: StreamRequest<DescMessage, DescMessage> = {
+      stream: true,
+      header: new Headers(),
+      requestMethod: "POST",
+      url: "http://localhost:50051/sapphillon.v1.WorkflowService/GenerateWorkflow",
+      signal: new AbortController().signal,
+      contextValues: createContextValues(),
+      service: WorkflowService,
+      method,
+      message: messages([
+        create(GenerateWorkflowRequestSchema, { prompt: "hi" }) as Message,
+      ]),
+    };
+    const next: NextFn = async (r) => {
+      for await (const m of r.message as AsyncIterable<Message>) void m;
+      const res: StreamResponse<DescMessage, DescMessage> = {
+        stream: true,
+        header: new Headers(),
+        trailer: new Headers(),
+        service: WorkflowService,
+        method,
+        message: messages([
+          create(GenerateWorkflowResponseSchema) as Message,
+          create(GenerateWorkflowResponseSchema) as Message,
+        ]),
+      };
+      return res;
+    };
+
+    const res = await networkLogInterceptor()(next)(req);
+    expect(getNetworkCalls()[0].status).toBe("pending");
+    for await (const m of res.message as AsyncIterable<Message>) void m;
+
+    expect(getNetworkCalls()[0]).toMatchObject({
+      status: "ok",
+      methodKind: "server_streaming",
+      requests: [{ prompt: "hi" }],
+      streamMessageCount: 2,
+    });
+  });
+
+  it("keeps only the most recent calls", async () => {
+    const next: NextFn = async () => makeUnaryRes();
+    for (let i = 0; i < MAX_NETWORK_CALLS + 5; i++) {
+      await networkLogInterceptor()(next)(makeUnaryReq());
+    }
+    const calls = getNetworkCalls();
+    expect(calls).toHaveLength(MAX_NETWORK_CALLS);
+    expect(calls[0].id).toBeLessThan(calls[calls.length - 1].id);
+  });
+
+  it("exports calls as HAR-like entries", async () => {
+    const next: NextFn = async () => makeUnaryRes();
+    await networkLogInterceptor()(next)(makeUnaryReq());
+
+    const har = exportNetworkLog(getNetworkCalls());
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries[0]).toMatchObject({
+      request: { method: "POST", postData: { text: "{}" } },
+      response: { status: 200, statusText: "ok" },
+      _grpc: { requestId: "req-1", method: "GetVersion" },
+    });
+  });
+});
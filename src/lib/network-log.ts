@@ -0,0 +1,286 @@
+/**
+ * @fileoverview gRPC-Web 通信の記録
+ *
+ * `networkLogInterceptor` が全ての呼び出し（サービス・メソッド・リクエスト ID・
+ * リクエスト/レスポンスのメッセージ・ステータス・所要時間・ストリームの件数）を
+ * リングバッファに記録します。記録はネットワークインスペクターに表示され、
+ * 不具合報告用に HAR 形式に近い JSON としてエクスポートできます。
+ *
+ * @module lib/network-log
+ */
+
+import { Code, ConnectError } from "@connectrpc/connect";
+import type { Interceptor } from "@connectrpc/connect";
+import { toJson } from "@bufbuild/protobuf";
+import type { DescMessage, JsonValue, Message } from "@bufbuild/protobuf";
+
+/** 保持する呼び出しの上限（古いものから破棄） */
+export const MAX_NETWORK_CALLS = 200;
+
+/** ストリームで保持するメッセージの上限（件数は全て数える） */
+const MAX_STREAM_MESSAGES = 50;
+
+/** 記録から除外するヘッダー */
+const REDACTED_HEADERS = new Set(["authorization", "cookie"]);
+
+/** イベント名 */
+const NETWORK_LOG_CHANGED_EVENT = "sapphillon:network-log-changed";
+
+/**
+ * 記録された gRPC 呼び出し
+ */
+export interface NetworkCall {
+  /** 記録内の連番 ID */
+  id: number;
+  /** `requestIdInterceptor` が付与したリクエスト ID */
+  requestId: string;
+  /** サービスの完全名（例: sapphillon.v1.WorkflowService） */
+  service: string;
+  /** メソッド名（例: ListWorkflows） */
+  method: string;
+  /** unary / server_streaming など */
+  methodKind: string;
+  url: string;
+  /** 開始時刻（Unix ミリ秒） */
+  startedAt: number;
+  /** 所要時間（完了するまで null） */
+  durationMs: number | null;
+  status: "pending" | "ok" | "error";
+  /** gRPC ステータスコード名（例: "ok", "unavailable"） */
+  code: string | null;
+  errorMessage: string | null;
+  requestHeaders: [string, string][];
+  responseHeaders: [string, string][];
+  /** 送信したメッセージ（JSON） */
+  requests: JsonValue[];
+  /** 受信したメッセージ（JSON、ストリームは先頭から上限まで） */
+  responses: JsonValue[];
+  /** ストリームで受信したメッセージの総数 */
+  streamMessageCount: number;
+}
+
+let calls: NetworkCall[] = [];
+let nextId = 1;
+const target: EventTarget = new EventTarget();
+
+function notify(): void {
+  target.dispatchEvent(new Event(NETWORK_LOG_CHANGED_EVENT));
+}
+
+/**
+ * 記録された呼び出しを取得（古い順）
+ */
+export function getNetworkCalls(): readonly NetworkCall[] {
+  return calls;
+}
+
+/**
+ * 記録を消去
+ */
+export function clearNetworkCalls(): void {
+  calls = [];
+  notify();
+}
+
+/**
+ * 記録の変更を購読
+ *
+ * @param listener - 呼び出しの追加・更新時に呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onNetworkLogChange(listener: () => void): () => void {
+  target.addEventListener(NETWORK_LOG_CHANGED_EVENT, listener);
+  return () => target.removeEventListener(NETWORK_LOG_CHANGED_EVENT, listener);
+}
+
+function addCall(call: NetworkCall): void {
+  calls = [...calls, call].slice(-MAX_NETWORK_CALLS);
+  notify();
+}
+
+// 更新は新しいオブジェクトに置き換え、React で変更を検知できるようにする
+function updateCall(id: number, patch: Partial<NetworkCall>): void {
+  const index = calls.findIndex((c) => c.id === id);
+  if (index === -1) return;
+  calls = calls.map((c, i) => (i === index ? { ...c, ...patch } : c));
+  notify();
+}
+
+function headerEntries(headers: Headers): [string, string][] {
+  return [...headers.entries()].map(([k, v]) => [
+    k,
+    REDACTED_HEADERS.has(k) ? "[redacted]" : v,
+  ]);
+}
+
+function messageJson(schema: DescMessage, message: Message): JsonValue {
+  try {
+    return toJson(schema, message);
+  } catch {
+    return null;
+  }
+}
+
+function errorPatch(e: unknown, startedAt: number): Partial<NetworkCall> {
+  const error = ConnectError.from(e);
+  return {
+    status: "error",
+    code: Code[error.code]?.toLowerCase() ?? "unknown",
+    errorMessage: error.rawMessage,
+    durationMs: performance.now() - startedAt,
+  };
+}
+
+/**
+ * 通信記録インターセプター
+ *
+ * `requestIdInterceptor` より内側に配置し、リクエスト ID を記録できるようにします。
+ * 再試行される場合は試行ごとに記録されます。
+ *
+ * @returns Interceptor
+ */
+export function networkLogInterceptor(): Interceptor {
+  return (next) => async (req) => {
+    const id = nextId++;
+    const start = performance.now();
+    const call: NetworkCall = {
+      id,
+      requestId: req.header.get("x-request-id") ?? "",
+      service: req.service.typeName,
+      method: req.method.name,
+      methodKind: req.method.methodKind,
+      url: req.url,
+      startedAt: Date.now(),
+      durationMs: null,
+      status: "pending",
+      code: null,
+      errorMessage: null,
+      requestHeaders: headerEntries(req.header),
+      responseHeaders: [],
+      requests: [],
+      responses: [],
+      streamMessageCount: 0,
+    };
+    const input = req.method.input;
+    const output = req.method.output;
+
+    // ストリームは送受信するメッセージを取り出しながら記録する
+    const sent: JsonValue[] = [];
+    const received: JsonValue[] = [];
+    let count = 0;
+    async function* tapRequests(messages: AsyncIterable<Message>) {
+      for await (const m of messages) {
+        if (sent.length < MAX_STREAM_MESSAGES) {
+          sent.push(messageJson(input, m));
+          updateCall(id, { requests: [...sent] });
+        }
+        yield m;
+      }
+    }
+    async function* tapResponses(messages: AsyncIterable<Message>) {
+      try {
+        for await (const m of messages) {
+          count++;
+          if (received.length < MAX_STREAM_MESSAGES) {
+            received.push(messageJson(output, m));
+          }
+          updateCall(id, {
+            responses: [...received],
+            streamMessageCount: count,
+          });
+          yield m;
+        }
+        updateCall(id, {
+          status: "ok",
+          code: "ok",
+          durationMs: performance.now() - start,
+        });
+      } catch (e) {
+        updateCall(id, errorPatch(e, start));
+        throw e;
+      }
+    }
+
+    if (!req.stream) call.requests = [messageJson(input, req.message)];
+    addCall(call);
+    try {
+      const res = await next(
+        req.stream ? { ...req, message: tapRequests(req.message) } : req
+      );
+      if (!res.stream) {
+        updateCall(id, {
+          status: "ok",
+          code: "ok",
+          durationMs: performance.now() - start,
+          responseHeaders: headerEntries(res.header),
+          responses: [messageJson(output, res.message)],
+        });
+        return res;
+      }
+      updateCall(id, { responseHeaders: headerEntries(res.header) });
+      return { ...res, message: tapResponses(res.message) };
+    } catch (e) {
+      updateCall(id, errorPatch(e, start));
+      throw e;
+    }
+  };
+}
+
+/**
+ * 呼び出しを HAR 形式に近い JSON に変換
+ *
+ * HAR 1.2 の `log.entries` 構造に合わせ、gRPC 固有の情報は `_grpc` に格納します。
+ * 認証ヘッダーは記録時点で伏せられています。
+ *
+ * @param entries - エクスポートする呼び出し
+ * @param creatorVersion - 出力元のバージョン
+ */
+export function exportNetworkLog(
+  entries: readonly NetworkCall[],
+  creatorVersion = ""
+) {
+  const toHeaders = (headers: [string, string][]) =>
+    headers.map(([name, value]) => ({ name, value }));
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "Sapphillon", version: creatorVersion },
+      entries: entries.map((c) => ({
+        startedDateTime: new Date(c.startedAt).toISOString(),
+        time: c.durationMs ?? -1,
+        request: {
+          method: "POST",
+          url: c.url,
+          headers: toHeaders(c.requestHeaders),
+          postData: {
+            mimeType: "application/json",
+            text: JSON.stringify(
+              c.methodKind === "unary" ? c.requests[0] : c.requests,
+            ),
+          },
+        },
+        response: {
+          status: c.status === "error" ? 0 : 200,
+          statusText: c.code ?? "",
+          headers: toHeaders(c.responseHeaders),
+          content: {
+            mimeType: "application/json",
+            text: JSON.stringify(
+              c.methodKind === "unary" ? c.responses[0] : c.responses,
+            ),
+          },
+        },
+        _grpc: {
+          requestId: c.requestId,
+          service: c.service,
+          method: c.method,
+          methodKind: c.methodKind,
+          status: c.status,
+          code: c.code,
+          errorMessage: c.errorMessage,
+          streamMessageCount: c.streamMessageCount,
+        },
+      })),
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview ワークフロー実行時の権限承認の保存
+ *
+ * 実行前に確認した権限を、ワークフローのリビジョンごとに localStorage へ
+ * 保存します。承認時と権限の内容が変わっていなければ再確認は不要です。
+ *
+ * @module lib/permission-consent
+ */
+
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+
+const CONSENT_KEY = "sapphillon-permission-consents";
+const MAX_CONSENTS = 200;
+
+interface ConsentRecord {
+  /** 承認した権限の内容（`permissionFingerprint` の結果） */
+  fingerprint: string;
+  approvedAt: number;
+}
+
+type ConsentStore = Record<string, ConsentRecord>;
+
+function consentKey(workflowId: string, code: WorkflowCode): string {
+  return `${workflowId}@${code.id || `r${code.codeRevision}`}`;
+}
+
+function loadConsents(): ConsentStore {
+  try {
+    const stored = localStorage.getItem(CONSENT_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * リビジョンの権限が承認済みか
+ *
+ * @param workflowId - ワークフロー ID
+ * @param code - 実行するコードリビジョン
+ * @param fingerprint - 現在の権限の内容
+ */
+export function hasPermissionConsent(
+  workflowId: string,
+  code: WorkflowCode,
+  fingerprint: string
+): boolean {
+  return loadConsents()[consentKey(workflowId, code)]?.fingerprint ===
+    fingerprint;
+}
+
+/**
+ * リビジョンの権限の承認を保存
+ *
+ * 保存件数が上限を超えた場合は古い承認から削除します。
+ *
+ * @param workflowId - ワークフロー ID
+ * @param code - 実行するコードリビジョン
+ * @param fingerprint - 承認した権限の内容
+ */
+export function savePermissionConsent(
+  workflowId: string,
+  code: WorkflowCode,
+  fingerprint: string
+): void {
+  const consents = loadConsents();
+  consents[consentKey(workflowId, code)] = {
+    fingerprint,
+    approvedAt: Date.now(),
+  };
+  const entries = Object.entries(consents)
+    .sort(([, a], [, b]) => b.approvedAt - a.approvedAt)
+    .slice(0, MAX_CONSENTS);
+  try {
+    localStorage.setItem(CONSENT_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    console.error("Failed to save permission consent:", e);
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchQuery,
+  getQueryData,
+  getQueryState,
+  invalidateQueries,
+  resetQueries,
+  setQueryData,
+  subscribeQuery,
+} from "./query-cache";
+import { API_CONFIG } from "./constants";
+import { QK } from "./query-keys";
+import { emitWorkflowChange } from "./workflow-events";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("query-cache", () => {
+  afterEach(() => {
+    resetQueries();
+    vi.useRealTimers();
+  });
+
+  it("shares in-flight requests for the same key", async () => {
+    const fetcher = vi.fn(async () => ["a"]);
+    const [a, b] = await Promise.all([
+      fetchQuery(QK.plugin.list({ pageSize: 100 }), fetcher),
+      fetchQuery(QK.plugin.list({ pageSize: 100 }), fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(a).toBe(b);
+    expect(getQueryData(QK.plugin.list({ pageSize: 100 }))).toEqual(["a"]);
+  });
+
+  it("serves cached data until it becomes stale", async () => {
+    vi.useFakeTimers();
+    const key = QK.provider.list({ pageSize: 100 });
+    const fetcher = vi.fn(async () => Date.now());
+
+    await fetchQuery(key, fetcher, { staleTime: 1000 });
+    await fetchQuery(key, fetcher, { staleTime: 1000 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1500);
+    await fetchQuery(key, fetcher, { staleTime: 1000 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("refetches subscribed queries matching an invalidated prefix", async () => {
+    const listKey = QK.model.list({ pageSize: 100 });
+    const searchKey = QK.model.search({ pageSize: 100, modelNameQuery: "x" });
+    const listFetcher = vi.fn(async () => "list");
+    const searchFetcher = vi.fn(async () => "search");
+    const otherFetcher = vi.fn(async () => "provider");
+    await fetchQuery(listKey, listFetcher);
+    await fetchQuery(searchKey, searchFetcher);
+    await fetchQuery(QK.provider.list({ pageSize: 100 }), otherFetcher);
+    const unsubscribe = subscribeQuery(listKey, () => {});
+
+    invalidateQueries(QK.model.all());
+    await flush();
+
+    expect(listFetcher).toHaveBeenCalledTimes(2);
+    // 購読されていないものは次に使われるまで取得しない
+    expect(searchFetcher).toHaveBeenCalledTimes(1);
+    expect(getQueryState(searchKey).stale).toBe(true);
+    expect(otherFetcher).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it("refetches again when invalidated during a request", async () => {
+    const key = QK.workflow.list({ pageSize: 20 });
+    let resolve: (value: number) => void = () => {};
+    const fetcher = vi
+      .fn<() => Promise<number>>()
+      .mockImplementationOnce(() => new Promise((r) => (resolve = r)))
+      .mockResolvedValue(2);
+    const unsubscribe = subscribeQuery(key, () => {});
+
+    const first = fetchQuery(key, fetcher);
+    emitWorkflowChange({ type: "updated", workflowId: "wf-1" });
+    resolve(1);
+    await first;
+    await flush();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(getQueryData(key)).toBe(2);
+    unsubscribe();
+  });
+
+  it("keeps previous data and records errors", async () => {
+    const key = QK.version.get();
+    setQueryData(key, "v1");
+    const listener = vi.fn();
+    const unsubscribe = subscribeQuery(key, listener);
+
+    await expect(
+      fetchQuery(key, () => Promise.reject(new Error("down")), { force: true })
+    ).rejects.toThrow("down");
+
+    const state = getQueryState(key);
+    expect(state.data).toBe("v1");
+    expect(state.error).toBeInstanceOf(Error);
+    expect(state.fetching).toBe(false);
+    expect(listener).toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it("drops entries that stay unused for the grace period", async () => {
+    vi.useFakeTimers();
+    const searchKey = QK.workflow.list({ pageSize: 20, displayName: "a" });
+    const listKey = QK.workflow.list({ pageSize: 20 });
+    await fetchQuery(searchKey, async () => "search");
+    await fetchQuery(listKey, async () => "list");
+    const unsubscribe = subscribeQuery(listKey, () => {});
+
+    vi.advanceTimersByTime(API_CONFIG.queryGcTime);
+    expect(getQueryData(searchKey)).toBeUndefined();
+    expect(getQueryData(listKey)).toBe("list");
+
+    unsubscribe();
+    vi.advanceTimersByTime(API_CONFIG.queryGcTime - 1);
+    expect(getQueryData(listKey)).toBe("list");
+    vi.advanceTimersByTime(1);
+    expect(getQueryData(listKey)).toBeUndefined();
+  });
+
+  it("drops unused entries on reset", async () => {
+    await fetchQuery(QK.workflow.detail("wf-1"), async () => "wf");
+    resetQueries();
+    expect(getQueryData(QK.workflow.detail("wf-1"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * @fileoverview gRPC 呼び出し結果の共有キャッシュ
+ *
+ * `QK`（lib/query-keys）のキーごとに取得結果を保持し、複数の画面で同じデータを
+ * 共有します。
+ *
+ * - stale-while-revalidate: キャッシュがあればすぐに返し、古ければ裏で再取得
+ * - 重複排除: 同じキーの取得が進行中であれば同じ Promise を共有
+ * - 無効化: 変更操作の後に `invalidateQueries` で前方一致のキーを古くし、
+ *   表示中のものを再取得
+ * - 破棄: 購読されていないキャッシュは最後に使われてから
+ *   `API_CONFIG.queryGcTime` が経つと破棄
+ *
+ * ワークフローの変更イベント（lib/workflow-events）を受けると `QK.workflow.all()` を、
+ * 接続先が切り替わると全てのキャッシュを破棄します。
+ * `invalidateQueries` による無効化は lib/tab-sync で他のタブにも伝わります。
+ * React からは `useQuery`（hooks/useQuery）を使用してください。
+ *
+ * @module lib/query-cache
+ */
+
+import { API_CONFIG } from "./constants";
+import { QK } from "./query-keys";
+import { onWorkflowChange } from "./workflow-events";
+import { onActiveConnectionChange } from "./connection-profiles";
+import { onSyncMessage, publishSync } from "./tab-sync";
+
+/**
+ * キャッシュのキー（`QK` のヘルパーで作成）
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * キャッシュされたクエリの状態
+ */
+export interface QueryState<T = unknown> {
+  /** 最後に取得に成功したデータ */
+  data: T | undefined;
+  /** 最後の取得で発生したエラー（成功すると消える） */
+  error: unknown;
+  /** 最後に取得に成功した時刻（Unix ミリ秒、未取得は 0） */
+  updatedAt: number;
+  /** 取得中か */
+  fetching: boolean;
+  /** 無効化されて再取得が必要か */
+  stale: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  /** 最後に使用された取得関数（無効化時の再取得に使用） */
+  fetcher: (() => Promise<unknown>) | null;
+  /** 取得中に無効化された場合、完了後にもう一度取得する */
+  refetchAfter: boolean;
+  listeners: Set<() => void>;
+  /** 購読されていないキャッシュを破棄するタイマー */
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const EMPTY_STATE: QueryState = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  fetching: false,
+  stale: false,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+/**
+ * キーを比較用の文字列に変換
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+// 購読されなくなったキャッシュを一定時間後に破棄（取得中の場合は完了を待つ）
+function scheduleGc(hash: string, entry: QueryEntry): void {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = null;
+  if (entry.listeners.size > 0) return;
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    if (entries.get(hash) !== entry || entry.listeners.size > 0) return;
+    if (entry.promise) {
+      entry.promise.finally(() => scheduleGc(hash, entry)).catch(() => {});
+      return;
+    }
+    entries.delete(hash);
+  }, API_CONFIG.queryGcTime);
+}
+
+function getEntry(key: QueryKey): QueryEntry {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      promise: null,
+      fetcher: null,
+      refetchAfter: false,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    entries.set(hash, entry);
+  }
+  scheduleGc(hash, entry);
+  return entry;
+}
+
+// 状態は新しいオブジェクトに置き換え、useSyncExternalStore で変更を検知できるようにする
+function setState(entry: QueryEntry, patch: Partial<QueryState>): void {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return (
+    prefix.length <= key.length &&
+    prefix.every((p, i) => hashQueryKey([p]) === hashQueryKey([key[i]]))
+  );
+}
+
+/**
+ * クエリの現在の状態を取得
+ *
+ * 同じ状態であれば同じオブジェクトを返します。
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<
+    T
+  >;
+}
+
+/**
+ * キャッシュされたデータを取得
+ */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+/**
+ * キャッシュのデータを直接更新（楽観的更新など）
+ *
+ * @param key - 対象のキー
+ * @param updater - 新しいデータ、または現在のデータから新しいデータを返す関数
+ */
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: T | ((prev: T | undefined) => T)
+): void {
+  const entry = getEntry(key);
+  const data = typeof updater === "function"
+    ? (updater as (prev: T | undefined) => T)(entry.state.data as T | undefined)
+    : updater;
+  setState(entry, { data, updatedAt: Date.now() });
+}
+
+/**
+ * クエリを取得（キャッシュ・重複排除付き）
+ *
+ * - 同じキーの取得が進行中であればその結果を待つ
+ * - キャッシュが `staleTime` 以内で無効化されていなければキャッシュを返す
+ * - それ以外は `fetcher` を呼び出してキャッシュを更新する
+ *
+ * @param key - キャッシュのキー
+ * @param fetcher - データを取得する関数
+ * @param options.staleTime - キャッシュを新しいとみなす時間（ミリ秒）
+ * @param options.force - キャッシュが新しくても再取得する
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: { staleTime?: number; force?: boolean } = {}
+): Promise<T> {
+  const { staleTime = API_CONFIG.queryStaleTime, force = false } = options;
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const { state } = entry;
+  if (
+    !force &&
+    !state.stale &&
+    state.updatedAt > 0 &&
+    Date.now() - state.updatedAt < staleTime
+  ) {
+    return Promise.resolve(state.data as T);
+  }
+
+  const promise = fetcher().then(
+    (data) => {
+      if (entry.promise !== promise) return data;
+      entry.promise = null;
+      setState(entry, {
+        data,
+        error: undefined,
+        updatedAt: Date.now(),
+        fetching: false,
+        stale: false,
+      });
+      refetchIfInvalidated(entry);
+      return data;
+    },
+    (error: unknown) => {
+      if (entry.promise === promise) {
+        entry.promise = null;
+        setState(entry, { error, fetching: false });
+        refetchIfInvalidated(entry);
+      }
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  entry.refetchAfter = false;
+  setState(entry, { fetching: true });
+  return promise;
+}
+
+function refetchIfInvalidated(entry: QueryEntry): void {
+  if (!entry.refetchAfter || !entry.fetcher) return;
+  entry.refetchAfter = false;
+  if (entry.listeners.size === 0) {
+    setState(entry, { stale: true });
+    return;
+  }
+  fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {});
+}
+
+/**
+ * 前方一致するクエリを無効化
+ *
+ * 表示中（購読されている）のクエリはただちに再取得し、それ以外は次に
+ * 使用されたときに再取得します。他のタブのキャッシュも無効化されます。
+ *
+ * @param prefix - 無効化するキーの先頭（例: `QK.workflow.all()`）
+ *
+ * @example
+ * ```typescript
+ * await clients.provider.createProvider(request);
+ * invalidateQueries(QK.provider.all());
+ * ```
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  invalidateLocalQueries(prefix);
+  publishSync("queries", { prefix });
+}
+
+function invalidateLocalQueries(prefix: QueryKey): void {
+  for (const entry of entries.values()) {
+    if (!matchesPrefix(entry.key, prefix)) continue;
+    if (entry.promise) {
+      entry.refetchAfter = true;
+      continue;
+    }
+    setState(entry, { stale: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * 全てのキャッシュを破棄
+ *
+ * 表示中のクエリは空の状態から再取得します。
+ */
+export function resetQueries(): void {
+  for (const [hash, entry] of entries) {
+    entry.promise = null;
+    entry.refetchAfter = false;
+    if (entry.listeners.size === 0) {
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+      entries.delete(hash);
+      continue;
+    }
+    setState(entry, { ...EMPTY_STATE, stale: true });
+    if (entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * クエリの状態の変更を購読
+ *
+ * @param key - 対象のキー
+ * @param listener - 状態が変わったときに呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function subscribeQuery(
+  key: QueryKey,
+  listener: () => void
+): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  scheduleGc(hashQueryKey(key), entry);
+  return () => {
+    entry.listeners.delete(listener);
+    scheduleGc(hashQueryKey(key), entry);
+  };
+}
+
+// ワークフローの作成・更新・削除でワークフロー関連のキャッシュを無効化
+// （他のタブでの変更も workflow-events 経由で届くため、ここでは送信しない）
+onWorkflowChange(() => invalidateLocalQueries(QK.workflow.all()));
+
+// 他のタブでの変更操作による無効化
+onSyncMessage("queries", ({ prefix }) => invalidateLocalQueries(prefix));
+
+// 接続先が変わったら別のバックエンドのデータを表示しないよう全て破棄
+// （grpc-clients がトランスポートを作り直した後に通知されるため、すぐ再取得できる）
+onActiveConnectionChange(resetQueries);
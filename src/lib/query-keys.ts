@@ -1,14 +1,56 @@
 // TanStack Query key helpers
 // 型安全かつ衝突防止のため集中管理
+//
+// 各サービスの `all()` は前方一致の無効化（invalidateQueries）に使用します。
+// 引数のオブジェクトは JSON として比較されるため、プレーンな値のみを渡してください。
 
 export const QK = {
   workflow: {
+    all: () => ["workflow"] as const,
     latest: () => ["workflow", "latest"] as const,
+    lists: () => ["workflow", "list"] as const,
+    list: (params: {
+      pageSize: number;
+      pageToken?: string;
+      displayName?: string;
+      workflowLanguage?: number;
+      orderBy?: { field: string; direction: number }[];
+    }) => ["workflow", "list", params] as const,
+    // 一覧の検索で、読み込んでいないページから名前で探した候補
+    nameSearch: (params: {
+      words: string[];
+      workflowLanguage: number;
+      pageSize: number;
+    }) => ["workflow", "list", "name-search", params] as const,
+    // 実行の集計で使う全ページ分の一覧
+    listAll: (params: { pageSize: number }) =>
+      ["workflow", "list", "all", params] as const,
+    detail: (workflowId: string) => ["workflow", "detail", workflowId] as const,
   },
   version: {
     get: () => ["version", "get"] as const,
   },
+  plugin: {
+    all: () => ["plugin"] as const,
+    list: (params: { pageSize: number }) => ["plugin", "list", params] as const,
+  },
+  provider: {
+    all: () => ["provider"] as const,
+    list: (params: { pageSize: number }) =>
+      ["provider", "list", params] as const,
+    detail: (name: string) => ["provider", "detail", name] as const,
+  },
+  model: {
+    all: () => ["model"] as const,
+    list: (params: { pageSize: number }) => ["model", "list", params] as const,
+    detail: (name: string) => ["model", "detail", name] as const,
+    search: (params: {
+      modelNameQuery?: string;
+      providerNameQuery?: string;
+      pageSize: number;
+    }) => ["model", "search", params] as const,
+  },
 } as const;
 
-export type QueryKeyOf<T extends (...args: unknown[]) => readonly unknown[]> =
+export type QueryKeyOf<T extends (...args: never[]) => readonly unknown[]> =
   ReturnType<T>;
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview ワークフロー実行の付加情報の保存
+ *
+ * `WorkflowResult` には実行時間や実行したコードリビジョンが含まれないため、
+ * このブラウザから実行したときに計測した値を実行結果の ID ごとに
+ * localStorage に保存します。実行結果の比較や履歴の表示で使用します。
+ *
+ * @module lib/run-metadata
+ */
+
+import type {
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
+
+const STORAGE_KEY = "sapphillon-run-metadata";
+const MAX_ENTRIES = 500;
+
+/**
+ * 実行の付加情報
+ */
+export interface RunMetadata {
+  /** 実行にかかった時間（ミリ秒） */
+  durationMs: number;
+  /** 実行したコードリビジョンの ID */
+  workflowCodeId?: string;
+  recordedAt: number;
+}
+
+function load(): Record<string, RunMetadata> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 実行の付加情報を記録
+ *
+ * 保存件数が上限を超えた場合は古いものから削除します。
+ *
+ * @param resultId - 実行結果（WorkflowResult）の ID
+ * @param metadata - 付加情報
+ */
+export function recordRunMetadata(
+  resultId: string,
+  metadata: Omit<RunMetadata, "recordedAt">
+): void {
+  if (!resultId) return;
+  const entries = Object.entries({
+    ...load(),
+    [resultId]: { ...metadata, recordedAt: Date.now() },
+  })
+    .sort(([, a], [, b]) => b.recordedAt - a.recordedAt)
+    .slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (e) {
+    console.error("Failed to save run metadata:", e);
+  }
+}
+
+/**
+ * 実行の付加情報を取得
+ *
+ * @param resultId - 実行結果（WorkflowResult）の ID
+ * @returns 付加情報（このブラウザで記録していない場合は null）
+ */
+export function getRunMetadata(resultId: string): RunMetadata | null {
+  if (!resultId) return null;
+  return load()[resultId] ?? null;
+}
+
+/**
+ * 記録した全ての付加情報を取得
+ *
+ * 多数の実行結果を扱う場合は一度だけ読み込み、{@link findRunCode} に渡します。
+ *
+ * @returns 実行結果の ID ごとの付加情報
+ */
+export function loadRunMetadata(): Readonly<Record<string, RunMetadata>> {
+  return load();
+}
+
+function toMillis(timestamp?: { seconds: bigint; nanos: number }): number | null {
+  if (!timestamp) return null;
+  return Number(timestamp.seconds) * 1000 + Math.floor(timestamp.nanos / 1e6);
+}
+
+/**
+ * 実行結果を実行したコードリビジョンを取得
+ *
+ * このブラウザで実行した結果は記録したリビジョンを使い、それ以外は実行時刻より
+ * 前に作成された最新のリビジョンを実行したものと推定します。
+ *
+ * @param result - 実行結果
+ * @param codes - ワークフローのコードリビジョン
+ * @param metadata - 読み込み済みの付加情報（{@link loadRunMetadata}、省略時は読み込む）
+ * @returns リビジョンと推定したかどうか（判別できない場合は null）
+ */
+export function findRunCode(
+  result: WorkflowResult,
+  codes: readonly WorkflowCode[],
+  metadata?: Readonly<Record<string, RunMetadata>>
+): { code: WorkflowCode; inferred: boolean } | null {
+  const workflowCodeId = metadata
+    ? metadata[result.id]?.workflowCodeId
+    : getRunMetadata(result.id)?.workflowCodeId;
+  const recorded = workflowCodeId
+    ? codes.find((c) => c.id === workflowCodeId)
+    : undefined;
+  if (recorded) return { code: recorded, inferred: false };
+
+  const ranAt = toMillis(result.ranAt);
+  const latest = codes
+    .filter((c) => {
+      const createdAt = toMillis(c.createdAt);
+      return ranAt === null || createdAt === null || createdAt <= ranAt;
+    })
+    .reduce<WorkflowCode | null>(
+      (best, c) => (!best || c.codeRevision > best.codeRevision ? c : best),
+      null
+    );
+  return latest ? { code: latest, inferred: true } : null;
+}
@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createRunQueue,
+  getBatchSummary,
+  loadRunConcurrency,
+  saveRunConcurrency,
+} from "./run-queue";
+import type { RunBatchEvent, RunExecutionResult } from "./run-queue";
+
+/** 外から完了させられる実行関数 */
+function createControlledExecutor() {
+  const pending = new Map<
+    string,
+    { resolve: (result: RunExecutionResult) => void; signal: AbortSignal }
+  >();
+  const execute = vi.fn(
+    (run: { workflowId: string }, signal: AbortSignal) =>
+      new Promise<RunExecutionResult>((resolve) => {
+        pending.set(run.workflowId, { resolve, signal });
+        signal.addEventListener("abort", () =>
+          resolve({ status: "cancelled" })
+        );
+      })
+  );
+  return { execute, pending };
+}
+
+const workflows = (...ids: string[]) =>
+  ids.map((id) => ({ workflowId: id, workflowName: `Workflow ${id}` }));
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("run-queue", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("starts runs in order up to the concurrency limit", async () => {
+    const { execute, pending } = createControlledExecutor();
+    const queue = createRunQueue(execute, { concurrency: 2 });
+
+    queue.enqueue(workflows("a", "b", "c"));
+    expect(queue.getState().runs.map((r) => r.status)).toEqual([
+      "running",
+      "running",
+      "queued",
+    ]);
+
+    pending.get("a")?.resolve({ status: "success" });
+    await flush();
+
+    expect(queue.getState().runs.map((r) => r.status)).toEqual([
+      "success",
+      "running",
+      "running",
+    ]);
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it("reorders queued runs and cancels queued and running ones", async () => {
+    const { execute, pending } = createControlledExecutor();
+    const queue = createRunQueue(execute, { concurrency: 1 });
+
+    queue.enqueue(workflows("a", "b", "c"));
+    const [a, b, c] = queue.getState().runs;
+    queue.move(c.id, -1);
+    expect(queue.getState().runs.map((r) => r.workflowId)).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+
+    queue.cancel(b.id);
+    queue.cancel(a.id);
+    expect(pending.get("a")?.signal.aborted).toBe(true);
+    await flush();
+
+    // 取り消した b は飛ばし、並べ替えた c が次に実行される
+    const runs = queue.getState().runs;
+    expect(runs.map((r) => [r.workflowId, r.status])).toEqual([
+      ["a", "cancelled"],
+      ["c", "running"],
+      ["b", "cancelled"],
+    ]);
+  });
+
+  it("reports the batch summary when every run has finished", async () => {
+    const { execute, pending } = createControlledExecutor();
+    const queue = createRunQueue(execute, { concurrency: 3 });
+    const events: RunBatchEvent[] = [];
+    queue.onBatchEvent((event) => events.push(event));
+
+    const batchId = queue.enqueue(workflows("a", "b", "c"));
+    pending.get("a")?.resolve({ status: "success" });
+    pending.get("b")?.resolve({ status: "failed", message: "boom" });
+    await flush();
+    expect(events.map((e) => e.type)).toEqual(["started"]);
+
+    pending.get("c")?.resolve({ status: "timeout" });
+    await flush();
+
+    expect(events.map((e) => e.type)).toEqual(["started", "finished"]);
+    const summary = events[1].summary;
+    expect(summary.batchId).toBe(batchId);
+    expect(summary.finished).toBe(true);
+    expect(summary.counts).toMatchObject({ success: 1, failed: 1, timeout: 1 });
+    expect(queue.getState().runs[1].message).toBe("boom");
+
+    queue.clearFinished();
+    expect(queue.getState().runs).toEqual([]);
+  });
+
+  it("runs a batch with its own executor and waits for it", async () => {
+    const { execute, pending } = createControlledExecutor();
+    const queue = createRunQueue(execute, { concurrency: 1 });
+    const own = vi.fn(async () => ({ status: "success" as const }));
+
+    queue.enqueue(workflows("a"));
+    const batchId = queue.enqueue(workflows("b"), {
+      source: "manual",
+      execute: own,
+    }) ?? "";
+    const done = queue.waitForBatch(batchId);
+
+    // 上限に達しているため、手動の実行も空きができるまで待つ
+    expect(queue.getState().runs[1].status).toBe("queued");
+    pending.get("a")?.resolve({ status: "success" });
+
+    const summary = await done;
+    expect(summary).toMatchObject({ source: "manual", finished: true });
+    expect(summary.counts.success).toBe(1);
+    expect(own).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves the wait when a queued batch is cancelled", async () => {
+    const { execute } = createControlledExecutor();
+    const queue = createRunQueue(execute, { concurrency: 1 });
+
+    queue.enqueue(workflows("a"));
+    const batchId = queue.enqueue(workflows("b")) ?? "";
+    const done = queue.waitForBatch(batchId);
+    queue.cancelBatch(batchId);
+
+    expect((await done).counts.cancelled).toBe(1);
+  });
+
+  it("treats executor errors as failures", async () => {
+    const queue = createRunQueue(async () => {
+      throw new Error("network down");
+    });
+
+    queue.enqueue(workflows("a"));
+    await flush();
+
+    expect(queue.getState().runs[0]).toMatchObject({
+      status: "failed",
+      message: "network down",
+    });
+  });
+
+  it("computes wall-clock and total run time for a batch", () => {
+    const base = {
+      batchId: "batch",
+      source: "batch" as const,
+      workflowName: "",
+      timeoutMs: 0,
+      enqueuedAt: 0,
+    };
+    const summary = getBatchSummary(
+      [
+        {
+          ...base,
+          id: "1",
+          workflowId: "a",
+          status: "success",
+          startedAt: 1000,
+          finishedAt: 4000,
+        },
+        {
+          ...base,
+          id: "2",
+          workflowId: "b",
+          status: "failed",
+          startedAt: 2000,
+          finishedAt: 6000,
+        },
+      ],
+      "batch"
+    );
+
+    expect(summary.durationMs).toBe(5000);
+    expect(summary.totalRunMs).toBe(7000);
+  });
+
+  it("persists the concurrency limit within the allowed range", () => {
+    saveRunConcurrency(100);
+    expect(loadRunConcurrency()).toBe(8);
+    saveRunConcurrency(3);
+    expect(loadRunConcurrency()).toBe(3);
+  });
+});
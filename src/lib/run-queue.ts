@@ -0,0 +1,484 @@
+/**
+ * @fileoverview ワークフローの実行キュー
+ *
+ * ワークフローの実行を管理するキューです。登録された実行を順番に、
+ * 同時実行数の上限まで並行して開始します。実行待ちの並べ替えやキャンセル、
+ * まとめて登録した実行（バッチ）ごとの集計を提供します。
+ *
+ * 実際の実行は `createRunQueue` に渡す関数が行います（バッチごとに別の関数も
+ * 指定できます）。アプリでは pages/workflows/workflow-run-queue の
+ * インスタンスを使用し、一覧からのまとめての実行・手動実行・スケジュールに
+ * よる実行のすべてがこのキューを通ります。
+ *
+ * @module lib/run-queue
+ */
+
+import { API_CONFIG } from "./constants";
+
+const CONCURRENCY_KEY = "sapphillon-run-concurrency";
+
+/**
+ * キュー内の実行の状態
+ *
+ * - `queued`: 実行待ち
+ * - `running`: 実行中
+ * - `success` / `failed`: 実行した結果
+ * - `cancelled` / `timeout`: 実行が途中で止まった、または開始前にキャンセルした
+ * - `skipped`: 実行前チェック（静的チェック・権限の承認）を通過できなかった
+ */
+export type QueuedRunStatus =
+  | "queued"
+  | "running"
+  | "success"
+  | "failed"
+  | "cancelled"
+  | "timeout"
+  | "skipped";
+
+/** 完了した実行の状態 */
+export type FinishedRunStatus = Exclude<QueuedRunStatus, "queued" | "running">;
+
+/**
+ * 実行を登録した経路
+ *
+ * - `batch`: ワークフロー一覧からまとめて実行
+ * - `manual`: 実行ページから手動で実行
+ * - `schedule`: スケジュールによる実行
+ */
+export type RunSource = "batch" | "manual" | "schedule";
+
+/**
+ * キュー内の実行
+ */
+export interface QueuedRun {
+  id: string;
+  /** 一緒に登録した実行のまとまり */
+  batchId: string;
+  source: RunSource;
+  workflowId: string;
+  workflowName: string;
+  /** 実行の期限（ミリ秒、0 は無期限） */
+  timeoutMs: number;
+  status: QueuedRunStatus;
+  enqueuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  /** エラーや見送りの理由 */
+  message?: string;
+}
+
+/**
+ * 実行関数の結果
+ */
+export interface RunExecutionResult {
+  status: FinishedRunStatus;
+  message?: string;
+}
+
+/**
+ * 実行関数
+ *
+ * `signal` はキャンセル時に中止されます。例外を投げた場合は失敗として扱います。
+ */
+export type RunExecutor = (
+  run: QueuedRun,
+  signal: AbortSignal
+) => Promise<RunExecutionResult>;
+
+/**
+ * 登録時のオプション
+ */
+export interface EnqueueOptions {
+  /** 実行の期限（ミリ秒、0 または未指定の場合は無期限） */
+  timeoutMs?: number;
+  /** 登録した経路（既定は `batch`） */
+  source?: RunSource;
+  /** このバッチの実行に使う関数（省略時はキューの実行関数） */
+  execute?: RunExecutor;
+}
+
+/**
+ * キューの状態
+ */
+export interface RunQueueState {
+  /** 登録順（実行待ちは並べ替え後の順） */
+  runs: QueuedRun[];
+  /** 同時実行数の上限 */
+  concurrency: number;
+}
+
+/**
+ * バッチの集計
+ */
+export interface RunBatchSummary {
+  batchId: string;
+  source: RunSource;
+  total: number;
+  /** 状態ごとの件数 */
+  counts: Record<QueuedRunStatus, number>;
+  /** すべての実行が完了したか */
+  finished: boolean;
+  /** 最初の開始から最後の完了までの時間（ミリ秒） */
+  durationMs: number;
+  /** 各実行にかかった時間の合計（ミリ秒） */
+  totalRunMs: number;
+}
+
+/**
+ * バッチの開始・完了のイベント
+ */
+export interface RunBatchEvent {
+  type: "started" | "finished";
+  summary: RunBatchSummary;
+}
+
+/**
+ * 実行キュー
+ */
+export interface RunQueue {
+  getState: () => RunQueueState;
+  /** 状態の変更を購読（購読解除関数を返す） */
+  subscribe: (listener: () => void) => () => void;
+  /** バッチの開始・完了を購読（購読解除関数を返す） */
+  onBatchEvent: (listener: (event: RunBatchEvent) => void) => () => void;
+  /**
+   * ワークフローをまとめて登録
+   *
+   * @returns バッチ ID（登録するものがない場合は null）
+   */
+  enqueue: (
+    workflows: { workflowId: string; workflowName: string }[],
+    options?: EnqueueOptions
+  ) => string | null;
+  /** バッチの完了を待つ（完了した時点の集計を返す） */
+  waitForBatch: (batchId: string) => Promise<RunBatchSummary>;
+  /** 実行待ちを取り消す、または実行中のものを中止 */
+  cancel: (id: string) => void;
+  /** バッチ内の未完了の実行をすべてキャンセル */
+  cancelBatch: (batchId: string) => void;
+  /** 実行待ちの順番を移動（`offset` は同じバッチの実行待ちの中での移動量） */
+  move: (id: string, offset: number) => void;
+  /** 完了したバッチを一覧から削除 */
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+const FINISHED_STATUSES: readonly QueuedRunStatus[] = [
+  "success",
+  "failed",
+  "cancelled",
+  "timeout",
+  "skipped",
+];
+
+/**
+ * 実行が完了しているか
+ */
+export function isRunFinished(run: QueuedRun): boolean {
+  return FINISHED_STATUSES.includes(run.status);
+}
+
+function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function clampConcurrency(value: number): number {
+  const { min, max } = API_CONFIG.runQueue.concurrency;
+  if (!Number.isFinite(value)) return API_CONFIG.runQueue.concurrency.default;
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+/**
+ * 保存されている同時実行数の上限を取得
+ */
+export function loadRunConcurrency(): number {
+  try {
+    const stored = localStorage.getItem(CONCURRENCY_KEY);
+    if (stored) return clampConcurrency(Number(stored));
+  } catch {
+    // localStorage が使えない場合は既定値
+  }
+  return API_CONFIG.runQueue.concurrency.default;
+}
+
+/**
+ * 同時実行数の上限を保存
+ */
+export function saveRunConcurrency(concurrency: number): void {
+  try {
+    localStorage.setItem(CONCURRENCY_KEY, String(clampConcurrency(concurrency)));
+  } catch (e) {
+    console.error("Failed to save run concurrency:", e);
+  }
+}
+
+/**
+ * バッチを集計
+ *
+ * @param runs - キュー内の実行
+ * @param batchId - 対象のバッチ
+ */
+export function getBatchSummary(
+  runs: QueuedRun[],
+  batchId: string
+): RunBatchSummary {
+  const counts: Record<QueuedRunStatus, number> = {
+    queued: 0,
+    running: 0,
+    success: 0,
+    failed: 0,
+    cancelled: 0,
+    timeout: 0,
+    skipped: 0,
+  };
+  let firstStart: number | null = null;
+  let lastFinish: number | null = null;
+  let totalRunMs = 0;
+  const batch = runs.filter((r) => r.batchId === batchId);
+  for (const run of batch) {
+    counts[run.status]++;
+    if (run.startedAt !== null) {
+      firstStart = Math.min(firstStart ?? run.startedAt, run.startedAt);
+      if (run.finishedAt !== null) {
+        totalRunMs += run.finishedAt - run.startedAt;
+      }
+    }
+    if (run.finishedAt !== null) {
+      lastFinish = Math.max(lastFinish ?? run.finishedAt, run.finishedAt);
+    }
+  }
+  return {
+    batchId,
+    source: batch[0]?.source ?? "batch",
+    total: batch.length,
+    counts,
+    finished: batch.length > 0 && batch.every(isRunFinished),
+    durationMs:
+      firstStart !== null && lastFinish !== null
+        ? Math.max(0, lastFinish - firstStart)
+        : 0,
+    totalRunMs,
+  };
+}
+
+/**
+ * 実行キューを作成
+ *
+ * @param execute - 1 件の実行を行う関数
+ * @param options - 同時実行数の上限の初期値
+ */
+export function createRunQueue(
+  execute: RunExecutor,
+  options: { concurrency?: number } = {}
+): RunQueue {
+  let state: RunQueueState = {
+    runs: [],
+    concurrency: clampConcurrency(
+      options.concurrency ?? API_CONFIG.runQueue.concurrency.default
+    ),
+  };
+  const listeners = new Set<() => void>();
+  const batchListeners = new Set<(event: RunBatchEvent) => void>();
+  const controllers = new Map<string, AbortController>();
+  // バッチごとに指定された実行関数
+  const executors = new Map<string, RunExecutor>();
+
+  const setState = (next: RunQueueState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const emitBatch = (type: RunBatchEvent["type"], batchId: string) => {
+    if (type === "finished") executors.delete(batchId);
+    const event = { type, summary: getBatchSummary(state.runs, batchId) };
+    batchListeners.forEach((listener) => listener(event));
+  };
+
+  const onBatchEvent = (listener: (event: RunBatchEvent) => void) => {
+    batchListeners.add(listener);
+    return () => {
+      batchListeners.delete(listener);
+    };
+  };
+
+  const updateRun = (id: string, patch: Partial<QueuedRun>) => {
+    setState({
+      ...state,
+      runs: state.runs.map((r) => (r.id === id ? { ...r, ...patch } : r)),
+    });
+  };
+
+  const finishRun = (run: QueuedRun, result: RunExecutionResult) => {
+    controllers.delete(run.id);
+    updateRun(run.id, {
+      status: result.status,
+      message: result.message,
+      finishedAt: Date.now(),
+    });
+    if (getBatchSummary(state.runs, run.batchId).finished) {
+      emitBatch("finished", run.batchId);
+    }
+    pump();
+  };
+
+  const start = (run: QueuedRun) => {
+    const controller = new AbortController();
+    controllers.set(run.id, controller);
+    const started = { ...run, status: "running" as const, startedAt: Date.now() };
+    updateRun(run.id, started);
+
+    (executors.get(run.batchId) ?? execute)(started, controller.signal)
+      .then((result) =>
+        finishRun(
+          started,
+          controller.signal.aborted && result.status !== "timeout"
+            ? { status: "cancelled", message: result.message }
+            : result
+        )
+      )
+      .catch((e: unknown) =>
+        finishRun(started, {
+          status: controller.signal.aborted ? "cancelled" : "failed",
+          message: e instanceof Error ? e.message : String(e),
+        })
+      );
+  };
+
+  // 上限まで実行待ちを開始
+  const pump = () => {
+    let running = state.runs.filter((r) => r.status === "running").length;
+    for (const run of state.runs) {
+      if (running >= state.concurrency) break;
+      if (run.status !== "queued") continue;
+      running++;
+      start(run);
+    }
+  };
+
+  const cancelRuns = (targets: QueuedRun[]) => {
+    const now = Date.now();
+    const queuedIds = new Set(
+      targets.filter((r) => r.status === "queued").map((r) => r.id)
+    );
+    if (queuedIds.size > 0) {
+      const batches = new Set(
+        targets.filter((r) => queuedIds.has(r.id)).map((r) => r.batchId)
+      );
+      setState({
+        ...state,
+        runs: state.runs.map((r) =>
+          queuedIds.has(r.id)
+            ? { ...r, status: "cancelled", finishedAt: now }
+            : r
+        ),
+      });
+      batches.forEach((batchId) => {
+        if (getBatchSummary(state.runs, batchId).finished) {
+          emitBatch("finished", batchId);
+        }
+      });
+    }
+    targets
+      .filter((r) => r.status === "running")
+      .forEach((r) => controllers.get(r.id)?.abort());
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onBatchEvent,
+
+    enqueue: (workflows, enqueueOptions = {}) => {
+      if (workflows.length === 0) return null;
+      const batchId = createId();
+      const now = Date.now();
+      if (enqueueOptions.execute) {
+        executors.set(batchId, enqueueOptions.execute);
+      }
+      const added: QueuedRun[] = workflows.map((w) => ({
+        id: createId(),
+        batchId,
+        source: enqueueOptions.source ?? "batch",
+        workflowId: w.workflowId,
+        workflowName: w.workflowName,
+        timeoutMs: enqueueOptions.timeoutMs ?? 0,
+        status: "queued",
+        enqueuedAt: now,
+        startedAt: null,
+        finishedAt: null,
+      }));
+      setState({ ...state, runs: [...state.runs, ...added] });
+      emitBatch("started", batchId);
+      pump();
+      return batchId;
+    },
+
+    waitForBatch: (batchId) =>
+      new Promise((resolve) => {
+        const summary = getBatchSummary(state.runs, batchId);
+        if (summary.total === 0 || summary.finished) {
+          resolve(summary);
+          return;
+        }
+        const unsubscribe = onBatchEvent((event) => {
+          if (event.type !== "finished" || event.summary.batchId !== batchId) {
+            return;
+          }
+          unsubscribe();
+          resolve(event.summary);
+        });
+      }),
+
+    cancel: (id) => {
+      cancelRuns(state.runs.filter((r) => r.id === id));
+    },
+
+    cancelBatch: (batchId) => {
+      cancelRuns(state.runs.filter((r) => r.batchId === batchId));
+    },
+
+    move: (id, offset) => {
+      const target = state.runs.find((r) => r.id === id);
+      if (!target || target.status !== "queued") return;
+      const inBatch = (r: QueuedRun) =>
+        r.status === "queued" && r.batchId === target.batchId;
+      const queued = state.runs.filter(inBatch);
+      const from = queued.indexOf(target);
+      const to = Math.min(queued.length - 1, Math.max(0, from + offset));
+      if (to === from) return;
+      const reordered = [...queued];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      // 同じバッチの実行待ちの位置だけを並べ替え、他の実行の位置は変えない
+      let next = 0;
+      setState({
+        ...state,
+        runs: state.runs.map((r) => (inBatch(r) ? reordered[next++] : r)),
+      });
+    },
+
+    clearFinished: () => {
+      const finishedBatches = new Set(
+        state.runs
+          .map((r) => r.batchId)
+          .filter((batchId) => getBatchSummary(state.runs, batchId).finished)
+      );
+      setState({
+        ...state,
+        runs: state.runs.filter((r) => !finishedBatches.has(r.batchId)),
+      });
+    },
+
+    setConcurrency: (concurrency) => {
+      setState({ ...state, concurrency: clampConcurrency(concurrency) });
+      pump();
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from "vitest";
+import { createSyncBus } from "./tab-sync";
+import type { SyncChannel, SyncMessage } from "./tab-sync";
+
+// BroadcastChannel と同様に、送信元以外の全てのチャネルに届けるハブ
+// hold が true の間はメッセージを溜め、deliver で任意の順序で配送する
+function createHub() {
+  const channels: { listener?: (e: MessageEvent<SyncMessage>) => void }[] = [];
+  const queued: { to: number; message: SyncMessage }[] = [];
+  let hold = false;
+
+  const channel = (index: number): SyncChannel => {
+    channels[index] = {};
+    return {
+      postMessage(message) {
+        channels.forEach((_, to) => {
+          if (to === index) return;
+          if (hold) queued.push({ to, message });
+          else channels[to].listener?.({ data: message } as MessageEvent);
+        });
+      },
+      addEventListener(_, listener) {
+        channels[index].listener = listener;
+      },
+    };
+  };
+
+  return {
+    channel,
+    hold: () => {
+      hold = true;
+    },
+    deliver: (order: (q: typeof queued) => typeof queued) => {
+      hold = false;
+      order(queued.splice(0)).forEach(({ to, message }) =>
+        channels[to].listener?.({ data: message } as MessageEvent)
+      );
+    },
+  };
+}
+
+describe("createSyncBus", () => {
+  it("delivers messages to other tabs only", () => {
+    const hub = createHub();
+    const a = createSyncBus(hub.channel(0), "a");
+    const b = createSyncBus(hub.channel(1), "b");
+    const onA = vi.fn();
+    const onB = vi.fn();
+    a.subscribe("color-mode", onA);
+    b.subscribe("color-mode", onB);
+
+    a.publish("color-mode", "dark");
+
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).toHaveBeenCalledWith("dark");
+  });
+
+  it("converges on the same value when state is written concurrently", () => {
+    const hub = createHub();
+    const values = ["", "", ""];
+    const buses = [0, 1, 2].map((i) => {
+      const bus = createSyncBus(hub.channel(i), `tab-${i}`);
+      bus.subscribe("color-mode", (mode) => {
+        values[i] = mode;
+      });
+      return bus;
+    });
+
+    hub.hold();
+    values[0] = "dark";
+    buses[0].publish("color-mode", "dark");
+    values[1] = "light";
+    buses[1].publish("color-mode", "light");
+    // 到着順を入れ替えても結果は同じ
+    hub.deliver((q) => q.reverse());
+
+    expect(values[0]).toBe(values[1]);
+    expect(values[1]).toBe(values[2]);
+  });
+
+  it("drops state older than the last local write", () => {
+    const hub = createHub();
+    const a = createSyncBus(hub.channel(0), "a");
+    const b = createSyncBus(hub.channel(1), "b");
+    const onB = vi.fn();
+    b.subscribe("prompt-history", onB);
+
+    a.publish("prompt-history", []);
+    b.publish("prompt-history", []);
+    b.publish("prompt-history", []);
+    expect(onB).toHaveBeenCalledTimes(1);
+
+    hub.hold();
+    b.publish("prompt-history", []);
+    a.publish("prompt-history", []);
+    hub.deliver((q) => q);
+    // a の送信は b の最後の送信より前の時刻なので捨てられる
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+
+  it("delivers every workflow event regardless of ordering", () => {
+    const hub = createHub();
+    const a = createSyncBus(hub.channel(0), "a");
+    const b = createSyncBus(hub.channel(1), "b");
+    const c = createSyncBus(hub.channel(2), "c");
+    const onC = vi.fn();
+    c.subscribe("workflow", onC);
+
+    hub.hold();
+    a.publish("workflow", { type: "deleted", workflowId: "wf-1" });
+    a.publish("workflow", { type: "deleted", workflowId: "wf-2" });
+    b.publish("workflow", { type: "created", workflowId: "wf-3" });
+    hub.deliver((q) => q.reverse());
+
+    expect(onC).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview タブ間の同期
+ *
+ * 同じオリジンで開いている他のタブに、ワークフローの変更やキャッシュの無効化、
+ * localStorage に保存している設定（プロンプト履歴・カラーモード・オンボーディング）を
+ * BroadcastChannel で伝えます。
+ *
+ * メッセージには Lamport 時計とタブ ID を付けます。設定のように値全体を送るトピックでは
+ * 最後に適用したものより古いメッセージを捨てるため、複数のタブがほぼ同時に同じ設定を
+ * 書き換えても全てのタブが最終的に同じ値になります（後勝ち）。ワークフローの変更などの
+ * イベントは捨てずに全て届けます。
+ *
+ * @module lib/tab-sync
+ */
+
+import type { PromptHistoryItem } from "@/hooks/usePromptHistory";
+import type { ColorMode } from "@/components/ui/color-mode-context";
+import type { WorkflowChange } from "./workflow-events";
+
+/** BroadcastChannel の名前 */
+const CHANNEL_NAME = "sapphillon-sync";
+
+/**
+ * 同期するトピックと内容
+ */
+export interface SyncTopics {
+  /** ワークフローの作成・更新・削除（lib/workflow-events） */
+  workflow: WorkflowChange;
+  /** 共有キャッシュの無効化（lib/query-cache） */
+  queries: { prefix: readonly unknown[] };
+  /** プロンプト履歴の全体 */
+  "prompt-history": PromptHistoryItem[];
+  /** カラーモード */
+  "color-mode": ColorMode;
+  /** 完了・スキップしたオンボーディングツアー */
+  onboarding: { completedTours: string[]; skippedTours: string[] };
+  /** 定期実行スケジュールと履歴の変更（内容は localStorage から読み直す） */
+  schedules: null;
+  /** ワークフローのタグ・フォルダー・お気に入りの変更（内容は localStorage から読み直す） */
+  organization: null;
+  /** ワークフロー一覧の保存したビューの変更（内容は localStorage から読み直す） */
+  "list-views": null;
+}
+
+export type SyncTopic = keyof SyncTopics;
+
+/** 値全体を送るため、古いメッセージを捨てるトピック */
+const STATE_TOPICS: ReadonlySet<SyncTopic> = new Set<SyncTopic>([
+  "prompt-history",
+  "color-mode",
+  "onboarding",
+]);
+
+/**
+ * タブ間で送られるメッセージ
+ */
+export interface SyncMessage<K extends SyncTopic = SyncTopic> {
+  topic: K;
+  payload: SyncTopics[K];
+  /** Lamport 時計 */
+  clock: number;
+  /** 送信元のタブ ID（同じ時刻のメッセージの順序付けに使用） */
+  origin: string;
+}
+
+/**
+ * メッセージを送受信するチャネル（BroadcastChannel の必要な部分）
+ */
+export interface SyncChannel {
+  postMessage(message: SyncMessage): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<SyncMessage>) => void
+  ): void;
+}
+
+/**
+ * タブ間の同期バス
+ */
+export interface SyncBus {
+  /** 他のタブに送信 */
+  publish<K extends SyncTopic>(topic: K, payload: SyncTopics[K]): void;
+  /** 他のタブからのメッセージを購読（自分のタブの送信は届かない） */
+  subscribe<K extends SyncTopic>(
+    topic: K,
+    listener: (payload: SyncTopics[K]) => void
+  ): () => void;
+}
+
+/**
+ * `a` が `b` より後のメッセージか
+ */
+export function isNewer(
+  a: Pick<SyncMessage, "clock" | "origin">,
+  b: Pick<SyncMessage, "clock" | "origin">
+): boolean {
+  return a.clock > b.clock || (a.clock === b.clock && a.origin > b.origin);
+}
+
+function createTabId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * 同期バスを作成
+ *
+ * @param channel - 使用するチャネル（null の場合は送受信しない）
+ * @param tabId - このタブの ID
+ */
+export function createSyncBus(
+  channel: SyncChannel | null,
+  tabId: string = createTabId()
+): SyncBus {
+  let clock = 0;
+  const lastApplied = new Map<SyncTopic, Pick<SyncMessage, "clock" | "origin">>();
+  const listeners = new Map<SyncTopic, Set<(payload: never) => void>>();
+
+  channel?.addEventListener("message", (event) => {
+    const message = event.data;
+    if (!message || typeof message.clock !== "number") return;
+    clock = Math.max(clock, message.clock);
+
+    if (STATE_TOPICS.has(message.topic)) {
+      const last = lastApplied.get(message.topic);
+      if (last && !isNewer(message, last)) return;
+      lastApplied.set(message.topic, message);
+    }
+
+    listeners.get(message.topic)?.forEach((listener) => {
+      try {
+        listener(message.payload as never);
+      } catch (e) {
+        console.error(`Failed to apply synced "${message.topic}":`, e);
+      }
+    });
+  });
+
+  return {
+    publish(topic, payload) {
+      if (!channel) return;
+      clock += 1;
+      const message: SyncMessage = { topic, payload, clock, origin: tabId };
+      lastApplied.set(topic, message);
+      try {
+        channel.postMessage(message);
+      } catch (e) {
+        console.error(`Failed to sync "${topic}" to other tabs:`, e);
+      }
+    },
+    subscribe(topic, listener) {
+      let set = listeners.get(topic);
+      if (!set) {
+        set = new Set();
+        listeners.set(topic, set);
+      }
+      set.add(listener as (payload: never) => void);
+      return () => {
+        set.delete(listener as (payload: never) => void);
+      };
+    },
+  };
+}
+
+const bus = createSyncBus(
+  typeof BroadcastChannel !== "undefined"
+    ? (new BroadcastChannel(CHANNEL_NAME) as SyncChannel)
+    : null
+);
+
+/**
+ * 他のタブに変更を送信
+ *
+ * @param topic - トピック
+ * @param payload - 内容（構造化複製できる値）
+ *
+ * @example
+ * ```typescript
+ * publishSync("color-mode", "dark");
+ * ```
+ */
+export function publishSync<K extends SyncTopic>(
+  topic: K,
+  payload: SyncTopics[K]
+): void {
+  bus.publish(topic, payload);
+}
+
+/**
+ * 他のタブからの変更を購読
+ *
+ * @param topic - トピック
+ * @param listener - 変更を受け取ったときに呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onSyncMessage<K extends SyncTopic>(
+  topic: K,
+  listener: (payload: SyncTopics[K]) => void
+): () => void {
+  return bus.subscribe(topic, listener);
+}
@@ -198,3 +198,19 @@ export async function retry<T>(
 
   throw lastError!;
 }
+
+/**
+ * Save text content as a file via a temporary download link
+ */
+export function downloadFile(
+  content: string,
+  filename: string,
+  mimeType = "application/json",
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { timestampFromMs } from "@bufbuild/protobuf/wkt";
+import {
+  WorkflowCodeSchema,
+  WorkflowResultSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { recordRunMetadata } from "./run-metadata";
+import {
+  collectRuns,
+  computeAnalytics,
+  isResultSuccess,
+  percentile,
+  rangeFromDays,
+} from "./workflow-analytics";
+
+const DAY = 24 * 60 * 60 * 1000;
+const base = new Date(2026, 0, 10, 12).getTime();
+
+function result(id: string, ranAt: number, exitCode = 0) {
+  return create(WorkflowResultSchema, {
+    id,
+    ranAt: timestampFromMs(ranAt),
+    resultType: exitCode === 0 ? 0 : 1,
+    exitCode,
+  });
+}
+
+const workflows = [
+  create(WorkflowSchema, {
+    id: "wf-a",
+    displayName: "A",
+    workflowCode: [
+      create(WorkflowCodeSchema, {
+        id: "a-1",
+        codeRevision: 1,
+        createdAt: timestampFromMs(base - 10 * DAY),
+        pluginFunctionIds: ["fs.read", "fs.write"],
+      }),
+      create(WorkflowCodeSchema, {
+        id: "a-2",
+        codeRevision: 2,
+        createdAt: timestampFromMs(base + DAY / 2),
+        pluginFunctionIds: ["net.fetch"],
+      }),
+    ],
+    workflowResults: [
+      result("a-r1", base, 1),
+      result("a-r2", base + DAY, 1),
+      result("a-r3", base + DAY),
+    ],
+  }),
+  create(WorkflowSchema, {
+    id: "wf-b",
+    displayName: "B",
+    workflowResults: [result("b-r1", base, 2), result("b-r2", base - 5 * DAY)],
+  }),
+];
+
+describe("workflow analytics", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("collects runs within the range", () => {
+    const runs = collectRuns(workflows, { from: base - DAY });
+    expect(runs.map((r) => r.resultId)).toEqual(["a-r1", "a-r2", "a-r3", "b-r1"]);
+    expect(runs[0].pluginFunctionIds).toEqual(["fs.read", "fs.write"]);
+    expect(runs[1].pluginFunctionIds).toEqual(["net.fetch"]);
+  });
+
+  it("aggregates success rate per day and failures", () => {
+    const analytics = computeAnalytics(
+      collectRuns(workflows, { from: base - DAY }),
+      { functionNames: new Map([["fs.read", "readFile"]]) }
+    );
+    expect(analytics.counts).toEqual({
+      total: 4,
+      successful: 1,
+      failed: 3,
+      successRate: 25,
+    });
+    expect(analytics.daily.map((d) => [d.total, d.successful])).toEqual([
+      [2, 0],
+      [2, 1],
+    ]);
+    expect(analytics.failingWorkflows[0]).toMatchObject({
+      key: "wf-a",
+      count: 2,
+      total: 3,
+    });
+    expect(analytics.failuresByExitCode.map((i) => [i.key, i.count])).toEqual([
+      ["1", 2],
+      ["2", 1],
+    ]);
+    expect(analytics.failingPluginFunctions.map((i) => i.label)).toEqual([
+      "fs.write",
+      "net.fetch",
+      "readFile",
+    ]);
+    expect(analytics.durations).toBeNull();
+  });
+
+  it("treats a non-zero exit code as a failure", () => {
+    const exited = create(WorkflowResultSchema, {
+      id: "c-r1",
+      ranAt: timestampFromMs(base),
+      resultType: 0,
+      exitCode: 3,
+    });
+    expect(isResultSuccess(exited)).toBe(false);
+
+    const analytics = computeAnalytics(
+      collectRuns([create(WorkflowSchema, { id: "wf-c", workflowResults: [exited] })])
+    );
+    expect(analytics.counts.failed).toBe(1);
+    expect(analytics.failuresByExitCode.map((i) => [i.key, i.count])).toEqual([
+      ["3", 1],
+    ]);
+  });
+
+  it("computes duration percentiles from recorded runs", () => {
+    recordRunMetadata("a-r1", { durationMs: 100 });
+    recordRunMetadata("a-r2", { durationMs: 300 });
+    recordRunMetadata("a-r3", { durationMs: 200 });
+    const { durations } = computeAnalytics(collectRuns(workflows));
+    expect(durations).toEqual({ count: 3, p50: 200, p90: 300, p99: 300, max: 300 });
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  it("reads the stored run metadata once per collection", () => {
+    recordRunMetadata("a-r1", { durationMs: 100, workflowCodeId: "a-2" });
+    const getItem = vi.spyOn(Storage.prototype, "getItem");
+
+    const runs = collectRuns(workflows);
+
+    expect(getItem).toHaveBeenCalledTimes(1);
+    expect(runs[0]).toMatchObject({
+      durationMs: 100,
+      pluginFunctionIds: ["net.fetch"],
+    });
+    getItem.mockRestore();
+  });
+
+  it("builds a range from the number of days", () => {
+    expect(rangeFromDays(0)).toEqual({});
+    expect(rangeFromDays(1, base).from).toBe(new Date(2026, 0, 10).getTime());
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview ワークフロー実行の集計
+ *
+ * `ListWorkflows`・`GetWorkflow` が返す `workflowResults` から、成功率の推移・
+ * 実行時間のパーセンタイル・失敗の多いワークフロー・終了コード別の失敗数・
+ * 失敗した実行で使われたプラグイン関数を集計します。実行時間は
+ * lib/run-metadata に記録した値のみを使います。
+ *
+ * @module lib/workflow-analytics
+ */
+
+import { WorkflowResultType } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Workflow, WorkflowResult } from "@/gen/sapphillon/v1/workflow_pb";
+import { findRunCode, loadRunMetadata } from "./run-metadata";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 集計対象の 1 回の実行
+ */
+export interface AnalyticsRun {
+  workflowId: string;
+  workflowName: string;
+  resultId: string;
+  /** 実行時刻（ミリ秒） */
+  ranAt: number;
+  success: boolean;
+  exitCode: number;
+  /** 実行時間（記録がない場合は null） */
+  durationMs: number | null;
+  /** 実行したコードが使うプラグイン関数の ID */
+  pluginFunctionIds: string[];
+}
+
+/**
+ * 集計する期間（ミリ秒、未指定の場合は制限なし）
+ */
+export interface AnalyticsRange {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * 実行回数の集計
+ */
+export interface RunCounts {
+  total: number;
+  successful: number;
+  failed: number;
+  /** 成功率（0〜100、実行がない場合は 0） */
+  successRate: number;
+}
+
+/**
+ * 1 日ごとの実行回数
+ */
+export interface DailyRunCounts extends RunCounts {
+  /** その日の 0 時（ローカル時刻、ミリ秒） */
+  day: number;
+}
+
+/**
+ * 実行時間のパーセンタイル
+ */
+export interface DurationPercentiles {
+  /** 実行時間を記録した実行の数 */
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * 件数の多い順の項目
+ */
+export interface RankedItem {
+  key: string;
+  label: string;
+  count: number;
+  /** 比較対象の総数（ワークフローの場合は実行回数） */
+  total?: number;
+}
+
+/**
+ * 実行の集計結果
+ */
+export interface WorkflowAnalytics {
+  counts: RunCounts;
+  daily: DailyRunCounts[];
+  durations: DurationPercentiles | null;
+  failingWorkflows: RankedItem[];
+  failuresByExitCode: RankedItem[];
+  failingPluginFunctions: RankedItem[];
+}
+
+function toMillis(timestamp?: { seconds: bigint; nanos: number }): number | null {
+  if (!timestamp) return null;
+  return Number(timestamp.seconds) * 1000 + Math.floor(timestamp.nanos / 1e6);
+}
+
+function startOfDay(ms: number): number {
+  const date = new Date(ms);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * 実行結果が成功かどうか
+ *
+ * 結果の種類が成功でも、終了コードが 0 以外の場合は失敗とみなします
+ * （結果の表示・検索・集計で同じ判定を使います）。
+ */
+export function isResultSuccess(
+  result: Pick<WorkflowResult, "resultType" | "exitCode">
+): boolean {
+  return (
+    result.resultType === WorkflowResultType.SUCCESS_UNSPECIFIED &&
+    result.exitCode === 0
+  );
+}
+
+/**
+ * 実行回数を集計
+ *
+ * @param runs - 実行結果または集計対象の実行
+ */
+export function countRuns(
+  runs: readonly (WorkflowResult | AnalyticsRun)[]
+): RunCounts {
+  const total = runs.length;
+  const successful = runs.filter((r) =>
+    "success" in r ? r.success : isResultSuccess(r)
+  ).length;
+  return {
+    total,
+    successful,
+    failed: total - successful,
+    successRate: total > 0 ? (successful / total) * 100 : 0,
+  };
+}
+
+/**
+ * ワークフローの実行結果を集計対象の実行に変換
+ *
+ * 実行時刻のない結果と期間外の結果は除きます。付加情報（lib/run-metadata）は
+ * 呼び出しごとに一度だけ読み込みます。
+ *
+ * @param workflows - ワークフロー
+ * @param range - 集計する期間
+ */
+export function collectRuns(
+  workflows: readonly Workflow[],
+  range: AnalyticsRange = {}
+): AnalyticsRun[] {
+  const metadata = loadRunMetadata();
+  return workflows.flatMap((workflow) =>
+    workflow.workflowResults.flatMap((result) => {
+      const ranAt = toMillis(result.ranAt);
+      if (ranAt === null) return [];
+      if (range.from !== undefined && ranAt < range.from) return [];
+      if (range.to !== undefined && ranAt > range.to) return [];
+      return [{
+        workflowId: workflow.id,
+        workflowName: workflow.displayName,
+        resultId: result.id,
+        ranAt,
+        success: isResultSuccess(result),
+        exitCode: result.exitCode,
+        durationMs: metadata[result.id]?.durationMs ?? null,
+        pluginFunctionIds:
+          findRunCode(result, workflow.workflowCode, metadata)?.code
+            .pluginFunctionIds ?? [],
+      }];
+    })
+  );
+}
+
+/**
+ * ソート済みの値のパーセンタイル（最近傍法）
+ *
+ * @param sorted - 昇順にソートした値
+ * @param p - パーセンタイル（0〜100）
+ */
+export function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
+
+function rank(
+  counts: Map<string, RankedItem>,
+  limit: number
+): RankedItem[] {
+  return [...counts.values()]
+    .filter((item) => item.count > 0)
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+/**
+ * 実行を集計
+ *
+ * @param runs - 集計対象の実行
+ * @param options.functionNames - プラグイン関数の ID から表示名への対応
+ * @param options.limit - ランキングの件数
+ */
+export function computeAnalytics(
+  runs: readonly AnalyticsRun[],
+  options: { functionNames?: ReadonlyMap<string, string>; limit?: number } = {}
+): WorkflowAnalytics {
+  const { functionNames = new Map<string, string>(), limit = 10 } = options;
+
+  const byDay = new Map<number, AnalyticsRun[]>();
+  for (const run of runs) {
+    const day = startOfDay(run.ranAt);
+    byDay.set(day, [...(byDay.get(day) ?? []), run]);
+  }
+  const daily = [...byDay.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, dayRuns]) => ({ day, ...countRuns(dayRuns) }));
+
+  const durations = runs
+    .flatMap((r) => (r.durationMs === null ? [] : [r.durationMs]))
+    .sort((a, b) => a - b);
+
+  const workflows = new Map<string, RankedItem>();
+  const exitCodes = new Map<string, RankedItem>();
+  const functions = new Map<string, RankedItem>();
+  for (const run of runs) {
+    const workflow = workflows.get(run.workflowId) ??
+      { key: run.workflowId, label: run.workflowName, count: 0, total: 0 };
+    workflow.total = (workflow.total ?? 0) + 1;
+    workflows.set(run.workflowId, workflow);
+    if (run.success) continue;
+
+    workflow.count++;
+    const code = String(run.exitCode);
+    const exitCode = exitCodes.get(code) ?? { key: code, label: code, count: 0 };
+    exitCode.count++;
+    exitCodes.set(code, exitCode);
+    for (const id of new Set(run.pluginFunctionIds)) {
+      const fn = functions.get(id) ??
+        { key: id, label: functionNames.get(id) ?? id, count: 0 };
+      fn.count++;
+      functions.set(id, fn);
+    }
+  }
+
+  return {
+    counts: countRuns(runs),
+    daily,
+    durations: durations.length > 0
+      ? {
+        count: durations.length,
+        p50: percentile(durations, 50),
+        p90: percentile(durations, 90),
+        p99: percentile(durations, 99),
+        max: durations[durations.length - 1],
+      }
+      : null,
+    failingWorkflows: rank(workflows, limit),
+    failuresByExitCode: rank(exitCodes, limit),
+    failingPluginFunctions: rank(functions, limit),
+  };
+}
+
+/**
+ * 直近の日数から集計する期間を作成
+ *
+ * @param days - 日数（0 の場合は制限なし）
+ * @param now - 現在時刻（ミリ秒）
+ */
+export function rangeFromDays(days: number, now = Date.now()): AnalyticsRange {
+  if (days <= 0) return {};
+  return { from: startOfDay(now) - (days - 1) * DAY_MS };
+}
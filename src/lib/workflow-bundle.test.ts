@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import {
+  WorkflowCodeSchema,
+  WorkflowResultSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  PluginFunctionSchema,
+  PluginPackageSchema,
+} from "@/gen/sapphillon/v1/plugin_pb";
+import {
+  AllowedPermissionSchema,
+  PermissionSchema,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  checkBundlePlugins,
+  createWorkflowBundle,
+  parseWorkflowBundle,
+  toImportedWorkflow,
+} from "./workflow-bundle";
+
+const fsPlugin = create(PluginPackageSchema, {
+  packageId: "fs",
+  packageName: "File System",
+  packageVersion: "1.0.0",
+});
+
+const workflow = create(WorkflowSchema, {
+  id: "wf-1",
+  displayName: "Backup",
+  workflowCode: [
+    create(WorkflowCodeSchema, { id: "c-1", codeRevision: 1, code: "v1" }),
+    create(WorkflowCodeSchema, {
+      id: "c-2",
+      codeRevision: 2,
+      code: "v2",
+      pluginPackages: [fsPlugin],
+      pluginFunctionIds: ["fs.read"],
+      allowedPermissions: [
+        create(AllowedPermissionSchema, {
+          pluginFunctionId: "fs.read",
+          permissions: [
+            create(PermissionSchema, {
+              permissionType: PermissionType.FILESYSTEM_READ,
+              resource: ["/tmp"],
+            }),
+          ],
+        }),
+      ],
+      result: [create(WorkflowResultSchema, { id: "r-1", result: "ok" })],
+    }),
+  ],
+  workflowResults: [create(WorkflowResultSchema, { id: "r-1", result: "ok" })],
+});
+
+describe("workflow bundle", () => {
+  it("exports selected revisions with a manifest and without IDs", () => {
+    const bundle = createWorkflowBundle(workflow, { workflowCodeIds: ["c-2"] });
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(bundle.version).toBe(BUNDLE_VERSION);
+    expect(bundle.manifest).toMatchObject({
+      displayName: "Backup",
+      revisions: [2],
+      includesResults: false,
+      plugins: [{ packageId: "fs", packageVersion: "1.0.0" }],
+      pluginFunctionIds: ["fs.read"],
+      permissions: [{
+        pluginFunctionId: "fs.read",
+        permissions: [{ type: "FILESYSTEM_READ", resources: ["/tmp"] }],
+      }],
+    });
+    expect(JSON.stringify(bundle.workflow)).not.toMatch(/"(wf-1|c-2|r-1)"/);
+  });
+
+  it("round-trips through JSON and renumbers revisions on import", () => {
+    const bundle = createWorkflowBundle(workflow, { includeResults: true });
+    const parsed = parseWorkflowBundle(JSON.stringify(bundle));
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.bundle.manifest.includesResults).toBe(true);
+
+    const imported = toImportedWorkflow(parsed.workflow, "Copy");
+    expect(imported.displayName).toBe("Copy");
+    expect(imported.workflowCode.map((c) => [c.codeRevision, c.code])).toEqual([
+      [1, "v1"],
+      [2, "v2"],
+    ]);
+    expect(imported.workflowResults).toHaveLength(1);
+  });
+
+  it("rejects invalid files and newer bundle versions", () => {
+    expect(parseWorkflowBundle("{")).toEqual({ ok: false, error: "invalidJson" });
+    expect(parseWorkflowBundle('{"format":"other"}')).toEqual({
+      ok: false,
+      error: "invalidFormat",
+    });
+    const bundle = createWorkflowBundle(workflow);
+    expect(
+      parseWorkflowBundle(
+        JSON.stringify({ ...bundle, version: BUNDLE_VERSION + 1 })
+      )
+    ).toEqual({ ok: false, error: "unsupportedVersion" });
+  });
+
+  it("reports missing, deprecated and mismatched plugins", () => {
+    const { manifest } = createWorkflowBundle(workflow);
+    expect(checkBundlePlugins(manifest, [])).toEqual([
+      { kind: "missingPlugin", plugin: manifest.plugins[0] },
+      { kind: "missingFunction", pluginFunctionId: "fs.read" },
+    ]);
+
+    const local = create(PluginPackageSchema, {
+      packageId: "fs",
+      packageVersion: "2.0.0",
+      deprecated: true,
+      functions: [create(PluginFunctionSchema, { functionId: "fs.read" })],
+    });
+    expect(checkBundlePlugins(manifest, [local]).map((i) => i.kind)).toEqual([
+      "deprecatedPlugin",
+      "versionMismatch",
+    ]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview ワークフローのバンドル（インスタンス間の持ち運び用 JSON）
+ *
+ * ワークフローを、必要なプラグインパッケージ・関数・権限をまとめた
+ * マニフェスト付きの JSON に書き出し、読み込み時に形式とバージョンを検証します。
+ * ID はインスタンスごとに異なるため書き出し時に取り除き、読み込み先で採番します。
+ *
+ * @module lib/workflow-bundle
+ */
+
+import { create, fromJson, toJson } from "@bufbuild/protobuf";
+import type { JsonValue } from "@bufbuild/protobuf";
+import {
+  WorkflowCodeSchema,
+  WorkflowResultSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import type {
+  Workflow,
+  WorkflowCode,
+  WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import type { PluginPackage } from "@/gen/sapphillon/v1/plugin_pb";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import { APP_INFO } from "./constants";
+
+/** バンドルの形式名 */
+export const BUNDLE_FORMAT = "sapphillon-workflow-bundle";
+/** バンドルの形式のバージョン（互換性のない変更をしたときに上げる） */
+export const BUNDLE_VERSION = 1;
+
+/**
+ * マニフェストのプラグインパッケージ
+ */
+export interface BundlePlugin {
+  packageId: string;
+  packageName: string;
+  packageVersion: string;
+}
+
+/**
+ * マニフェストの権限（関数ごと）
+ */
+export interface BundlePermission {
+  pluginFunctionId: string;
+  permissions: { type: string; resources: string[] }[];
+}
+
+/**
+ * バンドルのマニフェスト
+ */
+export interface BundleManifest {
+  displayName: string;
+  /** 含まれるコードリビジョン（書き出し元の番号） */
+  revisions: number[];
+  includesResults: boolean;
+  plugins: BundlePlugin[];
+  pluginFunctionIds: string[];
+  permissions: BundlePermission[];
+}
+
+/**
+ * ワークフローのバンドル
+ */
+export interface WorkflowBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  /** 書き出した日時（ISO 8601） */
+  exportedAt: string;
+  /** 書き出したアプリケーション */
+  generator: string;
+  manifest: BundleManifest;
+  /** ワークフロー（protobuf の JSON 形式） */
+  workflow: JsonValue;
+}
+
+/**
+ * 読み込めなかった理由
+ */
+export type BundleParseError =
+  | "invalidJson"
+  | "invalidFormat"
+  | "unsupportedVersion"
+  | "invalidWorkflow";
+
+/**
+ * 読み込み結果
+ */
+export type BundleParseResult =
+  | { ok: true; bundle: WorkflowBundle; workflow: Workflow }
+  | { ok: false; error: BundleParseError };
+
+/**
+ * 読み込み先のプラグインとの照合で見つかった問題
+ */
+export type BundleIssue =
+  | { kind: "missingPlugin"; plugin: BundlePlugin }
+  | { kind: "versionMismatch"; plugin: BundlePlugin; localVersion: string }
+  | { kind: "deprecatedPlugin"; plugin: BundlePlugin }
+  | { kind: "missingFunction"; pluginFunctionId: string };
+
+function stripResult(result: WorkflowResult): WorkflowResult {
+  return create(WorkflowResultSchema, { ...result, id: "" });
+}
+
+function stripCode(code: WorkflowCode, includeResults: boolean): WorkflowCode {
+  return create(WorkflowCodeSchema, {
+    ...code,
+    id: "",
+    result: includeResults ? code.result.map(stripResult) : [],
+  });
+}
+
+/**
+ * コードリビジョンからマニフェストを作成
+ */
+function createManifest(
+  workflow: Workflow,
+  includeResults: boolean
+): BundleManifest {
+  const plugins = new Map<string, BundlePlugin>();
+  const functionIds = new Set<string>();
+  const permissions = new Map<string, BundlePermission>();
+  for (const code of workflow.workflowCode) {
+    for (const p of code.pluginPackages) {
+      plugins.set(p.packageId, {
+        packageId: p.packageId,
+        packageName: p.packageName,
+        packageVersion: p.packageVersion,
+      });
+    }
+    code.pluginFunctionIds.forEach((id) => functionIds.add(id));
+    for (const allowed of code.allowedPermissions) {
+      permissions.set(allowed.pluginFunctionId, {
+        pluginFunctionId: allowed.pluginFunctionId,
+        permissions: allowed.permissions.map((p) => ({
+          type: PermissionType[p.permissionType] ?? String(p.permissionType),
+          resources: [...p.resource],
+        })),
+      });
+    }
+  }
+  return {
+    displayName: workflow.displayName,
+    revisions: workflow.workflowCode.map((c) => c.codeRevision),
+    includesResults: includeResults,
+    plugins: [...plugins.values()],
+    pluginFunctionIds: [...functionIds],
+    permissions: [...permissions.values()],
+  };
+}
+
+/**
+ * ワークフローをバンドルに書き出し
+ *
+ * @param workflow - 書き出すワークフロー
+ * @param options.workflowCodeIds - 書き出すコードリビジョンの ID（省略時はすべて）
+ * @param options.includeResults - 実行結果を含めるか
+ */
+export function createWorkflowBundle(
+  workflow: Workflow,
+  options: { workflowCodeIds?: readonly string[]; includeResults?: boolean } = {}
+): WorkflowBundle {
+  const { workflowCodeIds, includeResults = false } = options;
+  const exported = create(WorkflowSchema, {
+    ...workflow,
+    id: "",
+    workflowCode: workflow.workflowCode
+      .filter((c) => !workflowCodeIds || workflowCodeIds.includes(c.id))
+      .map((c) => stripCode(c, includeResults)),
+    workflowResults: includeResults
+      ? workflow.workflowResults.map(stripResult)
+      : [],
+  });
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    generator: `${APP_INFO.name} ${APP_INFO.version}`,
+    manifest: createManifest(exported, includeResults),
+    workflow: toJson(WorkflowSchema, exported),
+  };
+}
+
+/**
+ * バンドルを読み込み
+ *
+ * @param text - バンドルの JSON
+ */
+export function parseWorkflowBundle(text: string): BundleParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "invalidJson" };
+  }
+
+  const bundle = data as Partial<WorkflowBundle> | null;
+  if (
+    !bundle || typeof bundle !== "object" || bundle.format !== BUNDLE_FORMAT ||
+    typeof bundle.version !== "number" || !bundle.manifest ||
+    typeof bundle.manifest !== "object" || bundle.workflow === undefined
+  ) {
+    return { ok: false, error: "invalidFormat" };
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    return { ok: false, error: "unsupportedVersion" };
+  }
+
+  let workflow: Workflow;
+  try {
+    workflow = fromJson(WorkflowSchema, bundle.workflow, {
+      ignoreUnknownFields: true,
+    });
+  } catch {
+    return { ok: false, error: "invalidWorkflow" };
+  }
+  if (workflow.workflowCode.length === 0) {
+    return { ok: false, error: "invalidWorkflow" };
+  }
+
+  // 古いバージョンや手で編集したバンドルでも欠けないよう、マニフェストは
+  // ワークフローから作り直す
+  return {
+    ok: true,
+    bundle: {
+      ...(bundle as WorkflowBundle),
+      manifest: createManifest(workflow, bundle.manifest.includesResults ?? false),
+    },
+    workflow,
+  };
+}
+
+/**
+ * バンドルが必要とするプラグインを読み込み先のプラグインと照合
+ *
+ * @param manifest - バンドルのマニフェスト
+ * @param localPlugins - 読み込み先の `ListPlugins` の結果
+ */
+export function checkBundlePlugins(
+  manifest: BundleManifest,
+  localPlugins: readonly PluginPackage[]
+): BundleIssue[] {
+  const local = new Map(localPlugins.map((p) => [p.packageId, p]));
+  const localFunctions = new Set(
+    localPlugins.flatMap((p) => p.functions.map((f) => f.functionId))
+  );
+
+  const issues: BundleIssue[] = [];
+  for (const plugin of manifest.plugins) {
+    const installed = local.get(plugin.packageId);
+    if (!installed) {
+      issues.push({ kind: "missingPlugin", plugin });
+      continue;
+    }
+    if (installed.deprecated) {
+      issues.push({ kind: "deprecatedPlugin", plugin });
+    }
+    if (
+      plugin.packageVersion &&
+      installed.packageVersion !== plugin.packageVersion
+    ) {
+      issues.push({
+        kind: "versionMismatch",
+        plugin,
+        localVersion: installed.packageVersion,
+      });
+    }
+  }
+  for (const id of manifest.pluginFunctionIds) {
+    if (!localFunctions.has(id)) {
+      issues.push({ kind: "missingFunction", pluginFunctionId: id });
+    }
+  }
+  return issues;
+}
+
+/**
+ * 読み込んだワークフローを作成用に整える
+ *
+ * コードリビジョンは 1 から振り直します。
+ *
+ * @param workflow - バンドルのワークフロー
+ * @param displayName - 作成するワークフローの名前
+ */
+export function toImportedWorkflow(
+  workflow: Workflow,
+  displayName: string
+): Workflow {
+  const includeResults = workflow.workflowResults.length > 0 ||
+    workflow.workflowCode.some((c) => c.result.length > 0);
+  return create(WorkflowSchema, {
+    ...workflow,
+    id: "",
+    displayName,
+    workflowCode: [...workflow.workflowCode]
+      .sort((a, b) => a.codeRevision - b.codeRevision)
+      .map((c, i) =>
+        create(WorkflowCodeSchema, {
+          ...stripCode(c, includeResults),
+          codeRevision: i + 1,
+        })
+      ),
+    workflowResults: workflow.workflowResults.map(stripResult),
+  });
+}
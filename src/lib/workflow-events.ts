@@ -0,0 +1,72 @@
+/**
+ * @fileoverview ワークフロー変更イベント
+ *
+ * ワークフローの作成・更新・削除をアプリ内に通知するための軽量なイベントバスです。
+ * 一覧を表示しているフック（useWorkflowsList など）はこのイベントを購読し、
+ * 別の画面で行われた変更を反映します。変更は lib/tab-sync で他のタブにも伝わり、
+ * 他のタブで行われた変更も同じように通知されます。
+ *
+ * @module lib/workflow-events
+ */
+
+import { onSyncMessage, publishSync } from "./tab-sync";
+
+/** イベント名 */
+const WORKFLOWS_CHANGED_EVENT = "sapphillon:workflows-changed";
+
+/**
+ * ワークフロー変更イベントの内容
+ */
+export type WorkflowChange =
+  | { type: "created"; workflowId: string }
+  | { type: "updated"; workflowId: string }
+  | { type: "deleted"; workflowId: string }
+  | { type: "restored"; workflowId: string };
+
+const target: EventTarget = new EventTarget();
+
+/**
+ * ワークフローの変更を通知
+ *
+ * @param change - 変更内容
+ *
+ * @example
+ * ```typescript
+ * await clients.workflow.deleteWorkflow({ workflowId });
+ * emitWorkflowChange({ type: "deleted", workflowId });
+ * ```
+ */
+export function emitWorkflowChange(change: WorkflowChange): void {
+  dispatchWorkflowChange(change);
+  publishSync("workflow", change);
+}
+
+function dispatchWorkflowChange(change: WorkflowChange): void {
+  target.dispatchEvent(
+    new CustomEvent<WorkflowChange>(WORKFLOWS_CHANGED_EVENT, { detail: change })
+  );
+}
+
+/**
+ * ワークフローの変更を購読
+ *
+ * @param listener - 変更時に呼ばれるコールバック
+ * @returns 購読解除関数
+ *
+ * @example
+ * ```typescript
+ * React.useEffect(() => onWorkflowChange(() => refetch()), [refetch]);
+ * ```
+ */
+export function onWorkflowChange(
+  listener: (change: WorkflowChange) => void
+): () => void {
+  const handler = (e: Event) => {
+    listener((e as CustomEvent<WorkflowChange>).detail);
+  };
+  target.addEventListener(WORKFLOWS_CHANGED_EVENT, handler);
+  return () => target.removeEventListener(WORKFLOWS_CHANGED_EVENT, handler);
+}
+
+// 他のタブでの変更をこのタブにも通知
+onSyncMessage("workflow", dispatchWorkflowChange);
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { OrderByDirection } from "@/gen/sapphillon/v1/workflow_service_pb";
+import type { ListViewSettings } from "./workflow-list-views";
+
+type ListViewsModule = typeof import("./workflow-list-views");
+
+const STORAGE_KEY = "sapphillon-workflow-list-views";
+
+const failing: ListViewSettings = {
+  filter: {
+    query: "status:failed ran:<7d",
+    scope: { kind: "favorites" },
+    tags: ["daily"],
+  },
+  sort: [{ field: "updated_at", direction: "desc" }],
+  columns: ["lastRun", "runCount"],
+  pageSize: 50,
+};
+
+describe("workflow-list-views", () => {
+  let views: ListViewsModule;
+
+  beforeEach(async () => {
+    // モジュール内のキャッシュを毎回作り直す
+    localStorage.clear();
+    vi.resetModules();
+    views = await import("./workflow-list-views");
+  });
+
+  it("saves views with a default and persists them", () => {
+    const created = views.createListView({ name: " Failing ", ...failing });
+    views.setDefaultListView(created.id);
+
+    const state = views.getListViews();
+    expect(state.views).toEqual([{ ...failing, id: created.id, name: "Failing" }]);
+    expect(views.getDefaultListView(state)?.id).toBe(created.id);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}")).toEqual(state);
+  });
+
+  it("updates a view and clears the default when it is deleted", () => {
+    const created = views.createListView({ name: "Failing", ...failing });
+    views.setDefaultListView(created.id);
+    views.updateListView(created.id, { pageSize: 10 });
+    expect(views.getListViews().views[0].pageSize).toBe(10);
+
+    views.deleteListView(created.id);
+    expect(views.getListViews()).toEqual({ views: [], defaultViewId: null });
+  });
+
+  it("ignores unknown views when setting the default", () => {
+    views.setDefaultListView("missing");
+    expect(views.getListViews().defaultViewId).toBeNull();
+  });
+
+  it("notifies subscribers on change", () => {
+    const listener = vi.fn();
+    const unsubscribe = views.onListViewsChange(listener);
+    views.createListView({ name: "A", ...failing });
+    unsubscribe();
+    views.createListView({ name: "B", ...failing });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("repairs broken stored views", async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        views: [
+          { id: "a", name: "A", columns: ["runCount", "unknown"], sort: "x" },
+          { name: "no id" },
+        ],
+        defaultViewId: "missing",
+      })
+    );
+    vi.resetModules();
+    views = await import("./workflow-list-views");
+
+    expect(views.getListViews()).toEqual({
+      views: [
+        {
+          id: "a",
+          name: "A",
+          filter: { query: "", scope: { kind: "all" }, tags: [] },
+          sort: [],
+          columns: ["runCount"],
+          pageSize: views.DEFAULT_LIST_PAGE_SIZE,
+        },
+      ],
+      defaultViewId: null,
+    });
+  });
+
+  it("compares settings regardless of column and tag order", () => {
+    expect(
+      views.isSameListViewSettings(failing, {
+        ...failing,
+        filter: { ...failing.filter, query: " status:failed ran:<7d " },
+        columns: ["runCount", "lastRun"],
+      })
+    ).toBe(true);
+    expect(
+      views.isSameListViewSettings(failing, { ...failing, pageSize: 20 })
+    ).toBe(false);
+    expect(
+      views.isSameListViewSettings(failing, {
+        ...failing,
+        filter: { ...failing.filter, scope: { kind: "all" } },
+      })
+    ).toBe(false);
+  });
+
+  it("converts sort order to and from OrderByClause", () => {
+    const orderBy = views.toOrderBy(failing.sort);
+    expect(orderBy[0].field).toBe("updated_at");
+    expect(orderBy[0].direction).toBe(OrderByDirection.DESC);
+    expect(views.fromOrderBy(orderBy)).toEqual(failing.sort);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * @fileoverview ワークフロー一覧の保存したビュー
+ *
+ * 一覧の絞り込み（検索クエリ・範囲・タグ）・並び順・表示する列・1 ページの
+ * 件数に名前を付けて localStorage に保存します。1 つのビューを既定にでき、
+ * 一覧を開いたときに適用されます。
+ *
+ * 変更は購読者に通知され、lib/tab-sync で他のタブにも伝わります。
+ *
+ * @module lib/workflow-list-views
+ */
+
+import { create } from "@bufbuild/protobuf";
+import {
+  OrderByClauseSchema,
+  OrderByDirection,
+} from "@/gen/sapphillon/v1/workflow_service_pb";
+import type { OrderByClause } from "@/gen/sapphillon/v1/workflow_service_pb";
+import { onSyncMessage, publishSync } from "./tab-sync";
+import type { WorkflowListScope } from "./workflow-organization";
+
+const STORAGE_KEY = "sapphillon-workflow-list-views";
+
+/** イベント名 */
+const LIST_VIEWS_CHANGED_EVENT = "sapphillon:list-views-changed";
+
+/**
+ * 名前・操作以外に表示できる列
+ */
+export const LIST_COLUMNS = [
+  "lastRun",
+  "runCount",
+  "revisionCount",
+  "updatedAt",
+  "plugins",
+] as const;
+
+export type ListColumn = (typeof LIST_COLUMNS)[number];
+
+/** ビューを選んでいないときの列 */
+export const DEFAULT_LIST_COLUMNS: readonly ListColumn[] = ["lastRun"];
+
+/** 選べる 1 ページの件数 */
+export const LIST_PAGE_SIZES = [10, 20, 50, 100] as const;
+
+/** ビューを選んでいないときの 1 ページの件数 */
+export const DEFAULT_LIST_PAGE_SIZE = 20;
+
+/**
+ * 並び順（`OrderByClause` を JSON で保存できる形にしたもの）
+ */
+export interface ListViewSort {
+  /** フィールド名（例: `display_name`・`updated_at`） */
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * ビューの絞り込み条件
+ */
+export interface ListViewFilter {
+  /** 検索クエリ（lib/workflow-search） */
+  query: string;
+  scope: WorkflowListScope;
+  tags: string[];
+}
+
+/**
+ * 保存したビュー
+ */
+export interface WorkflowListView {
+  id: string;
+  name: string;
+  filter: ListViewFilter;
+  sort: ListViewSort[];
+  columns: ListColumn[];
+  pageSize: number;
+}
+
+/**
+ * ビューの設定（名前と ID 以外）
+ */
+export type ListViewSettings = Omit<WorkflowListView, "id" | "name">;
+
+/** ビューを選んでいないときの設定 */
+export const DEFAULT_LIST_VIEW_SETTINGS: ListViewSettings = {
+  filter: { query: "", scope: { kind: "all" }, tags: [] },
+  sort: [],
+  columns: [...DEFAULT_LIST_COLUMNS],
+  pageSize: DEFAULT_LIST_PAGE_SIZE,
+};
+
+/**
+ * 保存したビューの一覧と既定のビュー
+ */
+export interface WorkflowListViewsState {
+  views: WorkflowListView[];
+  /** 一覧を開いたときに適用するビュー */
+  defaultViewId: string | null;
+}
+
+const target: EventTarget = new EventTarget();
+
+let cache: WorkflowListViewsState | null = null;
+
+function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function isListColumn(value: unknown): value is ListColumn {
+  return (LIST_COLUMNS as readonly unknown[]).includes(value);
+}
+
+/**
+ * 保存された値を補正（古い形式や壊れた値でも一覧を表示できるようにする）
+ */
+function normalizeView(value: unknown): WorkflowListView | null {
+  const v = value as Partial<WorkflowListView> | null;
+  if (!v || typeof v.id !== "string" || typeof v.name !== "string") {
+    return null;
+  }
+  const filter: Partial<ListViewFilter> = v.filter ?? {};
+  return {
+    id: v.id,
+    name: v.name,
+    filter: {
+      query: typeof filter.query === "string" ? filter.query : "",
+      scope: filter.scope?.kind ? filter.scope : { kind: "all" },
+      tags: Array.isArray(filter.tags) ? filter.tags : [],
+    },
+    sort: Array.isArray(v.sort)
+      ? v.sort.filter((s) =>
+        typeof s?.field === "string" &&
+        (s.direction === "asc" || s.direction === "desc")
+      )
+      : [],
+    columns: Array.isArray(v.columns)
+      ? v.columns.filter(isListColumn)
+      : [...DEFAULT_LIST_COLUMNS],
+    pageSize: typeof v.pageSize === "number" && v.pageSize > 0
+      ? v.pageSize
+      : DEFAULT_LIST_PAGE_SIZE,
+  };
+}
+
+function load(): WorkflowListViewsState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    const views = (Array.isArray(parsed?.views) ? parsed.views as unknown[] : [])
+      .map(normalizeView)
+      .filter((v): v is WorkflowListView => v !== null);
+    const defaultViewId = views.some((v) => v.id === parsed?.defaultViewId)
+      ? (parsed.defaultViewId as string)
+      : null;
+    return { views, defaultViewId };
+  } catch {
+    return { views: [], defaultViewId: null };
+  }
+}
+
+function save(state: WorkflowListViewsState): void {
+  cache = state;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save workflow list views:", e);
+  }
+  notify();
+  publishSync("list-views", null);
+}
+
+function notify(): void {
+  target.dispatchEvent(new Event(LIST_VIEWS_CHANGED_EVENT));
+}
+
+/**
+ * 保存したビューを取得
+ *
+ * 変更があるまで同じオブジェクトを返します（`useSyncExternalStore` で使用できます）。
+ */
+export function getListViews(): WorkflowListViewsState {
+  if (!cache) cache = load();
+  return cache;
+}
+
+/**
+ * ビューの変更を購読
+ *
+ * @param listener - 変更時に呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onListViewsChange(listener: () => void): () => void {
+  target.addEventListener(LIST_VIEWS_CHANGED_EVENT, listener);
+  return () => target.removeEventListener(LIST_VIEWS_CHANGED_EVENT, listener);
+}
+
+/**
+ * 既定のビューを取得（ない場合は null）
+ */
+export function getDefaultListView(
+  state: WorkflowListViewsState
+): WorkflowListView | null {
+  return state.views.find((v) => v.id === state.defaultViewId) ?? null;
+}
+
+/**
+ * 新しいビューを保存
+ *
+ * @param view - 保存する内容（ID は自動で割り当てます）
+ * @returns 保存したビュー
+ */
+export function createListView(
+  view: Omit<WorkflowListView, "id">
+): WorkflowListView {
+  const state = getListViews();
+  const created: WorkflowListView = {
+    ...view,
+    name: view.name.trim(),
+    id: createId(),
+  };
+  save({ ...state, views: [...state.views, created] });
+  return created;
+}
+
+/**
+ * 保存したビューを上書き
+ */
+export function updateListView(
+  id: string,
+  update: Partial<Omit<WorkflowListView, "id">>
+): void {
+  const state = getListViews();
+  save({
+    ...state,
+    views: state.views.map((v) =>
+      v.id === id
+        ? { ...v, ...update, name: (update.name ?? v.name).trim() }
+        : v
+    ),
+  });
+}
+
+/**
+ * ビューを削除（既定のビューだった場合は既定を解除します）
+ */
+export function deleteListView(id: string): void {
+  const state = getListViews();
+  save({
+    views: state.views.filter((v) => v.id !== id),
+    defaultViewId: state.defaultViewId === id ? null : state.defaultViewId,
+  });
+}
+
+/**
+ * 既定のビューを設定
+ *
+ * @param id - 既定にするビュー（null の場合は解除）
+ */
+export function setDefaultListView(id: string | null): void {
+  const state = getListViews();
+  if (id && !state.views.some((v) => v.id === id)) return;
+  save({ ...state, defaultViewId: id });
+}
+
+/**
+ * 2 つの設定が同じか（列は表示順を問わず比較します）
+ */
+export function isSameListViewSettings(
+  a: ListViewSettings,
+  b: ListViewSettings
+): boolean {
+  const sameSet = (x: readonly string[], y: readonly string[]) =>
+    x.length === y.length && x.every((v) => y.includes(v));
+  return (
+    a.filter.query.trim() === b.filter.query.trim() &&
+    JSON.stringify(a.filter.scope) === JSON.stringify(b.filter.scope) &&
+    sameSet(a.filter.tags, b.filter.tags) &&
+    JSON.stringify(a.sort) === JSON.stringify(b.sort) &&
+    sameSet(a.columns, b.columns) &&
+    a.pageSize === b.pageSize
+  );
+}
+
+/**
+ * 保存した並び順を `ListWorkflows` の `orderBy` に変換
+ */
+export function toOrderBy(sort: readonly ListViewSort[]): OrderByClause[] {
+  return sort.map((s) =>
+    create(OrderByClauseSchema, {
+      field: s.field,
+      direction: s.direction === "desc"
+        ? OrderByDirection.DESC
+        : OrderByDirection.ASC,
+    })
+  );
+}
+
+/**
+ * `ListWorkflows` の `orderBy` を保存できる形に変換
+ */
+export function fromOrderBy(orderBy: readonly OrderByClause[]): ListViewSort[] {
+  return orderBy.map((o) => ({
+    field: o.field,
+    direction: o.direction === OrderByDirection.DESC ? "desc" : "asc",
+  }));
+}
+
+// 他のタブでの変更を読み直して通知
+onSyncMessage("list-views", () => {
+  cache = null;
+  notify();
+});
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type OrganizationModule = typeof import("./workflow-organization");
+
+describe("workflow-organization", () => {
+  let org: OrganizationModule;
+
+  beforeEach(async () => {
+    // モジュール内のキャッシュを毎回作り直す
+    localStorage.clear();
+    vi.resetModules();
+    org = await import("./workflow-organization");
+  });
+
+  it("stores tags, favorites and folders per workflow and persists them", () => {
+    const folder = org.createFolder("  Reports ");
+    org.setWorkflowTags("wf-1", [" daily", "daily", "", "mail "]);
+    org.toggleWorkflowFavorite("wf-1");
+    org.moveWorkflowToFolder("wf-1", folder.id);
+
+    const meta = org.getWorkflowMeta(org.getWorkflowOrganization(), "wf-1");
+    expect(meta).toEqual({
+      folderId: folder.id,
+      tags: ["daily", "mail"],
+      favorite: true,
+    });
+    expect(folder.name).toBe("Reports");
+
+    const stored = JSON.parse(
+      localStorage.getItem("sapphillon-workflow-organization") ?? "{}"
+    );
+    expect(stored.workflows["wf-1"].tags).toEqual(["daily", "mail"]);
+  });
+
+  it("drops empty metadata and ignores moves to unknown folders", () => {
+    org.toggleWorkflowFavorite("wf-1");
+    org.toggleWorkflowFavorite("wf-1");
+    org.moveWorkflowToFolder("wf-2", "missing");
+
+    expect(org.getWorkflowOrganization().workflows).toEqual({});
+  });
+
+  it("notifies subscribers on change", () => {
+    const listener = vi.fn();
+    const unsubscribe = org.onWorkflowOrganizationChange(listener);
+    org.createFolder("A");
+    unsubscribe();
+    org.createFolder("B");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects moving a folder into its own subtree", () => {
+    const parent = org.createFolder("Parent");
+    const child = org.createFolder("Child", parent.id);
+    const grandchild = org.createFolder("Grandchild", child.id);
+
+    expect(org.moveFolder(parent.id, grandchild.id)).toBe(false);
+    expect(org.moveFolder(parent.id, parent.id)).toBe(false);
+    expect(org.moveFolder(grandchild.id, null)).toBe(true);
+
+    const { folders } = org.getWorkflowOrganization();
+    expect(folders.find((f) => f.id === grandchild.id)?.parentId).toBeNull();
+    expect(org.getFolderPath(folders, child.id).map((f) => f.name)).toEqual([
+      "Parent",
+      "Child",
+    ]);
+  });
+
+  it("moves child folders and workflows to the parent when a folder is deleted", () => {
+    const parent = org.createFolder("Parent");
+    const child = org.createFolder("Child", parent.id);
+    const grandchild = org.createFolder("Grandchild", child.id);
+    org.moveWorkflowToFolder("wf-1", child.id);
+
+    org.deleteFolder(child.id);
+
+    const organization = org.getWorkflowOrganization();
+    expect(organization.folders.map((f) => f.id)).toEqual([
+      parent.id,
+      grandchild.id,
+    ]);
+    expect(
+      organization.folders.find((f) => f.id === grandchild.id)?.parentId
+    ).toBe(parent.id);
+    expect(org.getWorkflowMeta(organization, "wf-1").folderId).toBe(parent.id);
+  });
+
+  it("lists tags by usage count", () => {
+    org.setWorkflowTags("wf-1", ["b", "a"]);
+    org.setWorkflowTags("wf-2", ["b"]);
+
+    expect(org.listTags(org.getWorkflowOrganization())).toEqual([
+      { tag: "b", count: 2 },
+      { tag: "a", count: 1 },
+    ]);
+  });
+
+  it("matches folder, tag and favorite filters", () => {
+    const parent = org.createFolder("Parent");
+    const child = org.createFolder("Child", parent.id);
+    org.moveWorkflowToFolder("wf-1", child.id);
+    org.setWorkflowTags("wf-1", ["daily", "mail"]);
+    org.toggleWorkflowFavorite("wf-2");
+
+    const organization = org.getWorkflowOrganization();
+    const matches = (id: string, filter: Parameters<
+      OrganizationModule["matchesOrganizationFilter"]
+    >[2]) => org.matchesOrganizationFilter(organization, id, filter);
+
+    expect(matches("wf-1", { folderId: parent.id })).toBe(true);
+    expect(matches("wf-2", { folderId: parent.id })).toBe(false);
+    expect(matches("wf-1", { folderId: null })).toBe(false);
+    expect(matches("wf-2", { folderId: null })).toBe(true);
+    expect(matches("wf-1", { tags: ["daily", "mail"] })).toBe(true);
+    expect(matches("wf-1", { tags: ["daily", "weekly"] })).toBe(false);
+    expect(matches("wf-1", { favorites: true })).toBe(false);
+    expect(matches("wf-2", { favorites: true })).toBe(true);
+    expect(matches("wf-3", {})).toBe(true);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * @fileoverview ワークフローのタグ・フォルダー・お気に入りの保存
+ *
+ * API がまだ対応していないため、ワークフローの整理情報をワークフロー ID ごとに
+ * localStorage に保存します。フォルダーは入れ子にでき、ワークフローは 1 つの
+ * フォルダー（またはルート）に属します。
+ *
+ * 変更は購読者に通知され、lib/tab-sync で他のタブにも伝わります。
+ *
+ * @module lib/workflow-organization
+ */
+
+import { onSyncMessage, publishSync } from "./tab-sync";
+
+const STORAGE_KEY = "sapphillon-workflow-organization";
+
+/** イベント名 */
+const ORGANIZATION_CHANGED_EVENT = "sapphillon:organization-changed";
+
+/**
+ * フォルダー
+ */
+export interface WorkflowFolder {
+  id: string;
+  name: string;
+  /** 親フォルダーの ID（ルートの場合は null） */
+  parentId: string | null;
+}
+
+/**
+ * ワークフローごとの整理情報
+ */
+export interface WorkflowMeta {
+  /** 属するフォルダーの ID（ルートの場合は null） */
+  folderId: string | null;
+  tags: string[];
+  favorite: boolean;
+}
+
+/**
+ * 保存する整理情報の全体
+ */
+export interface WorkflowOrganization {
+  folders: WorkflowFolder[];
+  workflows: Record<string, WorkflowMeta>;
+}
+
+/**
+ * 整理情報による絞り込み条件
+ *
+ * - `folderId`: 指定したフォルダーとその子孫のフォルダーに属するもの
+ *   （null はルート直下のみ、undefined は制限なし）
+ * - `tags`: 全てのタグが付いているもの
+ * - `favorites`: お気に入りのみ
+ */
+export interface OrganizationFilter {
+  folderId?: string | null;
+  tags?: readonly string[];
+  favorites?: boolean;
+}
+
+/**
+ * 一覧に表示する範囲
+ *
+ * - `all`: すべて
+ * - `favorites`: お気に入り
+ * - `unfiled`: フォルダーに入っていないもの
+ * - `folder`: 指定したフォルダー（子孫を含む）
+ */
+export type WorkflowListScope =
+  | { kind: "all" }
+  | { kind: "favorites" }
+  | { kind: "unfiled" }
+  | { kind: "folder"; folderId: string };
+
+const EMPTY_META: WorkflowMeta = { folderId: null, tags: [], favorite: false };
+
+const target: EventTarget = new EventTarget();
+
+let cache: WorkflowOrganization | null = null;
+
+function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function load(): WorkflowOrganization {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return {
+      folders: Array.isArray(parsed?.folders) ? parsed.folders : [],
+      workflows: parsed?.workflows && typeof parsed.workflows === "object"
+        ? parsed.workflows
+        : {},
+    };
+  } catch {
+    return { folders: [], workflows: {} };
+  }
+}
+
+function save(organization: WorkflowOrganization): void {
+  cache = organization;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(organization));
+  } catch (e) {
+    console.error("Failed to save workflow organization:", e);
+  }
+  notify();
+  publishSync("organization", null);
+}
+
+function notify(): void {
+  target.dispatchEvent(new Event(ORGANIZATION_CHANGED_EVENT));
+}
+
+/**
+ * 保存されている整理情報を取得
+ *
+ * 変更があるまで同じオブジェクトを返します（`useSyncExternalStore` で使用できます）。
+ */
+export function getWorkflowOrganization(): WorkflowOrganization {
+  if (!cache) cache = load();
+  return cache;
+}
+
+/**
+ * 整理情報の変更を購読
+ *
+ * @param listener - 変更時に呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onWorkflowOrganizationChange(listener: () => void): () => void {
+  target.addEventListener(ORGANIZATION_CHANGED_EVENT, listener);
+  return () =>
+    target.removeEventListener(ORGANIZATION_CHANGED_EVENT, listener);
+}
+
+/**
+ * ワークフローの整理情報を取得
+ */
+export function getWorkflowMeta(
+  organization: WorkflowOrganization,
+  workflowId: string
+): WorkflowMeta {
+  return organization.workflows[workflowId] ?? EMPTY_META;
+}
+
+function updateMeta(
+  workflowId: string,
+  update: (meta: WorkflowMeta) => WorkflowMeta
+): void {
+  const organization = getWorkflowOrganization();
+  const meta = update(getWorkflowMeta(organization, workflowId));
+  const workflows = { ...organization.workflows };
+  if (!meta.folderId && meta.tags.length === 0 && !meta.favorite) {
+    delete workflows[workflowId];
+  } else {
+    workflows[workflowId] = meta;
+  }
+  save({ ...organization, workflows });
+}
+
+/**
+ * タグを正規化（前後の空白を除き、空と重複を取り除く）
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))];
+}
+
+/**
+ * ワークフローのタグを設定
+ */
+export function setWorkflowTags(workflowId: string, tags: readonly string[]): void {
+  updateMeta(workflowId, (meta) => ({ ...meta, tags: normalizeTags(tags) }));
+}
+
+/**
+ * ワークフローのお気に入りを切り替え
+ */
+export function toggleWorkflowFavorite(workflowId: string): void {
+  updateMeta(workflowId, (meta) => ({ ...meta, favorite: !meta.favorite }));
+}
+
+/**
+ * ワークフローをフォルダーに移動
+ *
+ * @param folderId - 移動先のフォルダー（null の場合はルート）
+ */
+export function moveWorkflowToFolder(
+  workflowId: string,
+  folderId: string | null
+): void {
+  const { folders } = getWorkflowOrganization();
+  if (folderId && !folders.some((f) => f.id === folderId)) return;
+  updateMeta(workflowId, (meta) => ({ ...meta, folderId }));
+}
+
+/**
+ * フォルダーを作成
+ *
+ * @param name - フォルダー名
+ * @param parentId - 親フォルダー（null の場合はルート）
+ * @returns 作成したフォルダー
+ */
+export function createFolder(
+  name: string,
+  parentId: string | null = null
+): WorkflowFolder {
+  const organization = getWorkflowOrganization();
+  const folder: WorkflowFolder = { id: createId(), name: name.trim(), parentId };
+  save({ ...organization, folders: [...organization.folders, folder] });
+  return folder;
+}
+
+/**
+ * フォルダー名を変更
+ */
+export function renameFolder(folderId: string, name: string): void {
+  const organization = getWorkflowOrganization();
+  save({
+    ...organization,
+    folders: organization.folders.map((f) =>
+      f.id === folderId ? { ...f, name: name.trim() } : f
+    ),
+  });
+}
+
+/**
+ * フォルダーとその子孫のフォルダーの ID を取得
+ */
+export function getFolderSubtreeIds(
+  folders: readonly WorkflowFolder[],
+  folderId: string
+): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * フォルダーを別のフォルダーの中に移動
+ *
+ * 自分自身や子孫のフォルダーの中には移動できません。
+ *
+ * @param parentId - 移動先の親フォルダー（null の場合はルート）
+ * @returns 移動できたか
+ */
+export function moveFolder(folderId: string, parentId: string | null): boolean {
+  const organization = getWorkflowOrganization();
+  if (parentId && getFolderSubtreeIds(organization.folders, folderId).has(parentId)) {
+    return false;
+  }
+  save({
+    ...organization,
+    folders: organization.folders.map((f) =>
+      f.id === folderId ? { ...f, parentId } : f
+    ),
+  });
+  return true;
+}
+
+/**
+ * フォルダーを削除
+ *
+ * 中のフォルダーとワークフローは削除したフォルダーの親に移動します。
+ */
+export function deleteFolder(folderId: string): void {
+  const organization = getWorkflowOrganization();
+  const folder = organization.folders.find((f) => f.id === folderId);
+  if (!folder) return;
+  const workflows = Object.fromEntries(
+    Object.entries(organization.workflows).map(([id, meta]) => [
+      id,
+      meta.folderId === folderId ? { ...meta, folderId: folder.parentId } : meta,
+    ])
+  );
+  save({
+    folders: organization.folders
+      .filter((f) => f.id !== folderId)
+      .map((f) =>
+        f.parentId === folderId ? { ...f, parentId: folder.parentId } : f
+      ),
+    workflows,
+  });
+}
+
+/**
+ * フォルダーの階層（ルートから順）を取得
+ */
+export function getFolderPath(
+  folders: readonly WorkflowFolder[],
+  folderId: string | null
+): WorkflowFolder[] {
+  const path: WorkflowFolder[] = [];
+  const seen = new Set<string>();
+  let current = folders.find((f) => f.id === folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = folders.find((f) => f.id === current?.parentId);
+  }
+  return path;
+}
+
+/**
+ * 使われているタグの一覧（使用数の多い順）
+ */
+export function listTags(
+  organization: WorkflowOrganization
+): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const meta of Object.values(organization.workflows)) {
+    meta.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * ワークフローが絞り込み条件に一致するか
+ */
+export function matchesOrganizationFilter(
+  organization: WorkflowOrganization,
+  workflowId: string,
+  filter: OrganizationFilter
+): boolean {
+  const meta = getWorkflowMeta(organization, workflowId);
+  if (filter.favorites && !meta.favorite) return false;
+  if (filter.tags?.some((tag) => !meta.tags.includes(tag))) return false;
+  if (filter.folderId === null) return meta.folderId === null;
+  if (filter.folderId !== undefined) {
+    return meta.folderId !== null &&
+      getFolderSubtreeIds(organization.folders, filter.folderId)
+        .has(meta.folderId);
+  }
+  return true;
+}
+
+/**
+ * 一覧の範囲と選んだタグから絞り込み条件を作成
+ */
+export function toOrganizationFilter(
+  scope: WorkflowListScope,
+  tags: readonly string[]
+): OrganizationFilter {
+  return {
+    folderId: scope.kind === "folder"
+      ? scope.folderId
+      : scope.kind === "unfiled"
+      ? null
+      : undefined,
+    favorites: scope.kind === "favorites",
+    tags,
+  };
+}
+
+// 他のタブでの変更を読み直して通知
+onSyncMessage("organization", () => {
+  cache = null;
+  notify();
+});
@@ -21,7 +21,7 @@ export interface WorkflowProgressMessage {
   workflowName?: string;
   steps?: WorkflowProgressStep[];
   currentStepIndex?: number;
-  status?: "idle" | "running" | "completed" | "error";
+  status?: "idle" | "running" | "completed" | "error" | "cancelled";
 }
 
 declare global {
@@ -112,17 +112,20 @@ export function notifyWorkflowComplete(
 
 /**
  * ワークフローエラーを通知
+ *
+ * ユーザーによる中止の場合は `status` に "cancelled" を指定します。
  */
 export function notifyWorkflowError(
   workflowId: string,
   steps: WorkflowProgressStep[],
-  currentStepIndex: number
+  currentStepIndex: number,
+  status: "error" | "cancelled" = "error"
 ): void {
   sendProgressMessage({
     type: "workflow-progress-error",
     workflowId,
     steps,
     currentStepIndex,
-    status: "error",
+    status,
   });
 }
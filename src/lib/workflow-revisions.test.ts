@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import {
+  WorkflowCodeSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  appendCodeRevision,
+  getLatestCode,
+  nextCodeRevision,
+} from "./workflow-revisions";
+
+function makeWorkflow(revisions: number[]) {
+  return create(WorkflowSchema, {
+    id: "wf-1",
+    workflowCode: revisions.map((r) =>
+      create(WorkflowCodeSchema, {
+        id: `code-${r}`,
+        codeRevision: r,
+        code: `// rev ${r}`,
+        pluginFunctionIds: ["fn-a"],
+      })
+    ),
+  });
+}
+
+describe("getLatestCode", () => {
+  it("returns null when there is no code", () => {
+    expect(getLatestCode(null)).toBeNull();
+    expect(getLatestCode(makeWorkflow([]))).toBeNull();
+  });
+
+  it("returns the last revision", () => {
+    expect(getLatestCode(makeWorkflow([1, 2]))?.id).toBe("code-2");
+  });
+});
+
+describe("nextCodeRevision", () => {
+  it("starts at 1", () => {
+    expect(nextCodeRevision(makeWorkflow([]))).toBe(1);
+  });
+
+  it("uses the highest existing revision", () => {
+    expect(nextCodeRevision(makeWorkflow([3, 1, 2]))).toBe(4);
+  });
+});
+
+describe("appendCodeRevision", () => {
+  it("appends a new revision without mutating the source", () => {
+    const wf = makeWorkflow([1]);
+    const updated = appendCodeRevision(wf, { code: "// fixed" });
+
+    expect(wf.workflowCode).toHaveLength(1);
+    expect(updated.workflowCode).toHaveLength(2);
+    const added = updated.workflowCode[1];
+    expect(added.id).toBe("");
+    expect(added.codeRevision).toBe(2);
+    expect(added.code).toBe("// fixed");
+    expect(added.createdAt).toBeDefined();
+  });
+
+  it("inherits plugin metadata from the latest revision", () => {
+    const updated = appendCodeRevision(makeWorkflow([1]), { code: "x" });
+    expect(updated.workflowCode[1].pluginFunctionIds).toEqual(["fn-a"]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview WorkflowCode リビジョン操作ユーティリティ
+ *
+ * `Workflow.workflowCode` はリビジョンの配列として保持されます。
+ * ここでは最新リビジョンの取得や、新しいリビジョンの追加といった
+ * 共通処理を提供します。
+ *
+ * @module lib/workflow-revisions
+ */
+
+import { create } from "@bufbuild/protobuf";
+import { timestampNow } from "@bufbuild/protobuf/wkt";
+import {
+  WorkflowCodeSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import type { Workflow, WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+
+/**
+ * 最新の WorkflowCode リビジョンを取得
+ *
+ * @param workflow - 対象のワークフロー
+ * @returns 最新リビジョン（存在しない場合は null）
+ */
+export function getLatestCode(
+  workflow?: Workflow | null
+): WorkflowCode | null {
+  if (!workflow?.workflowCode || workflow.workflowCode.length === 0) {
+    return null;
+  }
+  return workflow.workflowCode[workflow.workflowCode.length - 1] ?? null;
+}
+
+/**
+ * 次に割り当てるべきコードリビジョン番号を計算
+ *
+ * `codeRevision` は 1 から始まる単調増加の整数です。
+ *
+ * @param workflow - 対象のワークフロー
+ * @returns 次のリビジョン番号
+ */
+export function nextCodeRevision(workflow: Workflow): number {
+  const revisions = (workflow.workflowCode || []).map(
+    (c) => c.codeRevision || 0
+  );
+  return revisions.length > 0 ? Math.max(...revisions) + 1 : 1;
+}
+
+/**
+ * 新しい WorkflowCode リビジョンを末尾に追加したワークフローを返す
+ *
+ * 元のワークフローは変更しません。追加するリビジョンの ID は空にし、
+ * サーバー側で採番させます。
+ *
+ * @param workflow - 追加先のワークフロー
+ * @param source - 新しいリビジョンの内容（code 以外は任意）
+ * @returns リビジョンを追加したワークフロー
+ *
+ * @example
+ * ```typescript
+ * const updated = appendCodeRevision(workflow, { code: fixedCode });
+ * await clients.workflow.updateWorkflow({ workflow: updated });
+ * ```
+ */
+export function appendCodeRevision(
+  workflow: Workflow,
+  source: Pick<WorkflowCode, "code"> & Partial<WorkflowCode>
+): Workflow {
+  const latest = getLatestCode(workflow);
+  const revision = create(WorkflowCodeSchema, {
+    id: "",
+    codeRevision: nextCodeRevision(workflow),
+    code: source.code,
+    language: source.language ?? latest?.language ?? workflow.workflowLanguage,
+    createdAt: timestampNow(),
+    result: [],
+    pluginPackages: source.pluginPackages ?? latest?.pluginPackages ?? [],
+    pluginFunctionIds:
+      source.pluginFunctionIds ?? latest?.pluginFunctionIds ?? [],
+    allowedPermissions:
+      source.allowedPermissions ?? latest?.allowedPermissions ?? [],
+  });
+
+  return create(WorkflowSchema, {
+    ...workflow,
+    workflowCode: [...(workflow.workflowCode || []), revision],
+  });
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addSchedule,
+  claimScheduleCheck,
+  getDueRuns,
+  loadSchedules,
+  MISSED_RUN_GRACE_MS,
+  updateSchedule,
+} from "./workflow-schedules";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("workflow-schedules", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 8, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs the occurrence within the grace period and reports older ones as missed", () => {
+    const schedule = addSchedule({
+      workflowId: "wf-1",
+      workflowName: "Morning report",
+      cron: "0 * * * *",
+    });
+
+    // アプリを閉じていて、11:00 の少し後に開いた
+    const now = new Date(2026, 9, 19, 11, 0).getTime() + MISSED_RUN_GRACE_MS / 2;
+    const { due, missed } = getDueRuns(schedule, now);
+
+    expect(due).toBe(new Date(2026, 9, 19, 11, 0).getTime());
+    expect(missed).toEqual([
+      new Date(2026, 9, 19, 9, 0).getTime(),
+      new Date(2026, 9, 19, 10, 0).getTime(),
+    ]);
+  });
+
+  it("lets only one tab claim a check", () => {
+    const schedule = addSchedule({
+      workflowId: "wf-1",
+      workflowName: "Morning report",
+      cron: "0 9 * * *",
+    });
+    const now = Date.now() + HOUR;
+
+    expect(claimScheduleCheck(schedule, now)).toBe(true);
+    // 別のタブが古い状態のスケジュールで確認しようとしても失敗する
+    expect(claimScheduleCheck(schedule, now + 1000)).toBe(false);
+    expect(getDueRuns(loadSchedules()[0], now + 1000)).toMatchObject({
+      due: null,
+      missed: [],
+    });
+  });
+
+  it("does not report runs from while a schedule was disabled", () => {
+    const schedule = addSchedule({
+      workflowId: "wf-1",
+      workflowName: "Morning report",
+      cron: "0 * * * *",
+    });
+    updateSchedule(schedule.id, { enabled: false });
+    expect(getDueRuns(loadSchedules()[0], Date.now() + HOUR).due).toBeNull();
+
+    vi.setSystemTime(Date.now() + 5 * HOUR);
+    updateSchedule(schedule.id, { enabled: true });
+    expect(getDueRuns(loadSchedules()[0], Date.now()).missed).toEqual([]);
+  });
+
+  it("rejects invalid cron expressions", () => {
+    expect(() =>
+      addSchedule({ workflowId: "wf-1", workflowName: "x", cron: "bad" })
+    ).toThrow();
+    expect(loadSchedules()).toEqual([]);
+  });
+});
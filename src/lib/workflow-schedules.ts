@@ -0,0 +1,308 @@
+/**
+ * @fileoverview ワークフローの定期実行スケジュールの保存
+ *
+ * ワークフローに付けた cron 形式のスケジュール（lib/cron）と、スケジュールによる
+ * 実行の履歴を localStorage に保存します。スケジュールはアプリを開いている間だけ
+ * `useWorkflowScheduler` によって実行されます。
+ *
+ * 変更は購読者に通知され、lib/tab-sync で他のタブにも伝わります。
+ *
+ * @module lib/workflow-schedules
+ */
+
+import { getRunsBetween, getUpcomingRuns, parseCron } from "./cron";
+import { onSyncMessage, publishSync } from "./tab-sync";
+
+const SCHEDULES_KEY = "sapphillon-workflow-schedules";
+const HISTORY_KEY = "sapphillon-schedule-history";
+const MAX_HISTORY = 200;
+
+/** 予定時刻からこの時間以内であれば実行し、それより遅れたものは見逃しとする */
+export const MISSED_RUN_GRACE_MS = 2 * 60 * 1000;
+/** 一度に記録する見逃しの最大件数（スケジュールごと） */
+const MAX_MISSED_PER_CHECK = 10;
+
+/** イベント名 */
+const SCHEDULES_CHANGED_EVENT = "sapphillon:schedules-changed";
+
+/**
+ * ワークフローの定期実行スケジュール
+ */
+export interface WorkflowSchedule {
+  id: string;
+  workflowId: string;
+  /** 登録時のワークフロー名（履歴の表示用） */
+  workflowName: string;
+  /** cron 式 */
+  cron: string;
+  enabled: boolean;
+  /** 実行の期限（ミリ秒、0 は無期限） */
+  timeoutMs: number;
+  createdAt: number;
+  /** 予定時刻を最後に確認した時刻（この時刻までの予定は処理済み） */
+  checkedAt: number;
+}
+
+/**
+ * スケジュールによる実行の結果
+ *
+ * - `running`: 実行中
+ * - `success` / `failed`: 実行した結果
+ * - `cancelled` / `timeout`: 実行が途中で止まった
+ * - `skipped`: 実行前チェック（静的チェック・権限の承認）を通過できなかった
+ * - `missed`: アプリが開かれていなかったなどの理由で予定時刻に実行できなかった
+ */
+export type ScheduledRunStatus =
+  | "running"
+  | "success"
+  | "failed"
+  | "cancelled"
+  | "timeout"
+  | "skipped"
+  | "missed";
+
+/**
+ * スケジュールによる実行の履歴
+ */
+export interface ScheduledRun {
+  id: string;
+  scheduleId: string;
+  workflowId: string;
+  workflowName: string;
+  /** 予定時刻 */
+  scheduledFor: number;
+  /** 実行を開始した時刻（見逃しの場合は null） */
+  startedAt: number | null;
+  finishedAt: number | null;
+  status: ScheduledRunStatus;
+  /** エラーや見送りの理由 */
+  message?: string;
+}
+
+/**
+ * 実行が必要な予定と、見逃した予定
+ */
+export interface DueRuns {
+  schedule: WorkflowSchedule;
+  /** 今実行する予定時刻（なければ null） */
+  due: number | null;
+  /** 見逃した予定時刻 */
+  missed: number[];
+}
+
+const target: EventTarget = new EventTarget();
+
+function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+function load<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Failed to save workflow schedules:", e);
+  }
+  notify();
+  publishSync("schedules", null);
+}
+
+function notify(): void {
+  target.dispatchEvent(new Event(SCHEDULES_CHANGED_EVENT));
+}
+
+/**
+ * 保存されているスケジュールを取得
+ */
+export function loadSchedules(): WorkflowSchedule[] {
+  return load<WorkflowSchedule>(SCHEDULES_KEY);
+}
+
+/**
+ * スケジュールによる実行の履歴を取得（新しい順）
+ */
+export function loadScheduledRuns(): ScheduledRun[] {
+  return load<ScheduledRun>(HISTORY_KEY);
+}
+
+/**
+ * スケジュールを追加
+ *
+ * @throws cron 式が不正な場合
+ */
+export function addSchedule(
+  input: Pick<WorkflowSchedule, "workflowId" | "workflowName" | "cron"> &
+    Partial<Pick<WorkflowSchedule, "enabled" | "timeoutMs">>
+): WorkflowSchedule {
+  parseCron(input.cron);
+  const now = Date.now();
+  const schedule: WorkflowSchedule = {
+    id: createId(),
+    enabled: true,
+    timeoutMs: 0,
+    ...input,
+    cron: input.cron.trim(),
+    createdAt: now,
+    checkedAt: now,
+  };
+  save(SCHEDULES_KEY, [...loadSchedules(), schedule]);
+  return schedule;
+}
+
+/**
+ * スケジュールを更新
+ *
+ * 有効にしたときは、無効にしていた間の予定を見逃しとして扱わないよう
+ * 確認済みの時刻を現在にします。
+ */
+export function updateSchedule(
+  id: string,
+  patch: Partial<Pick<WorkflowSchedule, "cron" | "enabled" | "timeoutMs">>
+): void {
+  if (patch.cron !== undefined) parseCron(patch.cron);
+  save(
+    SCHEDULES_KEY,
+    loadSchedules().map((s) =>
+      s.id === id
+        ? {
+          ...s,
+          ...patch,
+          checkedAt: patch.enabled && !s.enabled ? Date.now() : s.checkedAt,
+        }
+        : s
+    )
+  );
+}
+
+/**
+ * スケジュールを削除
+ */
+export function removeSchedule(id: string): void {
+  save(
+    SCHEDULES_KEY,
+    loadSchedules().filter((s) => s.id !== id)
+  );
+}
+
+/**
+ * スケジュールの実行を記録
+ *
+ * 同じ ID の記録があれば置き換えます（実行中→完了の更新）。
+ */
+export function recordScheduledRun(run: ScheduledRun): void {
+  const history = loadScheduledRuns().filter((r) => r.id !== run.id);
+  save(HISTORY_KEY, [run, ...history].slice(0, MAX_HISTORY));
+}
+
+/**
+ * スケジュールによる実行の履歴を削除
+ *
+ * @param workflowId - 指定した場合はそのワークフローの履歴のみ削除
+ */
+export function clearScheduledRuns(workflowId?: string): void {
+  save(
+    HISTORY_KEY,
+    workflowId
+      ? loadScheduledRuns().filter((r) => r.workflowId !== workflowId)
+      : []
+  );
+}
+
+/**
+ * スケジュールの予定時刻を確認
+ *
+ * 前回の確認から `now` までの予定のうち、`MISSED_RUN_GRACE_MS` 以内のものを
+ * 実行対象とし、それより前のものを見逃しとして返します。
+ *
+ * @param schedule - 対象のスケジュール
+ * @param now - 現在時刻（Unix ミリ秒）
+ */
+export function getDueRuns(schedule: WorkflowSchedule, now: number): DueRuns {
+  const result: DueRuns = { schedule, due: null, missed: [] };
+  if (!schedule.enabled) return result;
+  let runs: number[];
+  try {
+    runs = getRunsBetween(
+      parseCron(schedule.cron),
+      schedule.checkedAt,
+      now,
+      MAX_MISSED_PER_CHECK + 1
+    );
+  } catch {
+    return result;
+  }
+  const last = runs[runs.length - 1];
+  if (last !== undefined && now - last <= MISSED_RUN_GRACE_MS) {
+    result.due = runs.pop() ?? null;
+  }
+  result.missed = runs.slice(-MAX_MISSED_PER_CHECK);
+  return result;
+}
+
+/**
+ * 予定時刻の確認を記録する
+ *
+ * `getDueRuns` に渡したスケジュールの確認時刻が保存されている値と異なる場合は、
+ * 他のタブがすでに処理したとみなして false を返します。呼び出し側は
+ * true の場合のみ実行・記録してください。
+ *
+ * @param schedule - `getDueRuns` に渡したスケジュール
+ * @param checkedAt - 確認した時刻
+ * @returns 記録できたか
+ */
+export function claimScheduleCheck(
+  schedule: WorkflowSchedule,
+  checkedAt: number
+): boolean {
+  const schedules = loadSchedules();
+  const stored = schedules.find((s) => s.id === schedule.id);
+  if (!stored || stored.checkedAt !== schedule.checkedAt) return false;
+  save(
+    SCHEDULES_KEY,
+    schedules.map((s) => (s.id === schedule.id ? { ...s, checkedAt } : s))
+  );
+  return true;
+}
+
+/**
+ * 今後の実行予定を取得
+ *
+ * @param schedule - 対象のスケジュール
+ * @param count - 取得する件数
+ * @param now - 基準の時刻
+ */
+export function getUpcomingScheduleRuns(
+  schedule: WorkflowSchedule,
+  count: number,
+  now: number = Date.now()
+): number[] {
+  if (!schedule.enabled) return [];
+  try {
+    return getUpcomingRuns(parseCron(schedule.cron), now, count);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * スケジュールや履歴の変更を購読
+ *
+ * @param listener - 変更時に呼ばれるコールバック
+ * @returns 購読解除関数
+ */
+export function onSchedulesChange(listener: () => void): () => void {
+  target.addEventListener(SCHEDULES_CHANGED_EVENT, listener);
+  return () => target.removeEventListener(SCHEDULES_CHANGED_EVENT, listener);
+}
+
+// 他のタブでの変更を通知
+onSyncMessage("schedules", notify);
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { timestampFromMs } from "@bufbuild/protobuf/wkt";
+import {
+  WorkflowCodeSchema,
+  WorkflowLanguage,
+  WorkflowResultSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  AllowedPermissionSchema,
+  PermissionSchema,
+  PermissionType,
+} from "@/gen/sapphillon/v1/permission_pb";
+import {
+  applySearchSuggestion,
+  filterWorkflows,
+  getSearchLanguage,
+  getSearchSuggestions,
+  parseSearchQuery,
+} from "./workflow-search";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 0, 20, 12).getTime();
+
+function result(ranAt: number, exitCode = 0) {
+  return create(WorkflowResultSchema, {
+    ranAt: timestampFromMs(ranAt),
+    resultType: exitCode === 0 ? 0 : 1,
+    exitCode,
+  });
+}
+
+const report = create(WorkflowSchema, {
+  id: "report",
+  displayName: "Monthly report",
+  description: "Collects sales figures",
+  workflowLanguage: WorkflowLanguage.TYPESCRIPT,
+  workflowCode: [
+    create(WorkflowCodeSchema, {
+      codeRevision: 1,
+      code: "old()",
+      pluginFunctionIds: ["net.fetch"],
+    }),
+    create(WorkflowCodeSchema, {
+      codeRevision: 2,
+      code: "filesystem.write('summary.csv')",
+      pluginFunctionIds: ["filesystem.write"],
+      allowedPermissions: [
+        create(AllowedPermissionSchema, {
+          pluginFunctionId: "filesystem.write",
+          permissions: [
+            create(PermissionSchema, {
+              permissionType: PermissionType.FILESYSTEM_WRITE,
+            }),
+          ],
+        }),
+      ],
+    }),
+  ],
+  workflowResults: [result(now - 10 * DAY, 1), result(now - 2 * DAY)],
+});
+
+const fetcher = create(WorkflowSchema, {
+  id: "fetcher",
+  displayName: "Fetch news",
+  workflowLanguage: WorkflowLanguage.JAVASCRIPT,
+  workflowCode: [
+    create(WorkflowCodeSchema, {
+      codeRevision: 1,
+      code: "net.fetch('https://example.com')",
+      pluginFunctionIds: ["net.fetch"],
+      allowedPermissions: [
+        create(AllowedPermissionSchema, {
+          pluginFunctionId: "net.fetch",
+          permissions: [
+            create(PermissionSchema, {
+              permissionType: PermissionType.NET_ACCESS,
+            }),
+          ],
+        }),
+      ],
+    }),
+  ],
+  workflowResults: [result(now - 1 * DAY, 2)],
+});
+
+const idle = create(WorkflowSchema, {
+  id: "idle",
+  displayName: "Idle",
+  workflowLanguage: WorkflowLanguage.TYPESCRIPT,
+});
+
+const workflows = [report, fetcher, idle];
+
+function search(query: string): string[] {
+  return filterWorkflows(workflows, query, now).map((w) => w.id);
+}
+
+describe("parseSearchQuery", () => {
+  it("splits fields, quoted phrases and plain words", () => {
+    expect(
+      parseSearchQuery('plugin:fs "Monthly Report" foo:bar status: lang:"ts"')
+    ).toEqual({
+      text: ["monthly report", "foo:bar"],
+      terms: [
+        { field: "plugin", value: "fs" },
+        { field: "lang", value: "ts" },
+      ],
+    });
+  });
+
+  it("reads the language for the server-side filter", () => {
+    expect(getSearchLanguage(parseSearchQuery("lang:JS"))).toBe(
+      WorkflowLanguage.JAVASCRIPT
+    );
+    expect(getSearchLanguage(parseSearchQuery("lang:cobol"))).toBeNull();
+  });
+});
+
+describe("filterWorkflows", () => {
+  it("matches text against name, description and the latest code", () => {
+    expect(search("")).toEqual(["report", "fetcher", "idle"]);
+    expect(search("sales")).toEqual(["report"]);
+    expect(search('"summary.csv"')).toEqual(["report"]);
+    expect(search("old()")).toEqual([]);
+  });
+
+  it("filters by plugin, permission and language", () => {
+    expect(search("plugin:net")).toEqual(["fetcher"]);
+    expect(search("perm:NET_ACCESS")).toEqual(["fetcher"]);
+    expect(search("perm:filesystem")).toEqual(["report"]);
+    expect(search("lang:typescript")).toEqual(["report", "idle"]);
+  });
+
+  it("filters by the last run time and outcome", () => {
+    expect(search("ran:<7d")).toEqual(["report", "fetcher"]);
+    expect(search("ran:>36h")).toEqual(["report"]);
+    expect(search("ran:never")).toEqual(["idle"]);
+    expect(search("ran:2026-01-19")).toEqual(["fetcher"]);
+    expect(search("ran:<2026-01-19")).toEqual(["report"]);
+    expect(search("status:failed")).toEqual(["fetcher"]);
+    expect(search("status:success")).toEqual(["report"]);
+    expect(search("status:never")).toEqual(["idle"]);
+  });
+
+  it("requires every condition to match", () => {
+    expect(search('lang:ts status:success "monthly report"')).toEqual([
+      "report",
+    ]);
+    expect(search("lang:ts status:failed")).toEqual([]);
+  });
+});
+
+describe("search suggestions", () => {
+  it("suggests field names and values for the word being typed", () => {
+    expect(getSearchSuggestions("pe", workflows).map((s) => s.label)).toEqual([
+      "perm:",
+    ]);
+    expect(
+      getSearchSuggestions("plugin:", workflows).map((s) => s.label)
+    ).toEqual(["filesystem.write", "net.fetch"]);
+    expect(
+      getSearchSuggestions("status:fa", workflows).map((s) => s.label)
+    ).toEqual(["failed"]);
+    expect(getSearchSuggestions("status:failed ", workflows)).toEqual([]);
+  });
+
+  it("replaces the word being typed with the selected suggestion", () => {
+    const [field] = getSearchSuggestions("report st", workflows);
+    expect(applySearchSuggestion("report st", field)).toBe("report status:");
+
+    const [value] = getSearchSuggestions("report status:f", workflows);
+    expect(applySearchSuggestion("report status:f", value)).toBe(
+      "report status:failed "
+    );
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * @fileoverview ワークフロー検索のクエリ言語
+ *
+ * 検索ボックスの文字列を次の条件に分解し、ワークフローに一致するかを判定します。
+ * 条件は全て満たす必要があります（AND）。
+ *
+ * - `plugin:<id>` 最新リビジョンが使うプラグイン関数・パッケージの ID（部分一致）
+ * - `perm:<type>` 最新リビジョンの権限の種類（例: `NET_ACCESS`、部分一致）
+ * - `lang:<language>` ワークフローの言語（`typescript`・`ts`・`javascript`・`js`）
+ * - `ran:<when>` 最後の実行日時
+ *   - `<7d` 7 日以内、`>7d` 7 日より前（単位は `m`・`h`・`d`・`w`）
+ *   - `>2026-01-01` その日より後、`<2026-01-01` その日より前、`2026-01-01` その日
+ *   - `never` 実行したことがない
+ * - `status:<outcome>` 最後の実行結果（`success`・`failed`・`never`）
+ * - それ以外の語（`"..."` で囲むと空白を含められます）は名前・説明・最新の
+ *   コードに含まれるもの
+ *
+ * 大文字と小文字は区別しません。不明なフィールド名はそのまま語として扱います。
+ *
+ * @module lib/workflow-search
+ */
+
+import { timestampMs } from "@bufbuild/protobuf/wkt";
+import { WorkflowLanguage } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import { isResultSuccess } from "./workflow-analytics";
+import { getLatestCode } from "./workflow-revisions";
+
+/**
+ * 検索できるフィールド
+ */
+export const SEARCH_FIELDS = ["plugin", "perm", "lang", "ran", "status"] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+/**
+ * フィールドを指定した条件
+ */
+export interface SearchTerm {
+  field: SearchField;
+  value: string;
+}
+
+/**
+ * 解析した検索クエリ
+ */
+export interface ParsedSearchQuery {
+  /** 名前・説明・コードで探す語（小文字） */
+  text: string[];
+  terms: SearchTerm[];
+}
+
+/**
+ * 入力補完の候補
+ */
+export interface SearchSuggestion {
+  kind: "field" | "value";
+  field: SearchField;
+  /** 表示する文字列 */
+  label: string;
+  /** 入力中の語と置き換える文字列 */
+  insert: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: 24 * 60 * MINUTE_MS,
+  w: 7 * 24 * 60 * MINUTE_MS,
+};
+
+const LANGUAGE_ALIASES: Record<string, WorkflowLanguage> = {
+  typescript: WorkflowLanguage.TYPESCRIPT,
+  ts: WorkflowLanguage.TYPESCRIPT,
+  javascript: WorkflowLanguage.JAVASCRIPT,
+  js: WorkflowLanguage.JAVASCRIPT,
+};
+
+const STATUS_ALIASES: Record<string, "success" | "failed" | "never"> = {
+  success: "success",
+  succeeded: "success",
+  ok: "success",
+  failed: "failed",
+  failure: "failed",
+  error: "failed",
+  never: "never",
+};
+
+/** 補完に出す値（`plugin` は一覧のワークフローから集めます） */
+const STATIC_VALUES: Record<Exclude<SearchField, "plugin">, string[]> = {
+  perm: Object.keys(PermissionType).filter(
+    (key) => isNaN(Number(key)) && key !== "UNSPECIFIED"
+  ),
+  lang: ["typescript", "javascript"],
+  ran: ["<1d", "<7d", "<30d", ">7d", ">30d", "never"],
+  status: ["success", "failed", "never"],
+};
+
+const MAX_SUGGESTIONS = 8;
+
+function isSearchField(value: string): value is SearchField {
+  return (SEARCH_FIELDS as readonly string[]).includes(value);
+}
+
+interface Token {
+  value: string;
+  /** 元の文字列での開始位置 */
+  start: number;
+}
+
+/**
+ * クエリを語に分割（`"..."` は 1 つの語として扱います）
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let current: Token | null = null;
+  let quoted = false;
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (/\s/.test(char) && !quoted) {
+      if (current) tokens.push(current);
+      current = null;
+      continue;
+    }
+    current ??= { value: "", start: i };
+    if (char === '"') {
+      quoted = !quoted;
+    } else {
+      current.value += char;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * 検索クエリを解析
+ *
+ * @param query - 検索ボックスの文字列
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: [], terms: [] };
+  for (const { value: token } of tokenize(query)) {
+    const colon = token.indexOf(":");
+    const field = colon > 0 ? token.slice(0, colon).toLowerCase() : "";
+    const value = token.slice(colon + 1).trim();
+    if (isSearchField(field) && value) {
+      parsed.terms.push({ field, value });
+    } else if (!isSearchField(field) && token.trim()) {
+      parsed.text.push(token.trim().toLowerCase());
+    }
+  }
+  return parsed;
+}
+
+/**
+ * 条件が 1 つもないか
+ */
+export function isEmptySearchQuery(parsed: ParsedSearchQuery): boolean {
+  return parsed.text.length === 0 && parsed.terms.length === 0;
+}
+
+/**
+ * `lang:` で指定された言語（指定がない・解釈できない場合は null）
+ *
+ * サーバー側の `ListWorkflowsFilter.workflowLanguage` に渡すために使います。
+ */
+export function getSearchLanguage(
+  parsed: ParsedSearchQuery
+): WorkflowLanguage | null {
+  const term = parsed.terms.find((t) => t.field === "lang");
+  return term ? LANGUAGE_ALIASES[term.value.toLowerCase()] ?? null : null;
+}
+
+function lastRunMs(workflow: Workflow): number | null {
+  const latest = workflow.workflowResults?.[workflow.workflowResults.length - 1];
+  return latest?.ranAt ? timestampMs(latest.ranAt) : null;
+}
+
+function startOfLocalDay(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date.getTime();
+}
+
+function matchesRan(workflow: Workflow, value: string, now: number): boolean {
+  const ranAt = lastRunMs(workflow);
+  if (value.toLowerCase() === "never") return ranAt === null;
+  if (ranAt === null) return false;
+
+  const match = /^(<=|>=|<|>)?(.+)$/.exec(value);
+  if (!match) return false;
+  const op = match[1] ?? "";
+  const operand = match[2].toLowerCase();
+
+  // 相対時間（今からどれだけ前か）
+  const duration = /^(\d+)([mhdw])$/.exec(operand);
+  if (duration) {
+    const age = now - ranAt;
+    const limit = Number(duration[1]) * DURATION_UNITS[duration[2]];
+    return op.startsWith(">") ? age >= limit : age <= limit;
+  }
+
+  // 日付（ローカル時刻の 1 日単位）
+  const dayStart = startOfLocalDay(operand);
+  if (dayStart === null) return false;
+  const dayEnd = new Date(dayStart).setDate(new Date(dayStart).getDate() + 1);
+  switch (op) {
+    case ">":
+      return ranAt >= dayEnd;
+    case ">=":
+      return ranAt >= dayStart;
+    case "<":
+      return ranAt < dayStart;
+    case "<=":
+      return ranAt < dayEnd;
+    default:
+      return ranAt >= dayStart && ranAt < dayEnd;
+  }
+}
+
+function matchesTerm(workflow: Workflow, term: SearchTerm, now: number): boolean {
+  const value = term.value.toLowerCase();
+  const code = getLatestCode(workflow);
+  switch (term.field) {
+    case "plugin":
+      return !!code && [
+        ...code.pluginFunctionIds,
+        ...code.pluginPackages.flatMap((p) => [p.packageId, p.packageName]),
+      ].some((id) => id.toLowerCase().includes(value));
+    case "perm": {
+      const type = value.replace(/^permission_type_/, "").replace(/-/g, "_");
+      return !!code && code.allowedPermissions.some((allowed) =>
+        allowed.permissions.some((p) =>
+          (PermissionType[p.permissionType] ?? "").toLowerCase().includes(type)
+        )
+      );
+    }
+    case "lang":
+      return LANGUAGE_ALIASES[value] === workflow.workflowLanguage;
+    case "ran":
+      return matchesRan(workflow, term.value, now);
+    case "status": {
+      const latest = workflow.workflowResults?.[
+        workflow.workflowResults.length - 1
+      ];
+      switch (STATUS_ALIASES[value]) {
+        case "success":
+          return !!latest && isResultSuccess(latest);
+        case "failed":
+          return !!latest && !isResultSuccess(latest);
+        case "never":
+          return !latest;
+        default:
+          return false;
+      }
+    }
+  }
+}
+
+/**
+ * ワークフローが検索クエリに一致するか
+ *
+ * @param workflow - 対象のワークフロー
+ * @param parsed - {@link parseSearchQuery} の結果
+ * @param now - 相対時間の基準（ミリ秒）
+ */
+export function matchesSearchQuery(
+  workflow: Workflow,
+  parsed: ParsedSearchQuery,
+  now: number = Date.now()
+): boolean {
+  if (parsed.text.length > 0) {
+    const haystack = [
+      workflow.displayName,
+      workflow.description,
+      getLatestCode(workflow)?.code ?? "",
+    ].join("\n").toLowerCase();
+    if (!parsed.text.every((text) => haystack.includes(text))) return false;
+  }
+  return parsed.terms.every((term) => matchesTerm(workflow, term, now));
+}
+
+/**
+ * 検索クエリで絞り込む
+ */
+export function filterWorkflows<T extends Workflow>(
+  workflows: readonly T[],
+  query: string,
+  now: number = Date.now()
+): T[] {
+  const parsed = parseSearchQuery(query);
+  if (isEmptySearchQuery(parsed)) return [...workflows];
+  return workflows.filter((w) => matchesSearchQuery(w, parsed, now));
+}
+
+/**
+ * 入力中（末尾）の語を取得（末尾が空白の場合は null）
+ */
+function currentToken(query: string): Token | null {
+  if (!query || /\s$/.test(query)) return null;
+  return tokenize(query).pop() ?? null;
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * 入力中の語に対する補完候補を取得
+ *
+ * フィールド名を入力中ならフィールド名、`field:` の後なら値を候補にします。
+ *
+ * @param query - 検索ボックスの文字列
+ * @param workflows - `plugin:` の値を集めるワークフロー
+ */
+export function getSearchSuggestions(
+  query: string,
+  workflows: readonly Workflow[]
+): SearchSuggestion[] {
+  const token = currentToken(query)?.value;
+  if (!token) return [];
+
+  const colon = token.indexOf(":");
+  if (colon < 0) {
+    const prefix = token.toLowerCase();
+    return SEARCH_FIELDS.filter((field) => field.startsWith(prefix)).map(
+      (field) => ({
+        kind: "field" as const,
+        field,
+        label: `${field}:`,
+        insert: `${field}:`,
+      })
+    );
+  }
+
+  const field = token.slice(0, colon).toLowerCase();
+  if (!isSearchField(field)) return [];
+  const partial = token.slice(colon + 1).toLowerCase();
+  const values = field === "plugin"
+    ? [...new Set(workflows.flatMap((w) =>
+      getLatestCode(w)?.pluginFunctionIds ?? []
+    ))].sort()
+    : STATIC_VALUES[field];
+  return values
+    .filter((value) => {
+      const lower = value.toLowerCase();
+      return lower !== partial && lower.includes(partial);
+    })
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({
+      kind: "value" as const,
+      field,
+      label: value,
+      insert: `${field}:${quote(value)}`,
+    }));
+}
+
+/**
+ * 補完候補を選んだ後のクエリ
+ *
+ * 入力中の語を候補で置き換えます。値を選んだ場合は次の語を入力できるよう
+ * 空白を追加します。
+ */
+export function applySearchSuggestion(
+  query: string,
+  suggestion: SearchSuggestion
+): string {
+  const start = currentToken(query)?.start ?? query.length;
+  return `${query.slice(0, start)}${suggestion.insert}${
+    suggestion.kind === "value" ? " " : ""
+  }`;
+}
@@ -2,17 +2,24 @@ import { Provider } from "@/components/ui/provider";
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
-import { BrowserRouter } from "react-router-dom";
+import { createBrowserRouter, RouterProvider } from "react-router-dom";
 import "./i18n/config";
 import "./styles/scrollbar.css";
 import "./styles/accessibility.css";
+import { registerInterceptors } from "@/lib/grpc-clients";
+import { authInterceptor } from "@/lib/auth";
+
+// 認証トークンの付与と、Unauthenticated 時の再認証・再送
+registerInterceptors(authInterceptor());
+
+// 未保存の変更の確認（useBlocker）にはデータルーターが必要なため、
+// ルーティング自体は App 内の <Routes> に任せて全パスを App に渡す
+const router = createBrowserRouter([{ path: "*", element: <App /> }]);
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <Provider>
-      <BrowserRouter>
-        <App />
-      </BrowserRouter>
+      <RouterProvider router={router} />
     </Provider>
   </React.StrictMode>,
 );
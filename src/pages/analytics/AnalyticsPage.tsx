@@ -0,0 +1,482 @@
+import React from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Link,
+  NativeSelect,
+  SimpleGrid,
+  Spinner,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { Link as RouterLink, useSearchParams } from "react-router-dom";
+import { LuChartColumn, LuCircleAlert, LuRefreshCw } from "react-icons/lu";
+import { EmptyState } from "@/components/ui/empty-state";
+import { useI18n } from "@/hooks/useI18n";
+import type {
+  AnalyticsRange,
+  DailyRunCounts,
+  RankedItem,
+} from "@/lib/workflow-analytics";
+import { rangeFromDays } from "@/lib/workflow-analytics";
+import { useWorkflowAnalytics } from "./useWorkflowAnalytics";
+
+/** 期間のプリセット（日数、0 は全期間） */
+const PERIOD_PRESETS = [7, 30, 90, 0] as const;
+const DEFAULT_PERIOD = "30";
+const CUSTOM_PERIOD = "custom";
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * 日付入力（YYYY-MM-DD）をローカル時刻のミリ秒に変換
+ *
+ * @param endOfDay - true の場合はその日の終わりの時刻を返す
+ */
+function parseDateInput(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const [y, m, d] = value.split("-").map(Number);
+  const date = endOfDay
+    ? new Date(y, m - 1, d, 23, 59, 59, 999)
+    : new Date(y, m - 1, d);
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+export function AnalyticsPage() {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const workflowId = searchParams.get("workflow") ?? "";
+  const [period, setPeriod] = React.useState<string>(DEFAULT_PERIOD);
+  const [customFrom, setCustomFrom] = React.useState("");
+  const [customTo, setCustomTo] = React.useState("");
+
+  const range = React.useMemo<AnalyticsRange>(
+    () =>
+      period === CUSTOM_PERIOD
+        ? {
+          from: parseDateInput(customFrom),
+          to: parseDateInput(customTo, true),
+        }
+        : rangeFromDays(Number(period)),
+    [period, customFrom, customTo]
+  );
+
+  const {
+    analytics,
+    workflows,
+    truncated,
+    loading,
+    fetching,
+    error,
+    refetch,
+  } = useWorkflowAnalytics(range, workflowId || undefined);
+  const { counts, daily, durations } = analytics;
+
+  const setWorkflowId = (id: string) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (id) next.set("workflow", id);
+        else next.delete("workflow");
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  return (
+    <VStack align="stretch" gap={4} h="full" p={{ base: 2, md: 4 }}>
+      {/* ヘッダー */}
+      <HStack justify="space-between" flexWrap="wrap" gap={2}>
+        <VStack align="start" gap={0}>
+          <Text fontSize={{ base: "lg", md: "xl" }} fontWeight="bold">
+            {t("analytics.title")}
+          </Text>
+          <Text fontSize="sm" color="fg.muted">
+            {t("analytics.description")}
+          </Text>
+        </VStack>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => refetch().catch(() => {})}
+          disabled={fetching}
+        >
+          <LuRefreshCw />
+          {t("analytics.refresh")}
+        </Button>
+      </HStack>
+
+      {/* フィルター */}
+      <HStack gap={3} flexWrap="wrap" align="end">
+        <VStack align="stretch" gap={1}>
+          <Text fontSize="xs" color="fg.muted">
+            {t("analytics.filters.workflow")}
+          </Text>
+          <NativeSelect.Root size="sm" w={{ base: "full", md: "240px" }}>
+            <NativeSelect.Field
+              aria-label={t("analytics.filters.workflow")}
+              value={workflowId}
+              onChange={(e) => setWorkflowId(e.currentTarget.value)}
+            >
+              <option value="">{t("analytics.filters.allWorkflows")}</option>
+              {workflows.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.displayName || t("common.untitledWorkflow")}
+                </option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </VStack>
+        <VStack align="stretch" gap={1}>
+          <Text fontSize="xs" color="fg.muted">
+            {t("analytics.filters.period")}
+          </Text>
+          <NativeSelect.Root size="sm" w="auto">
+            <NativeSelect.Field
+              aria-label={t("analytics.filters.period")}
+              value={period}
+              onChange={(e) => setPeriod(e.currentTarget.value)}
+            >
+              {PERIOD_PRESETS.map((days) => (
+                <option key={days} value={String(days)}>
+                  {days === 0
+                    ? t("analytics.filters.allTime")
+                    : t("analytics.filters.lastDays", { count: days })}
+                </option>
+              ))}
+              <option value={CUSTOM_PERIOD}>
+                {t("analytics.filters.custom")}
+              </option>
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </VStack>
+        {period === CUSTOM_PERIOD && (
+          <HStack gap={2}>
+            <Input
+              type="date"
+              size="sm"
+              w="auto"
+              aria-label={t("analytics.filters.from")}
+              value={customFrom}
+              max={customTo || undefined}
+              onChange={(e) => setCustomFrom(e.target.value)}
+            />
+            <Text fontSize="sm" color="fg.muted">
+              〜
+            </Text>
+            <Input
+              type="date"
+              size="sm"
+              w="auto"
+              aria-label={t("analytics.filters.to")}
+              value={customTo}
+              min={customFrom || undefined}
+              onChange={(e) => setCustomTo(e.target.value)}
+            />
+          </HStack>
+        )}
+      </HStack>
+
+      {truncated && (
+        <Text fontSize="xs" color="orange.fg">
+          {t("analytics.truncated", { count: workflows.length })}
+        </Text>
+      )}
+
+      {loading
+        ? (
+          <HStack justify="center" py={8}>
+            <Spinner size="md" />
+            <Text color="fg.muted">{t("common.loading")}</Text>
+          </HStack>
+        )
+        : error
+        ? (
+          <EmptyState
+            icon={<LuCircleAlert />}
+            title={t("analytics.fetchError")}
+          />
+        )
+        : counts.total === 0
+        ? (
+          <EmptyState
+            icon={<LuChartColumn />}
+            title={t("analytics.empty")}
+            description={t("analytics.emptyDescription")}
+          />
+        )
+        : (
+          <VStack align="stretch" gap={4}>
+            {/* 統計カード */}
+            <HStack gap={3} flexWrap="wrap">
+              <StatCard
+                label={t("runStats.total")}
+                value={String(counts.total)}
+                colorPalette="gray"
+              />
+              <StatCard
+                label={t("runStats.successful")}
+                value={String(counts.successful)}
+                colorPalette="green"
+              />
+              <StatCard
+                label={t("runStats.failed")}
+                value={String(counts.failed)}
+                colorPalette="red"
+              />
+              <StatCard
+                label={t("runStats.successRate")}
+                value={`${counts.successRate.toFixed(1)}%`}
+                colorPalette="blue"
+              />
+            </HStack>
+
+            <SimpleGrid columns={{ base: 1, lg: 2 }} gap={4}>
+              <Section title={t("analytics.sections.successOverTime")}>
+                <DailyChart daily={daily} />
+              </Section>
+
+              <Section
+                title={t("analytics.sections.durations")}
+                hint={t("analytics.durationsHint")}
+              >
+                {durations
+                  ? (
+                    <VStack align="stretch" gap={1}>
+                      {(["p50", "p90", "p99", "max"] as const).map((key) => (
+                        <HStack key={key} justify="space-between">
+                          <Text fontSize="sm" color="fg.muted">
+                            {t(`analytics.percentiles.${key}`)}
+                          </Text>
+                          <Text fontSize="sm" fontFamily="mono">
+                            {formatDuration(durations[key])}
+                          </Text>
+                        </HStack>
+                      ))}
+                      <Text fontSize="xs" color="fg.muted">
+                        {t("analytics.measuredRuns", {
+                          count: durations.count,
+                        })}
+                      </Text>
+                    </VStack>
+                  )
+                  : (
+                    <Text fontSize="sm" color="fg.muted">
+                      {t("analytics.noDurations")}
+                    </Text>
+                  )}
+              </Section>
+
+              {!workflowId && (
+                <Section title={t("analytics.sections.failingWorkflows")}>
+                  <RankedBars
+                    items={analytics.failingWorkflows}
+                    renderLabel={(item) => (
+                      <Link asChild>
+                        <RouterLink to={`/workflows/${item.key}`}>
+                          {item.label || t("common.untitledWorkflow")}
+                        </RouterLink>
+                      </Link>
+                    )}
+                    renderCount={(item) =>
+                      t("analytics.failuresOfRuns", {
+                        count: item.count,
+                        total: item.total,
+                      })}
+                  />
+                </Section>
+              )}
+
+              <Section title={t("analytics.sections.exitCodes")}>
+                <RankedBars
+                  items={analytics.failuresByExitCode}
+                  renderLabel={(item) => (
+                    <Badge size="sm" fontFamily="mono">
+                      {t("analytics.exitCode", { code: item.label })}
+                    </Badge>
+                  )}
+                />
+              </Section>
+
+              <Section
+                title={t("analytics.sections.pluginFunctions")}
+                hint={t("analytics.pluginFunctionsHint")}
+              >
+                <RankedBars
+                  items={analytics.failingPluginFunctions}
+                  renderLabel={(item) => (
+                    <Text fontFamily="mono" truncate title={item.key}>
+                      {item.label}
+                    </Text>
+                  )}
+                />
+              </Section>
+            </SimpleGrid>
+          </VStack>
+        )}
+    </VStack>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  colorPalette,
+}: {
+  label: string;
+  value: string;
+  colorPalette: string;
+}) {
+  return (
+    <Box
+      borderWidth="1px"
+      rounded="lg"
+      px={4}
+      py={3}
+      minW="120px"
+      bg="bg"
+    >
+      <Text fontSize="2xl" fontWeight="bold" color={`${colorPalette}.500`}>
+        {value}
+      </Text>
+      <Text fontSize="sm" color="fg.muted">
+        {label}
+      </Text>
+    </Box>
+  );
+}
+
+function Section({
+  title,
+  hint,
+  children,
+}: {
+  title: string;
+  hint?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <VStack align="stretch" gap={3} borderWidth="1px" rounded="lg" p={4}>
+      <VStack align="start" gap={0}>
+        <Text fontWeight="medium">{title}</Text>
+        {hint && (
+          <Text fontSize="xs" color="fg.muted">
+            {hint}
+          </Text>
+        )}
+      </VStack>
+      {children}
+    </VStack>
+  );
+}
+
+/**
+ * 1 日ごとの実行回数の棒グラフ（成功・失敗の積み上げ）
+ */
+function DailyChart({ daily }: { daily: DailyRunCounts[] }) {
+  const { t } = useI18n();
+  const max = Math.max(1, ...daily.map((d) => d.total));
+  const formatDay = (day: number) =>
+    new Date(day).toLocaleDateString(undefined, {
+      month: "numeric",
+      day: "numeric",
+    });
+
+  return (
+    <VStack align="stretch" gap={1}>
+      <HStack align="end" gap="2px" h="120px">
+        {daily.map((d) => (
+          <VStack
+            key={d.day}
+            flex="1"
+            minW="4px"
+            h="full"
+            justify="end"
+            gap={0}
+            title={t("analytics.dayTooltip", {
+              date: formatDay(d.day),
+              successful: d.successful,
+              total: d.total,
+              rate: d.successRate.toFixed(1),
+            })}
+          >
+            <Box
+              w="full"
+              h={`${(d.failed / max) * 100}%`}
+              bg="red.500"
+              roundedTop={d.successful === 0 ? "sm" : undefined}
+            />
+            <Box
+              w="full"
+              h={`${(d.successful / max) * 100}%`}
+              bg="green.500"
+              roundedTop={d.failed === 0 ? "sm" : undefined}
+            />
+          </VStack>
+        ))}
+      </HStack>
+      <HStack justify="space-between" fontSize="2xs" color="fg.muted">
+        <Text>{formatDay(daily[0].day)}</Text>
+        {daily.length > 1 && <Text>{formatDay(daily[daily.length - 1].day)}</Text>}
+      </HStack>
+    </VStack>
+  );
+}
+
+/**
+ * 件数の多い順の横棒グラフ
+ */
+function RankedBars({
+  items,
+  renderLabel,
+  renderCount,
+}: {
+  items: RankedItem[];
+  renderLabel: (item: RankedItem) => React.ReactNode;
+  renderCount?: (item: RankedItem) => string;
+}) {
+  const { t } = useI18n();
+  if (items.length === 0) {
+    return (
+      <Text fontSize="sm" color="fg.muted">
+        {t("analytics.noFailures")}
+      </Text>
+    );
+  }
+  const max = items[0].count;
+  return (
+    <VStack align="stretch" gap={2}>
+      {items.map((item) => (
+        <VStack key={item.key} align="stretch" gap={0.5}>
+          <HStack justify="space-between" gap={2} fontSize="sm">
+            <Box minW={0}>{renderLabel(item)}</Box>
+            <Text color="fg.muted" flexShrink={0}>
+              {renderCount?.(item) ??
+                t("analytics.failures", { count: item.count })}
+            </Text>
+          </HStack>
+          <Box h="6px" bg="bg.muted" rounded="full">
+            <Box
+              h="full"
+              w={`${(item.count / max) * 100}%`}
+              bg="red.500"
+              rounded="full"
+            />
+          </Box>
+        </VStack>
+      ))}
+    </VStack>
+  );
+}
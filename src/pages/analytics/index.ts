@@ -0,0 +1,2 @@
+export { AnalyticsPage } from "./AnalyticsPage";
+export { useWorkflowAnalytics } from "./useWorkflowAnalytics";
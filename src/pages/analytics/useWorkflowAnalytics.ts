@@ -0,0 +1,99 @@
+/**
+ * @fileoverview 実行の集計に使うデータの取得
+ *
+ * 全てのワークフロー（実行結果を含む）をページをたどって取得し、
+ * プラグイン関数の表示名と合わせて lib/workflow-analytics で集計します。
+ *
+ * @module pages/analytics/useWorkflowAnalytics
+ */
+
+import React from "react";
+import { clients } from "@/lib/grpc-clients";
+import { API_CONFIG } from "@/lib/constants";
+import { QK } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { collectRuns, computeAnalytics } from "@/lib/workflow-analytics";
+import type { AnalyticsRange } from "@/lib/workflow-analytics";
+
+const { pageSize, maxPages } = API_CONFIG.analytics;
+
+async function fetchAllWorkflows(): Promise<{
+  workflows: Workflow[];
+  truncated: boolean;
+}> {
+  const workflows: Workflow[] = [];
+  let pageToken = "";
+  for (let page = 0; page < maxPages; page++) {
+    const res = await clients.workflow.listWorkflows({ pageSize, pageToken });
+    if (res.status?.code !== 0 && res.status?.code !== undefined) {
+      throw new Error(res.status.message || "Failed to fetch workflows");
+    }
+    workflows.push(...res.workflows);
+    pageToken = res.nextPageToken;
+    if (!pageToken) return { workflows, truncated: false };
+  }
+  return { workflows, truncated: true };
+}
+
+/**
+ * 実行の集計を取得するフック
+ *
+ * @param range - 集計する期間
+ * @param workflowId - 集計するワークフロー（未指定の場合は全て）
+ */
+export function useWorkflowAnalytics(
+  range: AnalyticsRange,
+  workflowId?: string
+) {
+  const workflowsQuery = useQuery(
+    QK.workflow.listAll({ pageSize }),
+    fetchAllWorkflows
+  );
+  const { data: plugins } = useQuery(QK.plugin.list({ pageSize: 100 }), () =>
+    clients.plugin.listPlugins({ pageSize: 100 })
+  );
+
+  const workflows = React.useMemo(
+    () => workflowsQuery.data?.workflows ?? [],
+    [workflowsQuery.data]
+  );
+  const functionNames = React.useMemo(
+    () =>
+      new Map(
+        (plugins?.plugins ?? []).flatMap((p) =>
+          p.functions.map((f) => [
+            f.functionId,
+            f.functionName || f.functionId,
+          ] as const)
+        )
+      ),
+    [plugins]
+  );
+
+  const { from, to } = range;
+  const analytics = React.useMemo(() => {
+    const targets = workflowId
+      ? workflows.filter((w) => w.id === workflowId)
+      : workflows;
+    return computeAnalytics(collectRuns(targets, { from, to }), {
+      functionNames,
+    });
+  }, [workflows, workflowId, from, to, functionNames]);
+
+  React.useEffect(() => {
+    if (workflowsQuery.error) {
+      console.error("Failed to fetch workflows:", workflowsQuery.error);
+    }
+  }, [workflowsQuery.error]);
+
+  return {
+    analytics,
+    workflows,
+    truncated: workflowsQuery.data?.truncated ?? false,
+    loading: workflowsQuery.loading,
+    fetching: workflowsQuery.fetching,
+    error: workflowsQuery.error,
+    refetch: workflowsQuery.refetch,
+  } as const;
+}
@@ -0,0 +1,409 @@
+import React from "react";
+import {
+    Badge,
+    Box,
+    Button,
+    Card,
+    Flex,
+    Grid,
+    Heading,
+    HStack,
+    NativeSelect,
+    Spinner,
+    Text,
+    Textarea,
+    VStack,
+} from "@chakra-ui/react";
+import {
+    useLocation,
+    useNavigate,
+    useSearchParams,
+} from "react-router-dom";
+import { LuArrowLeft, LuCheck, LuSquare, LuWandSparkles } from "react-icons/lu";
+import { CodeHighlighter } from "@/components/workflow/CodeHighlighter";
+import { StreamConsole } from "@/components/console";
+import type { GenerationEvent } from "@/components/console/utils";
+import { EmptyState } from "@/components/ui/empty-state";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useI18n } from "@/hooks/useI18n";
+import { getLatestCode } from "@/lib/workflow-revisions";
+import { useWorkflow, useWorkflowsList } from "@/pages/workflows";
+import { buildFixDescription, findLatestFailedResult } from "./fix-description";
+import { useWorkflowFix } from "./useWorkflowFix";
+
+/**
+ * FixPage に遷移する際の location.state
+ */
+export type FixPageState = {
+    /** 戻り先のパス */
+    from?: string;
+    /** 修正依頼文の初期値 */
+    description?: string;
+};
+
+function WorkflowPicker({
+    value,
+    onChange,
+}: {
+    value: string;
+    onChange: (workflowId: string) => void;
+}) {
+    const { t } = useI18n();
+    const { workflows, loading } = useWorkflowsList();
+
+    return (
+        <NativeSelect.Root size="sm" disabled={loading}>
+            <NativeSelect.Field
+                value={value}
+                onChange={(e) => onChange(e.currentTarget.value)}
+                aria-label={t("fix.selectWorkflow")}
+            >
+                <option value="">{t("fix.selectWorkflow")}</option>
+                {workflows.map((w) => (
+                    <option key={w.id} value={w.id}>
+                        {w.displayName || t("common.untitledWorkflow")}
+                    </option>
+                ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+        </NativeSelect.Root>
+    );
+}
+
+export function FixPage() {
+    const { t } = useI18n();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const workflowId = searchParams.get("workflowId") || "";
+    const { workflow: loadedWorkflow, loading, error } = useWorkflow(
+        workflowId,
+    );
+    // 選択解除後に前回読み込んだワークフローが残らないようにする
+    const workflow = workflowId ? loadedWorkflow : null;
+    const {
+        streaming,
+        events,
+        changeSummary,
+        fixedCode,
+        saving,
+        start,
+        stop,
+        reset,
+        accept,
+    } = useWorkflowFix();
+
+    const state = location.state as FixPageState | null;
+    const backPath = state?.from ||
+        (workflowId ? `/workflows/${workflowId}` : "/workflows");
+
+    const [description, setDescription] = React.useState(
+        state?.description || "",
+    );
+
+    const sourceCode = React.useMemo(() => getLatestCode(workflow), [workflow]);
+
+    // 遷移元から依頼文が渡されていない場合は、直近の失敗結果から組み立てる
+    const seededForRef = React.useRef<string | null>(null);
+    React.useEffect(() => {
+        if (!workflow || seededForRef.current === workflow.id) return;
+        seededForRef.current = workflow.id;
+        if (description.trim()) return;
+        const failed = findLatestFailedResult(workflow);
+        if (failed) {
+            setDescription(buildFixDescription(failed));
+        }
+    }, [workflow, description]);
+
+    const handleSelectWorkflow = React.useCallback(
+        (id: string) => {
+            reset();
+            setDescription("");
+            seededForRef.current = null;
+            setSearchParams(id ? { workflowId: id } : {});
+        },
+        [reset, setSearchParams],
+    );
+
+    const handleFix = React.useCallback(() => {
+        if (!sourceCode?.code) return;
+        start(sourceCode.code, description);
+    }, [sourceCode, description, start]);
+
+    const handleAccept = React.useCallback(async () => {
+        if (!workflow) return;
+        const saved = await accept(workflow);
+        if (!saved) {
+            toaster.create({
+                title: t("fix.acceptError"),
+                type: "error",
+                duration: 5000,
+            });
+            return;
+        }
+        toaster.create({
+            title: t("fix.acceptSuccess"),
+            description: t("fix.acceptSuccessDescription", {
+                name: saved.displayName || t("common.untitledWorkflow"),
+            }),
+            type: "success",
+            duration: 3000,
+        });
+        navigate(`/workflows/${workflow.id}`);
+    }, [workflow, accept, navigate, t]);
+
+    const canFix = !!sourceCode?.code && !!description.trim() && !streaming;
+
+    return (
+        <Flex direction="column" h="full" overflow="hidden">
+            {/* Header */}
+            <Box
+                borderBottomWidth="1px"
+                borderBottomColor="border"
+                px={{ base: 4, md: 6 }}
+                py={3}
+                bg="bg.panel"
+                zIndex={10}
+            >
+                <HStack gap={3}>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => navigate(backPath)}
+                        aria-label={t("common.back")}
+                    >
+                        <LuArrowLeft />
+                    </Button>
+                    <VStack align="start" gap={0}>
+                        <Heading size="md">
+                            {t("fix.title")}
+                            {workflow &&
+                                ` - ${
+                                    workflow.displayName ||
+                                    t("common.untitledWorkflow")
+                                }`}
+                        </Heading>
+                        <Text fontSize="sm" color="fg.muted">
+                            {t("fix.subtitle")}
+                        </Text>
+                    </VStack>
+                </HStack>
+            </Box>
+
+            {/* Main Content */}
+            <Grid
+                flex="1"
+                minH={0}
+                overflow="auto"
+                p={4}
+                gap={4}
+                templateColumns={{ base: "1fr", lg: "1fr 1fr" }}
+            >
+                {/* Source */}
+                <Card.Root variant="outline" minH={0}>
+                    <Card.Body p={4}>
+                        <VStack align="stretch" gap={3}>
+                            <HStack justify="space-between">
+                                <Text fontWeight="medium">
+                                    {t("fix.source")}
+                                </Text>
+                                {sourceCode && (
+                                    <Badge size="sm" colorPalette="gray">
+                                        {t("fix.revision", {
+                                            revision: sourceCode.codeRevision,
+                                        })}
+                                    </Badge>
+                                )}
+                            </HStack>
+
+                            <WorkflowPicker
+                                value={workflowId}
+                                onChange={handleSelectWorkflow}
+                            />
+
+                            {loading
+                                ? (
+                                    <HStack justify="center" py={6}>
+                                        <Spinner size="sm" />
+                                        <Text fontSize="sm" color="fg.muted">
+                                            {t("workflowView.loading")}
+                                        </Text>
+                                    </HStack>
+                                )
+                                : error
+                                ? (
+                                    <Text fontSize="sm" color="red.500">
+                                        {error instanceof Error
+                                            ? error.message
+                                            : String(error)}
+                                    </Text>
+                                )
+                                : sourceCode
+                                ? (
+                                    <Box
+                                        borderWidth="1px"
+                                        rounded="md"
+                                        bg="bg.subtle"
+                                        maxH="320px"
+                                        overflow="auto"
+                                    >
+                                        <CodeHighlighter
+                                            code={sourceCode.code}
+                                            language="javascript"
+                                        />
+                                    </Box>
+                                )
+                                : (
+                                    <Text fontSize="sm" color="fg.muted">
+                                        {workflowId
+                                            ? t("fix.noCode")
+                                            : t("fix.noWorkflowSelected")}
+                                    </Text>
+                                )}
+
+                            <Box>
+                                <Text fontSize="sm" fontWeight="medium" mb={1}>
+                                    {t("fix.descriptionLabel")}
+                                </Text>
+                                <Textarea
+                                    value={description}
+                                    onChange={(e) =>
+                                        setDescription(e.target.value)}
+                                    placeholder={t(
+                                        "fix.descriptionPlaceholder",
+                                    )}
+                                    rows={6}
+                                    fontSize="sm"
+                                />
+                            </Box>
+
+                            <HStack justify="flex-end" gap={2}>
+                                {streaming && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={stop}
+                                    >
+                                        <LuSquare size={14} />
+                                        {t("fix.stop")}
+                                    </Button>
+                                )}
+                                <Button
+                                    size="sm"
+                                    colorPalette="floorp"
+                                    onClick={handleFix}
+                                    disabled={!canFix}
+                                    loading={streaming}
+                                >
+                                    <LuWandSparkles size={14} />
+                                    {t("fix.start")}
+                                </Button>
+                            </HStack>
+                        </VStack>
+                    </Card.Body>
+                </Card.Root>
+
+                {/* Proposed fix */}
+                <Card.Root variant="outline" minH={0}>
+                    <Card.Body p={4}>
+                        <VStack align="stretch" gap={3} h="full">
+                            <Text fontWeight="medium">
+                                {t("fix.proposal")}
+                            </Text>
+
+                            {!fixedCode && !streaming && events.length === 0
+                                ? (
+                                    <EmptyState
+                                        icon={<LuWandSparkles />}
+                                        title={t("fix.noProposal")}
+                                        description={t(
+                                            "fix.noProposalDescription",
+                                        )}
+                                    />
+                                )
+                                : (
+                                    <>
+                                        {changeSummary && (
+                                            <Box
+                                                p={3}
+                                                rounded="md"
+                                                bg="blue.50"
+                                                borderWidth="1px"
+                                                borderColor="blue.200"
+                                                _dark={{
+                                                    bg: "blue.900/20",
+                                                    borderColor: "blue.800",
+                                                }}
+                                            >
+                                                <Text
+                                                    fontSize="xs"
+                                                    fontWeight="medium"
+                                                    mb={1}
+                                                >
+                                                    {t("fix.changeSummary")}
+                                                </Text>
+                                                <Text
+                                                    fontSize="sm"
+                                                    whiteSpace="pre-wrap"
+                                                >
+                                                    {changeSummary}
+                                                </Text>
+                                            </Box>
+                                        )}
+
+                                        {fixedCode && (
+                                            <Box
+                                                borderWidth="1px"
+                                                rounded="md"
+                                                bg="bg.subtle"
+                                                maxH="320px"
+                                                overflow="auto"
+                                            >
+                                                <CodeHighlighter
+                                                    code={fixedCode.code}
+                                                    language="javascript"
+                                                />
+                                            </Box>
+                                        )}
+
+                                        <HStack justify="flex-end" gap={2}>
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={reset}
+                                                disabled={streaming || saving}
+                                            >
+                                                {t("fix.discard")}
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                colorPalette="green"
+                                                onClick={handleAccept}
+                                                disabled={!fixedCode ||
+                                                    !workflow || streaming}
+                                                loading={saving}
+                                            >
+                                                <LuCheck size={14} />
+                                                {t("fix.accept")}
+                                            </Button>
+                                        </HStack>
+
+                                        <Box
+                                            h="220px"
+                                            minH={0}
+                                            overflow="hidden"
+                                        >
+                                            <StreamConsole
+                                                events={events as GenerationEvent[]}
+                                                streaming={streaming}
+                                            />
+                                        </Box>
+                                    </>
+                                )}
+                        </VStack>
+                    </Card.Body>
+                </Card.Root>
+            </Grid>
+        </Flex>
+    );
+}
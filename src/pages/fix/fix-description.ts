@@ -0,0 +1,66 @@
+/**
+ * @fileoverview 失敗した実行結果から修正依頼文を組み立てるユーティリティ
+ *
+ * @module pages/fix/fix-description
+ */
+
+import i18n from "@/i18n/config";
+import { WorkflowResultType } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Workflow, WorkflowResult } from "@/gen/sapphillon/v1/workflow_pb";
+
+/** 修正依頼文に含める実行結果の最大文字数 */
+const MAX_RESULT_LENGTH = 2000;
+
+/**
+ * 実行結果が失敗かどうかを判定
+ *
+ * @param result - 判定する実行結果
+ * @returns 失敗していれば true
+ */
+export function isFailedResult(result?: WorkflowResult | null): boolean {
+  return result?.resultType === WorkflowResultType.FAILURE;
+}
+
+/**
+ * ワークフローの実行履歴から最新の失敗結果を取得
+ *
+ * @param workflow - 対象のワークフロー
+ * @returns 最新の失敗結果（存在しない場合は null）
+ */
+export function findLatestFailedResult(
+  workflow?: Workflow | null
+): WorkflowResult | null {
+  const failed = (workflow?.workflowResults || []).filter(isFailedResult);
+  if (failed.length === 0) return null;
+  return failed.reduce((latest, r) => {
+    const a = latest.ranAt ? Number(latest.ranAt.seconds) : 0;
+    const b = r.ranAt ? Number(r.ranAt.seconds) : 0;
+    return b >= a ? r : latest;
+  });
+}
+
+/**
+ * 失敗した実行結果から FixWorkflow 用の修正依頼文を生成
+ *
+ * 実行結果の出力が長い場合は末尾側を優先して切り詰めます
+ * （エラーメッセージは出力の末尾に現れることが多いため）。
+ *
+ * @param result - 失敗した実行結果
+ * @returns 修正依頼文
+ */
+export function buildFixDescription(result: WorkflowResult): string {
+  const output = (result.result || "").trim();
+  const truncated = output.length > MAX_RESULT_LENGTH
+    ? "…" + output.slice(output.length - MAX_RESULT_LENGTH)
+    : output;
+
+  if (!truncated) {
+    return i18n.t("fix.seedDescriptionNoOutput", {
+      exitCode: result.exitCode,
+    });
+  }
+  return i18n.t("fix.seedDescription", {
+    exitCode: result.exitCode,
+    output: truncated,
+  });
+}
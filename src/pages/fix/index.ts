@@ -0,0 +1,8 @@
+export { FixPage } from "./FixPage";
+export type { FixPageState } from "./FixPage";
+export { useWorkflowFix } from "./useWorkflowFix";
+export {
+  buildFixDescription,
+  findLatestFailedResult,
+  isFailedResult,
+} from "./fix-description";
@@ -0,0 +1,86 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import {
+  WorkflowCodeSchema,
+  WorkflowSchema,
+} from "@/gen/sapphillon/v1/workflow_pb";
+
+const fixWorkflow = vi.fn();
+const updateWorkflow = vi.fn();
+vi.mock("@/lib/grpc-clients", () => ({
+  clients: {
+    workflow: {
+      fixWorkflow: (...args: unknown[]) => fixWorkflow(...args),
+      updateWorkflow: (...args: unknown[]) => updateWorkflow(...args),
+    },
+  },
+}));
+
+import { useWorkflowFix } from "./useWorkflowFix";
+
+const original = create(WorkflowSchema, {
+  id: "wf-1",
+  displayName: "Report",
+  workflowCode: [
+    create(WorkflowCodeSchema, { codeRevision: 1, code: "broken()" }),
+  ],
+});
+
+async function renderFixed() {
+  fixWorkflow.mockImplementation(async function* () {
+    yield {
+      fixedWorkflowDefinition: create(WorkflowSchema, {
+        workflowCode: [create(WorkflowCodeSchema, { code: "fixed()" })],
+      }),
+      changeSummary: "Fixed the call",
+    };
+  });
+  const hook = renderHook(() => useWorkflowFix());
+  await act(() => hook.result.current.start("broken()", "fix it"));
+  await waitFor(() => expect(hook.result.current.fixedCode?.code).toBe("fixed()"));
+  return hook;
+}
+
+describe("useWorkflowFix", () => {
+  beforeEach(() => {
+    fixWorkflow.mockReset();
+    updateWorkflow.mockReset();
+  });
+
+  it("saves only the code revisions when accepting a fix", async () => {
+    updateWorkflow.mockImplementation(async (req) => ({
+      workflow: req.workflow,
+    }));
+    const { result } = await renderFixed();
+
+    let saved = null;
+    await act(async () => {
+      saved = await result.current.accept(original);
+    });
+
+    const [req] = updateWorkflow.mock.calls[0];
+    expect(req.updateMask.paths).toEqual(["workflow_code"]);
+    expect(req.workflow.workflowCode.map((c: { code: string }) => c.code))
+      .toEqual(["broken()", "fixed()"]);
+    expect(saved).not.toBeNull();
+    expect(result.current.saveError).toBeNull();
+  });
+
+  it("reports a server error status as a failed save", async () => {
+    updateWorkflow.mockResolvedValue({
+      status: { code: 13, message: "storage unavailable" },
+    });
+    const { result } = await renderFixed();
+    const err = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    let saved: unknown = undefined;
+    await act(async () => {
+      saved = await result.current.accept(original);
+    });
+
+    expect(saved).toBeNull();
+    expect(result.current.saveError).toBe("storage unavailable");
+    err.mockRestore();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview AIによるワークフロー修正を管理するカスタムフック
+ *
+ * @module pages/fix/useWorkflowFix
+ */
+
+import React from "react";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import { FieldMaskSchema } from "@bufbuild/protobuf/wkt";
+import { clients } from "@/lib/grpc-clients";
+import { appendCodeRevision, getLatestCode } from "@/lib/workflow-revisions";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import type { FixWorkflowResponse } from "@/gen/sapphillon/v1/workflow_service_pb";
+import type { Workflow, WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+
+/**
+ * ワークフロー修正中のイベント
+ */
+export type FixEvent = {
+  /** イベント発生時刻（Unixタイムスタンプ） */
+  t: number;
+  /** イベント種別 */
+  kind: "message" | "error" | "done";
+  /** イベントのペイロード（種別により異なる） */
+  payload?: unknown;
+};
+
+/**
+ * useWorkflowFixフックの戻り値
+ */
+export interface UseWorkflowFixReturn {
+  /** 現在ストリーミング中かどうか */
+  streaming: boolean;
+  /** 修正中に発生したイベントのリスト */
+  events: FixEvent[];
+  /** 最後に受信した修正レスポンス */
+  latest: FixWorkflowResponse | null;
+  /** 最後に受信した変更内容の要約 */
+  changeSummary: string;
+  /** 修正後のワークフローコード（最新リビジョン） */
+  fixedCode: WorkflowCode | null;
+  /** 修正結果を保存中かどうか */
+  saving: boolean;
+  /** 保存時のエラー */
+  saveError: string | null;
+  /** 修正を開始 */
+  start: (workflowDefinition: string, description: string) => Promise<void>;
+  /** ストリーミングを停止 */
+  stop: () => void;
+  /** 修正結果を破棄 */
+  reset: () => void;
+  /** 修正結果を新しいコードリビジョンとして保存 */
+  accept: (workflow: Workflow) => Promise<Workflow | null>;
+}
+
+/**
+ * ワークフロー修正フック
+ *
+ * `WorkflowService.FixWorkflow` をストリーミングで呼び出し、修正された定義と
+ * 変更内容の要約を受け取ります。受け入れた修正は `UpdateWorkflow` で
+ * 新しい WorkflowCode リビジョンとして保存されます。
+ *
+ * @returns ワークフロー修正のための状態と関数
+ *
+ * @example
+ * ```tsx
+ * function FixPanel({ workflow }: { workflow: Workflow }) {
+ *   const { streaming, changeSummary, fixedCode, start, accept } = useWorkflowFix();
+ *   const code = workflow.workflowCode.at(-1)?.code ?? "";
+ *
+ *   return (
+ *     <div>
+ *       <Button onClick={() => start(code, "タイムアウトを修正")} loading={streaming}>
+ *         修正
+ *       </Button>
+ *       {changeSummary && <Text>{changeSummary}</Text>}
+ *       {fixedCode && <Button onClick={() => accept(workflow)}>適用</Button>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useWorkflowFix(): UseWorkflowFixReturn {
+  const [streaming, setStreaming] = React.useState(false);
+  const [events, setEvents] = React.useState<FixEvent[]>([]);
+  const [latest, setLatest] = React.useState<FixWorkflowResponse | null>(null);
+  const [changeSummary, setChangeSummary] = React.useState("");
+  const [saving, setSaving] = React.useState(false);
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const append = React.useCallback((e: Omit<FixEvent, "t">) => {
+    setEvents((prev) => [...prev, { t: Date.now(), ...e }]);
+  }, []);
+
+  const start = React.useCallback(
+    async (workflowDefinition: string, description: string) => {
+      if (!workflowDefinition.trim() || !description.trim() || streaming) {
+        return;
+      }
+      setEvents([]);
+      setLatest(null);
+      setChangeSummary("");
+      setSaveError(null);
+      setStreaming(true);
+      const ac = new AbortController();
+      abortRef.current = ac;
+      try {
+        for await (const msg of clients.workflow.fixWorkflow(
+          { workflowDefinition, description },
+          { signal: ac.signal }
+        )) {
+          if (msg.fixedWorkflowDefinition) {
+            setLatest(msg);
+          }
+          if (msg.changeSummary) {
+            setChangeSummary(msg.changeSummary);
+          }
+          append({ kind: "message", payload: msg });
+        }
+        append({ kind: "done", payload: { stage: "fix" } });
+      } catch (e) {
+        if ((e as Error).name === "AbortError") return;
+        if (e instanceof ConnectError && e.code === Code.Canceled) return;
+        append({ kind: "error", payload: e });
+      } finally {
+        setStreaming(false);
+        abortRef.current = null;
+      }
+    },
+    [append, streaming]
+  );
+
+  const stop = React.useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const reset = React.useCallback(() => {
+    setEvents([]);
+    setLatest(null);
+    setChangeSummary("");
+    setSaveError(null);
+  }, []);
+
+  const fixedCode = React.useMemo(
+    () => getLatestCode(latest?.fixedWorkflowDefinition),
+    [latest]
+  );
+
+  /**
+   * 修正結果を受け入れて保存
+   *
+   * 修正後のコードを元のワークフローの新しいリビジョンとして追加し、
+   * UpdateWorkflow で保存します。同時に行われた名前・説明の変更を
+   * 上書きしないよう、`workflow_code` だけを更新します。
+   */
+  const accept = React.useCallback(
+    async (workflow: Workflow): Promise<Workflow | null> => {
+      if (!fixedCode?.code) return null;
+      setSaving(true);
+      setSaveError(null);
+      try {
+        const updated = appendCodeRevision(workflow, {
+          code: fixedCode.code,
+          language: fixedCode.language || undefined,
+          pluginPackages: fixedCode.pluginPackages.length
+            ? fixedCode.pluginPackages
+            : undefined,
+          pluginFunctionIds: fixedCode.pluginFunctionIds.length
+            ? fixedCode.pluginFunctionIds
+            : undefined,
+          allowedPermissions: fixedCode.allowedPermissions.length
+            ? fixedCode.allowedPermissions
+            : undefined,
+        });
+        const res = await clients.workflow.updateWorkflow({
+          workflow: updated,
+          updateMask: create(FieldMaskSchema, { paths: ["workflow_code"] }),
+        });
+        if (res.status?.code !== 0 && res.status?.code !== undefined) {
+          throw new Error(res.status.message || "Failed to save fixed workflow");
+        }
+        emitWorkflowChange({ type: "updated", workflowId: workflow.id });
+        append({
+          kind: "message",
+          payload: { stage: "save", status: "done", workflowId: workflow.id },
+        });
+        return res.workflow ?? updated;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        setSaveError(message);
+        append({ kind: "error", payload: e });
+        console.error("Failed to save fixed workflow:", e);
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [append, fixedCode]
+  );
+
+  return {
+    streaming,
+    events,
+    latest,
+    changeSummary,
+    fixedCode,
+    saving,
+    saveError,
+    start,
+    stop,
+    reset,
+    accept,
+  } as const;
+}
@@ -12,32 +12,24 @@ import {
 import { EmptyState } from "@/components/ui/empty-state";
 import { LuCircleAlert, LuPackage } from "react-icons/lu";
 import { useI18n } from "@/hooks/useI18n";
+import { useQuery } from "@/hooks/useQuery";
 import { clients } from "@/lib/grpc-clients";
+import { QK } from "@/lib/query-keys";
 import type { PluginPackage } from "@/gen/sapphillon/v1/plugin_pb";
 
 export function PluginsPanel() {
   const { t } = useI18n();
-  const [plugins, setPlugins] = React.useState<PluginPackage[]>([]);
-  const [loading, setLoading] = React.useState(true);
-  const [error, setError] = React.useState<string | null>(null);
   const [searchQuery, setSearchQuery] = React.useState("");
+  const { data, error: queryError, loading } = useQuery(
+    QK.plugin.list({ pageSize: 100 }),
+    () => clients.plugin.listPlugins({ pageSize: 100 })
+  );
+  const plugins = React.useMemo(() => data?.plugins ?? [], [data]);
+  const error = queryError ? t("plugins.fetchError") : null;
 
   React.useEffect(() => {
-    async function fetchPlugins() {
-      try {
-        setLoading(true);
-        setError(null);
-        const response = await clients.plugin.listPlugins({ pageSize: 100 });
-        setPlugins(response.plugins);
-      } catch (e) {
-        console.error("Failed to fetch plugins:", e);
-        setError(t("plugins.fetchError"));
-      } finally {
-        setLoading(false);
-      }
-    }
-    fetchPlugins();
-  }, [t]);
+    if (queryError) console.error("Failed to fetch plugins:", queryError);
+  }, [queryError]);
 
   // 検索フィルター
   const filteredPlugins = React.useMemo(() => {
@@ -7,6 +7,7 @@
 import React from "react";
 import { create } from "@bufbuild/protobuf";
 import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
 import type {
   GenerateWorkflowResponse,
   RunWorkflowResponse,
@@ -175,6 +176,10 @@ export function useWorkflowGeneration(): UseWorkflowGenerationReturn {
 
       const workflowId = saveResponse.workflow.id;
       const workflowCodeId = saveResponse.workflow.workflowCode?.[0]?.id || "";
+      emitWorkflowChange({
+        type: latest.workflowDefinition.id ? "updated" : "created",
+        workflowId,
+      });
 
       append({
         kind: "message",
@@ -22,14 +22,18 @@ import {
   LuSearch,
   LuSend,
   LuSparkles,
+  LuTrash2,
   LuWrench,
   LuX,
 } from "react-icons/lu";
 import { useWorkflowsList } from "@/pages/workflows/useWorkflowsList";
+import { WorkflowDeleteDialog } from "@/pages/workflows/WorkflowDeleteDialog";
 import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
 import { CardSkeleton } from "@/components/ui/skeleton";
 import { WorkflowResultType } from "@/gen/sapphillon/v1/workflow_pb";
 import { useI18n } from "@/hooks/useI18n";
+import { useWorkflowSearch } from "@/hooks/useWorkflowSearch";
+import { WorkflowSearchSuggestions } from "@/components/workflow/WorkflowSearchSuggestions";
 
 function formatDate(
   timestamp?: { seconds: bigint; nanos: number },
@@ -72,7 +76,13 @@ function formatRelativeTime(
   return formatDate(timestamp, locale);
 }
 
-function WorkflowCard({ workflow }: { workflow: Workflow }) {
+function WorkflowCard({
+  workflow,
+  onDelete,
+}: {
+  workflow: Workflow;
+  onDelete?: (workflow: Workflow) => void;
+}) {
   const { t, currentLanguage } = useI18n();
   const navigate = useNavigate();
   const latestCode = workflow.workflowCode?.[workflow.workflowCode.length - 1];
@@ -136,14 +146,30 @@ function WorkflowCard({ workflow }: { workflow: Workflow }) {
                 </Text>
               )}
             </VStack>
-            <Button
-              size="sm"
-              colorPalette="floorp"
-              onClick={handleRun}
-              disabled={!latestCode}
-            >
-              <LuPlay />
-            </Button>
+            <HStack gap={1}>
+              {onDelete && (
+                <IconButton
+                  size="sm"
+                  variant="ghost"
+                  colorPalette="red"
+                  aria-label={t("workflows.delete")}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(workflow);
+                  }}
+                >
+                  <LuTrash2 />
+                </IconButton>
+              )}
+              <Button
+                size="sm"
+                colorPalette="floorp"
+                onClick={handleRun}
+                disabled={!latestCode}
+              >
+                <LuPlay />
+              </Button>
+            </HStack>
           </HStack>
 
           {/* Metadata */}
@@ -182,22 +208,24 @@ export function HomePage() {
   const { t } = useI18n();
   const navigate = useNavigate();
   const [prompt, setPrompt] = React.useState("");
-  const [searchQuery, setSearchQuery] = React.useState("");
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
 
   // ワークフロー一覧を取得
   const { workflows, loading, error, refetch } = useWorkflowsList();
+  const [workflowToDelete, setWorkflowToDelete] = React.useState<
+    Workflow | null
+  >(null);
 
-  // 検索フィルタリング
-  const filteredWorkflows = React.useMemo(() => {
-    if (!searchQuery.trim()) return workflows;
-    const query = searchQuery.toLowerCase();
-    return workflows.filter((w) => {
-      const name = (w.displayName || "").toLowerCase();
-      const desc = (w.description || "").toLowerCase();
-      return name.includes(query) || desc.includes(query);
-    });
-  }, [workflows, searchQuery]);
+  // 検索フィルタリング（lib/workflow-search のクエリ言語）
+  const {
+    query: searchQuery,
+    setQuery: setSearchQuery,
+    results: filteredWorkflows,
+    suggestions: searchSuggestions,
+    activeSuggestion,
+    applySuggestion,
+    handleKeyDown: handleSearchKeyDown,
+  } = useWorkflowSearch(workflows);
 
   const hasWorkflows = workflows.length > 0;
   const hasFilteredWorkflows = filteredWorkflows.length > 0;
@@ -405,6 +433,7 @@ export function HomePage() {
                       placeholder={t("home.searchPlaceholder")}
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
+                      onKeyDown={handleSearchKeyDown}
                       borderWidth="0"
                       px={0}
                       flex="1"
@@ -420,6 +449,15 @@ export function HomePage() {
                       </IconButton>
                     )}
                   </HStack>
+                  {searchSuggestions.length > 0 && (
+                    <Box mt={2}>
+                      <WorkflowSearchSuggestions
+                        suggestions={searchSuggestions}
+                        activeIndex={activeSuggestion}
+                        onSelect={applySuggestion}
+                      />
+                    </Box>
+                  )}
                 </Box>
               )}
 
@@ -501,7 +539,11 @@ export function HomePage() {
                       pb={4}
                     >
                       {filteredWorkflows.map((workflow) => (
-                        <WorkflowCard key={workflow.id} workflow={workflow} />
+                        <WorkflowCard
+                          key={workflow.id}
+                          workflow={workflow}
+                          onDelete={setWorkflowToDelete}
+                        />
                       ))}
                     </SimpleGrid>
                   )}
@@ -595,6 +637,14 @@ export function HomePage() {
           </HStack>
         </Box>
       </Box>
+
+      {workflowToDelete && (
+        <WorkflowDeleteDialog
+          open={!!workflowToDelete}
+          onClose={() => setWorkflowToDelete(null)}
+          workflow={workflowToDelete}
+        />
+      )}
     </Flex>
   );
 }
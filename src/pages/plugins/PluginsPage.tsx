@@ -20,33 +20,33 @@ import {
   LuShield,
 } from "react-icons/lu";
 import { useI18n } from "@/hooks/useI18n";
+import { useQuery } from "@/hooks/useQuery";
 import { clients } from "@/lib/grpc-clients";
+import { QK } from "@/lib/query-keys";
 import type { PluginPackage } from "@/gen/sapphillon/v1/plugin_pb";
 
 export function PluginsPage() {
   const { t } = useI18n();
-  const [plugins, setPlugins] = React.useState<PluginPackage[]>([]);
-  const [loading, setLoading] = React.useState(true);
-  const [error, setError] = React.useState<string | null>(null);
   const [searchQuery, setSearchQuery] = React.useState("");
-
-  const fetchPlugins = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await clients.plugin.listPlugins({ pageSize: 100 });
-      setPlugins(response.plugins);
-    } catch (e) {
-      console.error("Failed to fetch plugins:", e);
-      setError(t("plugins.fetchError"));
-    } finally {
-      setLoading(false);
-    }
-  }, [t]);
+  const {
+    data,
+    error: queryError,
+    loading,
+    fetching,
+    refetch,
+  } = useQuery(QK.plugin.list({ pageSize: 100 }), () =>
+    clients.plugin.listPlugins({ pageSize: 100 })
+  );
+  const plugins = React.useMemo(() => data?.plugins ?? [], [data]);
+  const error = queryError ? t("plugins.fetchError") : null;
 
   React.useEffect(() => {
-    fetchPlugins();
-  }, [fetchPlugins]);
+    if (queryError) console.error("Failed to fetch plugins:", queryError);
+  }, [queryError]);
+
+  const fetchPlugins = React.useCallback(() => {
+    refetch().catch(() => {});
+  }, [refetch]);
 
   // 検索フィルター
   const filteredPlugins = React.useMemo(() => {
@@ -84,7 +84,7 @@ export function PluginsPage() {
           size="sm"
           variant="outline"
           onClick={fetchPlugins}
-          disabled={loading}
+          disabled={fetching}
         >
           <LuRefreshCw />
           {t("pluginsPage.refresh")}
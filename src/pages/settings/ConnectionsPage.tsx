@@ -0,0 +1,519 @@
+import React from "react";
+import {
+    Badge,
+    Box,
+    Button,
+    Card,
+    Flex,
+    Heading,
+    HStack,
+    IconButton,
+    Input,
+    NativeSelect,
+    Stack,
+    Table,
+    Text,
+    VStack,
+} from "@chakra-ui/react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+    LuLogOut,
+    LuPencil,
+    LuPlugZap,
+    LuPlus,
+    LuTrash2,
+    LuX,
+} from "react-icons/lu";
+import { Field } from "@/components/ui/field";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useConnectionProfiles } from "@/hooks/useConnectionProfiles";
+import { useI18n } from "@/hooks/useI18n";
+import { DEFAULT_CONNECTION_PROFILE } from "@/lib/grpc-clients";
+import { clearAuthToken, getAuthToken } from "@/lib/auth";
+import {
+    createProfileId,
+    DEFAULT_PROFILE_ID,
+} from "@/lib/connection-profiles";
+import type { ConnectionProfile } from "@/lib/connection-profiles";
+
+type ConnectionFormData = {
+    name: string;
+    baseUrl: string;
+    format: "binary" | "json";
+    headers: { name: string; value: string }[];
+};
+
+const EMPTY_FORM: ConnectionFormData = {
+    name: "",
+    baseUrl: "",
+    format: "binary",
+    headers: [],
+};
+
+function toFormData(profile: ConnectionProfile): ConnectionFormData {
+    return {
+        name: profile.name,
+        baseUrl: profile.baseUrl,
+        format: profile.useBinaryFormat ? "binary" : "json",
+        headers: profile.headers.map((h) => ({ ...h })),
+    };
+}
+
+export function ConnectionsPage() {
+    const { t } = useI18n();
+    const {
+        profiles,
+        activeProfile,
+        saveProfile,
+        removeProfile,
+        activateProfile,
+    } = useConnectionProfiles();
+    // 編集中のプロファイル ID（新規作成時は "new"）
+    const [editingId, setEditingId] = React.useState<string | null>(null);
+    // サインアウト後に再描画するためのカウンター
+    const [, setSignOutCount] = React.useState(0);
+
+    // バリデーションスキーマ
+    const connectionFormSchema = React.useMemo(() =>
+        z.object({
+            name: z.string().trim().min(1, t("connections.nameRequired")),
+            baseUrl: z.string().url(t("connections.baseUrlInvalid")),
+            format: z.enum(["binary", "json"]),
+            headers: z.array(
+                z.object({
+                    name: z.string().regex(
+                        /^[A-Za-z0-9-]+$/,
+                        t("connections.headerNameInvalid"),
+                    ),
+                    value: z.string(),
+                }),
+            ),
+        }), [t]);
+
+    const {
+        register,
+        control,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<ConnectionFormData>({
+        resolver: zodResolver(connectionFormSchema),
+        defaultValues: EMPTY_FORM,
+    });
+    const { fields, append, remove } = useFieldArray({
+        control,
+        name: "headers",
+    });
+
+    // 既定プロファイルの URL と形式はビルド時の設定から決まるため編集不可
+    const isDefault = editingId === DEFAULT_PROFILE_ID;
+    const defaultFormatLabel = DEFAULT_CONNECTION_PROFILE.useBinaryFormat
+        ? t("connections.binary")
+        : t("connections.json");
+
+    // 作成フォームの表示
+    const startCreate = () => {
+        setEditingId("new");
+        reset(EMPTY_FORM);
+    };
+
+    // 編集開始
+    const startEdit = (profile: ConnectionProfile) => {
+        setEditingId(profile.id);
+        reset(toFormData(profile));
+    };
+
+    const closeForm = () => {
+        setEditingId(null);
+        reset(EMPTY_FORM);
+    };
+
+    // プロファイルの保存
+    const onSubmit = (data: ConnectionFormData) => {
+        const id = editingId === "new" || !editingId
+            ? createProfileId()
+            : editingId;
+        saveProfile({
+            id,
+            name: data.name.trim(),
+            baseUrl: data.baseUrl.replace(/\/+$/, ""),
+            useBinaryFormat: data.format === "binary",
+            headers: data.headers.filter((h) => h.name),
+        });
+        toaster.create({
+            title: t("connections.saveSuccess"),
+            type: "success",
+        });
+        closeForm();
+    };
+
+    // プロファイルの切り替え
+    const onActivate = (profile: ConnectionProfile) => {
+        activateProfile(profile.id);
+        toaster.create({
+            title: t("connections.switched", { name: profile.name }),
+            type: "success",
+        });
+    };
+
+    // 保存された認証トークンの削除
+    const onSignOut = (profile: ConnectionProfile) => {
+        clearAuthToken(profile.id);
+        setSignOutCount((n) => n + 1);
+        toaster.create({
+            title: t("auth.signedOut", { name: profile.name }),
+            type: "success",
+        });
+    };
+
+    // プロファイルの削除
+    const onDelete = (profile: ConnectionProfile) => {
+        if (!confirm(t("connections.deleteConfirm", { name: profile.name }))) {
+            return;
+        }
+        removeProfile(profile.id);
+        if (editingId === profile.id) closeForm();
+    };
+
+    return (
+        <Box p={6}>
+            <VStack align="stretch" gap={6}>
+                <Flex justify="space-between" align="center">
+                    <Box>
+                        <Heading size="xl">{t("connections.title")}</Heading>
+                        <Text fontSize="sm" color="fg.muted" mt={1}>
+                            {t("connections.description")}
+                        </Text>
+                    </Box>
+                    {editingId === null && (
+                        <Button colorPalette="floorp" onClick={startCreate}>
+                            <LuPlus />
+                            {t("connections.new")}
+                        </Button>
+                    )}
+                </Flex>
+
+                {/* 作成・編集フォーム */}
+                {editingId !== null && (
+                    <Card.Root>
+                        <Card.Header>
+                            <Flex justify="space-between" align="center">
+                                <Heading size="md">
+                                    {editingId === "new"
+                                        ? t("connections.createNew")
+                                        : t("connections.edit")}
+                                </Heading>
+                                <IconButton
+                                    aria-label={t("connections.cancel")}
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={closeForm}
+                                >
+                                    <LuX />
+                                </IconButton>
+                            </Flex>
+                        </Card.Header>
+                        <Card.Body>
+                            <form onSubmit={handleSubmit(onSubmit)}>
+                                <Stack gap={4}>
+                                    <Field
+                                        label={t("connections.name")}
+                                        invalid={!!errors.name}
+                                        errorText={errors.name?.message}
+                                    >
+                                        <Input {...register("name")} />
+                                    </Field>
+
+                                    <Field
+                                        label={t("connections.baseUrl")}
+                                        invalid={!!errors.baseUrl}
+                                        errorText={errors.baseUrl?.message}
+                                        helperText={isDefault
+                                            ? t("connections.defaultHint")
+                                            : undefined}
+                                    >
+                                        <Input
+                                            placeholder="http://localhost:50051"
+                                            readOnly={isDefault}
+                                            {...register("baseUrl")}
+                                        />
+                                    </Field>
+
+                                    <Field label={t("connections.format")}>
+                                        {isDefault
+                                            ? (
+                                                <Input
+                                                    readOnly
+                                                    value={defaultFormatLabel}
+                                                />
+                                            )
+                                            : (
+                                                <NativeSelect.Root>
+                                                    <NativeSelect.Field
+                                                        {...register("format")}
+                                                    >
+                                                        <option value="binary">
+                                                            {t(
+                                                                "connections.binary",
+                                                            )}
+                                                        </option>
+                                                        <option value="json">
+                                                            {t(
+                                                                "connections.json",
+                                                            )}
+                                                        </option>
+                                                    </NativeSelect.Field>
+                                                    <NativeSelect.Indicator />
+                                                </NativeSelect.Root>
+                                            )}
+                                    </Field>
+
+                                    <Box>
+                                        <Text
+                                            fontSize="sm"
+                                            fontWeight="medium"
+                                            mb={2}
+                                        >
+                                            {t("connections.headers")}
+                                        </Text>
+                                        <VStack align="stretch" gap={2}>
+                                            {fields.map((field, index) => (
+                                                <HStack
+                                                    key={field.id}
+                                                    align="flex-start"
+                                                >
+                                                    <Field
+                                                        invalid={!!errors
+                                                            .headers?.[index]
+                                                            ?.name}
+                                                        errorText={errors
+                                                            .headers?.[index]
+                                                            ?.name?.message}
+                                                    >
+                                                        <Input
+                                                            size="sm"
+                                                            fontFamily="mono"
+                                                            placeholder={t(
+                                                                "connections.headerName",
+                                                            )}
+                                                            {...register(
+                                                                `headers.${index}.name`,
+                                                            )}
+                                                        />
+                                                    </Field>
+                                                    <Input
+                                                        size="sm"
+                                                        fontFamily="mono"
+                                                        placeholder={t(
+                                                            "connections.headerValue",
+                                                        )}
+                                                        {...register(
+                                                            `headers.${index}.value`,
+                                                        )}
+                                                    />
+                                                    <IconButton
+                                                        aria-label={t(
+                                                            "connections.removeHeader",
+                                                        )}
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        colorPalette="red"
+                                                        onClick={() =>
+                                                            remove(index)}
+                                                    >
+                                                        <LuTrash2 />
+                                                    </IconButton>
+                                                </HStack>
+                                            ))}
+                                            <Box>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() =>
+                                                        append({
+                                                            name: "",
+                                                            value: "",
+                                                        })}
+                                                >
+                                                    <LuPlus />
+                                                    {t("connections.addHeader")}
+                                                </Button>
+                                            </Box>
+                                        </VStack>
+                                    </Box>
+
+                                    <HStack justify="flex-end">
+                                        <Button
+                                            variant="ghost"
+                                            onClick={closeForm}
+                                        >
+                                            {t("connections.cancel")}
+                                        </Button>
+                                        <Button
+                                            type="submit"
+                                            colorPalette="floorp"
+                                        >
+                                            {t("connections.save")}
+                                        </Button>
+                                    </HStack>
+                                </Stack>
+                            </form>
+                        </Card.Body>
+                    </Card.Root>
+                )}
+
+                {/* プロファイル一覧 */}
+                <Card.Root>
+                    <Card.Header>
+                        <Heading size="md">{t("connections.list")}</Heading>
+                    </Card.Header>
+                    <Card.Body p={0}>
+                        <Table.Root>
+                            <Table.Header>
+                                <Table.Row>
+                                    <Table.ColumnHeader>
+                                        {t("connections.name")}
+                                    </Table.ColumnHeader>
+                                    <Table.ColumnHeader>
+                                        {t("connections.baseUrl")}
+                                    </Table.ColumnHeader>
+                                    <Table.ColumnHeader>
+                                        {t("connections.format")}
+                                    </Table.ColumnHeader>
+                                    <Table.ColumnHeader>
+                                        {t("connections.headers")}
+                                    </Table.ColumnHeader>
+                                    <Table.ColumnHeader textAlign="right">
+                                        {t("connections.operations")}
+                                    </Table.ColumnHeader>
+                                </Table.Row>
+                            </Table.Header>
+                            <Table.Body>
+                                {profiles.map((profile) => {
+                                    const active =
+                                        profile.id === activeProfile.id;
+                                    return (
+                                        <Table.Row key={profile.id}>
+                                            <Table.Cell>
+                                                <HStack gap={2}>
+                                                    <Text>{profile.name}</Text>
+                                                    {active && (
+                                                        <Badge
+                                                            colorPalette="green"
+                                                            size="sm"
+                                                        >
+                                                            {t(
+                                                                "connections.active",
+                                                            )}
+                                                        </Badge>
+                                                    )}
+                                                </HStack>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <Text
+                                                    fontSize="sm"
+                                                    color="fg.muted"
+                                                    fontFamily="mono"
+                                                >
+                                                    {profile.baseUrl}
+                                                </Text>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <Text
+                                                    fontSize="sm"
+                                                    color="fg.muted"
+                                                >
+                                                    {profile.useBinaryFormat
+                                                        ? t("connections.binary")
+                                                        : t("connections.json")}
+                                                </Text>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <Text
+                                                    fontSize="sm"
+                                                    color="fg.muted"
+                                                    fontFamily="mono"
+                                                >
+                                                    {profile.headers
+                                                        .map((h) => h.name)
+                                                        .join(", ") || "-"}
+                                                </Text>
+                                            </Table.Cell>
+                                            <Table.Cell>
+                                                <HStack
+                                                    justify="flex-end"
+                                                    gap={2}
+                                                >
+                                                    {!active && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            onClick={() =>
+                                                                onActivate(
+                                                                    profile,
+                                                                )}
+                                                        >
+                                                            <LuPlugZap />
+                                                            {t(
+                                                                "connections.activate",
+                                                            )}
+                                                        </Button>
+                                                    )}
+                                                    {getAuthToken(profile.id) && (
+                                                        <IconButton
+                                                            aria-label={t(
+                                                                "auth.signOut",
+                                                            )}
+                                                            title={t(
+                                                                "auth.signOut",
+                                                            )}
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            onClick={() =>
+                                                                onSignOut(
+                                                                    profile,
+                                                                )}
+                                                        >
+                                                            <LuLogOut />
+                                                        </IconButton>
+                                                    )}
+                                                    <IconButton
+                                                        aria-label={t(
+                                                            "connections.edit",
+                                                        )}
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        onClick={() =>
+                                                            startEdit(profile)}
+                                                    >
+                                                        <LuPencil />
+                                                    </IconButton>
+                                                    <IconButton
+                                                        aria-label={t(
+                                                            "connections.delete",
+                                                        )}
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        colorPalette="red"
+                                                        disabled={profile.id ===
+                                                            DEFAULT_PROFILE_ID}
+                                                        onClick={() =>
+                                                            onDelete(profile)}
+                                                    >
+                                                        <LuTrash2 />
+                                                    </IconButton>
+                                                </HStack>
+                                            </Table.Cell>
+                                        </Table.Row>
+                                    );
+                                })}
+                            </Table.Body>
+                        </Table.Root>
+                    </Card.Body>
+                </Card.Root>
+            </VStack>
+        </Box>
+    );
+}
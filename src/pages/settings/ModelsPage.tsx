@@ -51,6 +51,9 @@ import { toaster } from "@/components/ui/toaster-instance";
 import { EmptyState } from "@/components/ui/empty-state";
 import { TableSkeleton } from "@/components/ui/skeleton";
 import { useI18n } from "@/hooks/useI18n";
+import { useQuery } from "@/hooks/useQuery";
+import { invalidateQueries } from "@/lib/query-cache";
+import { QK } from "@/lib/query-keys";
 
 type ModelFormData = {
   displayName: string;
@@ -60,9 +63,6 @@ type ModelFormData = {
 
 export function ModelsPage() {
   const { t } = useI18n();
-  const [models, setModels] = React.useState<Models[]>([]);
-  const [providers, setProviders] = React.useState<Provider[]>([]);
-  const [loading, setLoading] = React.useState(true);
   const [editingId, setEditingId] = React.useState<string | null>(null);
   const [isCreating, setIsCreating] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState("");
@@ -97,64 +97,70 @@ export function ModelsPage() {
     resolver: zodResolver(modelFormSchema),
   });
 
-  // プロバイダ一覧の取得
-  const fetchProviders = React.useCallback(async () => {
-    try {
-      const request = create(ListProvidersRequestSchema, {
-        pageSize: 100,
-      });
-      const response = await clients.provider.listProviders(request);
-      setProviders(response.providers);
-    } catch (error) {
-      console.error("Failed to fetch providers:", error);
-      toaster.create({
-        title: t("models.fetchError"),
-        type: "error",
-      });
-    }
-  }, [t]);
-
-  // モデル一覧の取得
-  const fetchModels = React.useCallback(async () => {
-    try {
-      setLoading(true);
-
-      // 検索クエリがある場合はSearchModelServiceを使用
-      if (searchQuery || providerFilter) {
-        const request = create(SearchModelRequestSchema, {
-          modelNameQuery: searchQuery || undefined,
-          providerNameQuery: providerFilter || undefined,
-          pageSize: 100,
-          pageToken: "",
-        });
-        const response = await clients.searchModel.searchModel(request);
-        setModels(response.models);
-      } else {
-        // 検索クエリがない場合はListModelsを使用
-        const request = create(ListModelsRequestSchema, {
-          pageSize: 100,
-        });
-        const response = await clients.model.listModels(request);
-        setModels(response.models);
-      }
-    } catch (error) {
-      console.error("Failed to fetch models:", error);
-      toaster.create({
-        title: t("models.fetchModelError"),
-        type: "error",
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [searchQuery, providerFilter, t]);
+  // プロバイダ一覧の取得（プロバイダ設定画面とキャッシュを共有）
+  const { data: providersData, error: providersError } = useQuery(
+    QK.provider.list({ pageSize: 100 }),
+    () =>
+      clients.provider.listProviders(
+        create(ListProvidersRequestSchema, { pageSize: 100 }),
+      ),
+  );
+  const providers = React.useMemo<Provider[]>(
+    () => providersData?.providers ?? [],
+    [providersData],
+  );
 
   React.useEffect(() => {
-    fetchProviders();
-  }, [fetchProviders]);
+    if (!providersError) return;
+    console.error("Failed to fetch providers:", providersError);
+    toaster.create({
+      title: t("models.fetchError"),
+      type: "error",
+    });
+  }, [providersError, t]);
+
+  // モデル一覧の取得
+  // 検索クエリがある場合はSearchModelServiceを、ない場合はListModelsを使用
+  const isSearching = !!(searchQuery || providerFilter);
+  const {
+    data: modelsData,
+    error: modelsError,
+    loading,
+  } = useQuery<{ models: Models[] }>(
+    isSearching
+      ? QK.model.search({
+        modelNameQuery: searchQuery || undefined,
+        providerNameQuery: providerFilter || undefined,
+        pageSize: 100,
+      })
+      : QK.model.list({ pageSize: 100 }),
+    () =>
+      isSearching
+        ? clients.searchModel.searchModel(
+          create(SearchModelRequestSchema, {
+            modelNameQuery: searchQuery || undefined,
+            providerNameQuery: providerFilter || undefined,
+            pageSize: 100,
+            pageToken: "",
+          }),
+        )
+        : clients.model.listModels(
+          create(ListModelsRequestSchema, { pageSize: 100 }),
+        ),
+  );
+  const models = React.useMemo<Models[]>(
+    () => modelsData?.models ?? [],
+    [modelsData],
+  );
 
   React.useEffect(() => {
-    fetchModels();
-  }, [fetchModels]);
+    if (!modelsError) return;
+    console.error("Failed to fetch models:", modelsError);
+    toaster.create({
+      title: t("models.fetchModelError"),
+      type: "error",
+    });
+  }, [modelsError, t]);
 
   // モデルの作成
   const onCreateModel = async (data: ModelFormData) => {
@@ -188,7 +194,7 @@ export function ModelsPage() {
       });
       reset();
       setIsCreating(false);
-      fetchModels();
+      invalidateQueries(QK.model.all());
     } catch (error) {
       console.error("Failed to create model:", error);
       toaster.create({
@@ -231,7 +237,7 @@ export function ModelsPage() {
       });
       reset();
       setEditingId(null);
-      fetchModels();
+      invalidateQueries(QK.model.all());
     } catch (error) {
       console.error("Failed to update model:", error);
       toaster.create({
@@ -257,7 +263,7 @@ export function ModelsPage() {
         title: t("models.deleteSuccess"),
         type: "success",
       });
-      fetchModels();
+      invalidateQueries(QK.model.all());
     } catch (error) {
       console.error("Failed to delete model:", error);
       toaster.create({
@@ -39,6 +39,9 @@ import { toaster } from "@/components/ui/toaster-instance";
 import { EmptyState } from "@/components/ui/empty-state";
 import { TableSkeleton } from "@/components/ui/skeleton";
 import { useI18n } from "@/hooks/useI18n";
+import { useQuery } from "@/hooks/useQuery";
+import { invalidateQueries } from "@/lib/query-cache";
+import { QK } from "@/lib/query-keys";
 
 type ProviderFormData = {
     displayName: string;
@@ -48,8 +51,6 @@ type ProviderFormData = {
 
 export function ProvidersPage() {
     const { t } = useI18n();
-    const [providers, setProviders] = React.useState<Provider[]>([]);
-    const [loading, setLoading] = React.useState(true);
     const [editingId, setEditingId] = React.useState<string | null>(null);
     const [isCreating, setIsCreating] = React.useState(false);
 
@@ -80,29 +81,27 @@ export function ProvidersPage() {
         resolver: zodResolver(providerFormSchema),
     });
 
-    // プロバイダ一覧の取得
-    const fetchProviders = React.useCallback(async () => {
-        try {
-            setLoading(true);
-            const request = create(ListProvidersRequestSchema, {
-                pageSize: 100,
-            });
-            const response = await clients.provider.listProviders(request);
-            setProviders(response.providers);
-        } catch (error) {
-            console.error("Failed to fetch providers:", error);
-            toaster.create({
-                title: t("providers.fetchError"),
-                type: "error",
-            });
-        } finally {
-            setLoading(false);
-        }
-    }, [t]);
+    // プロバイダ一覧の取得（モデル設定画面とキャッシュを共有）
+    const { data, error: fetchError, loading } = useQuery(
+        QK.provider.list({ pageSize: 100 }),
+        () =>
+            clients.provider.listProviders(
+                create(ListProvidersRequestSchema, { pageSize: 100 }),
+            ),
+    );
+    const providers = React.useMemo<Provider[]>(
+        () => data?.providers ?? [],
+        [data],
+    );
 
     React.useEffect(() => {
-        fetchProviders();
-    }, [fetchProviders]);
+        if (!fetchError) return;
+        console.error("Failed to fetch providers:", fetchError);
+        toaster.create({
+            title: t("providers.fetchError"),
+            type: "error",
+        });
+    }, [fetchError, t]);
 
     // プロバイダの作成
     const onCreateProvider = async (data: ProviderFormData) => {
@@ -124,7 +123,7 @@ export function ProvidersPage() {
             });
             reset();
             setIsCreating(false);
-            fetchProviders();
+            invalidateQueries(QK.provider.all());
         } catch (error) {
             console.error("Failed to create provider:", error);
             toaster.create({
@@ -158,7 +157,7 @@ export function ProvidersPage() {
             });
             reset();
             setEditingId(null);
-            fetchProviders();
+            invalidateQueries(QK.provider.all());
         } catch (error) {
             console.error("Failed to update provider:", error);
             toaster.create({
@@ -184,7 +183,9 @@ export function ProvidersPage() {
                 title: t("providers.deleteSuccess"),
                 type: "success",
             });
-            fetchProviders();
+            // 削除したプロバイダのモデルも表示しないよう、モデルも再取得
+            invalidateQueries(QK.provider.all());
+            invalidateQueries(QK.model.all());
         } catch (error) {
             console.error("Failed to delete provider:", error);
             toaster.create({
@@ -1,6 +1,7 @@
 import { Box, Tabs } from "@chakra-ui/react";
 import { ProvidersPage } from "./ProvidersPage";
 import { ModelsPage } from "./ModelsPage";
+import { ConnectionsPage } from "./ConnectionsPage";
 import { useI18n } from "@/hooks/useI18n";
 
 export function SettingsPage() {
@@ -11,6 +12,7 @@ export function SettingsPage() {
                 <Tabs.List>
                     <Tabs.Trigger value="providers">{t("settings.providers")}</Tabs.Trigger>
                     <Tabs.Trigger value="models">{t("settings.models")}</Tabs.Trigger>
+                    <Tabs.Trigger value="connections">{t("settings.connections")}</Tabs.Trigger>
                 </Tabs.List>
 
                 <Tabs.Content value="providers">
@@ -20,6 +22,10 @@ export function SettingsPage() {
                 <Tabs.Content value="models">
                     <ModelsPage />
                 </Tabs.Content>
+
+                <Tabs.Content value="connections">
+                    <ConnectionsPage />
+                </Tabs.Content>
             </Tabs.Root>
         </Box>
     );
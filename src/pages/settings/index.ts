@@ -1,3 +1,4 @@
 export { SettingsPage } from "./SettingsPage";
 export { ProvidersPage } from "./ProvidersPage";
 export { ModelsPage } from "./ModelsPage";
+export { ConnectionsPage } from "./ConnectionsPage";
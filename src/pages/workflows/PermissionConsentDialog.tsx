@@ -0,0 +1,186 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Dialog,
+  HStack,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuPlay, LuShieldAlert, LuShieldCheck } from "react-icons/lu";
+import { PermissionType } from "@/gen/sapphillon/v1/permission_pb";
+import {
+  PermissionIcon,
+  PermissionLevelBadge,
+} from "@/components/workflow/PermissionList";
+import type { PermissionGroup } from "@/components/workflow/permission-summary";
+import { useI18n } from "@/hooks/useI18n";
+import type { PendingConsent } from "./useRunPreflight";
+
+interface PermissionConsentDialogProps {
+  /** 承認待ちの実行（null の場合は閉じる） */
+  pending: PendingConsent | null;
+  /** 権限を承認して実行 */
+  onConfirm: () => void;
+  /** 実行を取りやめる */
+  onCancel: () => void;
+}
+
+const TYPE_LABEL_KEYS: Partial<Record<PermissionType, string>> = {
+  [PermissionType.EXECUTE]: "workflowView.execute",
+  [PermissionType.FILESYSTEM_READ]: "workflowView.readFiles",
+  [PermissionType.FILESYSTEM_WRITE]: "workflowView.writeFiles",
+  [PermissionType.NET_ACCESS]: "workflowView.networkAccess",
+  [PermissionType.ALLOW_MCP]: "workflowView.mcpAccess",
+  [PermissionType.ALLOW_ALL]: "workflowView.allPermissions",
+};
+
+function PermissionGroupCard({ group }: { group: PermissionGroup }) {
+  const { t } = useI18n();
+  const color = group.highRisk ? "red" : "gray";
+
+  return (
+    <Box
+      borderWidth="1px"
+      rounded="md"
+      p={3}
+      borderColor={group.highRisk ? "red.300" : "border"}
+      bg={group.highRisk ? "red.50" : undefined}
+      _dark={group.highRisk
+        ? { borderColor: "red.700", bg: "red.900/20" }
+        : undefined}
+    >
+      <HStack justify="space-between" gap={2} mb={2}>
+        <HStack gap={2} color={group.highRisk ? "red.500" : undefined}>
+          <PermissionIcon type={group.type} />
+          <Text fontWeight="medium" fontSize="sm">
+            {t(TYPE_LABEL_KEYS[group.type] ?? "workflowView.unknown")}
+          </Text>
+          <PermissionLevelBadge level={group.level} />
+        </HStack>
+        {group.highRisk && (
+          <Badge colorPalette={color} size="sm">
+            {t("consent.highRisk")}
+          </Badge>
+        )}
+      </HStack>
+
+      <VStack align="stretch" gap={1.5}>
+        {group.permissions
+          .filter((p) => p.displayName || p.description)
+          .map((p, i) => (
+            <Text key={i} fontSize="xs" color="fg.muted">
+              {p.displayName && (
+                <Text as="span" fontWeight="medium" color="fg">
+                  {p.displayName}
+                </Text>
+              )}
+              {p.displayName && p.description && " — "}
+              {p.description}
+            </Text>
+          ))}
+        <Box>
+          <Text fontSize="xs" color="fg.muted">
+            {t("consent.resources")}
+          </Text>
+          {group.resources.length > 0
+            ? (
+              <VStack align="stretch" gap={0.5} mt={0.5}>
+                {group.resources.map((r) => (
+                  <Text
+                    key={r}
+                    fontSize="xs"
+                    fontFamily="mono"
+                    bg="bg.muted"
+                    px={1.5}
+                    py={0.5}
+                    rounded="sm"
+                    wordBreak="break-all"
+                  >
+                    {r}
+                  </Text>
+                ))}
+              </VStack>
+            )
+            : (
+              <Text fontSize="xs" fontWeight="medium">
+                {t("consent.anyResource")}
+              </Text>
+            )}
+        </Box>
+        <Text fontSize="xs" color="fg.subtle">
+          {t("consent.usedBy", { functions: group.functions.join(", ") })}
+        </Text>
+      </VStack>
+    </Box>
+  );
+}
+
+export function PermissionConsentDialog({
+  pending,
+  onConfirm,
+  onCancel,
+}: PermissionConsentDialogProps) {
+  const { t } = useI18n();
+  const groups = pending?.groups ?? [];
+  const highRisk = groups.some((g) => g.highRisk);
+
+  return (
+    <Dialog.Root
+      open={pending !== null}
+      onOpenChange={(e) => !e.open && onCancel()}
+      role="alertdialog"
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW={{ base: "100vw", md: "560px" }}>
+          <Dialog.Header>
+            <HStack gap={2} color={highRisk ? "red.500" : "floorp.500"}>
+              {highRisk ? <LuShieldAlert /> : <LuShieldCheck />}
+              <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                {t("consent.title")}
+              </Text>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <VStack align="stretch" gap={3}>
+              <Text fontSize="sm">
+                {t("consent.description", {
+                  revision: pending?.code.codeRevision ?? "",
+                })}
+              </Text>
+              {highRisk && (
+                <Text fontSize="sm" color="red.500" fontWeight="medium">
+                  {t("consent.highRiskWarning")}
+                </Text>
+              )}
+              <VStack align="stretch" gap={2} maxH="50vh" overflowY="auto">
+                {groups.map((group) => (
+                  <PermissionGroupCard key={group.type} group={group} />
+                ))}
+              </VStack>
+            </VStack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onCancel} flex="1">
+                {t("consent.cancel")}
+              </Button>
+              <Button
+                colorPalette={highRisk ? "red" : "floorp"}
+                onClick={onConfirm}
+                flex="1"
+              >
+                <LuPlay />
+                {t("consent.allowAndRun")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  HStack,
+  Text,
+} from "@chakra-ui/react";
+import { LuCircleAlert, LuPencil, LuPlay, LuTriangleAlert } from "react-icons/lu";
+import { WorkflowDiagnosticsPanel } from "@/components/workflow/WorkflowDiagnosticsPanel";
+import { useI18n } from "@/hooks/useI18n";
+import type { PendingDiagnostics } from "./useRunPreflight";
+
+interface RunDiagnosticsDialogProps {
+  /** 確認待ちの実行（null の場合は閉じる） */
+  pending: PendingDiagnostics | null;
+  /** 警告を承知で実行 */
+  onConfirm: () => void;
+  /** 実行を取りやめる */
+  onCancel: () => void;
+  /** 実行を取りやめてエディタを開く */
+  onEdit: () => void;
+}
+
+export function RunDiagnosticsDialog({
+  pending,
+  onConfirm,
+  onCancel,
+  onEdit,
+}: RunDiagnosticsDialogProps) {
+  const { t } = useI18n();
+  const blocked = pending?.blocked ?? false;
+
+  return (
+    <Dialog.Root
+      open={pending !== null}
+      onOpenChange={(e) => !e.open && onCancel()}
+      role="alertdialog"
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW={{ base: "100vw", md: "560px" }}>
+          <Dialog.Header>
+            <HStack gap={2} color={blocked ? "red.500" : "orange.500"}>
+              {blocked ? <LuCircleAlert /> : <LuTriangleAlert />}
+              <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                {blocked ? t("lint.blockedTitle") : t("lint.warningTitle")}
+              </Text>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <Text fontSize="sm" mb={3}>
+              {blocked
+                ? t("lint.blockedDescription")
+                : t("lint.warningDescription")}
+            </Text>
+            <Box maxH="50vh" overflowY="auto">
+              <WorkflowDiagnosticsPanel
+                diagnostics={pending?.diagnostics ?? []}
+                showHeader={false}
+              />
+            </Box>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onCancel} flex="1">
+                {t("lint.cancel")}
+              </Button>
+              {blocked
+                ? (
+                  <Button colorPalette="floorp" onClick={onEdit} flex="1">
+                    <LuPencil />
+                    {t("lint.openEditor")}
+                  </Button>
+                )
+                : (
+                  <Button colorPalette="orange" onClick={onConfirm} flex="1">
+                    <LuPlay />
+                    {t("lint.runAnyway")}
+                  </Button>
+                )}
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,392 @@
+/**
+ * @fileoverview ワークフローの実行キューのドロワー
+ *
+ * まとめて登録した実行（バッチ）ごとに、各ワークフローの状態と集計を表示します。
+ * 実行待ちの並べ替えやキャンセル、同時実行数の上限の変更ができます。
+ * バッチが完了したときは集計をトーストで通知します。
+ *
+ * @module pages/workflows/RunQueueDrawer
+ */
+
+import React from "react";
+import {
+    Badge,
+    Box,
+    Button,
+    Drawer,
+    HStack,
+    IconButton,
+    NativeSelect,
+    Text,
+    VStack,
+} from "@chakra-ui/react";
+import {
+    LuArrowDown,
+    LuArrowUp,
+    LuListOrdered,
+    LuTrash2,
+    LuX,
+} from "react-icons/lu";
+import { EmptyState } from "@/components/ui/empty-state";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useI18n } from "@/hooks/useI18n";
+import { API_CONFIG } from "@/lib/constants";
+import type {
+    QueuedRun,
+    QueuedRunStatus,
+    RunBatchSummary,
+} from "@/lib/run-queue";
+import { useRunQueue } from "./useRunQueue";
+import { workflowRunQueue } from "./workflow-run-queue";
+
+export interface RunQueueDrawerProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+const STATUS_COLORS: Record<QueuedRunStatus, string> = {
+    queued: "gray",
+    running: "blue",
+    success: "green",
+    failed: "red",
+    cancelled: "gray",
+    timeout: "orange",
+    skipped: "yellow",
+};
+
+const CONCURRENCY_OPTIONS = Array.from(
+    {
+        length: API_CONFIG.runQueue.concurrency.max -
+            API_CONFIG.runQueue.concurrency.min + 1,
+    },
+    (_, i) => API_CONFIG.runQueue.concurrency.min + i,
+);
+
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${ms} ms`;
+    const seconds = ms / 1000;
+    if (seconds < 60) return `${seconds.toFixed(1)} s`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * バッチの集計の説明文
+ */
+function useSummaryText() {
+    const { t } = useI18n();
+    return React.useCallback(
+        (summary: RunBatchSummary) =>
+            t("runQueue.summary", {
+                success: summary.counts.success,
+                failed: summary.counts.failed + summary.counts.timeout,
+                other: summary.counts.cancelled + summary.counts.skipped,
+            }),
+        [t],
+    );
+}
+
+function RunRow({
+    run,
+    position,
+    queuedCount,
+    onMove,
+    onCancel,
+}: {
+    run: QueuedRun;
+    /** バッチの実行待ちの中での位置（実行待ちでない場合は -1） */
+    position: number;
+    queuedCount: number;
+    onMove: (offset: number) => void;
+    onCancel: () => void;
+}) {
+    const { t } = useI18n();
+    const queued = run.status === "queued";
+    const active = queued || run.status === "running";
+
+    return (
+        <HStack
+            borderWidth="1px"
+            borderLeftWidth="4px"
+            borderLeftColor={`${STATUS_COLORS[run.status]}.500`}
+            rounded="md"
+            px={3}
+            py={2}
+            gap={2}
+            align="start"
+        >
+            <VStack align="stretch" gap={1} flex="1" minW={0}>
+                <HStack gap={2}>
+                    <Badge size="sm" colorPalette={STATUS_COLORS[run.status]}>
+                        {t(`runQueue.status.${run.status}`)}
+                    </Badge>
+                    <Text fontSize="sm" fontWeight="medium" truncate>
+                        {run.workflowName || run.workflowId}
+                    </Text>
+                </HStack>
+                {run.startedAt !== null && run.finishedAt !== null && (
+                    <Text fontSize="xs" color="fg.muted">
+                        {formatDuration(run.finishedAt - run.startedAt)}
+                    </Text>
+                )}
+                {run.message && (
+                    <Text
+                        fontSize="xs"
+                        color={run.status === "failed"
+                            ? "red.500"
+                            : "fg.muted"}
+                        wordBreak="break-word"
+                    >
+                        {run.message}
+                    </Text>
+                )}
+            </VStack>
+            <HStack gap={0.5} flexShrink={0}>
+                {queued && (
+                    <>
+                        <IconButton
+                            aria-label={t("runQueue.moveUp")}
+                            title={t("runQueue.moveUp")}
+                            size="xs"
+                            variant="ghost"
+                            disabled={position <= 0}
+                            onClick={() => onMove(-1)}
+                        >
+                            <LuArrowUp />
+                        </IconButton>
+                        <IconButton
+                            aria-label={t("runQueue.moveDown")}
+                            title={t("runQueue.moveDown")}
+                            size="xs"
+                            variant="ghost"
+                            disabled={position >= queuedCount - 1}
+                            onClick={() => onMove(1)}
+                        >
+                            <LuArrowDown />
+                        </IconButton>
+                    </>
+                )}
+                {active && (
+                    <IconButton
+                        aria-label={t("runQueue.cancel")}
+                        title={t("runQueue.cancel")}
+                        size="xs"
+                        variant="ghost"
+                        colorPalette="red"
+                        onClick={onCancel}
+                    >
+                        <LuX />
+                    </IconButton>
+                )}
+            </HStack>
+        </HStack>
+    );
+}
+
+function BatchHeader({
+    summary,
+    onCancelAll,
+}: {
+    summary: RunBatchSummary;
+    onCancelAll: () => void;
+}) {
+    const { t } = useI18n();
+    const summaryText = useSummaryText();
+    const done = summary.total - summary.counts.queued -
+        summary.counts.running;
+
+    return (
+        <VStack align="stretch" gap={1}>
+            <HStack justify="space-between" gap={2}>
+                <HStack gap={2}>
+                    <Text fontSize="sm" fontWeight="medium">
+                        {summary.source === "batch"
+                            ? t("runQueue.batchTitle", { count: summary.total })
+                            : t(`runQueue.source.${summary.source}`)}
+                    </Text>
+                    <Badge
+                        size="sm"
+                        colorPalette={summary.finished ? "green" : "blue"}
+                    >
+                        {t("runQueue.progress", {
+                            done,
+                            total: summary.total,
+                        })}
+                    </Badge>
+                </HStack>
+                {!summary.finished && (
+                    <Button size="xs" variant="ghost" onClick={onCancelAll}>
+                        {t("runQueue.cancelAll")}
+                    </Button>
+                )}
+            </HStack>
+            {summary.finished && (
+                <Text fontSize="xs" color="fg.muted">
+                    {summaryText(summary)}
+                    {" · "}
+                    {t("runQueue.duration", {
+                        duration: formatDuration(summary.durationMs),
+                        runTime: formatDuration(summary.totalRunMs),
+                    })}
+                </Text>
+            )}
+        </VStack>
+    );
+}
+
+/**
+ * 実行キューのドロワー
+ *
+ * アプリ全体で 1 回だけ使用してください（AppShell で使用しています）。
+ */
+export function RunQueueDrawer({ open, onClose }: RunQueueDrawerProps) {
+    const { t } = useI18n();
+    const summaryText = useSummaryText();
+    const {
+        runs,
+        batches,
+        concurrency,
+        cancel,
+        cancelBatch,
+        move,
+        clearFinished,
+        setConcurrency,
+    } = useRunQueue();
+
+    // まとめて実行したバッチの完了を通知（手動・スケジュールによる実行は
+    // それぞれの画面・通知で結果を伝える）
+    React.useEffect(
+        () =>
+            workflowRunQueue.onBatchEvent(({ type, summary }) => {
+                if (type !== "finished" || summary.source !== "batch") return;
+                const failed = summary.counts.failed + summary.counts.timeout;
+                toaster.create({
+                    title: t("runQueue.batchFinished"),
+                    description: `${summaryText(summary)} · ${
+                        t("runQueue.duration", {
+                            duration: formatDuration(summary.durationMs),
+                            runTime: formatDuration(summary.totalRunMs),
+                        })
+                    }`,
+                    type: failed > 0 ? "error" : "success",
+                    duration: 6000,
+                });
+            }),
+        [summaryText, t],
+    );
+
+    return (
+        <Drawer.Root
+            open={open}
+            onOpenChange={(e) => !e.open && onClose()}
+            placement="end"
+            size="md"
+        >
+            <Drawer.Backdrop />
+            <Drawer.Positioner>
+                <Drawer.Content>
+                    <Drawer.Header borderBottomWidth="1px">
+                        <HStack justify="space-between" w="full" gap={2}>
+                            <Drawer.Title>{t("runQueue.title")}</Drawer.Title>
+                            <HStack gap={1}>
+                                <NativeSelect.Root size="xs" w="auto">
+                                    <NativeSelect.Field
+                                        aria-label={t("runQueue.concurrency")}
+                                        title={t("runQueue.concurrency")}
+                                        value={concurrency}
+                                        onChange={(e) =>
+                                            setConcurrency(
+                                                Number(e.currentTarget.value),
+                                            )}
+                                    >
+                                        {CONCURRENCY_OPTIONS.map((n) => (
+                                            <option key={n} value={n}>
+                                                {t("runQueue.concurrencyOption", {
+                                                    count: n,
+                                                })}
+                                            </option>
+                                        ))}
+                                    </NativeSelect.Field>
+                                    <NativeSelect.Indicator />
+                                </NativeSelect.Root>
+                                <IconButton
+                                    aria-label={t("runQueue.clearFinished")}
+                                    title={t("runQueue.clearFinished")}
+                                    size="xs"
+                                    variant="ghost"
+                                    onClick={clearFinished}
+                                    disabled={!batches.some((b) => b.finished)}
+                                >
+                                    <LuTrash2 />
+                                </IconButton>
+                                <IconButton
+                                    aria-label={t("runQueue.close")}
+                                    size="xs"
+                                    variant="ghost"
+                                    onClick={onClose}
+                                >
+                                    <LuX />
+                                </IconButton>
+                            </HStack>
+                        </HStack>
+                    </Drawer.Header>
+
+                    <Drawer.Body>
+                        {batches.length === 0
+                            ? (
+                                <EmptyState
+                                    icon={<LuListOrdered />}
+                                    title={t("runQueue.empty")}
+                                    description={t("runQueue.emptyDescription")}
+                                />
+                            )
+                            : (
+                                <VStack align="stretch" gap={5}>
+                                    {batches.map((summary) => {
+                                        const batchRuns = runs.filter((r) =>
+                                            r.batchId === summary.batchId
+                                        );
+                                        const queuedIds = batchRuns
+                                            .filter((r) => r.status === "queued")
+                                            .map((r) => r.id);
+                                        return (
+                                        <Box key={summary.batchId}>
+                                            <BatchHeader
+                                                summary={summary}
+                                                onCancelAll={() =>
+                                                    cancelBatch(
+                                                        summary.batchId,
+                                                    )}
+                                            />
+                                            <VStack align="stretch" gap={2} mt={2}>
+                                                {batchRuns.map((run) => (
+                                                        <RunRow
+                                                            key={run.id}
+                                                            run={run}
+                                                            position={queuedIds
+                                                                .indexOf(
+                                                                    run.id,
+                                                                )}
+                                                            queuedCount={queuedIds
+                                                                .length}
+                                                            onMove={(offset) =>
+                                                                move(
+                                                                    run.id,
+                                                                    offset,
+                                                                )}
+                                                            onCancel={() =>
+                                                                cancel(run.id)}
+                                                        />
+                                                    ))}
+                                            </VStack>
+                                        </Box>
+                                        );
+                                    })}
+                                </VStack>
+                            )}
+                    </Drawer.Body>
+                </Drawer.Content>
+            </Drawer.Positioner>
+        </Drawer.Root>
+    );
+}
@@ -0,0 +1,62 @@
+import {
+  Button,
+  Dialog,
+  HStack,
+  Text,
+} from "@chakra-ui/react";
+import { LuTriangleAlert } from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+
+interface UnsavedChangesDialogProps {
+  open: boolean;
+  /** 変更を破棄して遷移を続行 */
+  onDiscard: () => void;
+  /** 遷移を取りやめて編集を続ける */
+  onCancel: () => void;
+}
+
+export function UnsavedChangesDialog({
+  open,
+  onDiscard,
+  onCancel,
+}: UnsavedChangesDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onCancel()}
+      role="alertdialog"
+      size={{ base: "full", md: "sm" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW={{ base: "100vw", md: "420px" }}>
+          <Dialog.Header>
+            <HStack gap={2} color="orange.500">
+              <LuTriangleAlert />
+              <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                {t("editor.unsavedTitle")}
+              </Text>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <Text fontSize="sm">{t("editor.unsavedDescription")}</Text>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onCancel} flex="1">
+                {t("editor.keepEditing")}
+              </Button>
+              <Button colorPalette="red" onClick={onDiscard} flex="1">
+                {t("editor.discardAndLeave")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -1,11 +1,13 @@
 import React from "react";
 import {
   Button,
+  Checkbox,
   Dialog,
   Field,
   HStack,
   IconButton,
   Input,
+  NativeSelect,
   Spinner,
   Text,
   Textarea,
@@ -33,31 +35,55 @@ export function WorkflowCloneDialog({
   const { cloneWorkflow, cloning, error } = useWorkflowClone();
   const [newName, setNewName] = React.useState("");
   const [newDescription, setNewDescription] = React.useState("");
+  // 複製するリビジョン（空文字はすべてのリビジョン）
+  const [workflowCodeId, setWorkflowCodeId] = React.useState("");
+  const [includeResults, setIncludeResults] = React.useState(false);
+
+  const revisions = React.useMemo(
+    () => [...(workflow.workflowCode || [])].reverse(),
+    [workflow.workflowCode]
+  );
 
   // ダイアログが開かれた時にデフォルト値を設定
   React.useEffect(() => {
     if (open) {
-      setNewName(`${workflow.displayName || t("common.untitledWorkflow")} (${t("common.copy")})`);
+      setNewName(
+        t("clone.nameSuffix", {
+          name: workflow.displayName || t("common.untitledWorkflow"),
+        })
+      );
       setNewDescription(
         workflow.description
-          ? `${workflow.description} (${t("clone.clone")})`
-          : t("clone.clone")
+          ? t("clone.descriptionSuffix", { description: workflow.description })
+          : t("clone.defaultDescription")
       );
+      setWorkflowCodeId("");
+      setIncludeResults(false);
     }
   }, [open, workflow, t]);
 
   const handleClone = React.useCallback(async () => {
     const cloned = await cloneWorkflow(workflow, {
-      newName: newName.trim() || `${workflow.displayName} (${t("common.copy")})`,
+      newName: newName.trim() || undefined,
+      newDescription: newDescription.trim(),
+      workflowCodeId: workflowCodeId || undefined,
+      includeResults,
     });
 
     if (cloned) {
-      // 説明文を上書き
-      cloned.description = newDescription.trim();
       onSuccess?.(cloned);
       onClose();
     }
-  }, [cloneWorkflow, workflow, newName, newDescription, onSuccess, onClose, t]);
+  }, [
+    cloneWorkflow,
+    workflow,
+    newName,
+    newDescription,
+    workflowCodeId,
+    includeResults,
+    onSuccess,
+    onClose,
+  ]);
 
   const handleKeyDown = React.useCallback(
     (e: React.KeyboardEvent) => {
@@ -141,6 +167,46 @@ export function WorkflowCloneDialog({
                 </Field.HelperText>
               </Field.Root>
 
+              {/* 複製するリビジョン */}
+              {revisions.length > 1 && (
+                <Field.Root>
+                  <Field.Label>{t("clone.revision")}</Field.Label>
+                  <NativeSelect.Root size="sm" disabled={cloning}>
+                    <NativeSelect.Field
+                      value={workflowCodeId}
+                      onChange={(e) => setWorkflowCodeId(e.currentTarget.value)}
+                    >
+                      <option value="">{t("clone.allRevisions")}</option>
+                      {revisions.map((code) => (
+                        <option key={code.id} value={code.id}>
+                          {t("revisions.revisionLabel", {
+                            revision: code.codeRevision,
+                          })}
+                        </option>
+                      ))}
+                    </NativeSelect.Field>
+                    <NativeSelect.Indicator />
+                  </NativeSelect.Root>
+                  <Field.HelperText>{t("clone.revisionHelper")}</Field.HelperText>
+                </Field.Root>
+              )}
+
+              {/* 実行履歴を含めるか */}
+              <Checkbox.Root
+                checked={includeResults}
+                onCheckedChange={(e) => setIncludeResults(!!e.checked)}
+                disabled={cloning}
+                size="sm"
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label>
+                  {t("clone.includeResults", {
+                    count: workflow.workflowResults?.length ?? 0,
+                  })}
+                </Checkbox.Label>
+              </Checkbox.Root>
+
               {/* エラー表示 */}
               {error && (
                 <VStack
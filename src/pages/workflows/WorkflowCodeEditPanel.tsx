@@ -0,0 +1,118 @@
+import React from "react";
+import {
+    Badge,
+    Box,
+    Button,
+    Flex,
+    HStack,
+    Spinner,
+    Text,
+} from "@chakra-ui/react";
+import { LuSave, LuUndo2 } from "react-icons/lu";
+import { CodeEditor } from "@/components/workflow/CodeEditor";
+import { getParseDiagnostics } from "@/components/workflow/diagnostics";
+import { lintWorkflowCode } from "@/components/workflow/workflow-linter";
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import { useI18n } from "@/hooks/useI18n";
+
+/**
+ * 最新リビジョンのコードを編集し、新しいリビジョンとして保存するパネル
+ *
+ * 編集内容（ドラフト）は呼び出し側で保持し、未保存の変更の確認に使用します。
+ */
+export function WorkflowCodeEditPanel({
+    latestCode,
+    value,
+    dirty,
+    saving,
+    onChange,
+    onSave,
+    onDiscard,
+}: {
+    latestCode: WorkflowCode | null;
+    value: string;
+    dirty: boolean;
+    saving: boolean;
+    onChange: (value: string) => void;
+    onSave: () => void;
+    onDiscard: () => void;
+}) {
+    const { t } = useI18n();
+
+    // 入力中の再解析で操作が重くならないよう、診断は遅延させて計算する
+    // プラグイン関数や権限のチェックには最新リビジョンの定義を使用する
+    const deferredValue = React.useDeferredValue(value);
+    const diagnostics = React.useMemo(
+        () =>
+            latestCode
+                ? lintWorkflowCode({ ...latestCode, code: deferredValue })
+                : getParseDiagnostics(deferredValue),
+        [latestCode, deferredValue],
+    );
+    // 保存を妨げるのは構文エラーのみ（実行前チェックの指摘は保存後に修正できる）
+    const errorCount = diagnostics.filter((d) => d.rule === "parse").length;
+    const canSave = dirty && !saving && errorCount === 0;
+
+    return (
+        <Flex direction="column" h="full" gap={2} minH={0}>
+            <HStack justify="space-between" flexWrap="wrap" gap={2}>
+                <HStack gap={2}>
+                    <Text fontWeight="medium" fontSize={{ base: "sm", md: "md" }}>
+                        {latestCode
+                            ? t("editor.basedOn", {
+                                revision: latestCode.codeRevision,
+                            })
+                            : t("editor.newCode")}
+                    </Text>
+                    {dirty && (
+                        <Badge colorPalette="orange" size="sm">
+                            {t("editor.unsaved")}
+                        </Badge>
+                    )}
+                </HStack>
+                <HStack gap={2}>
+                    {dirty && errorCount > 0 && (
+                        <Text fontSize="xs" color="red.500">
+                            {t("editor.fixErrorsToSave", { count: errorCount })}
+                        </Text>
+                    )}
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={onDiscard}
+                        disabled={!dirty || saving}
+                    >
+                        <LuUndo2 size={14} />
+                        <Text fontSize={{ base: "xs", sm: "sm" }}>
+                            {t("editor.discard")}
+                        </Text>
+                    </Button>
+                    <Button
+                        size="sm"
+                        colorPalette="floorp"
+                        onClick={onSave}
+                        disabled={!canSave}
+                    >
+                        {saving ? <Spinner size="xs" /> : <LuSave size={14} />}
+                        <Text fontSize={{ base: "xs", sm: "sm" }}>
+                            {saving ? t("editor.saving") : t("editor.save")}
+                        </Text>
+                    </Button>
+                </HStack>
+            </HStack>
+            <Text fontSize="xs" color="fg.muted">
+                {t("editor.hint")}
+            </Text>
+            <Box flex="1" minH={0}>
+                <CodeEditor
+                    value={value}
+                    onChange={onChange}
+                    diagnostics={diagnostics}
+                    onSave={() => canSave && onSave()}
+                    readOnly={saving}
+                    aria-label={t("editor.ariaLabel")}
+                />
+            </Box>
+        </Flex>
+    );
+}
@@ -0,0 +1,64 @@
+import {
+  Button,
+  MenuCheckboxItem,
+  MenuContent,
+  MenuItemIndicator,
+  MenuPositioner,
+  MenuRoot,
+  MenuTrigger,
+  Portal,
+} from "@chakra-ui/react";
+import { LuColumns3 } from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import { LIST_COLUMNS } from "@/lib/workflow-list-views";
+import type { ListColumn } from "@/lib/workflow-list-views";
+
+interface WorkflowColumnMenuProps {
+  columns: readonly ListColumn[];
+  onChange: (columns: ListColumn[]) => void;
+}
+
+/**
+ * ワークフロー一覧に表示する列の選択メニュー
+ */
+export function WorkflowColumnMenu({
+  columns,
+  onChange,
+}: WorkflowColumnMenuProps) {
+  const { t } = useI18n();
+
+  return (
+    <MenuRoot closeOnSelect={false}>
+      <MenuTrigger asChild>
+        <Button size="sm" variant="outline">
+          <LuColumns3 />
+          {t("listViews.columns")}
+        </Button>
+      </MenuTrigger>
+      <Portal>
+        <MenuPositioner>
+          <MenuContent>
+            {LIST_COLUMNS.map((column) => (
+              <MenuCheckboxItem
+                key={column}
+                value={column}
+                checked={columns.includes(column)}
+                onCheckedChange={(checked) =>
+                  onChange(
+                    checked
+                      ? LIST_COLUMNS.filter((c) =>
+                        c === column || columns.includes(c)
+                      )
+                      : columns.filter((c) => c !== column)
+                  )}
+              >
+                {t(`listViews.column.${column}`)}
+                <MenuItemIndicator />
+              </MenuCheckboxItem>
+            ))}
+          </MenuContent>
+        </MenuPositioner>
+      </Portal>
+    </MenuRoot>
+  );
+}
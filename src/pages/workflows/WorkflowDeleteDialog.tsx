@@ -0,0 +1,209 @@
+import React from "react";
+import {
+  Button,
+  Dialog,
+  HStack,
+  IconButton,
+  Spinner,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuTrash2, LuX } from "react-icons/lu";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { useWorkflowDelete } from "@/hooks/useWorkflowDelete";
+import { useI18n } from "@/hooks/useI18n";
+import { toaster } from "@/components/ui/toaster-instance";
+import { UI_CONFIG } from "@/lib/constants";
+
+interface WorkflowDeleteDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workflow: Workflow;
+  onDeleted?: (workflow: Workflow) => void;
+  onRestored?: (workflow: Workflow) => void;
+}
+
+export function WorkflowDeleteDialog({
+  open,
+  onClose,
+  workflow,
+  onDeleted,
+  onRestored,
+}: WorkflowDeleteDialogProps) {
+  const { t } = useI18n();
+  const { deleteWorkflow, restoreWorkflow, deleting, error } =
+    useWorkflowDelete();
+
+  const name = workflow.displayName || t("common.untitledWorkflow");
+  const runCount = workflow.workflowResults?.length ?? 0;
+  const revisionCount = workflow.workflowCode?.length ?? 0;
+
+  const handleUndo = React.useCallback(
+    async (snapshot: Workflow) => {
+      const restored = await restoreWorkflow(snapshot);
+      if (!restored) {
+        toaster.create({
+          title: t("deleteWorkflow.restoreError"),
+          type: "error",
+          duration: 5000,
+        });
+        return;
+      }
+      toaster.create({
+        title: t("deleteWorkflow.restored", { name }),
+        type: "success",
+        duration: 3000,
+      });
+      onRestored?.(restored);
+    },
+    [restoreWorkflow, onRestored, name, t]
+  );
+
+  const handleDelete = React.useCallback(async () => {
+    const snapshot = await deleteWorkflow(workflow);
+    if (!snapshot) return;
+
+    // 一定時間だけ取り消しを受け付ける
+    toaster.create({
+      title: t("deleteWorkflow.deleted", { name }),
+      type: "info",
+      duration: UI_CONFIG.toast.undoDuration,
+      action: {
+        label: t("deleteWorkflow.undo"),
+        onClick: () => {
+          void handleUndo(snapshot);
+        },
+      },
+    });
+    onDeleted?.(snapshot);
+    onClose();
+  }, [deleteWorkflow, workflow, handleUndo, onDeleted, onClose, name, t]);
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      role="alertdialog"
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxW={{ base: "100vw", md: "480px" }}>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <HStack gap={2} color="red.500">
+                <LuTrash2 />
+                <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                  {t("deleteWorkflow.title")}
+                </Text>
+              </HStack>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("deleteWorkflow.close")}
+                  variant="ghost"
+                  size="sm"
+                  disabled={deleting}
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <VStack align="stretch" gap={3}>
+              <Text fontSize="sm">
+                {t("deleteWorkflow.confirm", { name })}
+              </Text>
+              <VStack
+                align="stretch"
+                gap={1}
+                p={3}
+                bg="bg.subtle"
+                rounded="md"
+                fontSize="sm"
+              >
+                <HStack justify="space-between">
+                  <Text color="fg.muted">{t("deleteWorkflow.runHistory")}</Text>
+                  <Text fontWeight="medium">
+                    {t("deleteWorkflow.runCount", { count: runCount })}
+                  </Text>
+                </HStack>
+                <HStack justify="space-between">
+                  <Text color="fg.muted">{t("deleteWorkflow.revisions")}</Text>
+                  <Text fontWeight="medium">
+                    {t("deleteWorkflow.revisionCount", {
+                      count: revisionCount,
+                    })}
+                  </Text>
+                </HStack>
+              </VStack>
+              <Text fontSize="xs" color="fg.muted">
+                {t("deleteWorkflow.undoHint", {
+                  seconds: Math.round(UI_CONFIG.toast.undoDuration / 1000),
+                })}
+              </Text>
+
+              {/* エラー表示 */}
+              {error && (
+                <VStack
+                  align="stretch"
+                  gap={1}
+                  p={3}
+                  bg="red.50"
+                  borderWidth="1px"
+                  borderColor="red.200"
+                  rounded="md"
+                  css={{
+                    _dark: {
+                      bg: "red.900/20",
+                      borderColor: "red.800",
+                    },
+                  }}
+                >
+                  <Text fontSize="sm" fontWeight="medium" color="red.700">
+                    {t("deleteWorkflow.error")}
+                  </Text>
+                  <Text fontSize="xs" color="red.600">
+                    {error.message}
+                  </Text>
+                </VStack>
+              )}
+            </VStack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button
+                variant="outline"
+                onClick={onClose}
+                disabled={deleting}
+                flex="1"
+              >
+                {t("deleteWorkflow.cancel")}
+              </Button>
+              <Button
+                colorPalette="red"
+                onClick={handleDelete}
+                disabled={deleting}
+                flex="1"
+              >
+                {deleting ? (
+                  <HStack gap={2}>
+                    <Spinner size="xs" />
+                    <Text>{t("deleteWorkflow.deleting")}</Text>
+                  </HStack>
+                ) : (
+                  <>
+                    <LuTrash2 />
+                    <Text>{t("deleteWorkflow.delete")}</Text>
+                  </>
+                )}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,204 @@
+import React from "react";
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Dialog,
+  HStack,
+  IconButton,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuDownload, LuX } from "react-icons/lu";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { useI18n } from "@/hooks/useI18n";
+import { downloadFile } from "@/lib/utils";
+import { createWorkflowBundle } from "@/lib/workflow-bundle";
+
+interface WorkflowExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workflow: Workflow;
+}
+
+/**
+ * バンドルのファイル名（ワークフロー名から作成）
+ */
+function bundleFileName(workflow: Workflow): string {
+  const base = workflow.displayName
+    .trim()
+    .replace(/[\\/:*?"<>|\s]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${base || "workflow"}.sapphillon.json`;
+}
+
+export function WorkflowExportDialog({
+  open,
+  onClose,
+  workflow,
+}: WorkflowExportDialogProps) {
+  const { t } = useI18n();
+  // 書き出すリビジョンの ID（既定は最新のリビジョンのみ）
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [includeResults, setIncludeResults] = React.useState(false);
+
+  const revisions = React.useMemo(
+    () => [...(workflow.workflowCode || [])].reverse(),
+    [workflow.workflowCode]
+  );
+
+  React.useEffect(() => {
+    if (open) {
+      setSelectedIds(revisions.length > 0 ? [revisions[0].id] : []);
+      setIncludeResults(false);
+    }
+  }, [open, revisions]);
+
+  const allSelected = revisions.length > 0 &&
+    selectedIds.length === revisions.length;
+
+  const toggleRevision = (id: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, id] : prev.filter((p) => p !== id)
+    );
+  };
+
+  const handleExport = React.useCallback(() => {
+    const bundle = createWorkflowBundle(workflow, {
+      workflowCodeIds: selectedIds,
+      includeResults,
+    });
+    downloadFile(JSON.stringify(bundle, null, 2), bundleFileName(workflow));
+    onClose();
+  }, [workflow, selectedIds, includeResults, onClose]);
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <HStack gap={2}>
+                <LuDownload />
+                <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                  {t("bundle.exportTitle")}
+                </Text>
+              </HStack>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("bundle.close")}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <VStack align="stretch" gap={4}>
+              <Text fontSize="sm" color="fg.muted">
+                {t("bundle.exportDescription", {
+                  name: workflow.displayName || t("common.untitledWorkflow"),
+                })}
+              </Text>
+
+              {/* 書き出すリビジョン */}
+              <VStack align="stretch" gap={2}>
+                <HStack justify="space-between">
+                  <Text fontSize="sm" fontWeight="medium">
+                    {t("bundle.revisions")}
+                  </Text>
+                  <Button
+                    size="2xs"
+                    variant="ghost"
+                    onClick={() =>
+                      setSelectedIds(
+                        allSelected ? [] : revisions.map((c) => c.id)
+                      )}
+                  >
+                    {allSelected ? t("bundle.selectNone") : t("bundle.selectAll")}
+                  </Button>
+                </HStack>
+                <VStack
+                  align="stretch"
+                  gap={1}
+                  maxH="200px"
+                  overflowY="auto"
+                  borderWidth="1px"
+                  rounded="md"
+                  p={2}
+                >
+                  {revisions.map((code, i) => (
+                    <Checkbox.Root
+                      key={code.id}
+                      size="sm"
+                      checked={selectedIds.includes(code.id)}
+                      onCheckedChange={(e) =>
+                        toggleRevision(code.id, !!e.checked)}
+                    >
+                      <Checkbox.HiddenInput />
+                      <Checkbox.Control />
+                      <Checkbox.Label>
+                        <HStack gap={2}>
+                          <Text>
+                            {t("revisions.revisionLabel", {
+                              revision: code.codeRevision,
+                            })}
+                          </Text>
+                          {i === 0 && (
+                            <Badge size="sm" colorPalette="blue">
+                              {t("bundle.latest")}
+                            </Badge>
+                          )}
+                        </HStack>
+                      </Checkbox.Label>
+                    </Checkbox.Root>
+                  ))}
+                </VStack>
+              </VStack>
+
+              {/* 実行履歴を含めるか */}
+              <Checkbox.Root
+                checked={includeResults}
+                onCheckedChange={(e) => setIncludeResults(!!e.checked)}
+                size="sm"
+              >
+                <Checkbox.HiddenInput />
+                <Checkbox.Control />
+                <Checkbox.Label>
+                  {t("bundle.includeResults", {
+                    count: workflow.workflowResults?.length ?? 0,
+                  })}
+                </Checkbox.Label>
+              </Checkbox.Root>
+            </VStack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onClose} flex="1">
+                {t("bundle.cancel")}
+              </Button>
+              <Button
+                colorPalette="floorp"
+                onClick={handleExport}
+                disabled={selectedIds.length === 0}
+                flex="1"
+              >
+                <LuDownload />
+                {t("bundle.export")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,463 @@
+import React from "react";
+import {
+  Badge,
+  Box,
+  HStack,
+  IconButton,
+  Input,
+  MenuContent,
+  MenuItem,
+  MenuPositioner,
+  MenuRoot,
+  MenuTrigger,
+  Portal,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import {
+  LuChevronDown,
+  LuChevronRight,
+  LuEllipsis,
+  LuFolder,
+  LuFolderOpen,
+  LuFolderPlus,
+  LuInbox,
+  LuLayers,
+  LuPencil,
+  LuStar,
+  LuTag,
+  LuTrash2,
+} from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import { getFolderSubtreeIds } from "@/lib/workflow-organization";
+import type {
+  WorkflowFolder,
+  WorkflowListScope,
+  WorkflowOrganization,
+} from "@/lib/workflow-organization";
+
+/** ドラッグするワークフロー ID の dataTransfer の形式 */
+export const WORKFLOW_DRAG_TYPE = "application/x-sapphillon-workflow";
+/** ドラッグするフォルダー ID の dataTransfer の形式 */
+const FOLDER_DRAG_TYPE = "application/x-sapphillon-folder";
+
+interface WorkflowFolderTreeProps {
+  organization: WorkflowOrganization;
+  tags: { tag: string; count: number }[];
+  scope: WorkflowListScope;
+  onScopeChange: (scope: WorkflowListScope) => void;
+  selectedTags: string[];
+  onToggleTag: (tag: string) => void;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+  onMoveFolder: (folderId: string, parentId: string | null) => void;
+  onMoveWorkflow: (workflowId: string, folderId: string | null) => void;
+}
+
+/** 編集中のフォルダー名の入力 */
+type FolderEditing =
+  | { mode: "create"; parentId: string | null }
+  | { mode: "rename"; folderId: string };
+
+function FolderNameInput({
+  initialValue,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useI18n();
+  const [value, setValue] = React.useState(initialValue);
+  // Enter・Escape の後に続く blur で二重に確定しない
+  const done = React.useRef(false);
+  const finish = (name: string) => {
+    if (done.current) return;
+    done.current = true;
+    if (name) onSubmit(name);
+    else onCancel();
+  };
+  const submit = () => finish(value.trim());
+  return (
+    <Input
+      size="xs"
+      autoFocus
+      value={value}
+      placeholder={t("organize.folderName")}
+      aria-label={t("organize.folderName")}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={submit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") submit();
+        if (e.key === "Escape") finish("");
+      }}
+    />
+  );
+}
+
+/**
+ * ドロップを受け付ける行
+ */
+function DropTargetRow({
+  active,
+  onClick,
+  onDropItem,
+  depth = 0,
+  children,
+  ...dragProps
+}: {
+  active: boolean;
+  onClick: () => void;
+  onDropItem?: (data: { workflowId?: string; folderId?: string }) => void;
+  depth?: number;
+  children: React.ReactNode;
+  draggable?: boolean;
+  onDragStart?: React.DragEventHandler;
+}) {
+  const [over, setOver] = React.useState(false);
+  const accepts = (e: React.DragEvent) =>
+    !!onDropItem &&
+    (e.dataTransfer.types.includes(WORKFLOW_DRAG_TYPE) ||
+      e.dataTransfer.types.includes(FOLDER_DRAG_TYPE));
+
+  return (
+    <HStack
+      gap={1}
+      pl={`${depth * 12 + 4}px`}
+      pr={1}
+      py={1}
+      rounded="md"
+      cursor="pointer"
+      fontSize="sm"
+      bg={over ? "accent.subtle" : active ? "bg.muted" : undefined}
+      outline={over ? "1px dashed" : undefined}
+      outlineColor="accent.solid"
+      _hover={{ bg: over ? "accent.subtle" : "bg.subtle" }}
+      onClick={onClick}
+      onDragOver={(e) => {
+        if (!accepts(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        setOver(false);
+        if (!accepts(e)) return;
+        e.preventDefault();
+        onDropItem?.({
+          workflowId: e.dataTransfer.getData(WORKFLOW_DRAG_TYPE) || undefined,
+          folderId: e.dataTransfer.getData(FOLDER_DRAG_TYPE) || undefined,
+        });
+      }}
+      {...dragProps}
+    >
+      {children}
+    </HStack>
+  );
+}
+
+/**
+ * フォルダー・お気に入り・タグで一覧を絞り込むサイドバー
+ *
+ * ワークフローの行やフォルダーをドラッグしてフォルダーに移動できます。
+ */
+export function WorkflowFolderTree({
+  organization,
+  tags,
+  scope,
+  onScopeChange,
+  selectedTags,
+  onToggleTag,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveFolder,
+  onMoveWorkflow,
+}: WorkflowFolderTreeProps) {
+  const { t } = useI18n();
+  const [collapsed, setCollapsed] = React.useState<Set<string>>(new Set());
+  const [editing, setEditing] = React.useState<FolderEditing | null>(null);
+
+  const { folders, workflows } = organization;
+  const children = React.useMemo(() => {
+    const map = new Map<string | null, WorkflowFolder[]>();
+    for (const folder of folders) {
+      const parentId = folders.some((f) => f.id === folder.parentId)
+        ? folder.parentId
+        : null;
+      map.set(parentId, [...(map.get(parentId) ?? []), folder]);
+    }
+    map.forEach((list) => list.sort((a, b) => a.name.localeCompare(b.name)));
+    return map;
+  }, [folders]);
+
+  // フォルダーごとのワークフロー数（子孫のフォルダーを含む）
+  const countIn = React.useCallback(
+    (folderId: string) => {
+      const ids = getFolderSubtreeIds(folders, folderId);
+      return Object.values(workflows).filter((m) =>
+        m.folderId !== null && ids.has(m.folderId)
+      ).length;
+    },
+    [folders, workflows]
+  );
+  const favoriteCount = Object.values(workflows).filter((m) => m.favorite)
+    .length;
+
+  const handleDrop = (parentId: string | null) =>
+  (data: { workflowId?: string; folderId?: string }) => {
+    if (data.workflowId) onMoveWorkflow(data.workflowId, parentId);
+    if (data.folderId && data.folderId !== parentId) {
+      onMoveFolder(data.folderId, parentId);
+    }
+  };
+
+  const toggleCollapsed = (folderId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  };
+
+  const renderFolders = (parentId: string | null, depth: number) => (
+    <>
+      {(children.get(parentId) ?? []).map((folder) => {
+        const hasChildren = (children.get(folder.id) ?? []).length > 0;
+        const isOpen = !collapsed.has(folder.id);
+        const active = scope.kind === "folder" && scope.folderId === folder.id;
+        return (
+          <React.Fragment key={folder.id}>
+            {editing?.mode === "rename" && editing.folderId === folder.id
+              ? (
+                <Box pl={`${depth * 12 + 4}px`}>
+                  <FolderNameInput
+                    initialValue={folder.name}
+                    onSubmit={(name) => {
+                      onRenameFolder(folder.id, name);
+                      setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                  />
+                </Box>
+              )
+              : (
+                <DropTargetRow
+                  active={active}
+                  depth={depth}
+                  onClick={() =>
+                    onScopeChange({ kind: "folder", folderId: folder.id })}
+                  onDropItem={handleDrop(folder.id)}
+                  draggable
+                  onDragStart={(e) => {
+                    e.stopPropagation();
+                    e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                >
+                  <IconButton
+                    aria-label={isOpen
+                      ? t("organize.collapse")
+                      : t("organize.expand")}
+                    size="2xs"
+                    variant="ghost"
+                    visibility={hasChildren ? "visible" : "hidden"}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleCollapsed(folder.id);
+                    }}
+                  >
+                    {isOpen ? <LuChevronDown /> : <LuChevronRight />}
+                  </IconButton>
+                  {active ? <LuFolderOpen /> : <LuFolder />}
+                  <Text flex="1" truncate>
+                    {folder.name}
+                  </Text>
+                  <Text fontSize="xs" color="fg.muted">
+                    {countIn(folder.id)}
+                  </Text>
+                  <MenuRoot>
+                    <MenuTrigger asChild>
+                      <IconButton
+                        aria-label={t("organize.folderActions", {
+                          name: folder.name,
+                        })}
+                        size="2xs"
+                        variant="ghost"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <LuEllipsis />
+                      </IconButton>
+                    </MenuTrigger>
+                    <Portal>
+                      <MenuPositioner>
+                        <MenuContent>
+                          <MenuItem
+                            value="subfolder"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setCollapsed((prev) => {
+                                const next = new Set(prev);
+                                next.delete(folder.id);
+                                return next;
+                              });
+                              setEditing({ mode: "create", parentId: folder.id });
+                            }}
+                          >
+                            <LuFolderPlus />
+                            {t("organize.newSubfolder")}
+                          </MenuItem>
+                          <MenuItem
+                            value="rename"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditing({ mode: "rename", folderId: folder.id });
+                            }}
+                          >
+                            <LuPencil />
+                            {t("organize.renameFolder")}
+                          </MenuItem>
+                          <MenuItem
+                            value="delete"
+                            color="red.500"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDeleteFolder(folder.id);
+                              if (active) onScopeChange({ kind: "all" });
+                            }}
+                          >
+                            <LuTrash2 />
+                            {t("organize.deleteFolder")}
+                          </MenuItem>
+                        </MenuContent>
+                      </MenuPositioner>
+                    </Portal>
+                  </MenuRoot>
+                </DropTargetRow>
+              )}
+            {isOpen && renderFolders(folder.id, depth + 1)}
+            {editing?.mode === "create" && editing.parentId === folder.id && (
+              <Box pl={`${(depth + 1) * 12 + 4}px`}>
+                <FolderNameInput
+                  initialValue=""
+                  onSubmit={(name) => {
+                    onCreateFolder(name, folder.id);
+                    setEditing(null);
+                  }}
+                  onCancel={() => setEditing(null)}
+                />
+              </Box>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <VStack align="stretch" gap={4}>
+      <VStack align="stretch" gap={0.5}>
+        <DropTargetRow
+          active={scope.kind === "all"}
+          onClick={() => onScopeChange({ kind: "all" })}
+        >
+          <LuLayers />
+          <Text flex="1">{t("organize.allWorkflows")}</Text>
+        </DropTargetRow>
+        <DropTargetRow
+          active={scope.kind === "favorites"}
+          onClick={() => onScopeChange({ kind: "favorites" })}
+        >
+          <LuStar />
+          <Text flex="1">{t("organize.favorites")}</Text>
+          <Text fontSize="xs" color="fg.muted">
+            {favoriteCount}
+          </Text>
+        </DropTargetRow>
+        <DropTargetRow
+          active={scope.kind === "unfiled"}
+          onClick={() => onScopeChange({ kind: "unfiled" })}
+          onDropItem={handleDrop(null)}
+        >
+          <LuInbox />
+          <Text flex="1">{t("organize.unfiled")}</Text>
+        </DropTargetRow>
+      </VStack>
+
+      <VStack align="stretch" gap={0.5}>
+        <HStack justify="space-between" px={1}>
+          <Text fontSize="xs" fontWeight="medium" color="fg.muted">
+            {t("organize.folders")}
+          </Text>
+          <IconButton
+            aria-label={t("organize.newFolder")}
+            size="2xs"
+            variant="ghost"
+            onClick={() => setEditing({ mode: "create", parentId: null })}
+          >
+            <LuFolderPlus />
+          </IconButton>
+        </HStack>
+        {renderFolders(null, 0)}
+        {editing?.mode === "create" && editing.parentId === null && (
+          <FolderNameInput
+            initialValue=""
+            onSubmit={(name) => {
+              onCreateFolder(name, null);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+        {folders.length === 0 && editing === null && (
+          <Text fontSize="xs" color="fg.muted" px={1}>
+            {t("organize.noFolders")}
+          </Text>
+        )}
+      </VStack>
+
+      <VStack align="stretch" gap={1}>
+        <HStack gap={1} px={1} color="fg.muted">
+          <LuTag size={12} />
+          <Text fontSize="xs" fontWeight="medium">
+            {t("organize.tags")}
+          </Text>
+        </HStack>
+        {tags.length === 0
+          ? (
+            <Text fontSize="xs" color="fg.muted" px={1}>
+              {t("organize.noTags")}
+            </Text>
+          )
+          : (
+            <HStack gap={1} flexWrap="wrap" px={1}>
+              {tags.map(({ tag, count }) => {
+                const selected = selectedTags.includes(tag);
+                return (
+                  <Badge
+                    key={tag}
+                    as="button"
+                    size="sm"
+                    cursor="pointer"
+                    variant={selected ? "solid" : "subtle"}
+                    colorPalette={selected ? "floorp" : "gray"}
+                    aria-pressed={selected}
+                    onClick={() => onToggleTag(tag)}
+                  >
+                    {tag}
+                    <Text as="span" opacity={0.7}>
+                      {count}
+                    </Text>
+                  </Badge>
+                );
+              })}
+            </HStack>
+          )}
+      </VStack>
+    </VStack>
+  );
+}
@@ -0,0 +1,405 @@
+import React from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Dialog,
+  Field,
+  HStack,
+  IconButton,
+  Input,
+  Spinner,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import {
+  LuCircleAlert,
+  LuFileJson,
+  LuTriangleAlert,
+  LuUpload,
+  LuX,
+} from "react-icons/lu";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { PermissionList } from "@/components/workflow/PermissionList";
+import { useI18n } from "@/hooks/useI18n";
+import { useQuery } from "@/hooks/useQuery";
+import { useWorkflowImport } from "@/hooks/useWorkflowImport";
+import { clients } from "@/lib/grpc-clients";
+import { QK } from "@/lib/query-keys";
+import {
+  checkBundlePlugins,
+  parseWorkflowBundle,
+} from "@/lib/workflow-bundle";
+import type {
+  BundleIssue,
+  BundleParseError,
+  BundleParseResult,
+} from "@/lib/workflow-bundle";
+
+interface WorkflowImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSuccess?: (workflow: Workflow) => void;
+}
+
+type ParsedBundle = Extract<BundleParseResult, { ok: true }>;
+
+const ISSUE_COLORS: Record<BundleIssue["kind"], string> = {
+  missingPlugin: "red",
+  missingFunction: "red",
+  deprecatedPlugin: "orange",
+  versionMismatch: "yellow",
+};
+
+export function WorkflowImportDialog({
+  open,
+  onClose,
+  onSuccess,
+}: WorkflowImportDialogProps) {
+  const { t } = useI18n();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const { importWorkflow, importing, error, reset } = useWorkflowImport();
+  const [fileName, setFileName] = React.useState("");
+  const [parsed, setParsed] = React.useState<ParsedBundle | null>(null);
+  const [parseError, setParseError] = React.useState<BundleParseError | null>(
+    null
+  );
+  const [displayName, setDisplayName] = React.useState("");
+
+  const { data: plugins, loading: pluginsLoading } = useQuery(
+    QK.plugin.list({ pageSize: 100 }),
+    () => clients.plugin.listPlugins({ pageSize: 100 }),
+    { enabled: open }
+  );
+
+  React.useEffect(() => {
+    if (open) {
+      setFileName("");
+      setParsed(null);
+      setParseError(null);
+      setDisplayName("");
+      reset();
+    }
+  }, [open, reset]);
+
+  const issues = React.useMemo(
+    () =>
+      parsed && plugins
+        ? checkBundlePlugins(parsed.bundle.manifest, plugins.plugins)
+        : [],
+    [parsed, plugins]
+  );
+
+  const issueMessage = (issue: BundleIssue): string => {
+    switch (issue.kind) {
+      case "missingPlugin":
+        return t("bundle.issues.missingPlugin", {
+          name: issue.plugin.packageName || issue.plugin.packageId,
+          version: issue.plugin.packageVersion,
+        });
+      case "deprecatedPlugin":
+        return t("bundle.issues.deprecatedPlugin", {
+          name: issue.plugin.packageName || issue.plugin.packageId,
+        });
+      case "versionMismatch":
+        return t("bundle.issues.versionMismatch", {
+          name: issue.plugin.packageName || issue.plugin.packageId,
+          version: issue.plugin.packageVersion,
+          localVersion: issue.localVersion,
+        });
+      case "missingFunction":
+        return t("bundle.issues.missingFunction", {
+          id: issue.pluginFunctionId,
+        });
+    }
+  };
+
+  const handleFile = React.useCallback(async (file: File) => {
+    setFileName(file.name);
+    const result = parseWorkflowBundle(await file.text());
+    if (result.ok) {
+      setParsed(result);
+      setParseError(null);
+      setDisplayName(result.workflow.displayName);
+    } else {
+      setParsed(null);
+      setParseError(result.error);
+    }
+  }, []);
+
+  const handleImport = React.useCallback(async () => {
+    if (!parsed) return;
+    const imported = await importWorkflow(parsed.workflow, {
+      displayName: displayName.trim(),
+    });
+    if (imported) {
+      onSuccess?.(imported);
+      onClose();
+    }
+  }, [parsed, displayName, importWorkflow, onSuccess, onClose]);
+
+  const manifest = parsed?.bundle.manifest;
+  const latestCode = parsed?.workflow.workflowCode.reduce((a, b) =>
+    b.codeRevision > a.codeRevision ? b : a
+  );
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      size={{ base: "full", md: "lg" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content maxH={{ base: "100vh", md: "85vh" }}>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <HStack gap={2}>
+                <LuUpload />
+                <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                  {t("bundle.importTitle")}
+                </Text>
+              </HStack>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("bundle.close")}
+                  variant="ghost"
+                  size="sm"
+                  disabled={importing}
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body overflowY="auto">
+            <VStack align="stretch" gap={4}>
+              {/* ファイルの選択 */}
+              <HStack gap={2}>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) handleFile(file);
+                  }}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importing}
+                >
+                  <LuFileJson />
+                  {t("bundle.chooseFile")}
+                </Button>
+                <Text fontSize="sm" color="fg.muted" truncate>
+                  {fileName || t("bundle.noFile")}
+                </Text>
+              </HStack>
+
+              {parseError && (
+                <HStack
+                  gap={2}
+                  p={3}
+                  rounded="md"
+                  bg="red.subtle"
+                  color="red.fg"
+                  fontSize="sm"
+                >
+                  <LuCircleAlert />
+                  <Text>{t(`bundle.parseErrors.${parseError}`)}</Text>
+                </HStack>
+              )}
+
+              {parsed && manifest && (
+                <>
+                  {/* 概要 */}
+                  <VStack align="stretch" gap={1} fontSize="sm">
+                    <HStack justify="space-between">
+                      <Text color="fg.muted">{t("bundle.revisions")}</Text>
+                      <Text>
+                        {manifest.revisions
+                          .map((r) => t("revisions.revisionLabel", { revision: r }))
+                          .join(", ")}
+                      </Text>
+                    </HStack>
+                    <HStack justify="space-between">
+                      <Text color="fg.muted">{t("bundle.exportedAt")}</Text>
+                      <Text>
+                        {new Date(parsed.bundle.exportedAt).toLocaleString()}
+                      </Text>
+                    </HStack>
+                    {parsed.bundle.generator && (
+                      <HStack justify="space-between">
+                        <Text color="fg.muted">{t("bundle.generator")}</Text>
+                        <Text>{parsed.bundle.generator}</Text>
+                      </HStack>
+                    )}
+                    {manifest.includesResults && (
+                      <Text color="fg.muted">
+                        {t("bundle.includesResults", {
+                          count: parsed.workflow.workflowResults.length,
+                        })}
+                      </Text>
+                    )}
+                  </VStack>
+
+                  {/* 必要なプラグイン */}
+                  <VStack align="stretch" gap={2}>
+                    <Text fontSize="sm" fontWeight="medium">
+                      {t("bundle.plugins")}
+                    </Text>
+                    {manifest.plugins.length === 0
+                      ? (
+                        <Text fontSize="sm" color="fg.muted">
+                          {t("bundle.noPlugins")}
+                        </Text>
+                      )
+                      : (
+                        <VStack align="stretch" gap={1}>
+                          {manifest.plugins.map((p) => (
+                            <HStack
+                              key={p.packageId}
+                              justify="space-between"
+                              fontSize="sm"
+                            >
+                              <Text truncate title={p.packageId}>
+                                {p.packageName || p.packageId}
+                              </Text>
+                              <Badge size="sm" fontFamily="mono">
+                                {p.packageVersion || "-"}
+                              </Badge>
+                            </HStack>
+                          ))}
+                        </VStack>
+                      )}
+                  </VStack>
+
+                  {/* 照合結果 */}
+                  {pluginsLoading
+                    ? (
+                      <HStack gap={2} fontSize="sm" color="fg.muted">
+                        <Spinner size="xs" />
+                        <Text>{t("bundle.checkingPlugins")}</Text>
+                      </HStack>
+                    )
+                    : !plugins
+                    ? (
+                      <Text fontSize="sm" color="orange.fg">
+                        {t("bundle.pluginCheckFailed")}
+                      </Text>
+                    )
+                    : issues.length > 0
+                    ? (
+                      <VStack
+                        align="stretch"
+                        gap={1}
+                        p={3}
+                        rounded="md"
+                        borderWidth="1px"
+                        borderColor="orange.muted"
+                      >
+                        <HStack gap={2} color="orange.fg" fontSize="sm">
+                          <LuTriangleAlert />
+                          <Text fontWeight="medium">
+                            {t("bundle.issuesTitle", { count: issues.length })}
+                          </Text>
+                        </HStack>
+                        {issues.map((issue, i) => (
+                          <HStack key={i} gap={2} align="start" fontSize="xs">
+                            <Badge
+                              size="sm"
+                              colorPalette={ISSUE_COLORS[issue.kind]}
+                              flexShrink={0}
+                            >
+                              {t(`bundle.issueKinds.${issue.kind}`)}
+                            </Badge>
+                            <Text wordBreak="break-all">{issueMessage(issue)}</Text>
+                          </HStack>
+                        ))}
+                      </VStack>
+                    )
+                    : (
+                      <Text fontSize="sm" color="green.fg">
+                        {t("bundle.pluginsOk")}
+                      </Text>
+                    )}
+
+                  {/* 権限 */}
+                  {latestCode && (
+                    <VStack align="stretch" gap={2}>
+                      <Text fontSize="sm" fontWeight="medium">
+                        {t("bundle.permissions")}
+                      </Text>
+                      <Box maxH="200px" overflowY="auto">
+                        <PermissionList
+                          permissions={latestCode.allowedPermissions}
+                        />
+                      </Box>
+                    </VStack>
+                  )}
+
+                  {/* 作成するワークフローの名前 */}
+                  <Field.Root required>
+                    <Field.Label>{t("bundle.name")}</Field.Label>
+                    <Input
+                      value={displayName}
+                      onChange={(e) => setDisplayName(e.target.value)}
+                      disabled={importing}
+                    />
+                  </Field.Root>
+                </>
+              )}
+
+              {error && (
+                <VStack
+                  align="stretch"
+                  gap={1}
+                  p={3}
+                  bg="red.subtle"
+                  rounded="md"
+                >
+                  <Text fontSize="sm" fontWeight="medium" color="red.fg">
+                    {t("bundle.importError")}
+                  </Text>
+                  <Text fontSize="xs" color="red.fg">
+                    {error.message}
+                  </Text>
+                </VStack>
+              )}
+            </VStack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button
+                variant="outline"
+                onClick={onClose}
+                disabled={importing}
+                flex="1"
+              >
+                {t("bundle.cancel")}
+              </Button>
+              <Button
+                colorPalette="floorp"
+                onClick={handleImport}
+                disabled={importing || !parsed || !displayName.trim()}
+                flex="1"
+              >
+                {importing ? <Spinner size="xs" /> : <LuUpload />}
+                {issues.length > 0
+                  ? t("bundle.importAnyway")
+                  : t("bundle.import")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,271 @@
+import React from "react";
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Dialog,
+  Field,
+  HStack,
+  IconButton,
+  Input,
+  MenuContent,
+  MenuItem,
+  MenuItemGroup,
+  MenuItemGroupLabel,
+  MenuPositioner,
+  MenuRoot,
+  MenuSeparator,
+  MenuTrigger,
+  Portal,
+  Text,
+} from "@chakra-ui/react";
+import {
+  LuCheck,
+  LuChevronDown,
+  LuLayoutList,
+  LuSave,
+  LuStar,
+  LuStarOff,
+  LuTrash2,
+  LuX,
+} from "react-icons/lu";
+import { useI18n } from "@/hooks/useI18n";
+import type { WorkflowListView } from "@/lib/workflow-list-views";
+
+interface WorkflowListViewMenuProps {
+  views: WorkflowListView[];
+  defaultViewId: string | null;
+  /** 適用中のビュー（ビューを選んでいない場合は null） */
+  activeView: WorkflowListView | null;
+  /** 適用中のビューから設定を変更したか */
+  modified: boolean;
+  /** ビューを適用（null の場合は既定の表示に戻す） */
+  onSelect: (view: WorkflowListView | null) => void;
+  /** 現在の設定を新しいビューとして保存 */
+  onSaveAs: (name: string, makeDefault: boolean) => void;
+  /** 現在の設定で適用中のビューを上書き */
+  onUpdate: () => void;
+  onSetDefault: (viewId: string | null) => void;
+  onDelete: (viewId: string) => void;
+}
+
+/**
+ * 保存したビューの選択・保存メニュー
+ */
+export function WorkflowListViewMenu({
+  views,
+  defaultViewId,
+  activeView,
+  modified,
+  onSelect,
+  onSaveAs,
+  onUpdate,
+  onSetDefault,
+  onDelete,
+}: WorkflowListViewMenuProps) {
+  const { t } = useI18n();
+  const [saveDialogOpen, setSaveDialogOpen] = React.useState(false);
+
+  return (
+    <>
+      <MenuRoot>
+        <MenuTrigger asChild>
+          <Button size="sm" variant="outline">
+            <LuLayoutList />
+            <Text maxW="160px" truncate>
+              {activeView?.name ?? t("listViews.defaultLayout")}
+            </Text>
+            {modified && (
+              <Badge size="xs" colorPalette="orange">
+                {t("listViews.modified")}
+              </Badge>
+            )}
+            <LuChevronDown />
+          </Button>
+        </MenuTrigger>
+        <Portal>
+          <MenuPositioner>
+            <MenuContent minW="240px">
+              <MenuItemGroup>
+                <MenuItemGroupLabel>{t("listViews.views")}</MenuItemGroupLabel>
+                <MenuItem value="default-layout" onClick={() => onSelect(null)}>
+                  <HStack justify="space-between" flex="1">
+                    <Text>{t("listViews.defaultLayout")}</Text>
+                    {!activeView && <LuCheck />}
+                  </HStack>
+                </MenuItem>
+                {views.map((view) => (
+                  <MenuItem
+                    key={view.id}
+                    value={`view-${view.id}`}
+                    onClick={() => onSelect(view)}
+                  >
+                    <HStack justify="space-between" flex="1" minW={0}>
+                      <Text truncate>{view.name}</Text>
+                      <HStack gap={1} flexShrink={0}>
+                        {view.id === defaultViewId && (
+                          <Badge size="xs" colorPalette="floorp">
+                            {t("listViews.default")}
+                          </Badge>
+                        )}
+                        {view.id === activeView?.id && <LuCheck />}
+                      </HStack>
+                    </HStack>
+                  </MenuItem>
+                ))}
+              </MenuItemGroup>
+              <MenuSeparator />
+              <MenuItem value="save-as" onClick={() => setSaveDialogOpen(true)}>
+                <LuSave />
+                {t("listViews.saveAs")}
+              </MenuItem>
+              {activeView && (
+                <>
+                  <MenuItem
+                    value="update"
+                    onClick={onUpdate}
+                    disabled={!modified}
+                  >
+                    <LuSave />
+                    {t("listViews.update", { name: activeView.name })}
+                  </MenuItem>
+                  {activeView.id === defaultViewId
+                    ? (
+                      <MenuItem
+                        value="unset-default"
+                        onClick={() => onSetDefault(null)}
+                      >
+                        <LuStarOff />
+                        {t("listViews.unsetDefault")}
+                      </MenuItem>
+                    )
+                    : (
+                      <MenuItem
+                        value="set-default"
+                        onClick={() => onSetDefault(activeView.id)}
+                      >
+                        <LuStar />
+                        {t("listViews.setDefault")}
+                      </MenuItem>
+                    )}
+                  <MenuItem
+                    value="delete"
+                    color="red.500"
+                    onClick={() => onDelete(activeView.id)}
+                  >
+                    <LuTrash2 />
+                    {t("listViews.delete")}
+                  </MenuItem>
+                </>
+              )}
+            </MenuContent>
+          </MenuPositioner>
+        </Portal>
+      </MenuRoot>
+
+      {saveDialogOpen && (
+        <SaveViewDialog
+          onClose={() => setSaveDialogOpen(false)}
+          onSave={(name, makeDefault) => {
+            onSaveAs(name, makeDefault);
+            setSaveDialogOpen(false);
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+/**
+ * ビューの名前を入力するダイアログ
+ */
+function SaveViewDialog({
+  onClose,
+  onSave,
+}: {
+  onClose: () => void;
+  onSave: (name: string, makeDefault: boolean) => void;
+}) {
+  const { t } = useI18n();
+  const [name, setName] = React.useState("");
+  const [makeDefault, setMakeDefault] = React.useState(false);
+
+  const handleSave = () => {
+    if (name.trim()) onSave(name.trim(), makeDefault);
+  };
+
+  return (
+    <Dialog.Root
+      open
+      onOpenChange={(e) => !e.open && onClose()}
+      size={{ base: "full", md: "sm" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                {t("listViews.saveAsTitle")}
+              </Text>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("listViews.close")}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <Field.Root required>
+              <Field.Label>{t("listViews.name")}</Field.Label>
+              <Input
+                autoFocus
+                value={name}
+                placeholder={t("listViews.namePlaceholder")}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+              />
+              <Field.HelperText>{t("listViews.saveHelper")}</Field.HelperText>
+            </Field.Root>
+            <Checkbox.Root
+              mt={4}
+              size="sm"
+              checked={makeDefault}
+              onCheckedChange={(e) => setMakeDefault(!!e.checked)}
+            >
+              <Checkbox.HiddenInput />
+              <Checkbox.Control />
+              <Checkbox.Label>{t("listViews.makeDefault")}</Checkbox.Label>
+            </Checkbox.Root>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onClose} flex="1">
+                {t("listViews.cancel")}
+              </Button>
+              <Button
+                colorPalette="floorp"
+                onClick={handleSave}
+                disabled={!name.trim()}
+                flex="1"
+              >
+                {t("listViews.save")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
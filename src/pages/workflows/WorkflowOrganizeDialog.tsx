@@ -0,0 +1,212 @@
+import React from "react";
+import {
+  Badge,
+  Button,
+  CloseButton,
+  Dialog,
+  Field,
+  HStack,
+  IconButton,
+  Input,
+  NativeSelect,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { LuTag, LuX } from "react-icons/lu";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  getFolderPath,
+  getWorkflowMeta,
+  normalizeTags,
+} from "@/lib/workflow-organization";
+import { useWorkflowOrganization } from "./useWorkflowOrganization";
+
+interface WorkflowOrganizeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workflow: Workflow;
+}
+
+/**
+ * ワークフローのタグとフォルダーを編集するダイアログ
+ *
+ * 編集する値は表示したときの整理情報で初期化するため、ワークフローごとに
+ * マウントしてください。
+ */
+export function WorkflowOrganizeDialog({
+  open,
+  onClose,
+  workflow,
+}: WorkflowOrganizeDialogProps) {
+  const { t } = useI18n();
+  const {
+    organization,
+    tags: knownTags,
+    setWorkflowTags,
+    moveWorkflowToFolder,
+  } = useWorkflowOrganization();
+  // 開いたときの値で初期化する（編集中の他タブの変更では上書きしない）
+  const [tags, setTags] = React.useState<string[]>(
+    () => getWorkflowMeta(organization, workflow.id).tags
+  );
+  const [tagInput, setTagInput] = React.useState("");
+  const [folderId, setFolderId] = React.useState(
+    () => getWorkflowMeta(organization, workflow.id).folderId ?? ""
+  );
+
+  // フォルダーの選択肢（階層を含めた名前順）
+  const folderOptions = React.useMemo(
+    () =>
+      organization.folders
+        .map((f) => ({
+          id: f.id,
+          label: getFolderPath(organization.folders, f.id)
+            .map((p) => p.name)
+            .join(" / "),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [organization.folders]
+  );
+
+  const suggestions = knownTags
+    .map((k) => k.tag)
+    .filter((tag) =>
+      !tags.includes(tag) &&
+      tag.toLowerCase().includes(tagInput.trim().toLowerCase())
+    )
+    .slice(0, 10);
+
+  const addTags = (value: string) => {
+    setTags((prev) => normalizeTags([...prev, ...value.split(",")]));
+    setTagInput("");
+  };
+
+  const handleSave = () => {
+    const finalTags = normalizeTags([...tags, ...tagInput.split(",")]);
+    setWorkflowTags(workflow.id, finalTags);
+    moveWorkflowToFolder(workflow.id, folderId || null);
+    onClose();
+  };
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(e) => !e.open && onClose()}
+      size={{ base: "full", md: "md" }}
+    >
+      <Dialog.Backdrop />
+      <Dialog.Positioner>
+        <Dialog.Content>
+          <Dialog.Header>
+            <HStack justify="space-between" w="full">
+              <HStack gap={2}>
+                <LuTag />
+                <Text fontWeight="medium" fontSize={{ base: "md", md: "lg" }}>
+                  {t("organize.title")}
+                </Text>
+              </HStack>
+              <Dialog.CloseTrigger asChild>
+                <IconButton
+                  aria-label={t("organize.close")}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <LuX />
+                </IconButton>
+              </Dialog.CloseTrigger>
+            </HStack>
+          </Dialog.Header>
+
+          <Dialog.Body>
+            <VStack align="stretch" gap={4}>
+              <Text fontSize="sm" color="fg.muted">
+                {workflow.displayName || t("common.untitledWorkflow")}
+              </Text>
+
+              {/* タグ */}
+              <Field.Root>
+                <Field.Label>{t("organize.tags")}</Field.Label>
+                {tags.length > 0 && (
+                  <HStack gap={1} flexWrap="wrap" mb={2}>
+                    {tags.map((tag) => (
+                      <Badge key={tag} size="md" colorPalette="floorp" pr={0}>
+                        {tag}
+                        <CloseButton
+                          size="2xs"
+                          aria-label={t("organize.removeTag", { tag })}
+                          onClick={() =>
+                            setTags((prev) => prev.filter((p) => p !== tag))}
+                        />
+                      </Badge>
+                    ))}
+                  </HStack>
+                )}
+                <Input
+                  size="sm"
+                  value={tagInput}
+                  placeholder={t("organize.tagPlaceholder")}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && tagInput.trim()) {
+                      e.preventDefault();
+                      addTags(tagInput);
+                    }
+                  }}
+                />
+                <Field.HelperText>{t("organize.tagHelper")}</Field.HelperText>
+                {suggestions.length > 0 && (
+                  <HStack gap={1} flexWrap="wrap" mt={1}>
+                    {suggestions.map((tag) => (
+                      <Badge
+                        key={tag}
+                        as="button"
+                        size="sm"
+                        variant="outline"
+                        cursor="pointer"
+                        onClick={() => addTags(tag)}
+                      >
+                        + {tag}
+                      </Badge>
+                    ))}
+                  </HStack>
+                )}
+              </Field.Root>
+
+              {/* フォルダー */}
+              <Field.Root>
+                <Field.Label>{t("organize.folder")}</Field.Label>
+                <NativeSelect.Root size="sm">
+                  <NativeSelect.Field
+                    value={folderId}
+                    onChange={(e) => setFolderId(e.currentTarget.value)}
+                  >
+                    <option value="">{t("organize.unfiled")}</option>
+                    {folderOptions.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.label}
+                      </option>
+                    ))}
+                  </NativeSelect.Field>
+                  <NativeSelect.Indicator />
+                </NativeSelect.Root>
+                <Field.HelperText>{t("organize.folderHelper")}</Field.HelperText>
+              </Field.Root>
+            </VStack>
+          </Dialog.Body>
+
+          <Dialog.Footer>
+            <HStack gap={2} w="full">
+              <Button variant="outline" onClick={onClose} flex="1">
+                {t("organize.cancel")}
+              </Button>
+              <Button colorPalette="floorp" onClick={handleSave} flex="1">
+                {t("organize.save")}
+              </Button>
+            </HStack>
+          </Dialog.Footer>
+        </Dialog.Content>
+      </Dialog.Positioner>
+    </Dialog.Root>
+  );
+}
@@ -6,6 +6,8 @@ import {
     Flex,
     Heading,
     HStack,
+    IconButton,
+    NativeSelect,
     Separator,
     Spinner,
     Tabs,
@@ -13,32 +15,78 @@ import {
     VStack,
 } from "@chakra-ui/react";
 import { useLocation, useNavigate, useParams } from "react-router-dom";
-import { LuArrowLeft, LuHistory, LuPlay } from "react-icons/lu";
+import {
+    LuArrowLeft,
+    LuCalendarClock,
+    LuGitBranch,
+    LuHistory,
+    LuPencil,
+    LuPlay,
+    LuSquare,
+    LuTrash2,
+    LuWandSparkles,
+} from "react-icons/lu";
 import { WorkflowCanvas } from "@/components/workflow/WorkflowCanvas";
 import { WorkflowExecutionTimeline } from "@/components/workflow/WorkflowExecutionTimeline";
+import { WorkflowRevisionHistory } from "@/components/workflow/WorkflowRevisionHistory";
+import { WorkflowDiagnosticsPanel } from "@/components/workflow/WorkflowDiagnosticsPanel";
+import { ScheduledRunHistory } from "@/components/workflow/ScheduledRunHistory";
+import { lintWorkflowCode } from "@/components/workflow/workflow-linter";
 import { StreamConsole } from "@/components/console";
 import type { GenerationEvent } from "@/components/console/utils";
 import { EmptyState } from "@/components/ui/empty-state";
 import { useWorkflow } from "./useWorkflow";
 import { useWorkflowRun } from "./useWorkflowRun";
-import type { RunEvent } from "./useWorkflowRun";
+import type { RunEvent, RunStopReason } from "./useWorkflowRun";
+import { useWorkflowRevisionSave } from "./useWorkflowRevisionSave";
+import { useRunPreflight } from "./useRunPreflight";
+import { WorkflowDeleteDialog } from "./WorkflowDeleteDialog";
+import { WorkflowCodeEditPanel } from "./WorkflowCodeEditPanel";
+import { UnsavedChangesDialog } from "./UnsavedChangesDialog";
+import { RunDiagnosticsDialog } from "./RunDiagnosticsDialog";
+import { PermissionConsentDialog } from "./PermissionConsentDialog";
+import { WorkflowSchedulesPanel } from "./WorkflowSchedulesPanel";
+import { useWorkflowSchedules } from "./useWorkflowSchedules";
+import {
+    buildFixDescription,
+    findLatestFailedResult,
+    isFailedResult,
+} from "@/pages/fix/fix-description";
+import type { FixPageState } from "@/pages/fix";
+import type {
+    WorkflowCode,
+    WorkflowResult,
+} from "@/gen/sapphillon/v1/workflow_pb";
+import { toaster } from "@/components/ui/toaster-instance";
 
 import { PermissionList } from "@/components/workflow/PermissionList";
 import { useI18n } from "@/hooks/useI18n";
+import { useUnsavedChangesGuard } from "@/hooks/useUnsavedChangesGuard";
+import { nextCodeRevision } from "@/lib/workflow-revisions";
+import { API_CONFIG } from "@/lib/constants";
+import { timeoutLabel } from "./timeout-label";
 
 function RunPanel({
     running,
     events,
     workflow,
     runRes,
+    stopReason,
     onRun,
+    onStop,
+    timeoutMs,
+    onTimeoutChange,
     latestCode,
 }: {
     running: boolean;
     events: RunEvent[];
     workflow: React.ComponentProps<typeof WorkflowCanvas>["workflow"] | null;
     runRes: ReturnType<typeof useWorkflowRun>["runRes"];
+    stopReason: RunStopReason | null;
     onRun: () => void;
+    onStop: () => void;
+    timeoutMs: number;
+    onTimeoutChange: (timeoutMs: number) => void;
     latestCode:
         | React.ComponentProps<
             typeof WorkflowCanvas
@@ -77,6 +125,8 @@ function RunPanel({
                                 ? "blue.500"
                                 : runRes
                                 ? "green.500"
+                                : stopReason
+                                ? "orange.500"
                                 : "fg.muted"}
                             fontWeight="medium"
                         >
@@ -84,20 +134,63 @@ function RunPanel({
                                 ? t("run.running")
                                 : runRes
                                 ? t("run.completed")
+                                : stopReason === "cancelled"
+                                ? t("run.cancelled")
+                                : stopReason === "timeout"
+                                ? t("run.timedOut")
                                 : t("run.waiting")}
                         </Text>
-                        <Button
+                        <NativeSelect.Root
                             size="sm"
-                            onClick={onRun}
-                            disabled={!workflow || running}
-                            minH={{ base: "36px", md: "auto" }}
-                            colorPalette="floorp"
+                            w="auto"
+                            disabled={running}
                         >
-                            <LuPlay size={14} />
-                            <Text fontSize={{ base: "xs", sm: "sm" }}>
-                                {t("run.title")}
-                            </Text>
-                        </Button>
+                            <NativeSelect.Field
+                                aria-label={t("run.timeout")}
+                                title={t("run.timeout")}
+                                value={timeoutMs}
+                                onChange={(e) =>
+                                    onTimeoutChange(
+                                        Number(e.currentTarget.value),
+                                    )}
+                            >
+                                {API_CONFIG.runTimeout.optionsMs.map((ms) => (
+                                    <option key={ms} value={ms}>
+                                        {timeoutLabel(ms, t)}
+                                    </option>
+                                ))}
+                            </NativeSelect.Field>
+                            <NativeSelect.Indicator />
+                        </NativeSelect.Root>
+                        {running
+                            ? (
+                                <Button
+                                    size="sm"
+                                    onClick={onStop}
+                                    minH={{ base: "36px", md: "auto" }}
+                                    colorPalette="red"
+                                    variant="outline"
+                                >
+                                    <LuSquare size={14} />
+                                    <Text fontSize={{ base: "xs", sm: "sm" }}>
+                                        {t("run.stop")}
+                                    </Text>
+                                </Button>
+                            )
+                            : (
+                                <Button
+                                    size="sm"
+                                    onClick={onRun}
+                                    disabled={!workflow}
+                                    minH={{ base: "36px", md: "auto" }}
+                                    colorPalette="floorp"
+                                >
+                                    <LuPlay size={14} />
+                                    <Text fontSize={{ base: "xs", sm: "sm" }}>
+                                        {t("run.title")}
+                                    </Text>
+                                </Button>
+                            )}
                     </HStack>
                 </HStack>
                 <Separator my={{ base: 1, md: 2 }} />
@@ -153,11 +246,30 @@ export function WorkflowRunPage() {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const location = useLocation();
+    // 保存・実行・削除の後はワークフローの変更イベントで再取得される
     const { workflow, loading, error } = useWorkflow(id || "");
-    const { running, events, runRes, runById, clearEvents } = useWorkflowRun();
+    const {
+        running,
+        events,
+        runRes,
+        stopReason,
+        runById,
+        cancel: cancelRunning,
+        clearEvents,
+    } = useWorkflowRun();
+    // 次の実行の期限
+    const [runTimeoutMs, setRunTimeoutMs] = React.useState<number>(
+        API_CONFIG.runTimeout.defaultMs,
+    );
+    const { saving, saveRevision } = useWorkflowRevisionSave();
+    const { runs: scheduledRuns, clearHistory: clearScheduledRuns } =
+        useWorkflowSchedules(id || "");
     const [activeTab, setActiveTab] = React.useState<
-        "workflow" | "run" | "history"
+        "workflow" | "editor" | "run" | "history" | "revisions" | "schedules"
     >("run");
+    const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
+    // 編集中のコード（未編集の場合は null）
+    const [draft, setDraft] = React.useState<string | null>(null);
 
     // 戻る先を決定（Home から来た場合は Home に戻る）
     const backPath = React.useMemo(() => {
@@ -176,40 +288,128 @@ export function WorkflowRunPage() {
         return state?.autoRun === true;
     }, [location.state]);
 
+    const latestCode = React.useMemo(() => {
+        if (!workflow?.workflowCode || workflow.workflowCode.length === 0) {
+            return null;
+        }
+        return workflow.workflowCode[workflow.workflowCode.length - 1];
+    }, [workflow]);
+
+    // 最新リビジョンの静的チェック結果
+    const lintDiagnostics = React.useMemo(
+        () => (latestCode ? lintWorkflowCode(latestCode) : []),
+        [latestCode],
+    );
+
+    // 実行前チェックを通過したリビジョンを実行
+    const startRun = React.useCallback(
+        (code: WorkflowCode) => {
+            if (!workflow) return;
+            clearEvents();
+            setActiveTab("run");
+            runById(workflow.id, code.id, workflow, {
+                timeoutMs: runTimeoutMs,
+            });
+        },
+        [workflow, runById, clearEvents, runTimeoutMs],
+    );
+    const {
+        pending: pendingRun,
+        requestRun,
+        confirm: confirmRun,
+        cancel: cancelRun,
+    } = useRunPreflight(workflow?.id ?? "", startRun);
+
     // 自動実行が有効で、ワークフローが読み込まれたら実行
     const hasAutoRunRef = React.useRef(false);
     React.useEffect(() => {
         if (
             shouldAutoRun &&
             !hasAutoRunRef.current &&
-            workflow &&
             !loading &&
             !running &&
-            workflow.workflowCode &&
-            workflow.workflowCode.length > 0
+            latestCode
         ) {
             hasAutoRunRef.current = true;
-            clearEvents();
-            const latestCodeId = workflow
-                .workflowCode[workflow.workflowCode.length - 1]?.id;
-            runById(workflow.id, latestCodeId, workflow);
+            requestRun(latestCode);
         }
-    }, [shouldAutoRun, workflow, loading, running, runById, clearEvents]);
+    }, [shouldAutoRun, loading, running, latestCode, requestRun]);
 
-    const latestCode = React.useMemo(() => {
-        if (!workflow?.workflowCode || workflow.workflowCode.length === 0) {
-            return null;
+    const dirty = draft !== null && draft !== (latestCode?.code ?? "");
+    const {
+        blocked: navigationBlocked,
+        proceed: proceedNavigation,
+        cancel: cancelNavigation,
+    } = useUnsavedChangesGuard(dirty);
+
+    // 編集中のコードを新しいリビジョンとして保存
+    const handleSaveCode = React.useCallback(async () => {
+        if (!workflow || draft === null || !dirty) return;
+        const revision = nextCodeRevision(workflow);
+        const saved = await saveRevision(workflow, { code: draft });
+        if (!saved) {
+            toaster.create({
+                title: t("editor.saveError"),
+                type: "error",
+                duration: 5000,
+            });
+            return;
         }
-        return workflow.workflowCode[workflow.workflowCode.length - 1];
-    }, [workflow]);
+        toaster.create({
+            title: t("editor.saveSuccess", { revision }),
+            type: "success",
+            duration: 3000,
+        });
+        setDraft(null);
+    }, [workflow, draft, dirty, saveRevision, t]);
 
     const handleRun = React.useCallback(() => {
-        if (!workflow) return;
-        clearEvents();
-        const latestCodeId = workflow.workflowCode
-            ?.[workflow.workflowCode.length - 1]?.id;
-        runById(workflow.id, latestCodeId, workflow);
-    }, [workflow, runById, clearEvents]);
+        if (!latestCode) return;
+        requestRun(latestCode);
+    }, [latestCode, requestRun]);
+
+    // 古いリビジョンを新しいリビジョンとして復元
+    const handleRestoreRevision = React.useCallback(
+        async (code: WorkflowCode) => {
+            if (!workflow) return;
+            const saved = await saveRevision(workflow, code);
+            if (!saved) {
+                toaster.create({
+                    title: t("revisions.restoreError"),
+                    type: "error",
+                    duration: 5000,
+                });
+                return;
+            }
+            toaster.create({
+                title: t("revisions.restoreSuccess", {
+                    revision: code.codeRevision,
+                }),
+                type: "success",
+                duration: 3000,
+            });
+        },
+        [workflow, saveRevision, t],
+    );
+
+    // 失敗した実行結果を添えて AI 修正ページへ遷移
+    const handleFix = React.useCallback(
+        (result?: WorkflowResult | null) => {
+            if (!workflow) return;
+            const failed = result ??
+                (isFailedResult(runRes?.workflowResult)
+                    ? runRes?.workflowResult
+                    : findLatestFailedResult(workflow));
+            const state: FixPageState = {
+                from: location.pathname,
+                description: failed ? buildFixDescription(failed) : undefined,
+            };
+            navigate(`/fix?workflowId=${encodeURIComponent(workflow.id)}`, {
+                state,
+            });
+        },
+        [workflow, runRes, location.pathname, navigate],
+    );
 
     if (loading) {
         return (
@@ -279,6 +479,29 @@ export function WorkflowRunPage() {
                             )}
                         </VStack>
                     </HStack>
+                    <HStack gap={2}>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleFix()}
+                            disabled={running || !latestCode}
+                        >
+                            <LuWandSparkles size={14} />
+                            <Text fontSize={{ base: "xs", sm: "sm" }}>
+                                {t("fix.fixWithAi")}
+                            </Text>
+                        </Button>
+                        <IconButton
+                            size="sm"
+                            variant="ghost"
+                            colorPalette="red"
+                            aria-label={t("workflows.delete")}
+                            onClick={() => setDeleteDialogOpen(true)}
+                            disabled={running}
+                        >
+                            <LuTrash2 />
+                        </IconButton>
+                    </HStack>
                 </HStack>
             </Box>
 
@@ -289,7 +512,13 @@ export function WorkflowRunPage() {
                         value={activeTab}
                         onValueChange={(e) =>
                             setActiveTab(
-                                e.value as "workflow" | "run" | "history",
+                                e.value as
+                                    | "workflow"
+                                    | "editor"
+                                    | "run"
+                                    | "history"
+                                    | "revisions"
+                                    | "schedules",
                             )}
                         h="full"
                         display="flex"
@@ -301,6 +530,22 @@ export function WorkflowRunPage() {
                                     {t("workflowView.workflow")}
                                 </Text>
                             </Tabs.Trigger>
+                            <Tabs.Trigger value="editor" px={4} py={2}>
+                                <HStack gap={1}>
+                                    <LuPencil size={14} />
+                                    <Text fontSize="sm">{t("editor.tab")}</Text>
+                                    {dirty && (
+                                        <Box
+                                            as="span"
+                                            w={2}
+                                            h={2}
+                                            rounded="full"
+                                            bg="orange.500"
+                                            aria-label={t("editor.unsaved")}
+                                        />
+                                    )}
+                                </HStack>
+                            </Tabs.Trigger>
                             <Tabs.Trigger value="run" px={4} py={2}>
                                 <Text fontSize="sm">{t("run.title")}</Text>
                             </Tabs.Trigger>
@@ -327,6 +572,36 @@ export function WorkflowRunPage() {
                                     )}
                                 </HStack>
                             </Tabs.Trigger>
+                            <Tabs.Trigger value="revisions" px={4} py={2}>
+                                <HStack gap={1}>
+                                    <LuGitBranch size={14} />
+                                    <Text fontSize="sm">
+                                        {t("revisions.title")}
+                                    </Text>
+                                    {workflow.workflowCode.length > 1 && (
+                                        <Box
+                                            as="span"
+                                            px={1.5}
+                                            py={0.5}
+                                            rounded="full"
+                                            bg="gray.500"
+                                            color="white"
+                                            fontSize="2xs"
+                                            fontWeight="medium"
+                                        >
+                                            {workflow.workflowCode.length}
+                                        </Box>
+                                    )}
+                                </HStack>
+                            </Tabs.Trigger>
+                            <Tabs.Trigger value="schedules" px={4} py={2}>
+                                <HStack gap={1}>
+                                    <LuCalendarClock size={14} />
+                                    <Text fontSize="sm">
+                                        {t("schedules.tab")}
+                                    </Text>
+                                </HStack>
+                            </Tabs.Trigger>
                         </Tabs.List>
 
                         <Tabs.Content
@@ -335,12 +610,47 @@ export function WorkflowRunPage() {
                             overflow="hidden"
                             p={0}
                         >
-                            <Box h="full" overflow="auto" p={4}>
-                                <WorkflowCanvas
-                                    workflow={workflow}
-                                    withBackground={true}
-                                />
-                            </Box>
+                            <Flex h="full" gap={4} p={4} overflow="hidden">
+                                <Box flex="1" minW={0} overflow="auto">
+                                    <WorkflowCanvas
+                                        workflow={workflow}
+                                        withBackground={true}
+                                    />
+                                </Box>
+                                {latestCode && (
+                                    <Box
+                                        w="320px"
+                                        flexShrink={0}
+                                        borderWidth="1px"
+                                        rounded="md"
+                                        bg="bg"
+                                        p={4}
+                                        overflowY="auto"
+                                        display={{ base: "none", xl: "block" }}
+                                    >
+                                        <WorkflowDiagnosticsPanel
+                                            diagnostics={lintDiagnostics}
+                                        />
+                                    </Box>
+                                )}
+                            </Flex>
+                        </Tabs.Content>
+
+                        <Tabs.Content
+                            value="editor"
+                            flex="1"
+                            overflow="hidden"
+                            p={4}
+                        >
+                            <WorkflowCodeEditPanel
+                                latestCode={latestCode}
+                                value={draft ?? latestCode?.code ?? ""}
+                                dirty={dirty}
+                                saving={saving}
+                                onChange={setDraft}
+                                onSave={handleSaveCode}
+                                onDiscard={() => setDraft(null)}
+                            />
                         </Tabs.Content>
 
                         <Tabs.Content
@@ -354,7 +664,11 @@ export function WorkflowRunPage() {
                                 events={events}
                                 workflow={workflow}
                                 runRes={runRes}
+                                stopReason={stopReason}
                                 onRun={handleRun}
+                                onStop={cancelRunning}
+                                timeoutMs={runTimeoutMs}
+                                onTimeoutChange={setRunTimeoutMs}
                                 latestCode={latestCode}
                             />
                         </Tabs.Content>
@@ -365,13 +679,95 @@ export function WorkflowRunPage() {
                             overflow="auto"
                             p={4}
                         >
-                            <WorkflowExecutionTimeline
-                                results={workflow.workflowResults || []}
+                            <Flex
+                                gap={4}
+                                align="start"
+                                direction={{ base: "column", lg: "row" }}
+                            >
+                                <Box flex="1" minW={0} w="full">
+                                    <WorkflowExecutionTimeline
+                                        results={workflow.workflowResults || []}
+                                        onFix={handleFix}
+                                        codes={workflow.workflowCode}
+                                        onOpenAnalytics={() =>
+                                            navigate(
+                                                `/analytics?workflow=${
+                                                    encodeURIComponent(
+                                                        workflow.id,
+                                                    )
+                                                }`,
+                                            )}
+                                    />
+                                </Box>
+                                <Box
+                                    w={{ base: "full", lg: "320px" }}
+                                    flexShrink={0}
+                                >
+                                    <ScheduledRunHistory
+                                        runs={scheduledRuns}
+                                        onClear={clearScheduledRuns}
+                                    />
+                                </Box>
+                            </Flex>
+                        </Tabs.Content>
+
+                        <Tabs.Content
+                            value="revisions"
+                            flex="1"
+                            overflow="auto"
+                            p={4}
+                        >
+                            <WorkflowRevisionHistory
+                                workflow={workflow}
+                                onRun={requestRun}
+                                onRestore={handleRestoreRevision}
+                                running={running}
+                                restoring={saving}
                             />
                         </Tabs.Content>
+
+                        <Tabs.Content
+                            value="schedules"
+                            flex="1"
+                            overflow="auto"
+                            p={4}
+                        >
+                            <WorkflowSchedulesPanel workflow={workflow} />
+                        </Tabs.Content>
                     </Tabs.Root>
                 </Box>
             </Flex>
+
+            <WorkflowDeleteDialog
+                open={deleteDialogOpen}
+                onClose={() => setDeleteDialogOpen(false)}
+                workflow={workflow}
+                onDeleted={() => navigate(backPath)}
+            />
+
+            <RunDiagnosticsDialog
+                pending={pendingRun?.stage === "diagnostics"
+                    ? pendingRun
+                    : null}
+                onConfirm={confirmRun}
+                onCancel={cancelRun}
+                onEdit={() => {
+                    cancelRun();
+                    setActiveTab("editor");
+                }}
+            />
+
+            <PermissionConsentDialog
+                pending={pendingRun?.stage === "consent" ? pendingRun : null}
+                onConfirm={confirmRun}
+                onCancel={cancelRun}
+            />
+
+            <UnsavedChangesDialog
+                open={navigationBlocked}
+                onDiscard={proceedNavigation}
+                onCancel={cancelNavigation}
+            />
         </Flex>
     );
 }
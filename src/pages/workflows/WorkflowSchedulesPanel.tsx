@@ -0,0 +1,279 @@
+/**
+ * @fileoverview ワークフローの定期実行スケジュールの設定パネル
+ *
+ * cron 形式のスケジュールを追加・有効化・削除し、今後の実行予定と
+ * 見逃した実行を表示します。
+ *
+ * @module pages/workflows/WorkflowSchedulesPanel
+ */
+
+import React from "react";
+import {
+    Badge,
+    Box,
+    Button,
+    Checkbox,
+    HStack,
+    IconButton,
+    Input,
+    NativeSelect,
+    Text,
+    VStack,
+} from "@chakra-ui/react";
+import { LuCalendarClock, LuPlus, LuTrash2 } from "react-icons/lu";
+import { Field } from "@/components/ui/field";
+import { EmptyState } from "@/components/ui/empty-state";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useI18n } from "@/hooks/useI18n";
+import { API_CONFIG } from "@/lib/constants";
+import { getUpcomingRuns, parseCron, validateCron } from "@/lib/cron";
+import { getUpcomingScheduleRuns } from "@/lib/workflow-schedules";
+import type {
+    ScheduledRun,
+    WorkflowSchedule,
+} from "@/lib/workflow-schedules";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { useWorkflowSchedules } from "./useWorkflowSchedules";
+import { timeoutLabel } from "./timeout-label";
+
+/** よく使うスケジュール */
+const CRON_PRESETS = [
+    { key: "hourly", cron: "0 * * * *" },
+    { key: "daily", cron: "0 9 * * *" },
+    { key: "weekdays", cron: "0 9 * * 1-5" },
+    { key: "weekly", cron: "0 9 * * 1" },
+] as const;
+
+const UPCOMING_COUNT = 3;
+
+function formatTime(ms: number): string {
+    return new Date(ms).toLocaleString(undefined, {
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function ScheduleRow({
+    schedule,
+    missed,
+    onToggle,
+    onRemove,
+}: {
+    schedule: WorkflowSchedule;
+    missed: ScheduledRun[];
+    onToggle: (enabled: boolean) => void;
+    onRemove: () => void;
+}) {
+    const { t } = useI18n();
+    const upcoming = getUpcomingScheduleRuns(schedule, UPCOMING_COUNT);
+    const lastMissed = missed[0];
+
+    return (
+        <Box borderWidth="1px" rounded="md" p={3}>
+            <HStack justify="space-between" gap={2} flexWrap="wrap">
+                <HStack gap={2}>
+                    <Checkbox.Root
+                        size="sm"
+                        checked={schedule.enabled}
+                        onCheckedChange={(e) => onToggle(!!e.checked)}
+                    >
+                        <Checkbox.HiddenInput />
+                        <Checkbox.Control />
+                        <Checkbox.Label>{t("schedules.enabled")}</Checkbox.Label>
+                    </Checkbox.Root>
+                    <Text fontFamily="mono" fontSize="sm" fontWeight="medium">
+                        {schedule.cron}
+                    </Text>
+                    <Badge size="sm" variant="outline">
+                        {timeoutLabel(schedule.timeoutMs, t)}
+                    </Badge>
+                </HStack>
+                <IconButton
+                    aria-label={t("schedules.remove")}
+                    title={t("schedules.remove")}
+                    size="xs"
+                    variant="ghost"
+                    colorPalette="red"
+                    onClick={onRemove}
+                >
+                    <LuTrash2 />
+                </IconButton>
+            </HStack>
+
+            <VStack align="stretch" gap={1} mt={2} fontSize="xs">
+                <Text color="fg.muted">{t("schedules.upcoming")}</Text>
+                {upcoming.length === 0
+                    ? <Text color="fg.muted">-</Text>
+                    : (
+                        <HStack gap={2} flexWrap="wrap">
+                            {upcoming.map((time) => (
+                                <Badge key={time} size="sm" colorPalette="blue">
+                                    {formatTime(time)}
+                                </Badge>
+                            ))}
+                        </HStack>
+                    )}
+                {lastMissed && (
+                    <Text color="purple.500">
+                        {t("schedules.missedSummary", {
+                            count: missed.length,
+                            time: formatTime(lastMissed.scheduledFor),
+                        })}
+                    </Text>
+                )}
+            </VStack>
+        </Box>
+    );
+}
+
+/**
+ * 定期実行スケジュールの設定パネル
+ */
+export function WorkflowSchedulesPanel({ workflow }: { workflow: Workflow }) {
+    const { t } = useI18n();
+    const {
+        schedules,
+        runs,
+        addSchedule,
+        updateSchedule,
+        removeSchedule,
+    } = useWorkflowSchedules(workflow.id);
+    const [cron, setCron] = React.useState<string>(CRON_PRESETS[1].cron);
+    const [timeoutMs, setTimeoutMs] = React.useState<number>(
+        API_CONFIG.runTimeout.defaultMs,
+    );
+
+    const cronError = cron.trim() ? validateCron(cron) : null;
+    const preset = CRON_PRESETS.find((p) => p.cron === cron.trim())?.key ??
+        "custom";
+    const nextRun = !cron.trim() || cronError
+        ? null
+        : getUpcomingRuns(parseCron(cron), Date.now(), 1)[0] ?? null;
+
+    const handleAdd = () => {
+        if (!cron.trim() || cronError) return;
+        addSchedule({
+            workflowName: workflow.displayName,
+            cron,
+            timeoutMs,
+        });
+        toaster.create({
+            title: t("schedules.added"),
+            type: "success",
+            duration: 3000,
+        });
+    };
+
+    return (
+        <VStack align="stretch" gap={4} maxW="3xl">
+            <VStack align="start" gap={0}>
+                <Text fontWeight="medium">{t("schedules.title")}</Text>
+                <Text fontSize="sm" color="fg.muted">
+                    {t("schedules.description")}
+                </Text>
+            </VStack>
+
+            <Box borderWidth="1px" rounded="md" p={3}>
+                <HStack align="start" gap={3} flexWrap="wrap">
+                    <Field label={t("schedules.preset")} w="auto">
+                        <NativeSelect.Root size="sm" w="auto">
+                            <NativeSelect.Field
+                                value={preset}
+                                onChange={(e) => {
+                                    const selected = CRON_PRESETS.find(
+                                        (p) => p.key === e.currentTarget.value,
+                                    );
+                                    if (selected) setCron(selected.cron);
+                                }}
+                            >
+                                {CRON_PRESETS.map((p) => (
+                                    <option key={p.key} value={p.key}>
+                                        {t(`schedules.presets.${p.key}`)}
+                                    </option>
+                                ))}
+                                <option value="custom" disabled>
+                                    {t("schedules.presets.custom")}
+                                </option>
+                            </NativeSelect.Field>
+                            <NativeSelect.Indicator />
+                        </NativeSelect.Root>
+                    </Field>
+                    <Field
+                        label={t("schedules.cron")}
+                        invalid={!!cronError}
+                        errorText={cronError ?? undefined}
+                        helperText={nextRun
+                            ? t("schedules.nextRun", {
+                                time: formatTime(nextRun),
+                            })
+                            : t("schedules.cronHelp")}
+                        flex="1"
+                        minW="200px"
+                    >
+                        <Input
+                            size="sm"
+                            fontFamily="mono"
+                            value={cron}
+                            onChange={(e) => setCron(e.currentTarget.value)}
+                            placeholder="0 9 * * 1-5"
+                        />
+                    </Field>
+                    <Field label={t("run.timeout")} w="auto">
+                        <NativeSelect.Root size="sm" w="auto">
+                            <NativeSelect.Field
+                                value={timeoutMs}
+                                onChange={(e) =>
+                                    setTimeoutMs(
+                                        Number(e.currentTarget.value),
+                                    )}
+                            >
+                                {API_CONFIG.runTimeout.optionsMs.map((ms) => (
+                                    <option key={ms} value={ms}>
+                                        {timeoutLabel(ms, t)}
+                                    </option>
+                                ))}
+                            </NativeSelect.Field>
+                            <NativeSelect.Indicator />
+                        </NativeSelect.Root>
+                    </Field>
+                    <Button
+                        size="sm"
+                        mt={6}
+                        colorPalette="floorp"
+                        onClick={handleAdd}
+                        disabled={!cron.trim() || !!cronError}
+                    >
+                        <LuPlus />
+                        {t("schedules.add")}
+                    </Button>
+                </HStack>
+            </Box>
+
+            {schedules.length === 0
+                ? (
+                    <EmptyState
+                        icon={<LuCalendarClock />}
+                        title={t("schedules.empty")}
+                        description={t("schedules.emptyDescription")}
+                    />
+                )
+                : schedules.map((schedule) => (
+                    <ScheduleRow
+                        key={schedule.id}
+                        schedule={schedule}
+                        missed={runs.filter(
+                            (r) =>
+                                r.scheduleId === schedule.id &&
+                                r.status === "missed",
+                        )}
+                        onToggle={(enabled) =>
+                            updateSchedule(schedule.id, { enabled })}
+                        onRemove={() => removeSchedule(schedule.id)}
+                    />
+                ))}
+        </VStack>
+    );
+}
@@ -2,7 +2,9 @@ import React from "react";
 import {
     Box,
     Button,
+    Badge,
     Card,
+    Checkbox,
     Dialog,
     Flex,
     Heading,
@@ -14,6 +16,7 @@ import {
     MenuPositioner,
     MenuRoot,
     MenuTrigger,
+    NativeSelect,
     Portal,
     Spinner,
     Table,
@@ -24,18 +27,33 @@ import {
     LuArrowDown,
     LuArrowUp,
     LuCopy,
+    LuDownload,
     LuEllipsisVertical,
     LuFileText,
+    LuListOrdered,
     LuPlus,
     LuRefreshCw,
     LuSearch,
     LuSparkles,
+    LuStar,
+    LuTag,
     LuTrash2,
     LuUpload,
 } from "react-icons/lu";
 import { useNavigate } from "react-router-dom";
 import { useWorkflowsList } from "./useWorkflowsList";
+import { useWorkflowListSearch } from "./useWorkflowListSearch";
+import { useRunQueue } from "./useRunQueue";
 import { WorkflowCloneDialog } from "./WorkflowCloneDialog";
+import { WorkflowDeleteDialog } from "./WorkflowDeleteDialog";
+import { WorkflowExportDialog } from "./WorkflowExportDialog";
+import { WorkflowImportDialog } from "./WorkflowImportDialog";
+import { WorkflowOrganizeDialog } from "./WorkflowOrganizeDialog";
+import { WORKFLOW_DRAG_TYPE, WorkflowFolderTree } from "./WorkflowFolderTree";
+import { useWorkflowOrganization } from "./useWorkflowOrganization";
+import { useWorkflowListViews } from "./useWorkflowListViews";
+import { WorkflowListViewMenu } from "./WorkflowListViewMenu";
+import { WorkflowColumnMenu } from "./WorkflowColumnMenu";
 import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
 import {
     OrderByClauseSchema,
@@ -44,6 +62,32 @@ import {
 import { create } from "@bufbuild/protobuf";
 import { toaster } from "@/components/ui/toaster-instance";
 import { useI18n } from "@/hooks/useI18n";
+import { WorkflowSearchSuggestions } from "@/components/workflow/WorkflowSearchSuggestions";
+import {
+    DEFAULT_LIST_VIEW_SETTINGS,
+    fromOrderBy,
+    getDefaultListView,
+    getListViews,
+    isSameListViewSettings,
+    LIST_PAGE_SIZES,
+    toOrderBy,
+} from "@/lib/workflow-list-views";
+import type {
+    ListColumn,
+    ListViewSettings,
+    WorkflowListView,
+} from "@/lib/workflow-list-views";
+import { API_CONFIG } from "@/lib/constants";
+import { getLatestCode } from "@/lib/workflow-revisions";
+import {
+    getWorkflowMeta,
+    matchesOrganizationFilter,
+    toOrganizationFilter,
+} from "@/lib/workflow-organization";
+import type {
+    WorkflowListScope,
+    WorkflowMeta,
+} from "@/lib/workflow-organization";
 
 function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
     if (!timestamp) return "-";
@@ -57,20 +101,189 @@ function formatDate(timestamp?: { seconds: bigint; nanos: number }): string {
     });
 }
 
+/** 並べ替えに使うフィールド（サーバー側で並べ替えできる列のみ） */
+const SORT_FIELDS: Partial<Record<ListColumn, string>> = {
+    updatedAt: "updated_at",
+};
+
+function ColumnHeader({
+    column,
+    sortIcon,
+    onSort,
+}: {
+    column: ListColumn;
+    sortIcon: React.ReactNode;
+    onSort: (field: string) => void;
+}) {
+    const { t } = useI18n();
+    const sortField = SORT_FIELDS[column];
+
+    return (
+        <Table.ColumnHeader
+            minW={column === "lastRun" ? "120px" : undefined}
+            display={{ base: "none", md: "table-cell" }}
+            cursor={sortField ? "pointer" : undefined}
+            onClick={sortField ? () => onSort(sortField) : undefined}
+            _hover={sortField ? { bg: "bg.subtle" } : undefined}
+        >
+            <HStack gap={2}>
+                <Text whiteSpace="nowrap">
+                    {t(`listViews.column.${column}`)}
+                </Text>
+                {sortIcon}
+            </HStack>
+        </Table.ColumnHeader>
+    );
+}
+
+function ColumnCell({
+    column,
+    workflow,
+}: {
+    column: ListColumn;
+    workflow: Workflow;
+}) {
+    const { t } = useI18n();
+
+    switch (column) {
+        case "lastRun": {
+            const latestResult = workflow.workflowResults
+                ?.[workflow.workflowResults.length - 1];
+            return latestResult
+                ? (
+                    <VStack align="start" gap={1}>
+                        <HStack gap={2}>
+                            <Box
+                                w={2}
+                                h={2}
+                                rounded="full"
+                                bg={latestResult.resultType === 0
+                                    ? "green.500"
+                                    : latestResult.resultType === 1
+                                    ? "red.500"
+                                    : "gray.500"}
+                            />
+                            <Text
+                                fontSize="sm"
+                                fontWeight="medium"
+                                color={latestResult.resultType === 0
+                                    ? "green.700"
+                                    : latestResult.resultType === 1
+                                    ? "red.700"
+                                    : "fg.muted"}
+                                css={{
+                                    _dark: {
+                                        color: latestResult.resultType === 0
+                                            ? "var(--chakra-colors-green-300)"
+                                            : latestResult.resultType === 1
+                                            ? "var(--chakra-colors-red-300)"
+                                            : "var(--chakra-colors-fg-muted)",
+                                    },
+                                }}
+                                whiteSpace="nowrap"
+                            >
+                                {latestResult.resultType === 0
+                                    ? t("common.success")
+                                    : t("common.failure")}
+                            </Text>
+                        </HStack>
+                        {latestResult.ranAt && (
+                            <Text
+                                fontSize="xs"
+                                color="fg.muted"
+                                whiteSpace="nowrap"
+                            >
+                                {formatDate(latestResult.ranAt)}
+                            </Text>
+                        )}
+                    </VStack>
+                )
+                : (
+                    <Text
+                        fontSize="sm"
+                        color="fg.muted"
+                        whiteSpace="nowrap"
+                    >
+                        {t("workflows.noRuns")}
+                    </Text>
+                );
+        }
+        case "runCount":
+            return (
+                <Text fontSize="sm">
+                    {workflow.workflowResults?.length ?? 0}
+                </Text>
+            );
+        case "revisionCount":
+            return (
+                <Text fontSize="sm">
+                    {workflow.workflowCode?.length ?? 0}
+                </Text>
+            );
+        case "updatedAt":
+            return (
+                <Text fontSize="xs" color="fg.muted" whiteSpace="nowrap">
+                    {formatDate(workflow.updatedAt)}
+                </Text>
+            );
+        case "plugins": {
+            const code = getLatestCode(workflow);
+            const plugins = [
+                ...new Set(
+                    (code?.pluginPackages ?? []).map((p) =>
+                        p.packageName || p.packageId
+                    ),
+                ),
+            ];
+            if (plugins.length === 0) {
+                return <Text fontSize="sm" color="fg.muted">-</Text>;
+            }
+            return (
+                <HStack gap={1} flexWrap="wrap" maxW="240px">
+                    {plugins.slice(0, 3).map((name) => (
+                        <Badge key={name} size="sm" variant="outline">
+                            {name}
+                        </Badge>
+                    ))}
+                    {plugins.length > 3 && (
+                        <Badge size="sm" variant="subtle">
+                            {t("listViews.morePlugins", {
+                                count: plugins.length - 3,
+                            })}
+                        </Badge>
+                    )}
+                </HStack>
+            );
+        }
+    }
+}
+
 function WorkflowRow({
     workflow,
+    columns,
+    meta,
+    selected,
+    onSelectedChange,
     onRun,
     onClone,
+    onExport,
+    onOrganize,
+    onToggleFavorite,
     onDelete,
 }: {
     workflow: Workflow;
+    columns: readonly ListColumn[];
+    meta: WorkflowMeta;
+    selected: boolean;
+    onSelectedChange: (selected: boolean) => void;
     onRun: (id: string) => void;
     onClone: (workflow: Workflow) => void;
-    onDelete?: (id: string) => void;
+    onExport: (workflow: Workflow) => void;
+    onOrganize: (workflow: Workflow) => void;
+    onToggleFavorite: (workflow: Workflow) => void;
+    onDelete?: (workflow: Workflow) => void;
 }) {
     const { t } = useI18n();
-    const latestResult = workflow.workflowResults
-        ?.[workflow.workflowResults.length - 1];
 
     return (
         <Table.Row
@@ -78,7 +291,27 @@ function WorkflowRow({
             _hover={{
                 backgroundColor: "var(--chakra-colors-bg-subtle)",
             }}
+            // サイドバーのフォルダーにドラッグして移動
+            draggable
+            onDragStart={(e) => {
+                e.dataTransfer.setData(WORKFLOW_DRAG_TYPE, workflow.id);
+                e.dataTransfer.effectAllowed = "move";
+            }}
         >
+            <Table.Cell w="1" onClick={(e) => e.stopPropagation()}>
+                <Checkbox.Root
+                    size="sm"
+                    checked={selected}
+                    onCheckedChange={(e) => onSelectedChange(!!e.checked)}
+                >
+                    <Checkbox.HiddenInput
+                        aria-label={t("workflows.selectWorkflow", {
+                            name: workflow.displayName || workflow.id,
+                        })}
+                    />
+                    <Checkbox.Control />
+                </Checkbox.Root>
+            </Table.Cell>
             <Table.Cell>
                 <VStack align="start" gap={1}>
                     <Text
@@ -106,70 +339,42 @@ function WorkflowRow({
                             {workflow.description}
                         </Text>
                     )}
-                </VStack>
-            </Table.Cell>
-            <Table.Cell display={{ base: "none", md: "table-cell" }}>
-                {latestResult
-                    ? (
-                        <VStack align="start" gap={1}>
-                            <HStack gap={2}>
-                                <Box
-                                    w={2}
-                                    h={2}
-                                    rounded="full"
-                                    bg={latestResult.resultType === 0
-                                        ? "green.500"
-                                        : latestResult.resultType === 1
-                                        ? "red.500"
-                                        : "gray.500"}
-                                />
-                                <Text
-                                    fontSize="sm"
-                                    fontWeight="medium"
-                                    color={latestResult.resultType === 0
-                                        ? "green.700"
-                                        : latestResult.resultType === 1
-                                        ? "red.700"
-                                        : "fg.muted"}
-                                    css={{
-                                        _dark: {
-                                            color: latestResult.resultType === 0
-                                                ? "var(--chakra-colors-green-300)"
-                                                : latestResult.resultType === 1
-                                                ? "var(--chakra-colors-red-300)"
-                                                : "var(--chakra-colors-fg-muted)",
-                                        },
-                                    }}
-                                    whiteSpace="nowrap"
-                                >
-                                    {latestResult.resultType === 0
-                                        ? t("common.success")
-                                        : t("common.failure")}
-                                </Text>
-                            </HStack>
-                            {latestResult.ranAt && (
-                                <Text
-                                    fontSize="xs"
-                                    color="fg.muted"
-                                    whiteSpace="nowrap"
-                                >
-                                    {formatDate(latestResult.ranAt)}
-                                </Text>
-                            )}
-                        </VStack>
-                    )
-                    : (
-                        <Text
-                            fontSize="sm"
-                            color="fg.muted"
-                            whiteSpace="nowrap"
-                        >
-                            {t("workflows.noRuns")}
-                        </Text>
+                    {meta.tags.length > 0 && (
+                        <HStack gap={1} flexWrap="wrap">
+                            {meta.tags.map((tag) => (
+                                <Badge key={tag} size="sm" variant="subtle">
+                                    {tag}
+                                </Badge>
+                            ))}
+                        </HStack>
                     )}
+                </VStack>
             </Table.Cell>
+            {columns.map((column) => (
+                <Table.Cell
+                    key={column}
+                    display={{ base: "none", md: "table-cell" }}
+                >
+                    <ColumnCell column={column} workflow={workflow} />
+                </Table.Cell>
+            ))}
             <Table.Cell onClick={(e) => e.stopPropagation()}>
                 <HStack gap={1.5}>
+                    <IconButton
+                        size="sm"
+                        variant="ghost"
+                        aria-label={meta.favorite
+                            ? t("organize.unfavorite")
+                            : t("organize.favorite")}
+                        aria-pressed={meta.favorite}
+                        color={meta.favorite ? "yellow.500" : "fg.subtle"}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onToggleFavorite(workflow);
+                        }}
+                    >
+                        <LuStar fill={meta.favorite ? "currentColor" : "none"} />
+                    </IconButton>
                     <Button
                         size="sm"
                         variant="outline"
@@ -213,12 +418,32 @@ function WorkflowRow({
                                         <LuCopy />
                                         {t("workflows.clone")}
                                     </MenuItem>
+                                    <MenuItem
+                                        value="export"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onExport(workflow);
+                                        }}
+                                    >
+                                        <LuDownload />
+                                        {t("workflows.export")}
+                                    </MenuItem>
+                                    <MenuItem
+                                        value="organize"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onOrganize(workflow);
+                                        }}
+                                    >
+                                        <LuTag />
+                                        {t("organize.menuItem")}
+                                    </MenuItem>
                                     {onDelete && (
                                         <MenuItem
                                             value="delete"
                                             onClick={(e) => {
                                                 e.stopPropagation();
-                                                onDelete(workflow.id);
+                                                onDelete(workflow);
                                             }}
                                             color="red.500"
                                         >
@@ -248,31 +473,210 @@ export function WorkflowsPage() {
     >(
         null,
     );
+    const [workflowToDelete, setWorkflowToDelete] = React.useState<
+        Workflow | null
+    >(null);
+    const [workflowToExport, setWorkflowToExport] = React.useState<
+        Workflow | null
+    >(null);
+    const [importDialogOpen, setImportDialogOpen] = React.useState(false);
+    const [workflowToOrganize, setWorkflowToOrganize] = React.useState<
+        Workflow | null
+    >(null);
+    // 保存したビュー（開いたときは既定のビューを適用する）
+    const {
+        views,
+        defaultViewId,
+        createListView,
+        updateListView,
+        deleteListView,
+        setDefaultListView,
+    } = useWorkflowListViews();
+    const [initialView] = React.useState(() =>
+        getDefaultListView(getListViews())
+    );
+    const initialSettings = initialView ?? DEFAULT_LIST_VIEW_SETTINGS;
+    const [activeViewId, setActiveViewId] = React.useState<string | null>(
+        initialView?.id ?? null,
+    );
+    const [columns, setColumns] = React.useState<ListColumn[]>(
+        initialSettings.columns,
+    );
+    // サイドバーで選んだ範囲とタグ（サーバー側の絞り込みと組み合わせる）
+    const [scope, setScope] = React.useState<WorkflowListScope>(
+        initialSettings.filter.scope,
+    );
+    const [selectedTags, setSelectedTags] = React.useState<string[]>(
+        initialSettings.filter.tags,
+    );
+    const {
+        organization,
+        tags,
+        createFolder,
+        renameFolder,
+        moveFolder,
+        deleteFolder,
+        moveWorkflowToFolder,
+        toggleWorkflowFavorite,
+    } = useWorkflowOrganization();
+    // まとめて実行するワークフロー（ID → 表示名）
+    const [selected, setSelected] = React.useState<Record<string, string>>(
+        {},
+    );
+    const { enqueue } = useRunQueue();
 
     const {
-        workflows,
+        workflows: listedWorkflows,
         loading,
         error,
+        pageSize,
+        setPageSize,
         pageToken,
         nextPageToken,
-        filter,
         setFilter,
         orderBy,
         setOrderBy,
         refetch,
         loadNextPage,
-    } = useWorkflowsList();
-
-    const handleSearch = React.useCallback(
-        (value: string) => {
-            setFilter((prev) => ({
-                ...prev,
-                displayName: value,
-            }));
+    } = useWorkflowsList({
+        initialPageSize: initialSettings.pageSize,
+        initialOrderBy: toOrderBy(initialSettings.sort),
+    });
+
+    // 検索クエリは読み込んだ一覧と、名前で探した読み込んでいないページの候補に適用する
+    const {
+        query: searchQuery,
+        setQuery: setSearchQuery,
+        isFiltered: isSearchFiltered,
+        results: searchedWorkflows,
+        suggestions: searchSuggestions,
+        activeSuggestion,
+        applySuggestion,
+        handleKeyDown: handleSearchKeyDown,
+    } = useWorkflowListSearch(
+        listedWorkflows,
+        setFilter,
+        initialSettings.filter.query,
+    );
+
+    const organizationFilter = React.useMemo(
+        () => toOrganizationFilter(scope, selectedTags),
+        [scope, selectedTags],
+    );
+    const workflows = React.useMemo(
+        () =>
+            searchedWorkflows.filter((w) =>
+                matchesOrganizationFilter(organization, w.id, organizationFilter)
+            ),
+        [searchedWorkflows, organization, organizationFilter],
+    );
+    const isOrganizationFiltered = scope.kind !== "all" ||
+        selectedTags.length > 0;
+
+    const handleToggleTag = React.useCallback((tag: string) => {
+        setSelectedTags((prev) =>
+            prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+        );
+    }, []);
+
+    // 現在の表示設定と適用中のビュー
+    const currentSettings = React.useMemo<ListViewSettings>(
+        () => ({
+            filter: { query: searchQuery, scope, tags: selectedTags },
+            sort: fromOrderBy(orderBy),
+            columns,
+            pageSize,
+        }),
+        [searchQuery, scope, selectedTags, orderBy, columns, pageSize],
+    );
+    const activeView = views.find((v) => v.id === activeViewId) ?? null;
+    const isViewModified = !!activeView &&
+        !isSameListViewSettings(currentSettings, activeView);
+
+    const applyView = React.useCallback(
+        (view: WorkflowListView | null) => {
+            const settings = view ?? DEFAULT_LIST_VIEW_SETTINGS;
+            setSearchQuery(settings.filter.query);
+            setScope(settings.filter.scope);
+            setSelectedTags(settings.filter.tags);
+            setOrderBy(toOrderBy(settings.sort));
+            setColumns(settings.columns);
+            setPageSize(settings.pageSize);
+            setActiveViewId(view?.id ?? null);
+            setSelected({});
         },
-        [setFilter],
+        [setSearchQuery, setOrderBy, setPageSize],
     );
 
+    const handleSaveViewAs = React.useCallback(
+        (name: string, makeDefault: boolean) => {
+            const view = createListView({ name, ...currentSettings });
+            if (makeDefault) setDefaultListView(view.id);
+            setActiveViewId(view.id);
+            toaster.create({
+                title: t("listViews.saved", { name: view.name }),
+                type: "success",
+                duration: 3000,
+            });
+        },
+        [createListView, setDefaultListView, currentSettings, t],
+    );
+
+    const handleDeleteView = React.useCallback(
+        (viewId: string) => {
+            deleteListView(viewId);
+            // 表示中の設定はそのまま残す
+            if (viewId === activeViewId) setActiveViewId(null);
+        },
+        [deleteListView, activeViewId],
+    );
+
+    const selectedCount = Object.keys(selected).length;
+    const selectAllState = workflows.length > 0 &&
+            workflows.every((w) => w.id in selected)
+        ? true
+        : workflows.some((w) => w.id in selected)
+        ? "indeterminate"
+        : false;
+
+    const handleSelect = React.useCallback(
+        (workflow: Workflow, checked: boolean) => {
+            setSelected((prev) => {
+                const next = { ...prev };
+                if (checked) next[workflow.id] = workflow.displayName;
+                else delete next[workflow.id];
+                return next;
+            });
+        },
+        [],
+    );
+
+    const handleSelectAll = React.useCallback(
+        (checked: boolean) => {
+            setSelected((prev) => {
+                const next = { ...prev };
+                for (const workflow of workflows) {
+                    if (checked) next[workflow.id] = workflow.displayName;
+                    else delete next[workflow.id];
+                }
+                return next;
+            });
+        },
+        [workflows],
+    );
+
+    // 選択したワークフローを実行キューに登録
+    const handleRunSelected = React.useCallback(() => {
+        enqueue(
+            Object.entries(selected).map(([workflowId, workflowName]) => ({
+                workflowId,
+                workflowName,
+            })),
+            { timeoutMs: API_CONFIG.runTimeout.defaultMs },
+        );
+        setSelected({});
+    }, [enqueue, selected]);
+
     // 複製ハンドラー
     const handleClone = React.useCallback((workflow: Workflow) => {
         setWorkflowToClone(workflow);
@@ -290,22 +694,31 @@ export function WorkflowsPage() {
                 type: "success",
                 duration: 3000,
             });
-            refetch();
+            navigate(`/workflows/${clonedWorkflow.id}`);
+        },
+        [navigate, t],
+    );
+
+    // 読み込み成功時のハンドラー
+    const handleImportSuccess = React.useCallback(
+        (imported: Workflow) => {
+            toaster.create({
+                title: t("bundle.importSuccess"),
+                description: t("bundle.importSuccessDescription", {
+                    name: imported.displayName,
+                }),
+                type: "success",
+                duration: 3000,
+            });
+            navigate(`/workflows/${imported.id}`);
         },
-        [refetch, t],
+        [navigate, t],
     );
 
-    // 削除ハンドラー（将来実装）
-    const handleDelete = React.useCallback((id: string) => {
-        // TODO: バックエンドAPIの実装後に追加
-        console.log("Delete workflow:", id);
-        toaster.create({
-            title: t("workflows.deleteNotImplemented"),
-            description: t("workflows.deleteNotImplementedDescription"),
-            type: "info",
-            duration: 3000,
-        });
-    }, [t]);
+    // 削除ハンドラー（確認ダイアログを開く）
+    const handleDelete = React.useCallback((workflow: Workflow) => {
+        setWorkflowToDelete(workflow);
+    }, []);
 
     // Get sort icon for a field
     const getSortIcon = React.useCallback(
@@ -365,6 +778,30 @@ export function WorkflowsPage() {
                 >
                     <Heading size="lg">{t("workflows.title")}</Heading>
                     <HStack gap={2}>
+                        {selectedCount > 0 && (
+                            <>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setSelected({})}
+                                >
+                                    {t("workflows.clearSelection")}
+                                </Button>
+                                <Button
+                                    colorPalette="floorp"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleRunSelected}
+                                >
+                                    <LuListOrdered />
+                                    <Text>
+                                        {t("workflows.runSelected", {
+                                            count: selectedCount,
+                                        })}
+                                    </Text>
+                                </Button>
+                            </>
+                        )}
                         <Button
                             onClick={refetch}
                             variant="outline"
@@ -400,7 +837,8 @@ export function WorkflowsPage() {
                         px={3}
                         py={1}
                         gap={2}
-                        maxW="300px"
+                        w="full"
+                        maxW="420px"
                         bg="bg"
                         _focusWithin={{
                             outline: "2px solid",
@@ -412,9 +850,10 @@ export function WorkflowsPage() {
                             color="var(--chakra-colors-fg-muted)"
                         />
                         <Input
-                            placeholder={t("workflows.searchByName")}
-                            value={filter.displayName || ""}
-                            onChange={(e) => handleSearch(e.target.value)}
+                            placeholder={t("workflows.searchPlaceholder")}
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            onKeyDown={handleSearchKeyDown}
                             size="sm"
                             flex="1"
                             border="none"
@@ -422,176 +861,309 @@ export function WorkflowsPage() {
                             bg="transparent"
                         />
                     </HStack>
+                    <WorkflowListViewMenu
+                        views={views}
+                        defaultViewId={defaultViewId}
+                        activeView={activeView}
+                        modified={isViewModified}
+                        onSelect={applyView}
+                        onSaveAs={handleSaveViewAs}
+                        onUpdate={() =>
+                            activeView &&
+                            updateListView(activeView.id, currentSettings)}
+                        onSetDefault={setDefaultListView}
+                        onDelete={handleDeleteView}
+                    />
+                    <WorkflowColumnMenu columns={columns} onChange={setColumns} />
                 </HStack>
+                {searchSuggestions.length > 0 && (
+                    <Box mt={2}>
+                        <WorkflowSearchSuggestions
+                            suggestions={searchSuggestions}
+                            activeIndex={activeSuggestion}
+                            onSelect={applySuggestion}
+                        />
+                    </Box>
+                )}
             </Box>
 
-            {/* Content */}
-            <Box flex="1" overflowY="auto" px={{ base: 4, md: 6 }} py={4}>
-                {loading && workflows.length === 0
-                    ? (
-                        <Flex justify="center" align="center" h="200px">
-                            <VStack gap={4}>
-                                <Spinner size="lg" />
-                                <Text color="fg.muted">
-                                    {t("workflows.loading")}
-                                </Text>
-                            </VStack>
-                        </Flex>
-                    )
-                    : error
-                    ? (
-                        <Card.Root>
-                            <Card.Body>
-                                <VStack gap={2}>
-                                    <Text color="red.500" fontWeight="medium">
-                                        {t("workflows.errorLoading")}
-                                    </Text>
-                                    <Text fontSize="sm" color="fg.muted">
-                                        {error instanceof Error
-                                            ? error.message
-                                            : String(error)}
+            <Flex flex="1" minH={0}>
+                {/* Sidebar */}
+                <Box
+                    w="240px"
+                    flexShrink={0}
+                    display={{ base: "none", md: "block" }}
+                    borderRightWidth="1px"
+                    borderRightColor="border"
+                    overflowY="auto"
+                    p={3}
+                >
+                    <WorkflowFolderTree
+                        organization={organization}
+                        tags={tags}
+                        scope={scope}
+                        onScopeChange={setScope}
+                        selectedTags={selectedTags}
+                        onToggleTag={handleToggleTag}
+                        onCreateFolder={createFolder}
+                        onRenameFolder={renameFolder}
+                        onDeleteFolder={deleteFolder}
+                        onMoveFolder={moveFolder}
+                        onMoveWorkflow={moveWorkflowToFolder}
+                    />
+                </Box>
+
+                {/* Content */}
+                <Box flex="1" overflowY="auto" px={{ base: 4, md: 6 }} py={4}>
+                    {loading && workflows.length === 0
+                        ? (
+                            <Flex justify="center" align="center" h="200px">
+                                <VStack gap={4}>
+                                    <Spinner size="lg" />
+                                    <Text color="fg.muted">
+                                        {t("workflows.loading")}
                                     </Text>
-                                    <Button
-                                        onClick={refetch}
-                                        size="sm"
-                                        variant="outline"
-                                    >
-                                        {t("workflows.retry")}
-                                    </Button>
                                 </VStack>
-                            </Card.Body>
-                        </Card.Root>
-                    )
-                    : workflows.length === 0
-                    ? (
-                        <Card.Root>
-                            <Card.Body>
-                                <VStack gap={4} py={8}>
-                                    <LuFileText
-                                        size={48}
-                                        color="var(--chakra-colors-fg-muted)"
-                                    />
+                            </Flex>
+                        )
+                        : error
+                        ? (
+                            <Card.Root>
+                                <Card.Body>
                                     <VStack gap={2}>
-                                        <Text fontWeight="medium" fontSize="lg">
-                                            {t("workflows.noWorkflowsFound")}
+                                        <Text color="red.500" fontWeight="medium">
+                                            {t("workflows.errorLoading")}
                                         </Text>
-                                        <Text color="fg.muted" fontSize="sm">
-                                            {t("workflows.createFirstWorkflow")}
+                                        <Text fontSize="sm" color="fg.muted">
+                                            {error instanceof Error
+                                                ? error.message
+                                                : String(error)}
                                         </Text>
+                                        <Button
+                                            onClick={refetch}
+                                            size="sm"
+                                            variant="outline"
+                                        >
+                                            {t("workflows.retry")}
+                                        </Button>
                                     </VStack>
-                                    <Button
-                                        colorPalette="floorp"
-                                        onClick={() =>
-                                            setIsNewWorkflowModalOpen(true)}
-                                    >
-                                        <LuPlus />
-                                        <Text>
-                                            {t("workflows.newWorkflow")}
-                                        </Text>
-                                    </Button>
-                                </VStack>
-                            </Card.Body>
-                        </Card.Root>
-                    )
-                    : (
-                        <Card.Root>
-                            <Card.Body p={0}>
-                                <Box overflowX="auto">
-                                    <Table.Root>
-                                        <Table.Header>
-                                            <Table.Row>
-                                                <Table.ColumnHeader
-                                                    cursor="pointer"
-                                                    onClick={() =>
-                                                        handleSort(
-                                                            "display_name",
-                                                        )}
-                                                    minW="200px"
-                                                    _hover={{ bg: "bg.subtle" }}
+                                </Card.Body>
+                            </Card.Root>
+                        )
+                        : workflows.length === 0
+                        ? (
+                            <Card.Root>
+                                <Card.Body>
+                                    <VStack gap={4} py={8}>
+                                        <LuFileText
+                                            size={48}
+                                            color="var(--chakra-colors-fg-muted)"
+                                        />
+                                        <VStack gap={2}>
+                                            <Text fontWeight="medium" fontSize="lg">
+                                                {t("workflows.noWorkflowsFound")}
+                                            </Text>
+                                            <Text color="fg.muted" fontSize="sm">
+                                                {isSearchFiltered
+                                                    ? t("workflows.noSearchMatches")
+                                                    : isOrganizationFiltered
+                                                    ? t("organize.noMatches")
+                                                    : t(
+                                                        "workflows.createFirstWorkflow",
+                                                    )}
+                                            </Text>
+                                        </VStack>
+                                        {isSearchFiltered ||
+                                                isOrganizationFiltered
+                                            ? (
+                                                <Button
+                                                    variant="outline"
+                                                    onClick={() => {
+                                                        setScope({ kind: "all" });
+                                                        setSelectedTags([]);
+                                                        setSearchQuery("");
+                                                    }}
                                                 >
-                                                    <HStack gap={2}>
-                                                        <Text>
-                                                            {t("workflows.name")}
-                                                        </Text>
-                                                        {getSortIcon(
-                                                            "display_name",
+                                                    {t("organize.clearFilters")}
+                                                </Button>
+                                            )
+                                            : (
+                                                <Button
+                                                    colorPalette="floorp"
+                                                    onClick={() =>
+                                                        setIsNewWorkflowModalOpen(
+                                                            true,
                                                         )}
-                                                    </HStack>
-                                                </Table.ColumnHeader>
-                                                <Table.ColumnHeader
-                                                    minW="120px"
-                                                    display={{
-                                                        base: "none",
-                                                        md: "table-cell",
-                                                    }}
                                                 >
-                                                    {t("workflows.lastRun")}
-                                                </Table.ColumnHeader>
-                                                <Table.ColumnHeader minW="150px">
-                                                    {t("workflows.actions")}
-                                                </Table.ColumnHeader>
-                                            </Table.Row>
-                                        </Table.Header>
-                                        <Table.Body>
-                                            {workflows.map((workflow) => (
-                                                <WorkflowRow
-                                                    key={workflow.id}
-                                                    workflow={workflow}
-                                                    onRun={(id) =>
-                                                        navigate(
-                                                            `/workflows/${id}`,
+                                                    <LuPlus />
+                                                    <Text>
+                                                        {t("workflows.newWorkflow")}
+                                                    </Text>
+                                                </Button>
+                                            )}
+                                    </VStack>
+                                </Card.Body>
+                            </Card.Root>
+                        )
+                        : (
+                            <Card.Root>
+                                <Card.Body p={0}>
+                                    <Box overflowX="auto">
+                                        <Table.Root>
+                                            <Table.Header>
+                                                <Table.Row>
+                                                    <Table.ColumnHeader w="1">
+                                                        <Checkbox.Root
+                                                            size="sm"
+                                                            checked={selectAllState}
+                                                            onCheckedChange={(e) =>
+                                                                handleSelectAll(
+                                                                    e.checked ===
+                                                                        true,
+                                                                )}
+                                                        >
+                                                            <Checkbox.HiddenInput
+                                                                aria-label={t(
+                                                                    "workflows.selectAll",
+                                                                )}
+                                                            />
+                                                            <Checkbox.Control />
+                                                        </Checkbox.Root>
+                                                    </Table.ColumnHeader>
+                                                    <Table.ColumnHeader
+                                                        cursor="pointer"
+                                                        onClick={() =>
+                                                            handleSort(
+                                                                "display_name",
+                                                            )}
+                                                        minW="200px"
+                                                        _hover={{ bg: "bg.subtle" }}
+                                                    >
+                                                        <HStack gap={2}>
+                                                            <Text>
+                                                                {t("workflows.name")}
+                                                            </Text>
+                                                            {getSortIcon(
+                                                                "display_name",
+                                                            )}
+                                                        </HStack>
+                                                    </Table.ColumnHeader>
+                                                    {columns.map((column) => (
+                                                        <ColumnHeader
+                                                            key={column}
+                                                            column={column}
+                                                            sortIcon={getSortIcon(
+                                                                SORT_FIELDS[column] ??
+                                                                    "",
+                                                            )}
+                                                            onSort={handleSort}
+                                                        />
+                                                    ))}
+                                                    <Table.ColumnHeader minW="150px">
+                                                        {t("workflows.actions")}
+                                                    </Table.ColumnHeader>
+                                                </Table.Row>
+                                            </Table.Header>
+                                            <Table.Body>
+                                                {workflows.map((workflow) => (
+                                                    <WorkflowRow
+                                                        key={workflow.id}
+                                                        workflow={workflow}
+                                                        columns={columns}
+                                                        selected={workflow.id in
+                                                            selected}
+                                                        onSelectedChange={(
+                                                            checked,
+                                                        ) =>
+                                                            handleSelect(
+                                                                workflow,
+                                                                checked,
+                                                            )}
+                                                        onRun={(id) =>
+                                                            navigate(
+                                                                `/workflows/${id}`,
+                                                            )}
+                                                        onClone={handleClone}
+                                                        onExport={setWorkflowToExport}
+                                                        meta={getWorkflowMeta(
+                                                            organization,
+                                                            workflow.id,
                                                         )}
-                                                    onClone={handleClone}
-                                                    onDelete={handleDelete}
-                                                />
-                                            ))}
-                                        </Table.Body>
-                                    </Table.Root>
-                                </Box>
-                            </Card.Body>
-                        </Card.Root>
-                    )}
+                                                        onOrganize={setWorkflowToOrganize}
+                                                        onToggleFavorite={(w) =>
+                                                            toggleWorkflowFavorite(
+                                                                w.id,
+                                                            )}
+                                                        onDelete={handleDelete}
+                                                    />
+                                                ))}
+                                            </Table.Body>
+                                        </Table.Root>
+                                    </Box>
+                                </Card.Body>
+                            </Card.Root>
+                        )}
 
-                {/* Pagination */}
-                {workflows.length > 0 && (
-                    <Flex justify="space-between" align="center" mt={4} gap={4}>
-                        <Text fontSize="sm" color="fg.muted">
-                            {workflows.length === 1
-                                ? t("workflows.showing", {
-                                    count: workflows.length,
-                                })
-                                : t("workflows.showingPlural", {
-                                    count: workflows.length,
-                                })}
-                            {nextPageToken && t("workflows.moreAvailable")}
-                        </Text>
-                        <HStack gap={2}>
-                            {pageToken && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => {
-                                        // Note: In a real implementation, you'd need to track previous page tokens
-                                        // For now, this refetches the first page
-                                        refetch();
-                                    }}
-                                >
-                                    {t("workflows.previous")}
-                                </Button>
-                            )}
-                            {nextPageToken && (
-                                <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={loadNextPage}
-                                >
-                                    {t("workflows.next")}
-                                </Button>
-                            )}
-                        </HStack>
-                    </Flex>
-                )}
-            </Box>
+                    {/* Pagination */}
+                    {listedWorkflows.length > 0 && (
+                        <Flex justify="space-between" align="center" mt={4} gap={4}>
+                            <Text fontSize="sm" color="fg.muted">
+                                {workflows.length === 1
+                                    ? t("workflows.showing", {
+                                        count: workflows.length,
+                                    })
+                                    : t("workflows.showingPlural", {
+                                        count: workflows.length,
+                                    })}
+                                {nextPageToken && t("workflows.moreAvailable")}
+                            </Text>
+                            <HStack gap={2}>
+                                <NativeSelect.Root size="sm" w="auto">
+                                    <NativeSelect.Field
+                                        aria-label={t("listViews.pageSize")}
+                                        value={String(pageSize)}
+                                        onChange={(e) =>
+                                            setPageSize(
+                                                Number(e.currentTarget.value),
+                                            )}
+                                    >
+                                        {LIST_PAGE_SIZES.map((size) => (
+                                            <option key={size} value={size}>
+                                                {t("listViews.perPage", {
+                                                    count: size,
+                                                })}
+                                            </option>
+                                        ))}
+                                    </NativeSelect.Field>
+                                    <NativeSelect.Indicator />
+                                </NativeSelect.Root>
+                                {pageToken && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                            // Note: In a real implementation, you'd need to track previous page tokens
+                                            // For now, this refetches the first page
+                                            refetch();
+                                        }}
+                                    >
+                                        {t("workflows.previous")}
+                                    </Button>
+                                )}
+                                {nextPageToken && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={loadNextPage}
+                                    >
+                                        {t("workflows.next")}
+                                    </Button>
+                                )}
+                            </HStack>
+                        </Flex>
+                    )}
+                </Box>
+            </Flex>
 
             {/* New Workflow Modal */}
             <Dialog.Root
@@ -659,15 +1231,19 @@ export function WorkflowsPage() {
                                 </Card.Root>
 
                                 <Card.Root
-                                    opacity={0.6}
-                                    cursor="not-allowed"
+                                    cursor="pointer"
+                                    _hover={{ bg: "bg.subtle" }}
+                                    onClick={() => {
+                                        setIsNewWorkflowModalOpen(false);
+                                        setImportDialogOpen(true);
+                                    }}
                                 >
                                     <Card.Body>
                                         <HStack gap={3} align="start">
                                             <Box
                                                 p={3}
                                                 rounded="md"
-                                                bg="gray.500"
+                                                bg="green.500"
                                                 color="white"
                                                 flexShrink={0}
                                             >
@@ -678,25 +1254,12 @@ export function WorkflowsPage() {
                                                 gap={1}
                                                 flex="1"
                                             >
-                                                <HStack gap={2} align="center">
-                                                    <Text
-                                                        fontWeight="semibold"
-                                                        fontSize="md"
-                                                    >
-                                                        {t("workflows.import")}
-                                                    </Text>
-                                                    <Box
-                                                        px={2}
-                                                        py={0.5}
-                                                        rounded="sm"
-                                                        bg="orange.500"
-                                                        fontSize="xs"
-                                                        fontWeight="medium"
-                                                        color="white"
-                                                    >
-                                                        {t("workflows.comingSoon")}
-                                                    </Box>
-                                                </HStack>
+                                                <Text
+                                                    fontWeight="semibold"
+                                                    fontSize="md"
+                                                >
+                                                    {t("workflows.import")}
+                                                </Text>
                                                 <Text
                                                     fontSize="sm"
                                                     color="fg.muted"
@@ -733,6 +1296,41 @@ export function WorkflowsPage() {
                     onSuccess={handleCloneSuccess}
                 />
             )}
+
+            {/* Export Workflow Dialog */}
+            {workflowToExport && (
+                <WorkflowExportDialog
+                    open={!!workflowToExport}
+                    onClose={() => setWorkflowToExport(null)}
+                    workflow={workflowToExport}
+                />
+            )}
+
+            {/* Organize Workflow Dialog */}
+            {workflowToOrganize && (
+                <WorkflowOrganizeDialog
+                    key={workflowToOrganize.id}
+                    open={!!workflowToOrganize}
+                    onClose={() => setWorkflowToOrganize(null)}
+                    workflow={workflowToOrganize}
+                />
+            )}
+
+            {/* Import Workflow Dialog */}
+            <WorkflowImportDialog
+                open={importDialogOpen}
+                onClose={() => setImportDialogOpen(false)}
+                onSuccess={handleImportSuccess}
+            />
+
+            {/* Delete Workflow Dialog */}
+            {workflowToDelete && (
+                <WorkflowDeleteDialog
+                    open={!!workflowToDelete}
+                    onClose={() => setWorkflowToDelete(null)}
+                    workflow={workflowToDelete}
+                />
+            )}
         </Flex>
     );
 }
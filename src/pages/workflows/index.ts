@@ -3,4 +3,9 @@ export { useWorkflowsList } from "./useWorkflowsList";
 // export { WorkflowViewPage } from "./WorkflowViewPage";
 export { WorkflowRunPage } from "./WorkflowRunPage";
 export { useWorkflow } from "./useWorkflow";
+export { useWorkflowRevisionSave } from "./useWorkflowRevisionSave";
+export { useWorkflowScheduler } from "./useWorkflowScheduler";
+export { useWorkflowSchedules } from "./useWorkflowSchedules";
+export { useRunQueue } from "./useRunQueue";
+export { RunQueueDrawer } from "./RunQueueDrawer";
 export { WorkflowParserTest } from "./WorkflowParserTest";
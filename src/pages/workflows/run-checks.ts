@@ -0,0 +1,59 @@
+/**
+ * @fileoverview 確認を求めずに行う実行の事前チェック
+ *
+ * 実行キューやスケジュールによる実行のように、ユーザーに確認を求められない
+ * 実行で使用する判定をまとめたモジュールです。
+ *
+ * @module pages/workflows/run-checks
+ */
+
+import { lintWorkflowCode } from "@/components/workflow/workflow-linter";
+import {
+  permissionFingerprint,
+  summarizePermissions,
+} from "@/components/workflow/permission-summary";
+import { hasPermissionConsent } from "@/lib/permission-consent";
+import { isResultSuccess } from "@/lib/workflow-analytics";
+import type { Workflow, WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import type { RunWorkflowResponse } from "@/gen/sapphillon/v1/workflow_service_pb";
+
+/**
+ * 確認なしの実行を見送る理由
+ *
+ * - `diagnostics`: 静的チェックでエラーがある
+ * - `consent`: 必要な権限が承認されていない
+ */
+export type RunSkipReason = "diagnostics" | "consent";
+
+/**
+ * 確認ダイアログを出さずに実行してよいか判定
+ *
+ * 手動実行の実行前チェック（useRunPreflight）と同じ条件で、スケジュールや
+ * 実行キューのように確認を求められない実行で使用します。
+ *
+ * @returns 見送る理由（実行してよい場合は null）
+ */
+export function getRunSkipReason(
+  workflow: Workflow,
+  code: WorkflowCode
+): RunSkipReason | null {
+  if (lintWorkflowCode(code).some((d) => d.severity === "error")) {
+    return "diagnostics";
+  }
+  const groups = summarizePermissions(code);
+  if (
+    groups.length > 0 &&
+    !hasPermissionConsent(workflow.id, code, permissionFingerprint(groups))
+  ) {
+    return "consent";
+  }
+  return null;
+}
+
+/**
+ * 実行結果が成功か判定
+ */
+export function isRunSuccessful(res: RunWorkflowResponse): boolean {
+  if (res.status?.code !== undefined && res.status.code !== 0) return false;
+  return !!res.workflowResult && isResultSuccess(res.workflowResult);
+}
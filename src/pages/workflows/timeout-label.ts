@@ -0,0 +1,16 @@
+import type { useI18n } from "@/hooks/useI18n";
+
+/**
+ * 実行の期限の表示名
+ *
+ * @param ms - 期限（ミリ秒、0 は無期限）
+ */
+export function timeoutLabel(
+  ms: number,
+  t: ReturnType<typeof useI18n>["t"]
+): string {
+  if (ms === 0) return t("run.noTimeout");
+  return ms < 60 * 1000
+    ? t("run.timeoutSeconds", { count: ms / 1000 })
+    : t("run.timeoutMinutes", { count: ms / (60 * 1000) });
+}
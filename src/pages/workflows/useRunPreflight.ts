@@ -0,0 +1,125 @@
+/**
+ * @fileoverview ワークフロー実行前のチェックを管理するカスタムフック
+ *
+ * @module pages/workflows/useRunPreflight
+ */
+
+import React from "react";
+import type { WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+import type { CodeDiagnostic } from "@/components/workflow/diagnostics";
+import { lintWorkflowCode } from "@/components/workflow/workflow-linter";
+import {
+  permissionFingerprint,
+  summarizePermissions,
+} from "@/components/workflow/permission-summary";
+import type { PermissionGroup } from "@/components/workflow/permission-summary";
+import {
+  hasPermissionConsent,
+  savePermissionConsent,
+} from "@/lib/permission-consent";
+
+/**
+ * 静的チェックの結果の確認待ち
+ */
+export interface PendingDiagnostics {
+  stage: "diagnostics";
+  /** 実行するコードリビジョン */
+  code: WorkflowCode;
+  /** 実行前チェックで見つかった診断 */
+  diagnostics: CodeDiagnostic[];
+  /** エラーがあり実行できないか */
+  blocked: boolean;
+}
+
+/**
+ * 権限の承認待ち
+ */
+export interface PendingConsent {
+  stage: "consent";
+  /** 実行するコードリビジョン */
+  code: WorkflowCode;
+  /** 承認が必要な権限 */
+  groups: PermissionGroup[];
+}
+
+/**
+ * 確認待ちの実行リクエスト
+ */
+export type PendingRun = PendingDiagnostics | PendingConsent;
+
+/**
+ * 実行前にコードと権限を確認するフック
+ *
+ * 1. 静的チェックでエラーがある場合は実行せずに `pending.blocked` を true にし、
+ *    警告のみの場合は `confirm` が呼ばれるまで実行を保留します。
+ * 2. リビジョンが権限を要求し、同じ内容で承認済みでなければ
+ *    権限の承認を求めます。承認はリビジョンごとに保存されます。
+ *
+ * すべての確認を通過すると `onRun` を呼び出します。
+ *
+ * @param workflowId - 実行するワークフローの ID
+ * @param onRun - 確認を通過したときに呼び出す実行処理
+ */
+export function useRunPreflight(
+  workflowId: string,
+  onRun: (code: WorkflowCode) => void
+) {
+  const [pending, setPending] = React.useState<PendingRun | null>(null);
+
+  // 権限の確認（承認済みであればそのまま実行）
+  const requestConsent = React.useCallback(
+    (code: WorkflowCode) => {
+      const groups = summarizePermissions(code);
+      if (
+        groups.length === 0 ||
+        hasPermissionConsent(workflowId, code, permissionFingerprint(groups))
+      ) {
+        setPending(null);
+        onRun(code);
+        return;
+      }
+      setPending({ stage: "consent", code, groups });
+    },
+    [workflowId, onRun]
+  );
+
+  const requestRun = React.useCallback(
+    (code: WorkflowCode) => {
+      const diagnostics = lintWorkflowCode(code).filter(
+        (d) => d.severity !== "info"
+      );
+      if (diagnostics.length === 0) {
+        requestConsent(code);
+        return;
+      }
+      setPending({
+        stage: "diagnostics",
+        code,
+        diagnostics,
+        blocked: diagnostics.some((d) => d.severity === "error"),
+      });
+    },
+    [requestConsent]
+  );
+
+  const confirm = React.useCallback(() => {
+    if (!pending) return;
+    if (pending.stage === "diagnostics") {
+      if (!pending.blocked) requestConsent(pending.code);
+      return;
+    }
+    savePermissionConsent(
+      workflowId,
+      pending.code,
+      permissionFingerprint(pending.groups)
+    );
+    setPending(null);
+    onRun(pending.code);
+  }, [pending, workflowId, requestConsent, onRun]);
+
+  const cancel = React.useCallback(() => {
+    setPending(null);
+  }, []);
+
+  return { pending, requestRun, confirm, cancel } as const;
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview ワークフローの実行キューを扱うカスタムフック
+ *
+ * @module pages/workflows/useRunQueue
+ */
+
+import React from "react";
+import {
+  getBatchSummary,
+  isRunFinished,
+  saveRunConcurrency,
+} from "@/lib/run-queue";
+import { workflowRunQueue } from "./workflow-run-queue";
+
+/**
+ * 実行キューフック
+ *
+ * アプリ全体で共有する実行キュー（workflow-run-queue）の状態と操作を提供します。
+ * 同時実行数の上限は変更すると保存されます。
+ */
+export function useRunQueue() {
+  const state = React.useSyncExternalStore(
+    workflowRunQueue.subscribe,
+    workflowRunQueue.getState
+  );
+
+  const batches = React.useMemo(
+    () =>
+      [...new Set(state.runs.map((r) => r.batchId))].map((batchId) =>
+        getBatchSummary(state.runs, batchId)
+      ),
+    [state.runs]
+  );
+
+  const setConcurrency = React.useCallback((concurrency: number) => {
+    saveRunConcurrency(concurrency);
+    workflowRunQueue.setConcurrency(concurrency);
+  }, []);
+
+  return {
+    runs: state.runs,
+    batches,
+    concurrency: state.concurrency,
+    /** 実行待ち・実行中の件数 */
+    activeCount: state.runs.filter((r) => !isRunFinished(r)).length,
+    enqueue: workflowRunQueue.enqueue,
+    cancel: workflowRunQueue.cancel,
+    cancelBatch: workflowRunQueue.cancelBatch,
+    move: workflowRunQueue.move,
+    clearFinished: workflowRunQueue.clearFinished,
+    setConcurrency,
+  } as const;
+}
@@ -0,0 +1,47 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getWorkflow = vi.fn();
+vi.mock("@/lib/grpc-clients", () => ({
+  clients: {
+    workflow: { getWorkflow: (...args: unknown[]) => getWorkflow(...args) },
+  },
+}));
+
+import { useWorkflow } from "./useWorkflow";
+import { getQueryData, resetQueries } from "@/lib/query-cache";
+import { QK } from "@/lib/query-keys";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+
+describe("useWorkflow", () => {
+  beforeEach(() => {
+    resetQueries();
+    getWorkflow.mockReset();
+  });
+
+  it("shares the detail through the query cache and refetches on change", async () => {
+    getWorkflow
+      .mockResolvedValueOnce({ workflow: { id: "wf", displayName: "Old" } })
+      .mockResolvedValueOnce({ workflow: { id: "wf", displayName: "New" } });
+    const { result } = renderHook(() => useWorkflow("wf"));
+
+    await waitFor(() =>
+      expect(result.current.workflow?.displayName).toBe("Old")
+    );
+    expect(getQueryData(QK.workflow.detail("wf"))).toBe(
+      result.current.workflow
+    );
+
+    emitWorkflowChange({ type: "updated", workflowId: "wf" });
+    await waitFor(() =>
+      expect(result.current.workflow?.displayName).toBe("New")
+    );
+    expect(getWorkflow).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not fetch without an ID", () => {
+    const { result } = renderHook(() => useWorkflow(""));
+    expect(result.current).toMatchObject({ workflow: null, loading: false });
+    expect(getWorkflow).not.toHaveBeenCalled();
+  });
+});
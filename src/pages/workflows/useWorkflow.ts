@@ -1,49 +1,62 @@
+/**
+ * @fileoverview ワークフローの詳細を取得するカスタムフック
+ *
+ * @module pages/workflows/useWorkflow
+ */
+
 import React from "react";
 import { clients } from "@/lib/grpc-clients";
+import { QK } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 import type { GetWorkflowRequest } from "@/gen/sapphillon/v1/workflow_service_pb";
 import { create } from "@bufbuild/protobuf";
 import { GetWorkflowRequestSchema } from "@/gen/sapphillon/v1/workflow_service_pb";
 import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
 
+/**
+ * ワークフロー詳細取得フック
+ *
+ * 共有キャッシュ（`QK.workflow.detail`）から取得します。保存・実行・削除の後は
+ * ワークフローの変更イベント（lib/workflow-events）でキャッシュが無効化され、
+ * 再取得されます。
+ *
+ * @param workflowId - 取得するワークフローの ID（空の場合は取得しない）
+ */
 export function useWorkflow(workflowId: string) {
-  const [workflow, setWorkflow] = React.useState<Workflow | null>(null);
-  const [loading, setLoading] = React.useState(false);
-  const [error, setError] = React.useState<unknown>(undefined);
-
-  const fetchWorkflow = React.useCallback(async () => {
-    if (!workflowId) return;
-
-    setLoading(true);
-    setError(undefined);
-    try {
-      const request: GetWorkflowRequest = create(GetWorkflowRequestSchema, {
-        workflowId,
-      });
-
-      const response = await clients.workflow.getWorkflow(request);
-
-      if (response.status?.code !== 0 && response.status?.code !== undefined) {
-        throw new Error(response.status.message || "Failed to fetch workflow");
-      }
-
-      setWorkflow(response.workflow || null);
-    } catch (e) {
-      setError(e);
-      setWorkflow(null);
-      console.error("Failed to fetch workflow:", e);
-    } finally {
-      setLoading(false);
+  const fetchWorkflow = async (): Promise<Workflow | null> => {
+    const request: GetWorkflowRequest = create(GetWorkflowRequestSchema, {
+      workflowId,
+    });
+
+    const response = await clients.workflow.getWorkflow(request);
+
+    if (response.status?.code !== 0 && response.status?.code !== undefined) {
+      throw new Error(response.status.message || "Failed to fetch workflow");
     }
-  }, [workflowId]);
+    return response.workflow || null;
+  };
+
+  const {
+    data,
+    error,
+    loading,
+    refetch: refetchQuery,
+  } = useQuery(QK.workflow.detail(workflowId), fetchWorkflow, {
+    enabled: !!workflowId,
+  });
 
   React.useEffect(() => {
-    fetchWorkflow();
-  }, [fetchWorkflow]);
+    if (error) console.error("Failed to fetch workflow:", error);
+  }, [error]);
+
+  const refetch = React.useCallback(() => {
+    refetchQuery().catch(() => {});
+  }, [refetchQuery]);
 
   return {
-    workflow,
+    workflow: error ? null : data ?? null,
     loading,
     error,
-    refetch: fetchWorkflow,
+    refetch,
   } as const;
 }
@@ -0,0 +1,96 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { create } from "@bufbuild/protobuf";
+import { WorkflowSchema } from "@/gen/sapphillon/v1/workflow_pb";
+import type { ListWorkflowsRequest } from "@/gen/sapphillon/v1/workflow_service_pb";
+
+const listWorkflows = vi.fn();
+vi.mock("@/lib/grpc-clients", () => ({
+  clients: {
+    workflow: {
+      listWorkflows: (...args: unknown[]) => listWorkflows(...args),
+    },
+  },
+}));
+
+import { resetQueries } from "@/lib/query-cache";
+import { useWorkflowsList } from "./useWorkflowsList";
+import { useWorkflowListSearch } from "./useWorkflowListSearch";
+
+// 1 ページ目に収まらない 21 件目として「Zeta report」を用意
+const firstPage = Array.from({ length: 20 }, (_, i) =>
+  create(WorkflowSchema, {
+    id: `wf-${i}`,
+    displayName: `Workflow ${i}`,
+    description: i === 3 ? "Sends the monthly report" : "",
+  })
+);
+const zeta = create(WorkflowSchema, { id: "zeta", displayName: "Zeta report" });
+
+function renderListSearch() {
+  return renderHook(() => {
+    const list = useWorkflowsList();
+    return useWorkflowListSearch(list.workflows, list.setFilter);
+  });
+}
+
+function listRequests(): ListWorkflowsRequest[] {
+  return listWorkflows.mock.calls.map(([req]) => req as ListWorkflowsRequest);
+}
+
+describe("useWorkflowListSearch", () => {
+  beforeEach(() => {
+    resetQueries();
+    listWorkflows.mockReset();
+    listWorkflows.mockImplementation(async (req: ListWorkflowsRequest) => {
+      const name = req.filter?.displayName.toLowerCase() ?? "";
+      if (!name) return { workflows: firstPage, nextPageToken: "page-2" };
+      return {
+        workflows: [...firstPage, zeta].filter((w) =>
+          w.displayName.toLowerCase().includes(name)
+        ),
+      };
+    });
+  });
+
+  it("finds workflows that are not on the first page by name", async () => {
+    const { result } = renderListSearch();
+    await waitFor(() => expect(result.current.results).toHaveLength(20));
+
+    act(() => result.current.setQuery("Zeta status:never"));
+
+    await waitFor(() =>
+      expect(result.current.results.map((w) => w.id)).toEqual(["zeta"])
+    );
+    expect(listRequests().map((req) => req.filter?.displayName)).toContain(
+      "zeta"
+    );
+  });
+
+  it("matches words that appear only in the description", async () => {
+    const { result } = renderListSearch();
+    await waitFor(() => expect(result.current.results).toHaveLength(20));
+
+    act(() => result.current.setQuery("monthly"));
+    expect(result.current.results.map((w) => w.id)).toEqual(["wf-3"]);
+
+    // 語は別々に一致すればよい（順序や連続は問わない）
+    act(() => result.current.setQuery("report monthly"));
+    await waitFor(() =>
+      expect(listRequests().map((req) => req.filter?.displayName)).toEqual(
+        expect.arrayContaining(["report", "monthly"])
+      )
+    );
+    expect(result.current.results.map((w) => w.id)).toEqual(["wf-3"]);
+  });
+
+  it("applies the other fields without narrowing the server-side list", async () => {
+    const { result } = renderListSearch();
+    await waitFor(() => expect(result.current.results).toHaveLength(20));
+
+    act(() => result.current.setQuery("status:failed"));
+
+    await waitFor(() => expect(result.current.results).toEqual([]));
+    expect(listRequests().every((req) => !req.filter)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview ワークフロー一覧の検索を扱うカスタムフック
+ *
+ * @module pages/workflows/useWorkflowListSearch
+ */
+
+import React from "react";
+import { create } from "@bufbuild/protobuf";
+import { WorkflowLanguage } from "@/gen/sapphillon/v1/workflow_pb";
+import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import {
+  ListWorkflowsFilterSchema,
+  ListWorkflowsRequestSchema,
+} from "@/gen/sapphillon/v1/workflow_service_pb";
+import { clients } from "@/lib/grpc-clients";
+import { QK } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
+import { useWorkflowSearch } from "@/hooks/useWorkflowSearch";
+import { getSearchLanguage, matchesSearchQuery } from "@/lib/workflow-search";
+import type { useWorkflowsList } from "./useWorkflowsList";
+
+/** 名前で探す候補を語ごとに取得する件数 */
+const NAME_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * 語ごとに名前で一覧を取得し、重複を除いてまとめる
+ */
+async function fetchByName(
+  words: readonly string[],
+  workflowLanguage: WorkflowLanguage
+): Promise<Workflow[]> {
+  const responses = await Promise.all(
+    words.map((displayName) =>
+      clients.workflow.listWorkflows(
+        create(ListWorkflowsRequestSchema, {
+          pageSize: NAME_SEARCH_PAGE_SIZE,
+          filter: create(ListWorkflowsFilterSchema, {
+            displayName,
+            workflowLanguage,
+          }),
+        })
+      )
+    )
+  );
+  const byId = new Map<string, Workflow>();
+  for (const response of responses) {
+    if (response.status?.code !== 0 && response.status?.code !== undefined) {
+      throw new Error(response.status.message || "Failed to fetch workflows");
+    }
+    for (const workflow of response.workflows) byId.set(workflow.id, workflow);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * ワークフロー一覧の検索フック
+ *
+ * 検索クエリ（lib/workflow-search）は全ての条件を読み込んだ一覧に適用します。
+ * 語は説明やコードにも一致するため、サーバー側では絞り込みません。
+ * 読み込んでいないページのワークフローも見つかるよう、語ごとに名前で
+ * 取得した候補を加えてから同じ条件で絞り込みます。
+ * `lang:` だけは一致するものを落とさないため、サーバー側の
+ * `ListWorkflowsFilter` でも絞り込みます。
+ *
+ * @param workflows - 読み込んだ一覧（useWorkflowsList の `workflows`）
+ * @param setFilter - useWorkflowsList の `setFilter`
+ * @param initialQuery - 検索クエリの初期値
+ */
+export function useWorkflowListSearch(
+  workflows: readonly Workflow[],
+  setFilter: ReturnType<typeof useWorkflowsList>["setFilter"],
+  initialQuery = ""
+) {
+  const search = useWorkflowSearch(workflows, initialQuery);
+  const { parsed } = search;
+  const workflowLanguage = getSearchLanguage(parsed) ??
+    WorkflowLanguage.UNSPECIFIED;
+
+  React.useEffect(() => {
+    setFilter((prev) =>
+      prev.workflowLanguage === workflowLanguage
+        ? prev
+        : { ...prev, workflowLanguage }
+    );
+  }, [workflowLanguage, setFilter]);
+
+  const words = parsed.text;
+  const { data: named } = useQuery(
+    QK.workflow.nameSearch({
+      words,
+      workflowLanguage,
+      pageSize: NAME_SEARCH_PAGE_SIZE,
+    }),
+    () => fetchByName(words, workflowLanguage),
+    { enabled: words.length > 0 }
+  );
+
+  const results = React.useMemo(() => {
+    if (words.length === 0 || !named) return search.results;
+    const loaded = new Set(workflows.map((w) => w.id));
+    return [
+      ...search.results,
+      ...named.filter((w) => !loaded.has(w.id) && matchesSearchQuery(w, parsed)),
+    ];
+  }, [search.results, words, named, workflows, parsed]);
+
+  return { ...search, results } as const;
+}
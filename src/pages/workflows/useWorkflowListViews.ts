@@ -0,0 +1,35 @@
+/**
+ * @fileoverview ワークフロー一覧の保存したビューを扱うカスタムフック
+ *
+ * @module pages/workflows/useWorkflowListViews
+ */
+
+import React from "react";
+import {
+  createListView,
+  deleteListView,
+  getDefaultListView,
+  getListViews,
+  onListViewsChange,
+  setDefaultListView,
+  updateListView,
+} from "@/lib/workflow-list-views";
+
+/**
+ * 保存したビュー（lib/workflow-list-views）を扱うフック
+ *
+ * 他のタブでの変更も反映します。
+ */
+export function useWorkflowListViews() {
+  const state = React.useSyncExternalStore(onListViewsChange, getListViews);
+
+  return {
+    views: state.views,
+    defaultViewId: state.defaultViewId,
+    defaultView: getDefaultListView(state),
+    createListView,
+    updateListView,
+    deleteListView,
+    setDefaultListView,
+  } as const;
+}
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview ワークフローのタグ・フォルダー・お気に入りを扱うカスタムフック
+ *
+ * @module pages/workflows/useWorkflowOrganization
+ */
+
+import React from "react";
+import {
+  createFolder,
+  deleteFolder,
+  getWorkflowOrganization,
+  listTags,
+  moveFolder,
+  moveWorkflowToFolder,
+  onWorkflowOrganizationChange,
+  renameFolder,
+  setWorkflowTags,
+  toggleWorkflowFavorite,
+} from "@/lib/workflow-organization";
+
+/**
+ * ワークフローの整理情報（lib/workflow-organization）を扱うフック
+ *
+ * 他の画面・タブでの変更も反映します。
+ */
+export function useWorkflowOrganization() {
+  const organization = React.useSyncExternalStore(
+    onWorkflowOrganizationChange,
+    getWorkflowOrganization
+  );
+  const tags = React.useMemo(() => listTags(organization), [organization]);
+
+  return {
+    organization,
+    tags,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveWorkflowToFolder,
+    setWorkflowTags,
+    toggleWorkflowFavorite,
+  } as const;
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview ワークフローに新しいコードリビジョンを保存するカスタムフック
+ *
+ * @module pages/workflows/useWorkflowRevisionSave
+ */
+
+import React from "react";
+import { create } from "@bufbuild/protobuf";
+import { FieldMaskSchema } from "@bufbuild/protobuf/wkt";
+import { clients } from "@/lib/grpc-clients";
+import { appendCodeRevision } from "@/lib/workflow-revisions";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import type { Workflow, WorkflowCode } from "@/gen/sapphillon/v1/workflow_pb";
+
+/**
+ * useWorkflowRevisionSaveフックの戻り値
+ */
+export interface UseWorkflowRevisionSaveReturn {
+  /** 保存中かどうか */
+  saving: boolean;
+  /** 保存時のエラー */
+  error: string | null;
+  /**
+   * コードを新しいリビジョンとして保存
+   *
+   * @returns 保存後のワークフロー（失敗時は null）
+   */
+  saveRevision: (
+    workflow: Workflow,
+    source: Pick<WorkflowCode, "code"> & Partial<WorkflowCode>
+  ) => Promise<Workflow | null>;
+}
+
+/**
+ * コードリビジョン保存フック
+ *
+ * 既存のリビジョンは変更せず、末尾に新しいリビジョンを追加して
+ * `UpdateWorkflow` で保存します（updateMask: `workflow_code`）。
+ * 古いリビジョンの復元もこのフックで行います。
+ *
+ * @returns リビジョン保存のための状態と関数
+ *
+ * @example
+ * ```tsx
+ * const { saving, saveRevision } = useWorkflowRevisionSave();
+ * const saved = await saveRevision(workflow, oldRevision);
+ * if (saved) refetch();
+ * ```
+ */
+export function useWorkflowRevisionSave(): UseWorkflowRevisionSaveReturn {
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const saveRevision = React.useCallback(
+    async (
+      workflow: Workflow,
+      source: Pick<WorkflowCode, "code"> & Partial<WorkflowCode>
+    ): Promise<Workflow | null> => {
+      setSaving(true);
+      setError(null);
+      try {
+        const updated = appendCodeRevision(workflow, source);
+        const res = await clients.workflow.updateWorkflow({
+          workflow: updated,
+          updateMask: create(FieldMaskSchema, { paths: ["workflow_code"] }),
+        });
+        if (res.status?.code !== 0 && res.status?.code !== undefined) {
+          throw new Error(res.status.message || "Failed to save revision");
+        }
+        emitWorkflowChange({ type: "updated", workflowId: workflow.id });
+        return res.workflow ?? updated;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        setError(message);
+        console.error("Failed to save workflow revision:", e);
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    []
+  );
+
+  return {
+    saving,
+    error,
+    saveRevision,
+  } as const;
+}
@@ -0,0 +1,199 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { Code, ConnectError } from "@connectrpc/connect";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const runWorkflow = vi.fn();
+vi.mock("@/lib/grpc-clients", () => ({
+  clients: {
+    workflow: { runWorkflow: (...args: unknown[]) => runWorkflow(...args) },
+  },
+}));
+
+import { useWorkflowRun } from "./useWorkflowRun";
+import type { RunResult } from "./useWorkflowRun";
+import { workflowRunQueue } from "./workflow-run-queue";
+import { makeWorkflowMock } from "@/test/mocks/workflowMock";
+
+describe("useWorkflowRun", () => {
+  const sendWorkflowProgress = vi.fn(() => Promise.resolve({ success: true }));
+
+  beforeEach(() => {
+    runWorkflow.mockReset();
+    sendWorkflowProgress.mockClear();
+    window.OSAutomotor = { sendWorkflowProgress };
+  });
+
+  afterEach(() => {
+    delete window.OSAutomotor;
+    workflowRunQueue.clearFinished();
+  });
+
+  it("passes the deadline and signal through call options", async () => {
+    runWorkflow.mockResolvedValue({});
+    const { result } = renderHook(() => useWorkflowRun());
+
+    await act(() => result.current.runById("wf", "code", undefined, {
+      timeoutMs: 5000,
+    }));
+
+    const [, options] = runWorkflow.mock.calls[0];
+    expect(options.timeoutMs).toBe(5000);
+    expect(options.signal).toBeInstanceOf(AbortSignal);
+    expect(result.current.stopReason).toBeNull();
+  });
+
+  it("stops a running workflow and reports it as cancelled", async () => {
+    runWorkflow.mockImplementation((_req, { signal }: { signal: AbortSignal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () =>
+          reject(new ConnectError("aborted", Code.Canceled))
+        );
+      })
+    );
+    const workflow = makeWorkflowMock(["function workflow() {}"]);
+    workflow.workflowCode[0].pluginFunctionIds = ["fetch"];
+    const { result } = renderHook(() => useWorkflowRun());
+
+    let run!: Promise<RunResult | null>;
+    act(() => {
+      run = result.current.runById("wf", "code", workflow);
+    });
+    await waitFor(() => expect(result.current.running).toBe(true));
+    await act(async () => {
+      result.current.cancel();
+      await run;
+    });
+
+    expect(result.current.running).toBe(false);
+    expect(result.current.stopReason).toBe("cancelled");
+    await expect(run).resolves.toMatchObject({
+      response: null,
+      stopReason: "cancelled",
+    });
+    expect(result.current.events.at(-1)).toMatchObject({
+      kind: "error",
+      payload: { stage: "run", status: "cancelled" },
+    });
+    expect(sendWorkflowProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "workflow-progress-error",
+        status: "cancelled",
+      }),
+    );
+  });
+
+  it("reports deadline errors as timeouts", async () => {
+    runWorkflow.mockRejectedValue(
+      new ConnectError("deadline", Code.DeadlineExceeded),
+    );
+    const { result } = renderHook(() => useWorkflowRun());
+
+    await act(() => result.current.runById("wf", "code", undefined, {
+      timeoutMs: 1000,
+    }));
+
+    expect(result.current.stopReason).toBe("timeout");
+    expect(result.current.events.at(-1)?.payload).toMatchObject({
+      status: "timeout",
+      timeoutMs: 1000,
+    });
+  });
+
+  it("ignores a second run on the same hook while one is in progress", async () => {
+    runWorkflow.mockImplementation((_req, { signal }: { signal: AbortSignal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener("abort", () =>
+          reject(new ConnectError("aborted", Code.Canceled))
+        );
+      })
+    );
+    const { result } = renderHook(() => useWorkflowRun());
+
+    let first!: Promise<RunResult | null>;
+    let second!: Promise<RunResult | null>;
+    act(() => {
+      first = result.current.runById("a", "code");
+      second = result.current.runById("b", "code");
+    });
+
+    await expect(second).resolves.toBeNull();
+    expect(runWorkflow).toHaveBeenCalledTimes(1);
+    expect(result.current.running).toBe(true);
+
+    await act(async () => {
+      result.current.cancel();
+      await first;
+    });
+    await expect(first).resolves.toMatchObject({ stopReason: "cancelled" });
+    expect(result.current.running).toBe(false);
+  });
+
+  it("waits for a free slot in the shared run queue", async () => {
+    runWorkflow.mockImplementation((_req, { signal }: { signal: AbortSignal }) =>
+      new Promise((resolve, reject) => {
+        signal.addEventListener("abort", () =>
+          reject(new ConnectError("aborted", Code.Canceled))
+        );
+        setTimeout(() => resolve({}), 10);
+      })
+    );
+    workflowRunQueue.setConcurrency(1);
+    const first = renderHook(() => useWorkflowRun());
+    const second = renderHook(() => useWorkflowRun());
+
+    let runs!: Promise<RunResult | null>[];
+    act(() => {
+      runs = [
+        first.result.current.runById("a", "code"),
+        second.result.current.runById("b", "code"),
+      ];
+    });
+
+    expect(runWorkflow).toHaveBeenCalledTimes(1);
+    await waitFor(() =>
+      expect(second.result.current.events.at(-1)?.payload).toMatchObject({
+        status: "queued",
+      })
+    );
+    await act(async () => {
+      await Promise.all(runs);
+    });
+
+    expect(runWorkflow).toHaveBeenCalledTimes(2);
+    expect(second.result.current.stopReason).toBeNull();
+    expect(workflowRunQueue.getState().runs.map((r) => r.source)).toEqual([
+      "manual",
+      "manual",
+    ]);
+  });
+
+  it("reports runs cancelled while waiting in the queue", async () => {
+    runWorkflow.mockImplementation(() => new Promise(() => {}));
+    workflowRunQueue.setConcurrency(1);
+    workflowRunQueue.enqueue([{ workflowId: "busy", workflowName: "Busy" }], {
+      execute: (_run, signal) =>
+        new Promise((resolve) =>
+          signal.addEventListener("abort", () =>
+            resolve({ status: "cancelled" })
+          )
+        ),
+    });
+    const { result } = renderHook(() => useWorkflowRun());
+
+    let run!: Promise<RunResult | null>;
+    act(() => {
+      run = result.current.runById("wf", "code");
+    });
+    await act(async () => {
+      result.current.cancel();
+      await run;
+    });
+
+    await expect(run).resolves.toMatchObject({ stopReason: "cancelled" });
+    expect(result.current.stopReason).toBe("cancelled");
+    expect(runWorkflow).not.toHaveBeenCalled();
+    const busy = workflowRunQueue.getState().runs[0].batchId;
+    workflowRunQueue.cancelBatch(busy);
+    await workflowRunQueue.waitForBatch(busy);
+  });
+});
@@ -1,11 +1,18 @@
 /**
  * @fileoverview 既存ワークフローの実行を管理するカスタムフック
  *
+ * 実行はアプリ全体で共有する実行キュー（workflow-run-queue）を通して行い、
+ * 同時実行数の上限に達している場合は空きができるまで実行待ちになります。
+ *
  * @module pages/workflows/useWorkflowRun
  */
 
 import React from "react";
+import { Code, ConnectError } from "@connectrpc/connect";
 import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import { recordRunMetadata } from "@/lib/run-metadata";
+import type { QueuedRun, RunExecutionResult } from "@/lib/run-queue";
 import type { RunWorkflowResponse } from "@/gen/sapphillon/v1/workflow_service_pb";
 import {
   WorkflowSourceByIdSchema,
@@ -20,6 +27,8 @@ import {
   notifyWorkflowError,
   type WorkflowProgressStep,
 } from "@/lib/workflow-progress";
+import { isRunSuccessful } from "./run-checks";
+import { workflowRunQueue } from "./workflow-run-queue";
 
 /**
  * ワークフロー実行中のイベント
@@ -33,24 +42,54 @@ export type RunEvent = {
   payload?: unknown;
 };
 
+/**
+ * 実行が途中で止まった理由
+ */
+export type RunStopReason = "cancelled" | "timeout";
+
+/**
+ * 実行ごとのオプション
+ */
+export interface RunOptions {
+  /** 実行の期限（ミリ秒、0 または未指定の場合は無期限） */
+  timeoutMs?: number;
+}
+
+/**
+ * ID 指定の実行の結果
+ */
+export interface RunResult {
+  /** ワークフロー実行結果（失敗した場合は null） */
+  response: RunWorkflowResponse | null;
+  /** キャンセル・タイムアウトした場合の理由 */
+  stopReason: RunStopReason | null;
+  /** 失敗した場合のエラー */
+  error?: unknown;
+}
+
 /**
  * useWorkflowRunフックの戻り値
  */
 export interface UseWorkflowRunReturn {
-  /** 現在実行中かどうか */
+  /** 現在実行中（実行待ちを含む）かどうか */
   running: boolean;
   /** 実行中に発生したイベントのリスト */
   events: RunEvent[];
   /** ワークフロー実行結果 */
   runRes: RunWorkflowResponse | null;
-  /** ワークフローを実行（ID指定） */
+  /** 直前の実行がキャンセル・タイムアウトした場合の理由 */
+  stopReason: RunStopReason | null;
+  /** ワークフローを実行（ID指定、実行中の場合は何もせず null を返す） */
   runById: (
     workflowId: string,
     workflowCodeId?: string,
-    workflow?: Workflow
-  ) => Promise<void>;
-  /** ワークフローを実行（定義指定） */
-  runByDefinition: (workflow: Workflow) => Promise<void>;
+    workflow?: Workflow,
+    options?: RunOptions
+  ) => Promise<RunResult | null>;
+  /** ワークフローを実行（定義指定、実行中の場合は何もしない） */
+  runByDefinition: (workflow: Workflow, options?: RunOptions) => Promise<void>;
+  /** 実行中のワークフローを中止 */
+  cancel: () => void;
   /** イベントログをクリア */
   clearEvents: () => void;
 }
@@ -66,6 +105,62 @@ function getPluginFunctionIds(workflow?: Workflow): string[] {
   return latestCode?.pluginFunctionIds || [];
 }
 
+/**
+ * 実行の失敗がキャンセル・タイムアウトによるものか判定
+ *
+ * @returns 理由（それ以外のエラーの場合は null）
+ */
+function getStopReason(e: unknown, signal: AbortSignal): RunStopReason | null {
+  const error = ConnectError.from(e);
+  if (error.code === Code.DeadlineExceeded) return "timeout";
+  if (signal.aborted || error.code === Code.Canceled) return "cancelled";
+  return null;
+}
+
+/**
+ * 実行の結果をキューでの状態に変換
+ */
+function toExecutionResult(result: RunResult): RunExecutionResult {
+  if (result.stopReason) return { status: result.stopReason };
+  if (result.response) {
+    return isRunSuccessful(result.response)
+      ? { status: "success" }
+      : {
+        status: "failed",
+        message: result.response.status?.message || undefined,
+      };
+  }
+  return {
+    status: "failed",
+    message: result.error instanceof Error
+      ? result.error.message
+      : String(result.error),
+  };
+}
+
+/**
+ * 実行の失敗を進捗ウィンドウへ通知
+ *
+ * キャンセルの場合は実行中のステップをエラーにせず、キャンセルとして通知します。
+ */
+function notifyRunFailure(
+  workflowId: string,
+  steps: WorkflowProgressStep[],
+  reason: RunStopReason | null
+) {
+  if (steps.length === 0) return;
+  const currentIndex = steps.findIndex((s) => s.status === "running");
+  if (currentIndex >= 0 && reason !== "cancelled") {
+    steps[currentIndex].status = "error";
+  }
+  notifyWorkflowError(
+    workflowId,
+    steps,
+    currentIndex >= 0 ? currentIndex : 0,
+    reason === "cancelled" ? "cancelled" : "error"
+  );
+}
+
 /**
  * ワークフロー実行フック
  *
@@ -77,80 +172,183 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
   const [running, setRunning] = React.useState(false);
   const [events, setEvents] = React.useState<RunEvent[]>([]);
   const [runRes, setRunRes] = React.useState<RunWorkflowResponse | null>(null);
+  const [stopReason, setStopReason] = React.useState<RunStopReason | null>(
+    null
+  );
+  // 保存中のリクエストを中止するためのコントローラ
+  const abortRef = React.useRef<AbortController | null>(null);
+  // 実行キューに登録した実行のバッチ
+  const batchRef = React.useRef<string | null>(null);
 
   const append = React.useCallback((e: Omit<RunEvent, "t">) => {
     setEvents((prev) => [...prev, { t: Date.now(), ...e }]);
   }, []);
 
-  const runById = React.useCallback(
-    async (
-      workflowId: string,
-      workflowCodeId?: string,
-      workflow?: Workflow
-    ) => {
-      if (running) {
-        return;
-      }
-      setEvents([]);
-      setRunRes(null);
-      setRunning(true);
+  // 実行を開始し、中止用のシグナルを返す（実行中・実行待ちの場合は null）
+  // 状態の更新を待たずに判定できるよう、実行中かどうかは abortRef で見る
+  const begin = React.useCallback(() => {
+    if (abortRef.current) return null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setEvents([]);
+    setRunRes(null);
+    setStopReason(null);
+    setRunning(true);
+    return controller.signal;
+  }, []);
 
-      // 進捗ウィンドウ用のステップを生成
-      const pluginFunctionIds = getPluginFunctionIds(workflow);
-      let steps: WorkflowProgressStep[] = parseWorkflowSteps(pluginFunctionIds);
-      const workflowName = workflow?.displayName || "Workflow";
-
-      // 進捗開始を通知
-      if (steps.length > 0) {
-        steps = steps.map((step, index) => ({
-          ...step,
-          status: index === 0 ? "running" : "pending",
-          startedAt: index === 0 ? Date.now() : undefined,
-        }));
-        notifyWorkflowStart(workflowId, workflowName, steps);
-      }
+  // 実行の失敗をイベントとして記録し、理由を返す
+  const fail = React.useCallback(
+    (e: unknown, signal: AbortSignal, options?: RunOptions) => {
+      const reason = getStopReason(e, signal);
+      setStopReason(reason);
+      append({
+        kind: "error",
+        payload: reason
+          ? { stage: "run", status: reason, timeoutMs: options?.timeoutMs }
+          : e,
+      });
+      return reason;
+    },
+    [append]
+  );
 
-      try {
-        append({ kind: "message", payload: { stage: "run", status: "start" } });
-        const res = await clients.workflow.runWorkflow({
-          byId: create(WorkflowSourceByIdSchema, {
-            workflowId,
-            workflowCodeId: workflowCodeId || "",
-          }) as WorkflowSourceById,
-        });
-        setRunRes(res);
-        append({ kind: "message", payload: res });
-        append({ kind: "done", payload: { stage: "run" } });
+  const finish = React.useCallback(() => {
+    abortRef.current = null;
+    batchRef.current = null;
+    setRunning(false);
+  }, []);
 
-        // 進捗完了を通知
+  /**
+   * 保存済みのリビジョンを実行キューを通して実行
+   *
+   * 実行を開始した時点で進捗ウィンドウへ通知します。実行待ちのまま
+   * キャンセルされた場合は、キャンセルとして記録します。
+   */
+  const enqueueRun = React.useCallback(
+    async (
+      workflowId: string,
+      workflowCodeId: string,
+      workflowName: string,
+      pendingSteps: WorkflowProgressStep[],
+      options?: RunOptions
+    ): Promise<RunResult> => {
+      // 実行関数の中で設定する結果（開始前にキャンセルされた場合は未設定）
+      const outcome: { result?: RunResult } = {};
+
+      const execute = async (_run: QueuedRun, signal: AbortSignal) => {
+        let steps = pendingSteps;
+        // 進捗開始を通知
         if (steps.length > 0) {
-          steps = steps.map((step) => ({
+          steps = steps.map((step, index) => ({
             ...step,
-            status: "completed" as const,
-            completedAt: Date.now(),
+            status: index === 0 ? "running" : "pending",
+            startedAt: index === 0 ? Date.now() : undefined,
           }));
-          notifyWorkflowComplete(workflowId, steps);
+          notifyWorkflowStart(workflowId, workflowName, steps);
         }
-      } catch (e) {
-        append({ kind: "error", payload: e });
 
-        // 進捗エラーを通知
-        if (steps.length > 0) {
-          const currentIndex = steps.findIndex((s) => s.status === "running");
-          if (currentIndex >= 0) {
-            steps[currentIndex].status = "error";
-          }
-          notifyWorkflowError(
-            workflowId,
-            steps,
-            currentIndex >= 0 ? currentIndex : 0
+        let result: RunResult;
+        try {
+          append({
+            kind: "message",
+            payload: { stage: "run", status: "start" },
+          });
+          const startedAt = Date.now();
+          const res = await clients.workflow.runWorkflow(
+            {
+              byId: create(WorkflowSourceByIdSchema, {
+                workflowId,
+                workflowCodeId,
+              }) as WorkflowSourceById,
+            },
+            { signal, timeoutMs: options?.timeoutMs || undefined }
           );
+          recordRunMetadata(res.workflowResult?.id ?? "", {
+            durationMs: Date.now() - startedAt,
+            workflowCodeId: workflowCodeId || undefined,
+          });
+          setRunRes(res);
+          append({ kind: "message", payload: res });
+          append({ kind: "done", payload: { stage: "run" } });
+
+          // 進捗完了を通知
+          if (steps.length > 0) {
+            steps = steps.map((step) => ({
+              ...step,
+              status: "completed" as const,
+              completedAt: Date.now(),
+            }));
+            notifyWorkflowComplete(workflowId, steps);
+          }
+          result = { response: res, stopReason: null };
+        } catch (e) {
+          // 進捗エラーを通知
+          const reason = fail(e, signal, options);
+          notifyRunFailure(workflowId, steps, reason);
+          result = { response: null, stopReason: reason, error: e };
+        }
+        // 実行結果をワークフローの詳細・一覧に反映
+        emitWorkflowChange({ type: "updated", workflowId });
+        outcome.result = result;
+        return toExecutionResult(result);
+      };
+
+      const batchId = workflowRunQueue.enqueue([{ workflowId, workflowName }], {
+        source: "manual",
+        timeoutMs: options?.timeoutMs,
+        execute,
+      });
+      if (batchId) {
+        batchRef.current = batchId;
+        const queued = workflowRunQueue
+          .getState()
+          .runs.some((r) => r.batchId === batchId && r.status === "queued");
+        if (queued) {
+          append({
+            kind: "message",
+            payload: { stage: "run", status: "queued" },
+          });
         }
+        await workflowRunQueue.waitForBatch(batchId);
+      }
+      if (outcome.result) return outcome.result;
+
+      setStopReason("cancelled");
+      append({
+        kind: "error",
+        payload: {
+          stage: "run",
+          status: "cancelled",
+          timeoutMs: options?.timeoutMs,
+        },
+      });
+      return { response: null, stopReason: "cancelled" };
+    },
+    [append, fail]
+  );
+
+  const runById = React.useCallback(
+    async (
+      workflowId: string,
+      workflowCodeId?: string,
+      workflow?: Workflow,
+      options?: RunOptions
+    ): Promise<RunResult | null> => {
+      if (!begin()) return null;
+      try {
+        return await enqueueRun(
+          workflowId,
+          workflowCodeId || "",
+          workflow?.displayName || "Workflow",
+          parseWorkflowSteps(getPluginFunctionIds(workflow)),
+          options
+        );
       } finally {
-        setRunning(false);
+        finish();
       }
     },
-    [append, running]
+    [begin, enqueueRun, finish]
   );
 
   /**
@@ -159,16 +357,14 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
    * ワークフローを保存してからIDで実行します。
    */
   const runByDefinition = React.useCallback(
-    async (workflow: Workflow) => {
-      if (running) return;
-      setEvents([]);
-      setRunRes(null);
-      setRunning(true);
+    async (workflow: Workflow, options?: RunOptions) => {
+      const signal = begin();
+      if (!signal) return;
 
       // 進捗ウィンドウ用のステップを生成
-      const pluginFunctionIds = getPluginFunctionIds(workflow);
-      let steps: WorkflowProgressStep[] = parseWorkflowSteps(pluginFunctionIds);
-      const workflowName = workflow.displayName || "Workflow";
+      let steps: WorkflowProgressStep[] = parseWorkflowSteps(
+        getPluginFunctionIds(workflow)
+      );
 
       try {
         append({
@@ -177,9 +373,10 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
         });
 
         // ワークフローを保存
-        const saveResponse = await clients.workflow.updateWorkflow({
-          workflow,
-        });
+        const saveResponse = await clients.workflow.updateWorkflow(
+          { workflow },
+          { signal }
+        );
 
         if (!saveResponse.workflow?.id) {
           throw new Error("Failed to save workflow: no ID returned");
@@ -188,6 +385,10 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
         const workflowId = saveResponse.workflow.id;
         const workflowCodeId =
           saveResponse.workflow.workflowCode?.[0]?.id || "";
+        emitWorkflowChange({
+          type: workflow.id ? "updated" : "created",
+          workflowId,
+        });
 
         // 保存後に最新のステップを再取得
         const savedPluginFunctionIds = getPluginFunctionIds(
@@ -202,61 +403,29 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
           payload: { stage: "save", status: "done", workflowId },
         });
 
-        // 進捗開始を通知
-        if (steps.length > 0) {
-          steps = steps.map((step, index) => ({
-            ...step,
-            status: index === 0 ? "running" : "pending",
-            startedAt: index === 0 ? Date.now() : undefined,
-          }));
-          notifyWorkflowStart(workflowId, workflowName, steps);
-        }
-
-        // 保存されたワークフローをIDで実行
-        append({ kind: "message", payload: { stage: "run", status: "start" } });
-
-        const res = await clients.workflow.runWorkflow({
-          byId: create(WorkflowSourceByIdSchema, {
-            workflowId,
-            workflowCodeId,
-          }) as WorkflowSourceById,
-        });
-
-        setRunRes(res);
-        append({ kind: "message", payload: res });
-        append({ kind: "done", payload: { stage: "run" } });
-
-        // 進捗完了を通知
-        if (steps.length > 0) {
-          steps = steps.map((step) => ({
-            ...step,
-            status: "completed" as const,
-            completedAt: Date.now(),
-          }));
-          notifyWorkflowComplete(workflowId, steps);
-        }
+        // 保存されたワークフローをIDで実行（実行の失敗は enqueueRun で記録）
+        await enqueueRun(
+          workflowId,
+          workflowCodeId,
+          workflow.displayName || "Workflow",
+          steps,
+          options
+        );
       } catch (e) {
-        append({ kind: "error", payload: e });
-
-        // 進捗エラーを通知
-        if (steps.length > 0) {
-          const currentIndex = steps.findIndex((s) => s.status === "running");
-          if (currentIndex >= 0) {
-            steps[currentIndex].status = "error";
-          }
-          notifyWorkflowError(
-            workflow.id,
-            steps,
-            currentIndex >= 0 ? currentIndex : 0
-          );
-        }
+        // 保存の失敗を通知
+        notifyRunFailure(workflow.id, steps, fail(e, signal, options));
       } finally {
-        setRunning(false);
+        finish();
       }
     },
-    [append, running]
+    [append, begin, enqueueRun, fail, finish]
   );
 
+  const cancel = React.useCallback(() => {
+    abortRef.current?.abort();
+    if (batchRef.current) workflowRunQueue.cancelBatch(batchRef.current);
+  }, []);
+
   const clearEvents = React.useCallback(() => {
     setEvents([]);
   }, []);
@@ -265,8 +434,10 @@ export function useWorkflowRun(): UseWorkflowRunReturn {
     running,
     events,
     runRes,
+    stopReason,
     runById,
     runByDefinition,
+    cancel,
     clearEvents,
   } as const;
 }
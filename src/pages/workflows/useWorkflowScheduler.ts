@@ -0,0 +1,157 @@
+/**
+ * @fileoverview ワークフローの定期実行を行うカスタムフック
+ *
+ * @module pages/workflows/useWorkflowScheduler
+ */
+
+import React from "react";
+import {
+  claimScheduleCheck,
+  getDueRuns,
+  loadSchedules,
+  recordScheduledRun,
+} from "@/lib/workflow-schedules";
+import type {
+  ScheduledRun,
+  WorkflowSchedule,
+} from "@/lib/workflow-schedules";
+import type { QueuedRun } from "@/lib/run-queue";
+import { toaster } from "@/components/ui/toaster-instance";
+import { useI18n } from "@/hooks/useI18n";
+import { executeQueuedRun, workflowRunQueue } from "./workflow-run-queue";
+
+/** 予定時刻を確認する間隔 */
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * 実行する予定
+ */
+interface DueRun {
+  schedule: WorkflowSchedule;
+  scheduledFor: number;
+}
+
+function createRunId(scheduleId: string, scheduledFor: number): string {
+  return `${scheduleId}@${scheduledFor}`;
+}
+
+/**
+ * キューでの実行の状態を履歴の状態に変換
+ *
+ * 実行前にキャンセルされた場合など、完了していない場合はキャンセルとします。
+ */
+function getRunStatus(run: QueuedRun | undefined): ScheduledRun["status"] {
+  if (!run || run.status === "queued" || run.status === "running") {
+    return "cancelled";
+  }
+  return run.status;
+}
+
+/**
+ * 予定時刻の確認
+ *
+ * 見逃した予定を履歴に記録し、実行する予定を返します。他のタブがすでに
+ * 確認したスケジュールは対象外です。
+ */
+function checkSchedules(now: number): DueRun[] {
+  const due: DueRun[] = [];
+  for (const schedule of loadSchedules()) {
+    const runs = getDueRuns(schedule, now);
+    if (runs.due === null && runs.missed.length === 0) continue;
+    if (!claimScheduleCheck(schedule, now)) continue;
+
+    for (const scheduledFor of runs.missed) {
+      recordScheduledRun({
+        id: createRunId(schedule.id, scheduledFor),
+        scheduleId: schedule.id,
+        workflowId: schedule.workflowId,
+        workflowName: schedule.workflowName,
+        scheduledFor,
+        startedAt: null,
+        finishedAt: null,
+        status: "missed",
+      });
+    }
+    if (runs.due !== null) due.push({ schedule, scheduledFor: runs.due });
+  }
+  return due;
+}
+
+/**
+ * ワークフロー定期実行フック
+ *
+ * アプリを開いている間、保存されたスケジュール（lib/workflow-schedules）の
+ * 予定時刻を定期的に確認し、アプリ全体で共有する実行キュー
+ * （workflow-run-queue）に登録して実行します。実行前には手動実行と同じく
+ * 静的チェックと権限の承認を確認し、通過できない場合は実行せずに見送りとして
+ * 記録します（スケジュールでは確認を求めません）。
+ *
+ * アプリ全体で 1 回だけ使用してください（AppShell で使用しています）。
+ */
+export function useWorkflowScheduler() {
+  const { t } = useI18n();
+
+  const execute = React.useCallback(
+    async ({ schedule, scheduledFor }: DueRun) => {
+      const base: ScheduledRun = {
+        id: createRunId(schedule.id, scheduledFor),
+        scheduleId: schedule.id,
+        workflowId: schedule.workflowId,
+        workflowName: schedule.workflowName,
+        scheduledFor,
+        startedAt: null,
+        finishedAt: null,
+        status: "running",
+      };
+
+      const batchId = workflowRunQueue.enqueue(
+        [{ workflowId: schedule.workflowId, workflowName: schedule.workflowName }],
+        {
+          source: "schedule",
+          timeoutMs: schedule.timeoutMs,
+          execute: (run, signal) => {
+            // キューで実行が始まった時点で履歴に記録
+            base.startedAt = run.startedAt ?? Date.now();
+            recordScheduledRun(base);
+            return executeQueuedRun(run, signal);
+          },
+        }
+      );
+      if (!batchId) return;
+      await workflowRunQueue.waitForBatch(batchId);
+
+      const run = workflowRunQueue
+        .getState()
+        .runs.find((r) => r.batchId === batchId);
+      const status = getRunStatus(run);
+      recordScheduledRun({
+        ...base,
+        finishedAt: Date.now(),
+        status,
+        message: run?.message,
+      });
+      if (status !== "success") {
+        toaster.create({
+          title: t("schedules.runFailedToast", {
+            name: schedule.workflowName,
+          }),
+          description: t(`schedules.status.${status}`),
+          type: status === "skipped" ? "warning" : "error",
+        });
+      }
+    },
+    [t]
+  );
+
+  const check = React.useCallback(() => {
+    for (const due of checkSchedules(Date.now())) {
+      void execute(due);
+    }
+  }, [execute]);
+
+  React.useEffect(() => {
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [check]);
+}
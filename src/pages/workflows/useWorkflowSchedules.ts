@@ -0,0 +1,66 @@
+/**
+ * @fileoverview ワークフローの定期実行スケジュールを管理するカスタムフック
+ *
+ * @module pages/workflows/useWorkflowSchedules
+ */
+
+import React from "react";
+import {
+  addSchedule,
+  clearScheduledRuns,
+  loadScheduledRuns,
+  loadSchedules,
+  onSchedulesChange,
+  removeSchedule,
+  updateSchedule,
+} from "@/lib/workflow-schedules";
+import type {
+  ScheduledRun,
+  WorkflowSchedule,
+} from "@/lib/workflow-schedules";
+
+/**
+ * ワークフローのスケジュールと実行履歴を管理するフック
+ *
+ * 他の画面・タブでの変更（スケジューラーによる実行の記録を含む）も反映します。
+ *
+ * @param workflowId - 対象のワークフロー ID
+ */
+export function useWorkflowSchedules(workflowId: string) {
+  const read = React.useCallback(
+    () => ({
+      schedules: loadSchedules().filter((s) => s.workflowId === workflowId),
+      runs: loadScheduledRuns().filter((r) => r.workflowId === workflowId),
+    }),
+    [workflowId]
+  );
+  const [state, setState] = React.useState<{
+    schedules: WorkflowSchedule[];
+    runs: ScheduledRun[];
+  }>(read);
+
+  React.useEffect(() => {
+    setState(read());
+    return onSchedulesChange(() => setState(read()));
+  }, [read]);
+
+  const add = React.useCallback(
+    (input: { workflowName: string; cron: string; timeoutMs: number }) =>
+      addSchedule({ workflowId, ...input }),
+    [workflowId]
+  );
+
+  const clearHistory = React.useCallback(
+    () => clearScheduledRuns(workflowId),
+    [workflowId]
+  );
+
+  return {
+    schedules: state.schedules,
+    runs: state.runs,
+    addSchedule: add,
+    updateSchedule,
+    removeSchedule,
+    clearHistory,
+  } as const;
+}
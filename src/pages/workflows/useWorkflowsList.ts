@@ -12,72 +12,114 @@ import {
   ListWorkflowsFilterSchema,
 } from "@/gen/sapphillon/v1/workflow_service_pb";
 import { WorkflowLanguage } from "@/gen/sapphillon/v1/workflow_pb";
-import type { Workflow } from "@/gen/sapphillon/v1/workflow_pb";
+import { onWorkflowChange } from "@/lib/workflow-events";
+import { getQueryData, setQueryData } from "@/lib/query-cache";
+import { QK } from "@/lib/query-keys";
+import { useQuery } from "@/hooks/useQuery";
 
-export function useWorkflowsList() {
-  const [workflows, setWorkflows] = React.useState<Workflow[]>([]);
-  const [loading, setLoading] = React.useState(false);
-  const [error, setError] = React.useState<unknown>(undefined);
-  const [pageSize, setPageSize] = React.useState(20);
+export interface UseWorkflowsListOptions {
+  /** 1 ページの件数の初期値 */
+  initialPageSize?: number;
+  /** 並び順の初期値 */
+  initialOrderBy?: OrderByClause[];
+}
+
+// 同じ条件で一覧を表示する画面（Home・OmniBar など）は取得結果を共有する
+export function useWorkflowsList(options: UseWorkflowsListOptions = {}) {
+  const [pageSize, setPageSize] = React.useState(
+    options.initialPageSize ?? 20
+  );
   const [pageToken, setPageToken] = React.useState<string>("");
-  const [nextPageToken, setNextPageToken] = React.useState<string>("");
   const [filter, setFilter] = React.useState<Partial<ListWorkflowsFilter>>({
     displayName: "",
     workflowLanguage: WorkflowLanguage.UNSPECIFIED,
   });
-  const [orderBy, setOrderBy] = React.useState<OrderByClause[]>([]);
-
-  const fetchWorkflows = React.useCallback(async () => {
-    setLoading(true);
-    setError(undefined);
-    try {
-      // Build filter if needed
-      let filterObj: ListWorkflowsFilter | undefined = undefined;
-      if (
-        filter.displayName ||
-        filter.workflowLanguage !== WorkflowLanguage.UNSPECIFIED
-      ) {
-        filterObj = create(ListWorkflowsFilterSchema, {
-          displayName: filter.displayName || "",
-          workflowLanguage:
-            filter.workflowLanguage ?? WorkflowLanguage.UNSPECIFIED,
-        });
-      }
-
-      const request: ListWorkflowsRequest = create(ListWorkflowsRequestSchema, {
-        pageSize,
-        pageToken: pageToken || undefined,
-        filter: filterObj,
-        orderBy: orderBy.length > 0 ? orderBy : undefined,
-      });
-
-      const response: ListWorkflowsResponse =
-        await clients.workflow.listWorkflows(request);
-
-      setWorkflows(response.workflows || []);
-      setNextPageToken(response.nextPageToken || "");
-
-      // Check if there's an error in the status
-      if (response.status?.code !== 0 && response.status?.code !== undefined) {
-        throw new Error(response.status.message || "Failed to fetch workflows");
-      }
-    } catch (e) {
-      setError(e);
-      setWorkflows([]);
-      console.error("Failed to fetch workflows:", e);
-    } finally {
-      setLoading(false);
+  const [orderBy, setOrderBy] = React.useState<OrderByClause[]>(
+    options.initialOrderBy ?? []
+  );
+
+  // Build filter if needed
+  const hasFilter =
+    !!filter.displayName ||
+    filter.workflowLanguage !== WorkflowLanguage.UNSPECIFIED;
+
+  const queryKey = QK.workflow.list({
+    pageSize,
+    pageToken: pageToken || undefined,
+    displayName: hasFilter ? filter.displayName || "" : undefined,
+    workflowLanguage: hasFilter
+      ? filter.workflowLanguage ?? WorkflowLanguage.UNSPECIFIED
+      : undefined,
+    orderBy: orderBy.length > 0
+      ? orderBy.map((o) => ({ field: o.field, direction: o.direction }))
+      : undefined,
+  });
+
+  const fetchWorkflows = async () => {
+    const filterObj: ListWorkflowsFilter | undefined = hasFilter
+      ? create(ListWorkflowsFilterSchema, {
+        displayName: filter.displayName || "",
+        workflowLanguage:
+          filter.workflowLanguage ?? WorkflowLanguage.UNSPECIFIED,
+      })
+      : undefined;
+
+    const request: ListWorkflowsRequest = create(ListWorkflowsRequestSchema, {
+      pageSize,
+      pageToken: pageToken || undefined,
+      filter: filterObj,
+      orderBy: orderBy.length > 0 ? orderBy : undefined,
+    });
+
+    const response: ListWorkflowsResponse =
+      await clients.workflow.listWorkflows(request);
+
+    // Check if there's an error in the status
+    if (response.status?.code !== 0 && response.status?.code !== undefined) {
+      throw new Error(response.status.message || "Failed to fetch workflows");
     }
-  }, [pageSize, pageToken, filter, orderBy]);
+    return response;
+  };
+
+  const {
+    data,
+    error,
+    loading,
+    refetch: refetchQuery,
+  } = useQuery(queryKey, fetchWorkflows);
+
+  const workflows = React.useMemo(
+    () => (error ? [] : data?.workflows ?? []),
+    [data, error]
+  );
+  const nextPageToken = error ? "" : data?.nextPageToken ?? "";
 
   React.useEffect(() => {
-    fetchWorkflows();
-  }, [fetchWorkflows]);
+    if (error) console.error("Failed to fetch workflows:", error);
+  }, [error]);
 
   const refetch = React.useCallback(() => {
     setPageToken("");
-    fetchWorkflows();
-  }, [fetchWorkflows]);
+    refetchQuery().catch(() => {});
+  }, [refetchQuery]);
+
+  // 他の画面で削除されたワークフローは再取得を待たずに一覧から取り除く
+  // （再取得はキャッシュの無効化で行われる）
+  const queryHash = JSON.stringify(queryKey);
+  React.useEffect(
+    () =>
+      onWorkflowChange((change) => {
+        if (change.type !== "deleted") return;
+        const key = JSON.parse(queryHash);
+        const prev = getQueryData<ListWorkflowsResponse>(key);
+        if (!prev) return;
+        setQueryData(key, {
+          ...prev,
+          workflows: prev.workflows.filter((w) => w.id !== change.workflowId),
+        });
+      }),
+    [queryHash]
+  );
 
   const loadNextPage = React.useCallback(() => {
     if (nextPageToken) {
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview アプリ全体で共有するワークフローの実行キュー
+ *
+ * lib/run-queue のキューに、ワークフローを ID で実行する関数を組み合わせた
+ * インスタンスです。ワークフロー一覧からのまとめての実行・実行ページからの
+ * 手動実行・スケジュールによる実行のすべてがこのキューを通り、同時実行数の
+ * 上限を共有します。
+ *
+ * @module pages/workflows/workflow-run-queue
+ */
+
+import { Code, ConnectError } from "@connectrpc/connect";
+import { create } from "@bufbuild/protobuf";
+import i18n from "@/i18n";
+import { clients } from "@/lib/grpc-clients";
+import { emitWorkflowChange } from "@/lib/workflow-events";
+import { recordRunMetadata } from "@/lib/run-metadata";
+import { createRunQueue, loadRunConcurrency } from "@/lib/run-queue";
+import type {
+  QueuedRun,
+  RunExecutionResult,
+} from "@/lib/run-queue";
+import {
+  WorkflowSourceByIdSchema,
+  type WorkflowSourceById,
+} from "@/gen/sapphillon/v1/workflow_service_pb";
+import { getRunSkipReason, isRunSuccessful } from "./run-checks";
+
+/**
+ * キュー内の実行を 1 件実行
+ *
+ * 最新のワークフローを取得し、実行前チェックを通過した場合のみ最新の
+ * コードで実行します（キューでは確認を求めず、見送りとして記録します）。
+ * キューの既定の実行関数で、スケジュールによる実行でも使用します。
+ */
+export async function executeQueuedRun(
+  run: QueuedRun,
+  signal: AbortSignal
+): Promise<RunExecutionResult> {
+  const { workflow } = await clients.workflow.getWorkflow(
+    { workflowId: run.workflowId },
+    { signal }
+  );
+  const code = workflow?.workflowCode.at(-1);
+  if (!workflow || !code) {
+    return { status: "failed", message: i18n.t("runQueue.workflowNotFound") };
+  }
+
+  const skipReason = getRunSkipReason(workflow, code);
+  if (skipReason) {
+    return {
+      status: "skipped",
+      message: i18n.t(
+        skipReason === "diagnostics"
+          ? "runQueue.skippedDiagnostics"
+          : "runQueue.skippedConsent"
+      ),
+    };
+  }
+
+  try {
+    const startedAt = Date.now();
+    const res = await clients.workflow.runWorkflow(
+      {
+        byId: create(WorkflowSourceByIdSchema, {
+          workflowId: workflow.id,
+          workflowCodeId: code.id,
+        }) as WorkflowSourceById,
+      },
+      { signal, timeoutMs: run.timeoutMs || undefined }
+    );
+    recordRunMetadata(res.workflowResult?.id ?? "", {
+      durationMs: Date.now() - startedAt,
+      workflowCodeId: code.id,
+    });
+    return isRunSuccessful(res)
+      ? { status: "success" }
+      : { status: "failed", message: res.status?.message || undefined };
+  } catch (e) {
+    if (ConnectError.from(e).code === Code.DeadlineExceeded) {
+      return { status: "timeout" };
+    }
+    throw e;
+  } finally {
+    emitWorkflowChange({ type: "updated", workflowId: workflow.id });
+  }
+}
+
+/**
+ * ワークフローの実行キュー
+ */
+export const workflowRunQueue = createRunQueue(executeQueuedRun, {
+  concurrency: loadRunConcurrency(),
+});
@@ -1,4 +1,5 @@
 import {
+  LuChartColumn,
   LuHouse,
   LuInfo,
   LuPlugZap,
@@ -18,6 +19,7 @@ export const getRoutes = (t: (key: string) => string): AppRoute[] => [
   { path: "/home", key: "home", label: t("nav.home"), icon: LuHouse },
   { path: "/generate", key: "generate", label: t("nav.generate"), icon: LuSparkles },
   { path: "/workflows", key: "workflows", label: t("nav.workflows"), icon: LuWrench },
+  { path: "/analytics", key: "analytics", label: t("nav.analytics"), icon: LuChartColumn },
   { path: "/plugins", key: "plugins", label: t("nav.plugins"), icon: LuPlugZap },
   { path: "/settings", key: "settings", label: t("nav.settings"), icon: LuSettings },
   { path: "/about", key: "about", label: t("nav.about"), icon: LuInfo },
@@ -28,6 +30,7 @@ export const routes: AppRoute[] = [
   { path: "/home", key: "home", label: "Home", icon: LuHouse },
   { path: "/generate", key: "generate", label: "Generate", icon: LuSparkles },
   { path: "/workflows", key: "workflows", label: "Workflows", icon: LuWrench },
+  { path: "/analytics", key: "analytics", label: "Analytics", icon: LuChartColumn },
   { path: "/plugins", key: "plugins", label: "Plugins", icon: LuPlugZap },
   { path: "/settings", key: "settings", label: "Settings", icon: LuSettings },
   { path: "/about", key: "about", label: "About", icon: LuInfo },